@@ -15,14 +15,13 @@
  */
 import { tagResponse } from "../eli/tagger.js";
 import { validateLedger } from "../eli/validator.js";
-import type { EliLedger } from "../eli/tagger.js";
+import type { EliLedger, TagOptions } from "../eli/tagger.js";
+import type { IssueSeverity, RuleSet } from "../eli/rules.js";
 
-export type { EliLedger };
+export type { EliLedger, IssueSeverity, TagOptions };
 
 // ── Severity matches the "no ERROR issues" invariant required by E2E ─────────
 
-export type IssueSeverity = "ERROR" | "WARNING" | "INFO";
-
 export interface EliIssue {
   claimId: string;
   rule: string;
@@ -33,6 +32,8 @@ export interface EliIssue {
 export interface EliValidationResult {
   ok: boolean;
   issues: EliIssue[];
+  /** Rule pack the ledger was validated with (see src/eli/rules.ts) */
+  rulePack?: string;
 }
 
 // ── Public API ───────────────────────────────────────────────────────────────
@@ -45,28 +46,32 @@ export interface EliValidationResult {
  *   - every claim has id, type, span_refs
  *   - at least one claim has type FACT or INFERENCE
  */
-export function tagResponseToLedger(outputText: string): EliLedger {
-  return tagResponse(outputText);
+export function tagResponseToLedger(outputText: string, options?: TagOptions): EliLedger {
+  return tagResponse(outputText, options);
 }
 
 /**
  * Run semantic validation rules over an ELI ledger.
  *
- * Returns { ok: true } when no ERROR-level issues are found.
- * All violations from the underlying validator are mapped to severity ERROR.
+ * Returns { ok: true } when no ERROR-level issues are found.  Each issue keeps
+ * the severity its rule has in `ruleSet` (default: the "default" pack, where
+ * INFERENCE_WITHOUT_PREMISE and CONTRADICTION are WARNING and every other rule
+ * is ERROR).
  */
 export function validateLedgerSemantics(
   ledger: EliLedger,
-  sourceText: string
+  sourceText: string,
+  ruleSet?: RuleSet
 ): EliValidationResult {
-  const result = validateLedger(ledger, sourceText);
+  const result = validateLedger(ledger, sourceText, ruleSet);
   return {
     ok: result.passed,
     issues: result.violations.map((v) => ({
       claimId: v.claimId,
       rule: v.rule,
       detail: v.detail,
-      severity: "ERROR" as IssueSeverity,
+      severity: v.severity,
     })),
+    ...(result.rule_pack !== undefined ? { rulePack: result.rule_pack } : {}),
   };
 }
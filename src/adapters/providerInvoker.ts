@@ -0,0 +1,81 @@
+/**
+ * Provider invokers – one `LLMInvoker` (prompt in, response text out) per
+ * provider, for callers that feed the orchestrator pipeline: the console
+ * server's /api/run and the batch runner.
+ *
+ * OpenAI goes through the halo-receipts contract; Anthropic and Gemini call
+ * their adapters directly.
+ */
+import { invokeLLMWithHaloAdapter } from "./haloReceiptsAdapter.js";
+import { invokeAnthropicLLM } from "./anthropicAdapter.js";
+import { invokeGeminiLLM } from "./geminiAdapter.js";
+import type { LLMInvoker } from "../orchestrator.js";
+
+export const LLM_PROVIDERS = ["openai", "anthropic", "gemini"] as const;
+
+export type LLMProvider = (typeof LLM_PROVIDERS)[number];
+
+export interface ProviderInvokerArgs {
+  provider: LLMProvider;
+  model: string;
+  /** Anthropic and Gemini only */
+  maxTokens?: number;
+  /** Anthropic and Gemini only */
+  temperature?: number;
+  /** OpenAI only (default "/chat/completions") */
+  endpoint?: "/chat/completions" | "/responses";
+}
+
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  return typeof value === "string" && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** The model used when a request names none, per provider. */
+export function defaultModel(provider: LLMProvider): string {
+  if (provider === "anthropic") {
+    return process.env.ANTHROPIC_MODEL ?? "claude-3-5-sonnet-20241022";
+  }
+
+  if (provider === "gemini") {
+    return process.env.GEMINI_MODEL ?? "gemini-1.5-flash";
+  }
+
+  return process.env.E2E_MODEL ?? "gpt-4.1-mini";
+}
+
+/** Throw when the provider's API key is not set. */
+export function ensureProviderSecrets(provider: LLMProvider): void {
+  if (provider === "openai" && !process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is required when provider=openai");
+  }
+  if (provider === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
+    throw new Error("ANTHROPIC_API_KEY is required when provider=anthropic");
+  }
+  if (provider === "gemini" && !process.env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is required when provider=gemini");
+  }
+}
+
+export function createProviderInvoker(args: ProviderInvokerArgs): LLMInvoker {
+  const { provider, model, maxTokens, temperature } = args;
+
+  return async (promptText: string): Promise<string> => {
+    if (provider === "openai") {
+      const adapterResult = await invokeLLMWithHaloAdapter({
+        endpoint: args.endpoint ?? "/chat/completions",
+        model,
+        promptOrMessages: promptText,
+      });
+      return adapterResult.outputText;
+    }
+
+    const messages = [{ role: "user", content: promptText }];
+    if (provider === "anthropic") {
+      const anthropicResult = await invokeAnthropicLLM({ model, messages, maxTokens, temperature });
+      return anthropicResult.outputText;
+    }
+
+    const geminiResult = await invokeGeminiLLM({ model, messages, maxTokens, temperature });
+    return geminiResult.outputText;
+  };
+}
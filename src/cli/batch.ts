@@ -0,0 +1,572 @@
+#!/usr/bin/env node
+/**
+ * Batch CLI – run a JSONL prompt set through the HALO + ELI pipeline.
+ *
+ * Usage:
+ *   npm run batch -- prompts.jsonl
+ *   npm run batch -- prompts.jsonl --out-dir out/batch/nightly --concurrency 8 --rate-limit openai=60
+ *   npm run batch -- prompts.jsonl --out-dir out/batch/nightly --resume
+ *   npm run batch -- requests.jsonl --prompt-field body --id-field request_id
+ *
+ * One JSON object per line; only the prompt is required:
+ *
+ *   {"id": "tides-1", "prompt": "...", "provider": "anthropic", "model": "...",
+ *    "params": {"maxTokens": 512, "temperature": 0, "endpoint": "/responses"}}
+ *
+ * Lines without an id are named line-<n>.  --provider and --model set the
+ * defaults (LLM_PROVIDER / the provider's default model otherwise); --model
+ * only applies to lines on the default provider, the others get their own
+ * provider's default model.
+ *
+ * Up to --concurrency items (default 4) run at once; --rate-limit
+ * <provider>=<requests per minute> spaces out the calls to one provider.
+ * Each finished item is written to <out-dir>/items/<id>.json and recorded in
+ * <out-dir>/batch_progress.jsonl, so an interrupted batch continues where it
+ * stopped with --resume: finished items whose prompt is unchanged are
+ * skipped, errored ones run again.  Without --resume an out-dir that already
+ * has progress is refused.
+ *
+ * With a policy (--policy or HALO_POLICY_FILE, see src/halo/policy.ts),
+ * rejected items are not written and quarantined ones go to
+ * <out-dir>/quarantine/.  --rule-pack and --rules-config choose the ELI rules
+ * (HALO_ELI_RULE_PACK / HALO_ELI_RULES_FILE, see src/eli/rules.ts);
+ * --gazetteer names the entities claims are annotated with (HALO_ELI_GAZETTEER,
+ * see src/eli/annotations.ts).
+ *
+ * The run ends with <out-dir>/batch_summary.json: counts by status, by
+ * provider and by validation rule.  Exits 1 unless every item passed.
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { createHash } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import { runPipeline, type LLMInvoker } from "../orchestrator.js";
+import { loadKeyring, type Keyring } from "../halo/keyring.js";
+import { loadTsaKeyring, resolveTimestampAuthority } from "../halo/timestamp.js";
+import { evaluatePolicy, resolvePolicy, type Policy, type PolicyDecision } from "../halo/policy.js";
+import { resolveRuleSet, type RuleSet } from "../eli/rules.js";
+import { resolveGazetteer, type Gazetteer } from "../eli/annotations.js";
+import { scanForLeaks } from "../utils/leakScan.js";
+import {
+  createProviderInvoker,
+  defaultModel,
+  ensureProviderSecrets,
+  isLLMProvider,
+  LLM_PROVIDERS,
+  type LLMProvider,
+} from "../adapters/providerInvoker.js";
+
+export const BATCH_PROGRESS_FILE = "batch_progress.jsonl";
+export const BATCH_SUMMARY_FILE = "batch_summary.json";
+
+export interface BatchItemParams {
+  maxTokens?: number;
+  temperature?: number;
+  endpoint?: "/chat/completions" | "/responses";
+}
+
+export interface BatchItem {
+  id: string;
+  /** 1-based line number in the input file */
+  line: number;
+  prompt: string;
+  provider: LLMProvider;
+  model: string;
+  params: BatchItemParams;
+}
+
+export type BatchItemStatus = "passed" | "failed" | "quarantined" | "rejected" | "error";
+
+/** One line of batch_progress.jsonl. */
+export interface BatchItemRecord {
+  id: string;
+  prompt_sha256: string;
+  provider: LLMProvider;
+  model: string;
+  status: BatchItemStatus;
+  /** Item file, relative to the out-dir; absent for rejected and errored items */
+  artifact?: string;
+  /** Validation issues by rule */
+  rules: Record<string, number>;
+  error?: string;
+  finished_at: string;
+}
+
+type StatusCounts = Record<BatchItemStatus, number>;
+
+export interface BatchSummary {
+  input?: string;
+  started_at: string;
+  finished_at: string;
+  total: number;
+  /** Items skipped because an earlier run finished them */
+  resumed: number;
+  counts: StatusCounts;
+  by_provider: Record<string, StatusCounts>;
+  /** Items with at least one issue for the rule, and the issue count */
+  by_rule: Record<string, { items: number; issues: number }>;
+  items: BatchItemRecord[];
+}
+
+export interface BatchOptions {
+  outDir: string;
+  concurrency: number;
+  /** Requests per minute, by provider */
+  rateLimits: Partial<Record<LLMProvider, number>>;
+  resume: boolean;
+  keyring: Keyring;
+  invokerFor(item: BatchItem): LLMInvoker;
+  policy?: Policy;
+  /** ELI rules for every item (default: the "default" pack) */
+  eliRules?: RuleSet;
+  /** Entity names for claim annotations */
+  gazetteer?: Gazetteer;
+  /** Recorded in the summary */
+  input?: string;
+  /** Injected by tests */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface BatchArgs {
+  inputPath: string;
+  outDir: string;
+  concurrency: number;
+  rateLimits: Partial<Record<LLMProvider, number>>;
+  resume: boolean;
+  provider: LLMProvider;
+  model?: string;
+  promptField: string;
+  idField: string;
+  policyFile?: string;
+  rulePack?: string;
+  rulesConfig?: string;
+  gazetteer?: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseBatchArgs(argv: string[]): BatchArgs {
+  const args = argv.slice(2);
+  let inputPath: string | undefined;
+  let outDir = "out/batch";
+  let concurrency = 4;
+  const rateLimits: Partial<Record<LLMProvider, number>> = {};
+  let resume = false;
+  let provider = (process.env.LLM_PROVIDER as LLMProvider | undefined) ?? "openai";
+  let model: string | undefined;
+  let promptField = "prompt";
+  let idField = "id";
+  let policyFile: string | undefined;
+  let rulePack: string | undefined;
+  let rulesConfig: string | undefined;
+  let gazetteer: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--out-dir" && args[i + 1]) {
+      outDir = args[++i];
+    } else if (arg === "--concurrency" && args[i + 1]) {
+      const parsed = Number(args[++i]);
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new Error(`--concurrency must be a positive integer, got: ${args[i]}`);
+      }
+      concurrency = parsed;
+    } else if (arg === "--rate-limit" && args[i + 1]) {
+      const [name, perMinute] = args[++i].split("=");
+      const parsed = Number(perMinute);
+      if (!isLLMProvider(name) || !Number.isFinite(parsed) || parsed <= 0) {
+        throw new Error(`--rate-limit must be <${LLM_PROVIDERS.join("|")}>=<requests per minute>, got: ${args[i]}`);
+      }
+      rateLimits[name] = parsed;
+    } else if (arg === "--resume") {
+      resume = true;
+    } else if (arg === "--provider" && args[i + 1]) {
+      const p = args[++i];
+      if (!isLLMProvider(p)) {
+        throw new Error(`--provider must be "openai", "anthropic", or "gemini", got: ${p}`);
+      }
+      provider = p;
+    } else if (arg === "--model" && args[i + 1]) {
+      model = args[++i];
+    } else if (arg === "--prompt-field" && args[i + 1]) {
+      promptField = args[++i];
+    } else if (arg === "--id-field" && args[i + 1]) {
+      idField = args[++i];
+    } else if (arg === "--policy" && args[i + 1]) {
+      policyFile = args[++i];
+    } else if (arg === "--rule-pack" && args[i + 1]) {
+      rulePack = args[++i];
+    } else if (arg === "--rules-config" && args[i + 1]) {
+      rulesConfig = args[++i];
+    } else if (arg === "--gazetteer" && args[i + 1]) {
+      gazetteer = args[++i];
+    } else if (!arg.startsWith("--")) {
+      inputPath = arg;
+    }
+  }
+
+  if (!inputPath) {
+    throw new Error("Usage: batch <prompts.jsonl> [--out-dir out/batch] [--concurrency 4] [--rate-limit openai=60] [--resume]");
+  }
+
+  return {
+    inputPath: resolve(inputPath),
+    outDir: resolve(outDir),
+    concurrency,
+    rateLimits,
+    resume,
+    provider,
+    model,
+    promptField,
+    idField,
+    policyFile,
+    rulePack,
+    rulesConfig,
+    gazetteer,
+  };
+}
+
+function parseParams(value: unknown, where: string): BatchItemParams {
+  if (value === undefined) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${where}: params must be an object`);
+  }
+  const { maxTokens, temperature, endpoint } = value as Record<string, unknown>;
+  if (maxTokens !== undefined && (typeof maxTokens !== "number" || !(maxTokens > 0))) {
+    throw new Error(`${where}: params.maxTokens must be a positive number`);
+  }
+  if (temperature !== undefined && typeof temperature !== "number") {
+    throw new Error(`${where}: params.temperature must be a number`);
+  }
+  if (endpoint !== undefined && endpoint !== "/chat/completions" && endpoint !== "/responses") {
+    throw new Error(`${where}: params.endpoint must be "/chat/completions" or "/responses"`);
+  }
+  return {
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(endpoint !== undefined ? { endpoint } : {}),
+  };
+}
+
+/**
+ * Parse a JSONL prompt set.  Blank lines are skipped; anything else that is
+ * not an object with a non-empty prompt, or repeats an id, throws.
+ */
+export function readBatchItems(
+  text: string,
+  options: { provider?: LLMProvider; model?: string; promptField?: string; idField?: string } = {}
+): BatchItem[] {
+  const promptField = options.promptField ?? "prompt";
+  const idField = options.idField ?? "id";
+  const defaultProvider = options.provider ?? "openai";
+  const items: BatchItem[] = [];
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const where = `line ${line}`;
+    if (raw.trim() === "") return;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`${where}: invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+    }
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`${where}: expected a JSON object`);
+    }
+    const record = entry as Record<string, unknown>;
+
+    const prompt = record[promptField];
+    if (typeof prompt !== "string" || prompt.trim() === "") {
+      throw new Error(`${where}: "${promptField}" must be a non-empty string`);
+    }
+    const provider = record.provider ?? defaultProvider;
+    if (!isLLMProvider(provider)) {
+      throw new Error(`${where}: provider must be "openai", "anthropic", or "gemini", got: ${String(provider)}`);
+    }
+    if (record.model !== undefined && typeof record.model !== "string") {
+      throw new Error(`${where}: model must be a string`);
+    }
+
+    const rawId = record[idField];
+    const id = (typeof rawId === "string" || typeof rawId === "number" ? String(rawId) : `line-${line}`).replace(
+      /[^A-Za-z0-9._-]/g,
+      "_"
+    );
+    if (seen.has(id)) {
+      throw new Error(`${where}: duplicate id ${id}`);
+    }
+    seen.add(id);
+
+    items.push({
+      id,
+      line,
+      prompt: prompt.trim(),
+      provider,
+      model:
+        (record.model as string | undefined) ??
+        (provider === defaultProvider ? options.model : undefined) ??
+        defaultModel(provider),
+      params: parseParams(record.params, where),
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Space calls to each provider at most `perMinute` a minute.  Slots are
+ * reserved when `acquire` is called, so concurrent callers queue up in order.
+ */
+export function createRateLimiter(
+  limits: Partial<Record<string, number>>,
+  clock: { now: () => number; sleep: (ms: number) => Promise<void> } = { now: Date.now, sleep }
+): (provider: string) => Promise<void> {
+  const nextSlot = new Map<string, number>();
+  return async (provider) => {
+    const perMinute = limits[provider];
+    if (!perMinute) return;
+    const now = clock.now();
+    const slot = Math.max(now, nextSlot.get(provider) ?? 0);
+    nextSlot.set(provider, slot + 60_000 / perMinute);
+    if (slot > now) await clock.sleep(slot - now);
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((done) => setTimeout(done, ms));
+}
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function countRules(issues: ReadonlyArray<{ rule: string }>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const issue of issues) counts[issue.rule] = (counts[issue.rule] ?? 0) + 1;
+  return counts;
+}
+
+/** The last record per item id, from an earlier run's progress file. */
+function readProgress(path: string): Map<string, BatchItemRecord> {
+  const records = new Map<string, BatchItemRecord>();
+  if (!existsSync(path)) return records;
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      const record = JSON.parse(line) as BatchItemRecord;
+      records.set(record.id, record);
+    } catch {
+      // A line cut short by the interruption; that item runs again.
+    }
+  }
+  return records;
+}
+
+function isFinished(record: BatchItemRecord | undefined, item: BatchItem, outDir: string): boolean {
+  if (!record || record.status === "error" || record.prompt_sha256 !== sha256Hex(item.prompt)) return false;
+  return record.artifact === undefined || existsSync(join(outDir, record.artifact));
+}
+
+function emptyCounts(): StatusCounts {
+  return { passed: 0, failed: 0, quarantined: 0, rejected: 0, error: 0 };
+}
+
+export function summarizeBatch(
+  records: BatchItemRecord[],
+  meta: { input?: string; started_at: string; resumed: number }
+): BatchSummary {
+  const counts = emptyCounts();
+  const byProvider: Record<string, StatusCounts> = {};
+  const byRule: Record<string, { items: number; issues: number }> = {};
+  for (const record of records) {
+    counts[record.status] += 1;
+    (byProvider[record.provider] ??= emptyCounts())[record.status] += 1;
+    for (const [rule, issues] of Object.entries(record.rules)) {
+      const entry = (byRule[rule] ??= { items: 0, issues: 0 });
+      entry.items += 1;
+      entry.issues += issues;
+    }
+  }
+  return {
+    ...(meta.input !== undefined ? { input: meta.input } : {}),
+    started_at: meta.started_at,
+    finished_at: new Date().toISOString(),
+    total: records.length,
+    resumed: meta.resumed,
+    counts,
+    by_provider: byProvider,
+    by_rule: byRule,
+    items: records,
+  };
+}
+
+// ── Batch ────────────────────────────────────────────────────────────────────
+
+async function runItem(item: BatchItem, options: BatchOptions): Promise<BatchItemRecord> {
+  const base = { id: item.id, prompt_sha256: sha256Hex(item.prompt), provider: item.provider, model: item.model };
+  try {
+    const result = await runPipeline(item.prompt, options.invokerFor(item), options.keyring, {
+      tsa: resolveTimestampAuthority(),
+      tsaKeyring: loadTsaKeyring(),
+      eliRules: options.eliRules,
+      gazetteer: options.gazetteer,
+    });
+    if (!result.ok) {
+      return { ...base, status: "error", rules: {}, error: result.error, finished_at: new Date().toISOString() };
+    }
+    const leakScan = scanForLeaks(
+      [
+        { field: "prompt", value: item.prompt },
+        { field: "response", value: result.llmResponse },
+        { field: "receipt", value: result.receipt },
+      ],
+      [process.env.OPENAI_API_KEY, process.env.ANTHROPIC_API_KEY, process.env.GEMINI_API_KEY].filter(
+        (value): value is string => typeof value === "string" && value.length > 0
+      )
+    );
+    const decision: PolicyDecision | undefined = options.policy
+      ? evaluatePolicy(options.policy, { receiptValid: result.verification.valid, validation: result.validation, leakScan })
+      : undefined;
+
+    const rules = countRules(result.validation.violations);
+    const status: BatchItemStatus =
+      decision?.action === "reject"
+        ? "rejected"
+        : decision?.action === "quarantine"
+          ? "quarantined"
+          : result.validation.passed && result.verification.valid && leakScan.ok
+            ? "passed"
+            : "failed";
+    if (status === "rejected") {
+      return { ...base, status, rules, finished_at: new Date().toISOString() };
+    }
+
+    const artifact = join(status === "quarantined" ? "quarantine" : "items", `${item.id}.json`);
+    const payload = {
+      batchItem: { id: item.id, line: item.line, status },
+      provider: item.provider,
+      model: item.model,
+      params: item.params,
+      prompt: item.prompt,
+      outputText: result.llmResponse,
+      receipt: result.receipt,
+      verification: result.verification,
+      ledger: result.ledger,
+      semanticValidation: result.validation,
+      leakScan,
+      stages: result.stages,
+      ...(decision ? { policy: decision } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    mkdirSync(join(options.outDir, status === "quarantined" ? "quarantine" : "items"), { recursive: true });
+    writeFileSync(join(options.outDir, artifact), `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+    return { ...base, status, artifact, rules, finished_at: payload.createdAt };
+  } catch (err) {
+    return { ...base, status: "error", rules: {}, error: errorMessage(err), finished_at: new Date().toISOString() };
+  }
+}
+
+/**
+ * Run `items` with bounded concurrency and per-provider rate limits, append
+ * each result to the progress file as it finishes, and write the summary.
+ * Item failures are recorded, not thrown.
+ */
+export async function executeBatch(items: BatchItem[], options: BatchOptions): Promise<BatchSummary> {
+  const startedAt = new Date().toISOString();
+  const progressPath = join(options.outDir, BATCH_PROGRESS_FILE);
+  if (existsSync(progressPath) && !options.resume) {
+    throw new Error(`${options.outDir} already has batch progress; pass --resume to continue it or choose another --out-dir`);
+  }
+  mkdirSync(options.outDir, { recursive: true });
+
+  const previous = options.resume ? readProgress(progressPath) : new Map<string, BatchItemRecord>();
+  const done = new Map<string, BatchItemRecord>();
+  for (const item of items) {
+    const record = previous.get(item.id);
+    if (record && isFinished(record, item, options.outDir)) done.set(item.id, record);
+  }
+  const resumed = done.size;
+  const pending = items.filter((item) => !done.has(item.id));
+
+  const acquire = createRateLimiter(options.rateLimits, {
+    now: options.now ?? Date.now,
+    sleep: options.sleep ?? sleep,
+  });
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < pending.length) {
+      const item = pending[cursor++];
+      await acquire(item.provider);
+      const record = await runItem(item, options);
+      appendFileSync(progressPath, `${JSON.stringify(record)}\n`, "utf8");
+      done.set(item.id, record);
+      console.log(`[batch] ${record.status.padEnd(11)} ${item.id}${record.error ? ` – ${record.error}` : ""}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, pending.length) }, worker));
+
+  const summary = summarizeBatch(
+    items.map((item) => done.get(item.id)!),
+    { input: options.input, started_at: startedAt, resumed }
+  );
+  writeFileSync(join(options.outDir, BATCH_SUMMARY_FILE), `${JSON.stringify(summary, null, 2)}\n`, "utf8");
+  return summary;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runBatch(argv: string[]): Promise<boolean> {
+  const opts = parseBatchArgs(argv);
+  if (!existsSync(opts.inputPath)) {
+    throw new Error(`Prompt set not found: ${opts.inputPath}`);
+  }
+  const items = readBatchItems(readFileSync(opts.inputPath, "utf8"), opts);
+  for (const provider of new Set(items.map((item) => item.provider))) {
+    ensureProviderSecrets(provider);
+  }
+
+  console.log(`[batch] ${items.length} prompt(s) from ${opts.inputPath}, concurrency ${opts.concurrency}`);
+  const summary = await executeBatch(items, {
+    outDir: opts.outDir,
+    concurrency: opts.concurrency,
+    rateLimits: opts.rateLimits,
+    resume: opts.resume,
+    keyring: loadKeyring(),
+    invokerFor: (item) => createProviderInvoker({ provider: item.provider, model: item.model, ...item.params }),
+    policy: resolvePolicy(opts.policyFile),
+    eliRules: resolveRuleSet({ pack: opts.rulePack, configFile: opts.rulesConfig }),
+    gazetteer: resolveGazetteer(opts.gazetteer),
+    input: opts.inputPath,
+  });
+
+  const { counts } = summary;
+  console.log(
+    `\n[batch] ${summary.total} item(s): ${counts.passed} passed, ${counts.failed} failed, ` +
+      `${counts.quarantined} quarantined, ${counts.rejected} rejected, ${counts.error} error` +
+      (summary.resumed > 0 ? ` (${summary.resumed} from an earlier run)` : "")
+  );
+  for (const [rule, { items: affected, issues }] of Object.entries(summary.by_rule)) {
+    console.log(`[batch]   ${rule.padEnd(22)} ${issues} issue(s) in ${affected} item(s)`);
+  }
+  console.log(`[batch] Summary written to ${join(opts.outDir, BATCH_SUMMARY_FILE)}`);
+  return counts.passed === summary.total;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runBatch(process.argv)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err: unknown) => {
+      console.error("[batch] ERROR:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
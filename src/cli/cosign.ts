@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Cosign CLI – add a signature to an existing master receipt.
+ *
+ * Usage:
+ *   npm run cosign -- --receipt out/valet-checkpoints/<slug>/master_receipt.json --role reviewer
+ *   npm run cosign -- --receipt checkpoint.json --role auditor --out checkpoint.cosigned.json
+ *   npm run cosign -- --receipt master_receipt.json --evidence evidence_pack.json --role legal
+ *
+ * `--receipt` is a master receipt or a checkpoint bundle
+ * ({ master_receipt, evidence_pack }); the cosigned document is written back in
+ * place unless --out is given.  The cosigning key comes from the signer backend
+ * (HALO_SIGNER, see src/halo/signingBackend.ts), so each co-signer runs this
+ * with their own key.
+ *
+ * When the evidence pack is available (in the bundle or via --evidence) the
+ * checkpoint is verified first, against RECEIPT_VERIFY_KEY, and a checkpoint
+ * that does not verify is not cosigned.  Verify a threshold of signers with
+ * `npm run verify -- --threshold <n> --signer-key <pem> ...`.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { computeKeyId } from "../halo/keyring.js";
+import { isEncryptedEvidencePack } from "../halo/evidenceEncryption.js";
+import { resolveSigner } from "../halo/signingBackend.js";
+import {
+  cosignMasterReceipt,
+  verifyCheckpointOffline,
+  type EvidencePack,
+  type MasterReceipt,
+} from "./ingestValet.js";
+
+interface CosignArgs {
+  receiptPath: string;
+  role: string;
+  outPath: string;
+  evidencePath?: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseCosignArgs(argv: string[]): CosignArgs {
+  const args = argv.slice(2);
+  let receiptPath: string | undefined;
+  let role: string | undefined;
+  let outPath: string | undefined;
+  let evidencePath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--receipt" && args[i + 1]) {
+      receiptPath = args[++i];
+    } else if (arg === "--role" && args[i + 1]) {
+      role = args[++i];
+    } else if (arg === "--out" && args[i + 1]) {
+      outPath = args[++i];
+    } else if (arg === "--evidence" && args[i + 1]) {
+      evidencePath = args[++i];
+    }
+  }
+
+  if (!receiptPath) {
+    throw new Error("--receipt <master_receipt.json | checkpoint bundle> is required.");
+  }
+  if (!role) {
+    throw new Error("--role <role> is required (e.g. reviewer).");
+  }
+  return {
+    receiptPath: resolve(receiptPath),
+    role,
+    outPath: resolve(outPath ?? receiptPath),
+    evidencePath: evidencePath ? resolve(evidencePath) : undefined,
+  };
+}
+
+function readJson(path: string): Record<string, unknown> {
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as Record<string, unknown>;
+  } catch (err) {
+    throw new Error(`Cannot read JSON file: ${path}\n  ${String(err)}`);
+  }
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runCosign(argv: string[]): Promise<boolean> {
+  const opts = parseCosignArgs(argv);
+  const document = readJson(opts.receiptPath);
+  const isBundle = Boolean(document.master_receipt && typeof document.master_receipt === "object");
+  const receipt = (isBundle ? document.master_receipt : document) as unknown as MasterReceipt;
+  if (typeof receipt.receipt_id !== "string" || typeof receipt.signature !== "string") {
+    throw new Error(`Not a master receipt or checkpoint bundle: ${opts.receiptPath}`);
+  }
+
+  const evidence = opts.evidencePath ? readJson(opts.evidencePath) : isBundle ? document.evidence_pack : undefined;
+  if (evidence && !isEncryptedEvidencePack(evidence)) {
+    const checked = verifyCheckpointOffline({
+      masterReceipt: receipt,
+      evidencePack: evidence as unknown as EvidencePack,
+      verifyKeyPem: process.env.RECEIPT_VERIFY_KEY,
+    });
+    if (!checked.ok) {
+      console.error(`[cosign] Checkpoint does not verify, not cosigning: ${checked.reason}`);
+      return false;
+    }
+    console.log("[cosign] Checkpoint verified");
+  } else {
+    console.log("[cosign] No plaintext evidence pack given; cosigning the receipt envelope unchecked");
+  }
+
+  const signer = resolveSigner();
+  if (!signer) {
+    throw new Error(
+      "A cosigning key is required: set RECEIPT_SIGNING_KEY, RECEIPT_SIGNING_KEY_FILE, HALO_SIGNER_COMMAND or HALO_SIGNER_SOCKET."
+    );
+  }
+  const cosigned = await cosignMasterReceipt(receipt, signer, opts.role);
+  const output = isBundle ? { ...document, master_receipt: cosigned } : cosigned;
+
+  mkdirSync(dirname(opts.outPath), { recursive: true });
+  writeFileSync(opts.outPath, `${JSON.stringify(output, null, 2)}\n`, "utf8");
+
+  const keyId = computeKeyId(await signer.publicKey());
+  console.log(`[cosign] ${receipt.receipt_id} cosigned as ${opts.role} by key_id ${keyId} (${signer.name})`);
+  console.log(`[cosign]   cosignatures: ${cosigned.cosignatures?.length ?? 0} besides the primary signature`);
+  console.log(`[cosign] Written to ${opts.outPath}`);
+  return true;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runCosign(process.argv)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err: unknown) => {
+      console.error("[cosign] ERROR:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
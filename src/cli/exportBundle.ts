@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+/**
+ * Export-bundle CLI – pack a checkpoint into one self-describing file for
+ * offline third parties.
+ *
+ * Usage:
+ *   npm run export-bundle -- dist/<slug>/halo_checkpoint
+ *   npm run export-bundle -- --receipt master_receipt.json --evidence evidence_pack.json --out audit/receipt.bundle
+ *   npm run export-bundle -- dist/<slug>/halo_checkpoint --fingerprint-only
+ *
+ * A directory argument picks up master_receipt.json, evidence_pack.json or
+ * evidence_pack.enc.json, and attestation.dsse.json from an ingest-valet
+ * output directory.  The bundle (see src/halo/receiptBundle.ts) is written to
+ * <dir>/receipt.bundle unless --out is given.
+ *
+ * The checkpoint key is RECEIPT_VERIFY_KEY, or the public key of the
+ * configured signer backend.  With --fingerprint-only the bundle names the key
+ * by key_id only, and verifiers must supply the key themselves.  A plaintext
+ * checkpoint must verify before it is exported; an encrypted evidence pack must
+ * match the receipt's evidence_ciphertext_hash.
+ *
+ * Verify the result with `npm run verify -- --artifact receipt.bundle` or load
+ * it in the Evidence Inspector.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { ATTESTATION_FILE } from "../halo/attestation.js";
+import { checkCiphertextBinding, isEncryptedEvidencePack } from "../halo/evidenceEncryption.js";
+import { buildReceiptBundle, RECEIPT_BUNDLE_FILE, type BundleFile } from "../halo/receiptBundle.js";
+import { masterVerifyKey } from "./interop.js";
+import {
+  BATCH_DOMAIN_PREFIX,
+  COSIGNATURE_DOMAIN_PREFIX,
+  DOMAIN_PREFIX,
+  SIGNED_ENVELOPE_FIELDS,
+  verifyCheckpointOffline,
+  type EvidencePack,
+  type MasterReceipt,
+} from "./ingestValet.js";
+
+interface ExportBundleArgs {
+  receiptPath: string;
+  evidencePath?: string;
+  attestationPath?: string;
+  outPath: string;
+  fingerprintOnly: boolean;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseExportBundleArgs(argv: string[]): ExportBundleArgs {
+  const args = argv.slice(2);
+  let dir: string | undefined;
+  let receiptPath: string | undefined;
+  let evidencePath: string | undefined;
+  let attestationPath: string | undefined;
+  let outPath: string | undefined;
+  let fingerprintOnly = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--receipt" && args[i + 1]) {
+      receiptPath = args[++i];
+    } else if (arg === "--evidence" && args[i + 1]) {
+      evidencePath = args[++i];
+    } else if (arg === "--attestation" && args[i + 1]) {
+      attestationPath = args[++i];
+    } else if (arg === "--out" && args[i + 1]) {
+      outPath = args[++i];
+    } else if (arg === "--fingerprint-only") {
+      fingerprintOnly = true;
+    } else if (!arg.startsWith("--")) {
+      dir = arg;
+    }
+  }
+
+  if (dir) {
+    const inDir = (name: string) => (existsSync(join(dir!, name)) ? join(dir!, name) : undefined);
+    receiptPath ??= join(dir, "master_receipt.json");
+    evidencePath ??= inDir("evidence_pack.json") ?? inDir("evidence_pack.enc.json");
+    attestationPath ??= inDir(ATTESTATION_FILE);
+  }
+  if (!receiptPath) {
+    throw new Error("Usage: export-bundle <checkpoint dir> | --receipt <master_receipt.json> --evidence <evidence_pack.json>");
+  }
+  if (!evidencePath) {
+    throw new Error("An evidence pack is required (--evidence <evidence_pack.json | evidence_pack.enc.json>).");
+  }
+
+  return {
+    receiptPath: resolve(receiptPath),
+    evidencePath: resolve(evidencePath),
+    attestationPath: attestationPath ? resolve(attestationPath) : undefined,
+    outPath: resolve(outPath ?? join(dirname(receiptPath), RECEIPT_BUNDLE_FILE)),
+    fingerprintOnly,
+  };
+}
+
+function readText(path: string): string {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (err) {
+    throw new Error(`Cannot read file: ${path}\n  ${String(err)}`);
+  }
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runExportBundle(argv: string[]): Promise<boolean> {
+  const opts = parseExportBundleArgs(argv);
+  const receiptText = readText(opts.receiptPath);
+  const evidenceText = readText(opts.evidencePath!);
+  const receipt = JSON.parse(receiptText) as MasterReceipt;
+  const evidence = JSON.parse(evidenceText) as unknown;
+
+  const publicKeyPem = await masterVerifyKey();
+  if (!publicKeyPem) {
+    throw new Error("The checkpoint key is required: set RECEIPT_VERIFY_KEY or a signer backend (HALO_SIGNER).");
+  }
+
+  const encrypted = isEncryptedEvidencePack(evidence);
+  const checked = encrypted
+    ? checkCiphertextBinding(receipt, evidence)
+    : verifyCheckpointOffline({ masterReceipt: receipt, evidencePack: evidence as EvidencePack, verifyKeyPem: publicKeyPem });
+  if (!checked.ok) {
+    console.error(`[export-bundle] Checkpoint does not verify, not exporting: ${checked.reason}`);
+    return false;
+  }
+
+  const files: BundleFile[] = [
+    { path: basename(opts.receiptPath), role: "master_receipt", content: receiptText },
+    {
+      path: basename(opts.evidencePath!),
+      role: encrypted ? "encrypted_evidence_pack" : "evidence_pack",
+      content: evidenceText,
+    },
+    ...(opts.attestationPath
+      ? [{ path: basename(opts.attestationPath), role: "attestation" as const, content: readText(opts.attestationPath) }]
+      : []),
+  ];
+  const bundle = buildReceiptBundle({
+    files,
+    signing: {
+      algorithm: "Ed25519",
+      domain_prefix: DOMAIN_PREFIX,
+      batch_domain_prefix: BATCH_DOMAIN_PREFIX,
+      cosignature_domain_prefix: COSIGNATURE_DOMAIN_PREFIX,
+      envelope_fields: [...SIGNED_ENVELOPE_FIELDS],
+    },
+    publicKeyPem,
+    fingerprintOnly: opts.fingerprintOnly,
+  });
+
+  mkdirSync(dirname(opts.outPath), { recursive: true });
+  writeFileSync(opts.outPath, `${JSON.stringify(bundle, null, 2)}\n`, "utf8");
+
+  console.log(`[export-bundle] ${bundle.receipt_id}`);
+  for (const entry of bundle.manifest) {
+    console.log(`[export-bundle]   ${entry.role.padEnd(23)} ${entry.path} sha256=${entry.sha256}`);
+  }
+  console.log(`[export-bundle]   key_id ${bundle.signing.key_id}${opts.fingerprintOnly ? " (fingerprint only)" : ""}`);
+  const proofs = Object.keys(bundle.proofs);
+  console.log(`[export-bundle]   proofs: ${proofs.length > 0 ? proofs.join(", ") : "(none)"}`);
+  console.log(`[export-bundle] Bundle written to ${opts.outPath}`);
+  return true;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runExportBundle(process.argv)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err: unknown) => {
+      console.error("[export-bundle] ERROR:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+/**
+ * Fan-out CLI – send one prompt to several providers and compare their claims.
+ *
+ * Usage:
+ *   npm run fan-out -- --prompt "Explain what causes ocean tides."
+ *   npm run fan-out -- --input-file prompt.txt --target openai:gpt-4.1-mini --target gemini:gemini-2.5-flash
+ *   npm run fan-out -- --prompt "..." --threshold 0.4 --out-dir out/fan-out
+ *
+ * Without --target, every provider whose API key is set (OPENAI_API_KEY,
+ * ANTHROPIC_API_KEY, GEMINI_API_KEY) runs with its default model.  Each run
+ * goes through the full pipeline and signs its own receipt with the HALO
+ * keyring; the ELI claims are then aligned across the responses (see
+ * src/eli/agreement.ts, --threshold sets the match similarity).  The ELI
+ * rules come from HALO_ELI_RULE_PACK / HALO_ELI_RULES_FILE (src/eli/rules.ts),
+ * the annotation gazetteer from HALO_ELI_GAZETTEER (src/eli/annotations.ts).
+ *
+ * Output files written to <out-dir>/ (default: out/fan-out/):
+ *   comparison.json       – every run plus the agreement matrix, signed (see src/halo/comparison.ts)
+ *   comparison_report.md  – human-readable comparison
+ *
+ * Exits 1 when a run failed.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { runFanOut, type FanOutTarget } from "../orchestrator.js";
+import { loadKeyring } from "../halo/keyring.js";
+import { signComparison, type ComparisonArtifact } from "../halo/comparison.js";
+import { loadTsaKeyring, resolveTimestampAuthority } from "../halo/timestamp.js";
+import { resolveRuleSet } from "../eli/rules.js";
+import { resolveGazetteer } from "../eli/annotations.js";
+import {
+  createProviderInvoker,
+  defaultModel,
+  ensureProviderSecrets,
+  isLLMProvider,
+  LLM_PROVIDERS,
+  type LLMProvider,
+} from "../adapters/providerInvoker.js";
+
+export const COMPARISON_FILE = "comparison.json";
+export const COMPARISON_REPORT_FILE = "comparison_report.md";
+
+const PROVIDER_KEYS: Record<LLMProvider, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  gemini: "GEMINI_API_KEY",
+};
+
+interface FanOutArgs {
+  prompt?: string;
+  inputFile?: string;
+  targets: Array<{ provider: LLMProvider; model: string }>;
+  threshold?: number;
+  outDir: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseFanOutArgs(argv: string[]): FanOutArgs {
+  const args = argv.slice(2);
+  let prompt: string | undefined;
+  let inputFile: string | undefined;
+  const targets: FanOutArgs["targets"] = [];
+  let threshold: number | undefined;
+  let outDir = "out/fan-out";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--prompt" && args[i + 1]) {
+      prompt = args[++i];
+    } else if (arg === "--input-file" && args[i + 1]) {
+      inputFile = args[++i];
+    } else if (arg === "--target" && args[i + 1]) {
+      const value = args[++i];
+      const separator = value.indexOf(":");
+      const provider = separator === -1 ? value : value.slice(0, separator);
+      if (!isLLMProvider(provider)) {
+        throw new Error(`--target must be <${LLM_PROVIDERS.join("|")}>[:<model>], got: ${value}`);
+      }
+      targets.push({ provider, model: separator === -1 ? defaultModel(provider) : value.slice(separator + 1) });
+    } else if (arg === "--threshold" && args[i + 1]) {
+      const parsed = Number(args[++i]);
+      if (!(parsed > 0 && parsed <= 1)) {
+        throw new Error(`--threshold must be a number in (0, 1], got: ${args[i]}`);
+      }
+      threshold = parsed;
+    } else if (arg === "--out-dir" && args[i + 1]) {
+      outDir = args[++i];
+    }
+  }
+
+  if (targets.length === 0) {
+    for (const provider of LLM_PROVIDERS) {
+      if (process.env[PROVIDER_KEYS[provider]]) targets.push({ provider, model: defaultModel(provider) });
+    }
+  }
+
+  return { prompt, inputFile, targets, threshold, outDir };
+}
+
+function resolvePrompt(opts: { prompt?: string; inputFile?: string }): string {
+  if (opts.prompt) return opts.prompt;
+  if (opts.inputFile) {
+    const p = resolve(opts.inputFile);
+    if (!existsSync(p)) throw new Error(`--input-file not found: ${p}`);
+    return readFileSync(p, "utf8").trim();
+  }
+  throw new Error("Provide --prompt or --input-file.");
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+}
+
+/** Markdown report for a comparison artifact. */
+export function renderComparisonReport(artifact: ComparisonArtifact): string {
+  const { agreement } = artifact;
+  const labels = agreement.responses;
+
+  const runRows = artifact.runs.map((run) => {
+    if (!run.ok) return `| ${cell(run.label)} | ❌ ${cell(run.error ?? "failed")} | – | – | – |`;
+    const issues = run.validation?.violations.length ?? 0;
+    return (
+      `| ${cell(run.label)} | ${run.verification?.valid ? "✅ verified" : "❌ receipt invalid"} | ` +
+      `${run.ledger?.claims.length ?? 0} | ${issues === 0 ? "✅ PASS" : `❌ ${issues} issue(s)`} | \`${run.receipt?.id}\` |`
+    );
+  });
+
+  const pairRows = agreement.pairwise.map(
+    (pair) => `| ${cell(pair.a)} | ${cell(pair.b)} | ${pair.shared} | ${(pair.agreement * 100).toFixed(0)}% |`
+  );
+
+  const matrixRows = agreement.claims.map((claim) => {
+    const cells = labels.map((label) => claim.members[label]?.type ?? "—");
+    return `| ${claim.id} | ${cell(claim.text)} | ${claim.support}${claim.types_agree ? "" : " ⚠️"} | ${cells.join(" | ")} |`;
+  });
+
+  const singles = agreement.claims.filter((claim) => claim.support === "one" && labels.length > 1);
+  const singleLines = singles.map((claim) => {
+    const [label] = labels.filter((name) => claim.members[name]);
+    return `- **${label}** (${claim.id}): ${claim.text}`;
+  });
+
+  return `# Fan-out Comparison Report
+
+## Run metadata
+- **Created:** ${artifact.created_at}
+- **Prompt SHA-256:** \`${artifact.prompt_sha256}\`
+- **Comparison receipt:** \`${artifact.receipt.id}\` (key \`${artifact.receipt.key_id}\`)
+
+## Prompt
+\`\`\`
+${artifact.prompt}
+\`\`\`
+
+## Runs
+| Target | Receipt | Claims | Semantic validation | Receipt id |
+|--------|---------|--------|---------------------|------------|
+${runRows.join("\n")}
+
+## Agreement
+- **Method:** ${agreement.method} (threshold ${agreement.threshold})
+- **In all responses:** ${agreement.summary.all}
+- **In some responses:** ${agreement.summary.some}
+- **In one response only:** ${agreement.summary.one}
+- **Typed differently (⚠️):** ${agreement.summary.type_conflicts}
+${
+  pairRows.length > 0
+    ? `
+| A | B | Shared claims | Agreement |
+|---|---|---------------|-----------|
+${pairRows.join("\n")}
+`
+    : ""
+}
+## Agreement matrix
+| Claim | Text | Support | ${labels.map(cell).join(" | ")} |
+|-------|------|---------|${labels.map(() => "---").join("|")}|
+${matrixRows.join("\n")}
+
+## Claims only one model makes
+${singleLines.length > 0 ? singleLines.join("\n") : "_None._"}
+
+---
+_Each run's receipt and the comparison receipt verify against the HALO keyring (see src/halo/comparison.ts verifyComparison)._
+`;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runFanOutCli(argv: string[]): Promise<boolean> {
+  const opts = parseFanOutArgs(argv);
+  const promptText = resolvePrompt(opts);
+  const eliRules = resolveRuleSet();
+  const gazetteer = resolveGazetteer();
+  if (opts.targets.length === 0) {
+    throw new Error("No provider is configured: set OPENAI_API_KEY, ANTHROPIC_API_KEY or GEMINI_API_KEY, or pass --target.");
+  }
+  for (const { provider } of opts.targets) ensureProviderSecrets(provider);
+
+  const targets: FanOutTarget[] = opts.targets.map(({ provider, model }) => ({
+    label: `${provider}:${model}`,
+    provider,
+    model,
+    invokeLLM: createProviderInvoker({ provider, model }),
+  }));
+  console.log(`[fan-out] Invoking ${targets.map((target) => target.label).join(", ")}...`);
+
+  const keyring = loadKeyring();
+  const fanOut = await runFanOut(promptText, targets, keyring, {
+    tsa: resolveTimestampAuthority(),
+    tsaKeyring: loadTsaKeyring(),
+    eliRules,
+    gazetteer,
+    agreementThreshold: opts.threshold,
+  });
+  const artifact = signComparison(promptText, fanOut, keyring);
+
+  const outDir = resolve(opts.outDir);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, COMPARISON_FILE), `${JSON.stringify(artifact, null, 2)}\n`, "utf8");
+  writeFileSync(join(outDir, COMPARISON_REPORT_FILE), renderComparisonReport(artifact), "utf8");
+
+  for (const run of fanOut.runs) {
+    console.log(`[fan-out]   ${run.ok ? "✅" : "❌"} ${run.label}${run.error ? ` – ${run.error}` : ""}`);
+  }
+  const { summary } = fanOut.agreement;
+  console.log(`[fan-out] Claims: ${summary.all} in all, ${summary.some} in some, ${summary.one} in one response only`);
+  console.log(`[fan-out] Written to ${outDir}/ (${COMPARISON_FILE}, ${COMPARISON_REPORT_FILE})`);
+  return fanOut.runs.every((run) => run.ok);
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runFanOutCli(process.argv)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err: unknown) => {
+      console.error("[fan-out] ERROR:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
@@ -22,10 +22,83 @@ import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from "n
 import { resolve, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { scanForLeaks } from "../utils/leakScan.js";
-import { tagResponseToLedger } from "../adapters/eliAdapter.js";
-import logger, { logRequest } from "../../lib/logger.js";
-
-const DOMAIN_PREFIX = "HALO_MASTER_RECEIPT_V1|";
+import {
+  canonicalizeWith,
+  canonicalJson,
+  isCanonicalizationScheme,
+  LEGACY_CANONICALIZATION,
+  type CanonicalizationScheme,
+} from "../utils/canonicalJson.js";
+import {
+  appendChainEntry,
+  hashReceipt,
+  nextPrevReceiptHash,
+  resolveChainPath,
+  withChainLock,
+} from "../halo/receiptChain.js";
+import {
+  checkReplay,
+  loadSeenReceipts,
+  receiptIdentity,
+  resolveFreshnessWindowMs,
+  upsertRunRecord,
+  type ReplayCheckResult,
+} from "../halo/replay.js";
+import {
+  appendToLogWithSigner,
+  resolveLogDir,
+  resolveLogSigner,
+  verifyInclusionProof,
+  type InclusionProof,
+} from "../halo/transparencyLog.js";
+import { inclusionProof, merkleLeafHash, merkleRoot, verifyInclusion } from "../halo/merkle.js";
+import {
+  assessSigningTime,
+  resolveTimestampAuthority,
+  timestampReceipt,
+  type SigningTimeAssessment,
+  type TimestampToken,
+} from "../halo/timestamp.js";
+import { computeKeyId, type Keyring } from "../halo/keyring.js";
+import {
+  checkCiphertextBinding,
+  encryptEvidencePack,
+  evidenceCiphertextHash,
+  loadRecipientPublicKeys,
+  type EncryptedEvidencePack,
+} from "../halo/evidenceEncryption.js";
+import {
+  commitEvidence,
+  DISCLOSURE_SCHEME,
+  verifyDisclosure,
+  type DisclosureVerifyResult,
+  type EvidenceDisclosure,
+} from "../halo/disclosure.js";
+import {
+  EVIDENCE_PACK_VERSION,
+  MASTER_RECEIPT_VERSION,
+  documentVersion,
+  isSupportedVersion,
+} from "../halo/schemaRegistry.js";
+import {
+  ATTESTATION_FILE,
+  buildRunStatement,
+  promptDigest,
+  signAttestation,
+  subjectFor,
+} from "../halo/attestation.js";
+import { resolveSigner, type Signer } from "../halo/signingBackend.js";
+import { tagResponseToLedger, validateLedgerSemantics } from "../adapters/eliAdapter.js";
+import { resolveGazetteer, type ClaimAnnotation, type Gazetteer } from "../eli/annotations.js";
+import { resolveRuleSet, type RuleSet } from "../eli/rules.js";
+import logger, { logRequest } from "../utils/logger.js";
+
+export { canonicalJson };
+
+export const DOMAIN_PREFIX = "HALO_MASTER_RECEIPT_V1|";
+export const BATCH_DOMAIN_PREFIX = "HALO_MASTER_BATCH_V1|";
+export const COSIGNATURE_DOMAIN_PREFIX = "HALO_MASTER_COSIGNATURE_V1|";
+const BATCH_SIGNATURE_SCHEME = "ed25519-merkle-batch";
 
 type JsonRecord = Record<string, unknown>;
 
@@ -39,12 +112,32 @@ interface ValetSourceFile {
   sha256: string;
 }
 
-interface MasterReceipt {
+export interface MasterReceipt {
   receipt_version: string;
   receipt_id: string;
   content_hash: string;
-  signature_scheme: "ed25519";
+  signature_scheme: "ed25519" | typeof BATCH_SIGNATURE_SCHEME;
   signature: string;
+  /** receipt_hash of the previous receipt in the receipt chain; signed when present */
+  prev_receipt_hash?: string;
+  /** Present when the receipt was signed as one leaf of a batch */
+  batch?: MasterReceiptBatch;
+  /**
+   * Set when `content_hash` is the root of per-message / per-assertion salted
+   * commitments (selective disclosure) rather than a hash of the transcript; signed
+   */
+  content_commitment?: typeof DISCLOSURE_SCHEME;
+  /** Hash of the encrypted evidence pack ciphertext, when evidence is written encrypted; signed */
+  evidence_ciphertext_hash?: string;
+  /**
+   * How content_hash, disclosure commitments and the signed envelope serialise
+   * JSON; absent means halo.canonical-json.v1.  Signed
+   */
+  canonicalization?: CanonicalizationScheme;
+  /** Timestamp authority token over the receipt hash; added after signing (HALO_TSA) */
+  timestamp_token?: TimestampToken;
+  /** Further signatures over the same envelope (see cosignMasterReceipt); added after signing */
+  cosignatures?: MasterCosignature[];
   metadata: Record<string, unknown>;
   verification: {
     derived_status: "PASS" | "FAIL";
@@ -54,22 +147,63 @@ interface MasterReceipt {
   };
 }
 
-interface EvidencePack {
+/** A co-signer's Ed25519 signature over the receipt's domain-separated envelope. */
+export interface MasterCosignature {
+  key_id: string;
+  /** What the co-signer attests as, e.g. "reviewer"; signed with the envelope */
+  role: string;
+  /** SPKI PEM of the co-signing key */
+  public_key: string;
+  /** Base64 signature over cosignaturePayload(role, canonical envelope) */
+  signature: string;
+  signed_at: string;
+}
+
+/** "threshold of these keys": how many distinct keys must have signed a checkpoint. */
+export interface SignaturePolicy {
+  threshold: number;
+  /** Ed25519 public key PEMs; the primary signature and cosignatures both count */
+  keys: string[];
+}
+
+interface MasterReceiptBatch {
+  batch_id: string;
+  /** Merkle root over every receipt envelope in the batch; this is what is signed */
+  root_hash: string;
+  size: number;
+  leaf_index: number;
+  audit_path: string[];
+}
+
+export interface EvidencePack {
+  /** Absent in packs written before evidence packs were versioned (see schemaRegistry.ts) */
+  evidence_version?: typeof EVIDENCE_PACK_VERSION;
   receipt_id: string;
   content_hash: string;
+  /** Matches the master receipt's canonicalization; absent means halo.canonical-json.v1 */
+  canonicalization?: CanonicalizationScheme;
   valet_source: {
     source_dir: string;
     files: ValetSourceFile[];
     source_receipt_file: string;
   };
   transcript: JsonRecord;
-  eli_assertions: Array<{
-    assertion_type: string;
-    text: string;
-    confidence?: number;
-    sources: string[];
-  }>;
+  eli_assertions: Array<
+    | {
+        assertion_type: string;
+        text: string;
+        confidence?: number;
+        sources: string[];
+        /** Dates, quantities, entities and URLs in the claim, with response spans */
+        annotations?: ClaimAnnotation[];
+      }
+    | { withheld: true }
+  >;
   notes?: string;
+  /** Salted commitments and salts; present in selective-disclosure mode */
+  disclosure?: EvidenceDisclosure;
+  /** Inclusion proof from the transparency log; not covered by content_hash */
+  transparency?: InclusionProof;
 }
 
 interface ProtocolCheck {
@@ -91,63 +225,57 @@ interface ProtocolReport {
     evidence_ok: boolean;
     evidence_findings: Array<{ location: string; pattern: string }>;
   };
-  submission?: {
-    attempted: boolean;
-    ok: boolean;
-    endpoint: string;
-    status?: number;
-    detail: string;
+  transparency?: {
+    log_dir: string;
+    leaf_index: number;
+    tree_size: number;
+    root_hash: string;
   };
+  /** The master receipt checked against the seen-receipt store (see halo/replay.ts) */
+  replay?: ReplayCheckResult;
 }
 
 function printUsageAndExit(): never {
 
-  logger.info({ msg: `Usage: ingestValet [--quiet|-q] <valet-dist-dir>\n\nOptions:\n  --quiet, -q    Suppress progress and fail logs (for CI/scripts)\n  --help,  -h    Show this usage message\n\nArguments:\n  <valet-dist-dir>  Path to Valet output directory (required)\n\nEnvironment:\n  VALET_RECEIPT_HMAC_KEY   Required for HMAC verification\n  RECEIPT_SIGNING_KEY      Required for Ed25519 checkpoint\n  RECEIPT_VERIFY_KEY       Optional for offline verify\n\nExample:\n  ingestValet --quiet dist/my-valet-run` });
+  logger.info({ msg: `Usage: ingestValet [--quiet|-q] [--selective-disclosure] <valet-dist-dir> [<valet-dist-dir> ...]\n\nOptions:\n  --quiet, -q    Suppress progress and fail logs (for CI/scripts)\n  --selective-disclosure  Commit to each message and ELI assertion separately (see npm run redact)\n  --encrypt-to <pem>      Encrypt the evidence pack for an X25519 recipient public key (repeatable)\n  --canonicalization <scheme>  halo.canonical-json.v1 (default) or rfc8785 (JCS)\n  --help,  -h    Show this usage message\n\nArguments:\n  <valet-dist-dir>  Path to Valet output directory (required); several are batch-signed under one Merkle root\n\nEnvironment:\n  VALET_RECEIPT_HMAC_KEY   Required for HMAC verification\n  RECEIPT_SIGNING_KEY      Required for Ed25519 checkpoint\n  RECEIPT_VERIFY_KEY       Optional for offline verify\n  HALO_TSA                 Optional; \"local\" attaches a timestamp authority token\n  HALO_EVIDENCE_RECIPIENTS Optional; comma-separated recipient public key files (like --encrypt-to)\n  HALO_ELI_GAZETTEER       Optional; entity names for ELI assertion annotations (JSON file)\n\nExample:\n  ingestValet --quiet dist/my-valet-run` });
   process.exit(0);
-  logger.info({ msg: "Usage: ingestValet [--quiet|-q] <valet-dist-dir>\n\nOptions:\n  --quiet, -q    Suppress progress and fail logs (for CI/scripts)\n  --help,  -h    Show this usage message\n\nArguments:\n  <valet-dist-dir>  Path to Valet output directory (required)\n\nEnvironment:\n  VALET_RECEIPT_HMAC_KEY   Required for HMAC verification\n  RECEIPT_SIGNING_KEY      Required for Ed25519 checkpoint\n  RECEIPT_VERIFY_KEY       Optional for offline verify\n\nExample:\n  ingestValet --quiet dist/my-valet-run" });
+  logger.info({ msg: "Usage: ingestValet [--quiet|-q] [--selective-disclosure] <valet-dist-dir> [<valet-dist-dir> ...]\n\nOptions:\n  --quiet, -q    Suppress progress and fail logs (for CI/scripts)\n  --selective-disclosure  Commit to each message and ELI assertion separately (see npm run redact)\n  --encrypt-to <pem>      Encrypt the evidence pack for an X25519 recipient public key (repeatable)\n  --canonicalization <scheme>  halo.canonical-json.v1 (default) or rfc8785 (JCS)\n  --help,  -h    Show this usage message\n\nArguments:\n  <valet-dist-dir>  Path to Valet output directory (required); several are batch-signed under one Merkle root\n\nEnvironment:\n  VALET_RECEIPT_HMAC_KEY   Required for HMAC verification\n  RECEIPT_SIGNING_KEY      Required for Ed25519 checkpoint\n  RECEIPT_VERIFY_KEY       Optional for offline verify\n  HALO_TSA                 Optional; \"local\" attaches a timestamp authority token\n  HALO_EVIDENCE_RECIPIENTS Optional; comma-separated recipient public key files (like --encrypt-to)\n  HALO_ELI_GAZETTEER       Optional; entity names for ELI assertion annotations (JSON file)\n\nExample:\n  ingestValet --quiet dist/my-valet-run" });
   process.exit(0);
 }
 
 interface IngestArgs {
+  /** First input directory */
   inputDir: string;
+  /** Every input directory; more than one is batch-signed under one Merkle root */
+  inputDirs: string[];
   quiet: boolean;
+  /** Salted per-message / per-assertion commitments instead of one transcript hash */
+  selectiveDisclosure: boolean;
+  /** Recipient public key files; the evidence pack is written encrypted for them */
+  encryptTo: string[];
+  /** JSON serialisation for content_hash and the signed envelope; unset means halo.canonical-json.v1 */
+  canonicalization?: CanonicalizationScheme;
 }
 
 interface RunIngestOptions {
   quiet?: boolean;
 }
 
+interface PreparedIngest {
+  inputDir: string;
+  receiptFile: string;
+  sourceFiles: ValetSourceFile[];
+  transcript: JsonRecord;
+  hmacStrategy: HmacStrategy;
+  checks: ProtocolCheck[];
+}
+
 interface HmacVerifyResult {
   ok: boolean;
   strategy: HmacStrategy | "none";
   reason?: string;
 }
 
-interface SubmissionResult {
-  attempted: boolean;
-  ok: boolean;
-  endpoint: string;
-  status?: number;
-  responseBody?: unknown;
-  detail: string;
-}
-
-export function canonicalJson(value: unknown): string {
-  if (value === null) return "null";
-  if (typeof value === "string") return JSON.stringify(value);
-  if (typeof value === "number" || typeof value === "boolean") return JSON.stringify(value);
-  if (Array.isArray(value)) {
-    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
-  }
-  if (typeof value === "object") {
-    const record = value as JsonRecord;
-    const keys = Object.keys(record).sort();
-    const entries = keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
-    return `{${entries.join(",")}}`;
-  }
-  return JSON.stringify(String(value));
-}
-
 export function sha256Hex(input: string): string {
   return createHash("sha256").update(input, "utf8").digest("hex");
 }
@@ -158,15 +286,18 @@ export function parseIngestArgs(argv: string[]): IngestArgs {
     printUsageAndExit();
   }
   function printUsageAndExit(): never {
-    console.log(`\nUsage: ingestValet [--quiet|-q] <valet-dist-dir>
+    console.log(`\nUsage: ingestValet [--quiet|-q] [--selective-disclosure] <valet-dist-dir> [<valet-dist-dir> ...]
 
   /*
   Options:
     --quiet, -q    Suppress progress and fail logs (for CI/scripts)
+    --selective-disclosure  Commit to each message and ELI assertion separately (see npm run redact)
+    --encrypt-to <pem>      Encrypt the evidence pack for an X25519 recipient public key (repeatable)
+    --canonicalization <scheme>  halo.canonical-json.v1 (default) or rfc8785 (JCS)
     --help,  -h    Show this usage message
 
   Arguments:
-    <valet-dist-dir>  Path to Valet output directory (required)
+    <valet-dist-dir>  Path to Valet output directory (required); several are batch-signed under one Merkle root
 
   Environment:
     VALET_RECEIPT_HMAC_KEY   Required for HMAC verification
@@ -180,22 +311,49 @@ export function parseIngestArgs(argv: string[]): IngestArgs {
     process.exit(0);
   }
   let quiet = false;
+  let selectiveDisclosure = false;
+  const encryptTo: string[] = [];
+  let canonicalization: CanonicalizationScheme | undefined;
   const positionals: string[] = [];
 
-  for (const arg of args) {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
     if (arg === "--quiet" || arg === "-q") {
       quiet = true;
       continue;
     }
+    if (arg === "--selective-disclosure") {
+      selectiveDisclosure = true;
+      continue;
+    }
+    if (arg === "--encrypt-to" && args[i + 1]) {
+      encryptTo.push(args[++i]);
+      continue;
+    }
+    if (arg === "--canonicalization" && args[i + 1]) {
+      const scheme = args[++i];
+      if (!isCanonicalizationScheme(scheme)) {
+        throw new Error(`Unsupported --canonicalization ${scheme} (expected halo.canonical-json.v1 or rfc8785)`);
+      }
+      canonicalization = scheme;
+      continue;
+    }
     positionals.push(arg);
   }
 
-  const firstPositional = positionals.find((value) => !value.startsWith("-"));
-  if (!firstPositional) {
+  const inputDirs = positionals.filter((value) => !value.startsWith("-")).map((value) => resolve(value));
+  if (inputDirs.length === 0) {
     console.error("[ERROR] Missing required <valet-dist-dir> argument.");
     printUsageAndExit();
   }
-  return { inputDir: resolve(firstPositional), quiet };
+  return {
+    inputDir: inputDirs[0],
+    inputDirs,
+    quiet,
+    selectiveDisclosure,
+    encryptTo,
+    ...(canonicalization ? { canonicalization } : {}),
+  };
 }
 
 export function normalizeValetToTranscript(receipt: JsonRecord): JsonRecord {
@@ -349,56 +507,159 @@ export function verifyValetHmac(receipt: JsonRecord, hmacKey: string): HmacVerif
   };
 }
 
-export function createMasterReceipt(input: {
+type MasterReceiptSource = {
   transcript: JsonRecord;
   sourceDir: string;
   sourceReceiptFile: string;
   sourceFiles: ValetSourceFile[];
   matchedHmacStrategy: HmacStrategy;
-  signingKeyPem: string;
-}): { master_receipt: MasterReceipt; evidence_pack: EvidencePack } {
-  const canonicalTranscript = canonicalJson(input.transcript);
-  const contentHash = sha256Hex(canonicalTranscript);
-  const receiptId = randomUUID();
-
-  const envelope = {
-    receipt_version: "halo.master.v1",
-    receipt_id: receiptId,
-    content_hash: contentHash,
-    signature_scheme: "ed25519",
-  };
-  const envelopePayload = DOMAIN_PREFIX + canonicalJson(envelope);
-
-  const privateKey = createPrivateKey(normalizePem(input.signingKeyPem));
-  const signature = signDetached(null, Buffer.from(envelopePayload, "utf8"), privateKey).toString("base64");
+  /** Commit each message and ELI assertion separately so parts can be withheld later */
+  selectiveDisclosure?: boolean;
+  /** Recipient X25519 public keys (PEM); when set the evidence pack is also sealed for them */
+  encryptTo?: string[];
+  /** Serialisation for content_hash and the signed envelope; defaults to halo.canonical-json.v1 */
+  canonicalization?: CanonicalizationScheme;
+  /** Entity names the ELI assertions are annotated with (see src/eli/annotations.ts) */
+  gazetteer?: Gazetteer;
+};
+
+type Checkpoint = {
+  master_receipt: MasterReceipt;
+  evidence_pack: EvidencePack;
+  /** Present when the source named recipients; this is what gets written to disk */
+  encrypted_evidence_pack?: EncryptedEvidencePack;
+};
+
+interface CommittedContent {
+  contentHash: string;
+  assertions: EvidencePack["eli_assertions"];
+  disclosure?: EvidenceDisclosure;
+  canonicalization?: CanonicalizationScheme;
+}
 
+/** Tag the transcript and compute `content_hash`, per part in selective-disclosure mode. */
+function commitContent(input: MasterReceiptSource): CommittedContent {
   const assistantText = extractAssistantText(input.transcript);
-  const ledger = assistantText ? tagResponseToLedger(assistantText) : { claims: [] };
+  const ledger = assistantText ? tagResponseToLedger(assistantText, { gazetteer: input.gazetteer }) : { claims: [] };
+  const assertions = (ledger.claims ?? []).map((claim) => ({
+    assertion_type: claim.type,
+    text: claim.text,
+    sources: (claim.span_refs ?? []).map((span) => JSON.stringify(span)),
+    confidence: undefined,
+    ...(claim.annotations && claim.annotations.length > 0 ? { annotations: claim.annotations } : {}),
+  }));
+
+  const { canonicalization } = input;
+  if (!input.selectiveDisclosure) {
+    return { contentHash: sha256Hex(canonicalizeWith(canonicalization, input.transcript)), assertions, canonicalization };
+  }
+  const committed = commitEvidence(input.transcript, assertions, canonicalization);
+  return { contentHash: committed.content_hash, assertions, disclosure: committed.disclosure, canonicalization };
+}
 
+interface SealedEvidence {
+  receiptId: string;
+  content: CommittedContent;
+  evidence_pack: EvidencePack;
+  encrypted_evidence_pack?: EncryptedEvidencePack;
+}
+
+/** Commit the content and build the evidence pack, encrypted for any recipients, ahead of signing. */
+function sealEvidence(input: MasterReceiptSource): SealedEvidence {
+  const receiptId = randomUUID();
+  const content = commitContent(input);
   const evidence_pack: EvidencePack = {
+    evidence_version: EVIDENCE_PACK_VERSION,
     receipt_id: receiptId,
-    content_hash: contentHash,
+    content_hash: content.contentHash,
+    ...(content.canonicalization ? { canonicalization: content.canonicalization } : {}),
     valet_source: {
       source_dir: input.sourceDir,
       files: input.sourceFiles,
       source_receipt_file: input.sourceReceiptFile,
     },
     transcript: input.transcript,
-    eli_assertions: (ledger.claims ?? []).map((claim) => ({
-      assertion_type: claim.type,
-      text: claim.text,
-      sources: (claim.span_refs ?? []).map((span) => JSON.stringify(span)),
-      confidence: undefined,
-    })),
+    eli_assertions: content.assertions,
     notes: "Sensitive evidence pack. Do not share externally without policy review.",
+    ...(content.disclosure ? { disclosure: content.disclosure } : {}),
   };
 
+  const encrypted_evidence_pack =
+    input.encryptTo && input.encryptTo.length > 0
+      ? encryptEvidencePack({ ...evidence_pack }, input.encryptTo)
+      : undefined;
+  return { receiptId, content, evidence_pack, ...(encrypted_evidence_pack ? { encrypted_evidence_pack } : {}) };
+}
+
+/** The per-receipt fields that are signed directly, or hashed into a batch leaf. */
+function masterEnvelope(
+  sealed: SealedEvidence,
+  signatureScheme: MasterReceipt["signature_scheme"],
+  prevReceiptHash?: string
+): Record<string, unknown> {
+  return {
+    receipt_version: MASTER_RECEIPT_VERSION,
+    receipt_id: sealed.receiptId,
+    content_hash: sealed.content.contentHash,
+    signature_scheme: signatureScheme,
+    ...(prevReceiptHash !== undefined ? { prev_receipt_hash: prevReceiptHash } : {}),
+    ...(sealed.content.disclosure ? { content_commitment: DISCLOSURE_SCHEME } : {}),
+    ...(sealed.encrypted_evidence_pack
+      ? { evidence_ciphertext_hash: evidenceCiphertextHash(sealed.encrypted_evidence_pack) }
+      : {}),
+    ...(sealed.content.canonicalization ? { canonicalization: sealed.content.canonicalization } : {}),
+  };
+}
+
+/** Byte string the batch signature covers: the Merkle root over every receipt envelope. */
+export function batchSigningPayload(batch: {
+  receipt_version: string;
+  batch_id: string;
+  root_hash: string;
+  size: number;
+}): string {
+  return (
+    BATCH_DOMAIN_PREFIX +
+    canonicalJson({
+      receipt_version: batch.receipt_version,
+      batch_id: batch.batch_id,
+      root_hash: batch.root_hash,
+      size: batch.size,
+      signature_scheme: BATCH_SIGNATURE_SCHEME,
+    })
+  );
+}
+
+function signPayload(payload: string, signingKeyPem: string): string {
+  const privateKey = createPrivateKey(normalizePem(signingKeyPem));
+  return signDetached(null, Buffer.from(payload, "utf8"), privateKey).toString("base64");
+}
+
+function buildCheckpoint(
+  input: MasterReceiptSource,
+  sealed: SealedEvidence,
+  signed: {
+    signature_scheme: MasterReceipt["signature_scheme"];
+    signature: string;
+    prevReceiptHash?: string;
+    batch?: MasterReceiptBatch;
+  }
+): Checkpoint {
+  const { receiptId, content, evidence_pack, encrypted_evidence_pack } = sealed;
+
   const master_receipt: MasterReceipt = {
-    receipt_version: envelope.receipt_version,
+    receipt_version: MASTER_RECEIPT_VERSION,
     receipt_id: receiptId,
-    content_hash: contentHash,
-    signature_scheme: "ed25519",
-    signature,
+    content_hash: content.contentHash,
+    signature_scheme: signed.signature_scheme,
+    signature: signed.signature,
+    ...(signed.prevReceiptHash !== undefined ? { prev_receipt_hash: signed.prevReceiptHash } : {}),
+    ...(signed.batch ? { batch: signed.batch } : {}),
+    ...(content.disclosure ? { content_commitment: DISCLOSURE_SCHEME } : {}),
+    ...(encrypted_evidence_pack
+      ? { evidence_ciphertext_hash: evidenceCiphertextHash(encrypted_evidence_pack) }
+      : {}),
+    ...(content.canonicalization ? { canonicalization: content.canonicalization } : {}),
     metadata: {
       source: "valet-ingest-bridge",
       ingested_at: new Date().toISOString(),
@@ -413,7 +674,109 @@ export function createMasterReceipt(input: {
     },
   };
 
-  return { master_receipt, evidence_pack };
+  return { master_receipt, evidence_pack, ...(encrypted_evidence_pack ? { encrypted_evidence_pack } : {}) };
+}
+
+/** Seal one transcript and return the checkpoint builder plus the payload its signature covers. */
+function planMasterReceipt(
+  input: MasterReceiptSource,
+  prevReceiptHash?: string
+): { payload: string; finish: (signature: string) => Checkpoint } {
+  const sealed = sealEvidence(input);
+  const envelope = masterEnvelope(sealed, "ed25519", prevReceiptHash);
+  return {
+    payload: DOMAIN_PREFIX + canonicalizeWith(input.canonicalization, envelope),
+    finish: (signature) => buildCheckpoint(input, sealed, { signature_scheme: "ed25519", signature, prevReceiptHash }),
+  };
+}
+
+export function createMasterReceipt(
+  input: MasterReceiptSource & {
+    signingKeyPem: string;
+    prevReceiptHash?: string;
+  }
+): Checkpoint {
+  const plan = planMasterReceipt(input, input.prevReceiptHash);
+  return plan.finish(signPayload(plan.payload, input.signingKeyPem));
+}
+
+/** createMasterReceipt with a signer backend instead of an in-process key. */
+export async function createMasterReceiptWithSigner(
+  input: MasterReceiptSource & {
+    signer: Signer;
+    prevReceiptHash?: string;
+  }
+): Promise<Checkpoint> {
+  const plan = planMasterReceipt(input, input.prevReceiptHash);
+  return plan.finish((await input.signer.sign(Buffer.from(plan.payload, "utf8"))).toString("base64"));
+}
+
+/**
+ * Batch mode: sign N transcripts with a single Ed25519 signature.
+ *
+ * Builds a Merkle tree whose leaves are the per-receipt envelopes (receipt_id,
+ * content_hash, prev_receipt_hash) and signs only the root.  Every master
+ * receipt carries the shared signature plus its leaf index and audit path.
+ * All receipts in a batch link to the same `prevReceiptHash` — the chain head
+ * before the batch — since linking them to each other would be circular.
+ */
+export function createMasterReceiptBatch(
+  inputs: MasterReceiptSource[],
+  options: { signingKeyPem: string; prevReceiptHash?: string }
+): Checkpoint[] {
+  const plan = planMasterReceiptBatch(inputs, options.prevReceiptHash);
+  return plan.finish(signPayload(plan.payload, options.signingKeyPem));
+}
+
+/** createMasterReceiptBatch with a signer backend instead of an in-process key. */
+export async function createMasterReceiptBatchWithSigner(
+  inputs: MasterReceiptSource[],
+  options: { signer: Signer; prevReceiptHash?: string }
+): Promise<Checkpoint[]> {
+  const plan = planMasterReceiptBatch(inputs, options.prevReceiptHash);
+  return plan.finish((await options.signer.sign(Buffer.from(plan.payload, "utf8"))).toString("base64"));
+}
+
+function planMasterReceiptBatch(
+  inputs: MasterReceiptSource[],
+  prevReceiptHash?: string
+): { payload: string; finish: (signature: string) => Checkpoint[] } {
+  if (inputs.length === 0) {
+    throw new Error("createMasterReceiptBatch requires at least one transcript");
+  }
+
+  const members = inputs.map((input) => {
+    const sealed = sealEvidence(input);
+    const envelope = masterEnvelope(sealed, BATCH_SIGNATURE_SCHEME, prevReceiptHash);
+    return { input, sealed, leafHash: merkleLeafHash(canonicalizeWith(input.canonicalization, envelope)) };
+  });
+
+  const leafHashes = members.map((member) => member.leafHash);
+  const batchId = randomUUID();
+  const rootHash = merkleRoot(leafHashes);
+  const payload = batchSigningPayload({
+    receipt_version: MASTER_RECEIPT_VERSION,
+    batch_id: batchId,
+    root_hash: rootHash,
+    size: members.length,
+  });
+
+  const finish = (signature: string) =>
+    members.map((member, index) =>
+      buildCheckpoint(member.input, member.sealed, {
+        signature_scheme: BATCH_SIGNATURE_SCHEME,
+        signature,
+        prevReceiptHash,
+        batch: {
+          batch_id: batchId,
+          root_hash: rootHash,
+          size: members.length,
+          leaf_index: index,
+          audit_path: inclusionProof(leafHashes, index),
+        },
+      })
+    );
+  return { payload, finish };
 }
 
 export function verifyCheckpointOffline(input: {
@@ -421,57 +784,366 @@ export function verifyCheckpointOffline(input: {
   evidencePack: EvidencePack;
   verifyKeyPem?: string;
   signingKeyPem?: string;
-}): { ok: boolean; reason?: string } {
-  const canonicalTranscript = canonicalJson(input.evidencePack.transcript);
-  const expectedHash = sha256Hex(canonicalTranscript);
+  /** Pins the transparency log key; otherwise the key embedded in the tree head is used */
+  logVerifyKeyPem?: string;
+  /** Trusted timestamp authority keys; without them a signing time is only self-asserted */
+  tsaKeyring?: Keyring;
+  /** The encrypted pack `evidencePack` was decrypted from; checked against evidence_ciphertext_hash */
+  encryptedEvidencePack?: EncryptedEvidencePack;
+  /** Require `threshold` of these keys instead of checking the primary signature against verifyKeyPem */
+  signaturePolicy?: SignaturePolicy;
+}): {
+  ok: boolean;
+  reason?: string;
+  signing_time?: SigningTimeAssessment;
+  /** Keys that signed the checkpoint, on success */
+  signatures?: SignatureSummary;
+  /** Withheld parts of a selective-disclosure evidence pack */
+  disclosure?: Pick<DisclosureVerifyResult, "withheld" | "total">;
+} {
+  if (!isSupportedVersion("master_receipt", input.masterReceipt.receipt_version)) {
+    return { ok: false, reason: `unsupported master receipt_version: ${input.masterReceipt.receipt_version ?? "missing"}` };
+  }
+  const evidenceVersion = documentVersion("evidence_pack", input.evidencePack);
+  if (!isSupportedVersion("evidence_pack", evidenceVersion)) {
+    return { ok: false, reason: `unsupported evidence_version: ${evidenceVersion ?? "missing"}` };
+  }
+  const canonicalization = input.masterReceipt.canonicalization;
+  if (canonicalization !== undefined && !isCanonicalizationScheme(canonicalization)) {
+    return { ok: false, reason: `unsupported canonicalization: ${String(canonicalization)}` };
+  }
+  if ((input.evidencePack.canonicalization ?? LEGACY_CANONICALIZATION) !== (canonicalization ?? LEGACY_CANONICALIZATION)) {
+    return { ok: false, reason: "evidence_pack.canonicalization does not match the master receipt" };
+  }
+  const canonical = (value: unknown): string => canonicalizeWith(canonicalization, value);
 
-  if (expectedHash !== input.masterReceipt.content_hash) {
-    return { ok: false, reason: "content_hash mismatch between master receipt and evidence transcript" };
+  let disclosure: DisclosureVerifyResult | undefined;
+  if (input.masterReceipt.content_commitment === DISCLOSURE_SCHEME) {
+    if (!input.evidencePack.disclosure) {
+      return { ok: false, reason: "master receipt commits to selective-disclosure parts but the evidence pack has none" };
+    }
+    try {
+      disclosure = verifyDisclosure(
+        input.evidencePack.transcript,
+        input.evidencePack.eli_assertions ?? [],
+        input.evidencePack.disclosure,
+        input.masterReceipt.content_hash,
+        canonicalization
+      );
+    } catch (err) {
+      disclosure = { ok: false, reason: err instanceof Error ? err.message : String(err) };
+    }
+    if (!disclosure.ok) {
+      return { ok: false, reason: `selective disclosure invalid: ${disclosure.reason}` };
+    }
+  } else {
+    let canonicalTranscript: string;
+    try {
+      canonicalTranscript = canonical(input.evidencePack.transcript);
+    } catch (err) {
+      return { ok: false, reason: `evidence transcript cannot be canonicalized: ${err instanceof Error ? err.message : err}` };
+    }
+    const expectedHash = sha256Hex(canonicalTranscript);
+
+    if (expectedHash !== input.masterReceipt.content_hash) {
+      return { ok: false, reason: "content_hash mismatch between master receipt and evidence transcript" };
+    }
   }
 
   if (input.evidencePack.content_hash !== input.masterReceipt.content_hash) {
     return { ok: false, reason: "evidence_pack.content_hash mismatch with master receipt" };
   }
 
-  const envelope = {
-    receipt_version: input.masterReceipt.receipt_version,
-    receipt_id: input.masterReceipt.receipt_id,
-    content_hash: input.masterReceipt.content_hash,
-    signature_scheme: input.masterReceipt.signature_scheme,
-  };
-  const payload = Buffer.from(DOMAIN_PREFIX + canonicalJson(envelope), "utf8");
+  let canonicalEnvelope: string;
+  try {
+    canonicalEnvelope = canonical(signedEnvelope(input.masterReceipt));
+  } catch (err) {
+    return { ok: false, reason: `signed envelope cannot be canonicalized: ${err instanceof Error ? err.message : err}` };
+  }
+  let payload = Buffer.from(DOMAIN_PREFIX + canonicalEnvelope, "utf8");
+  if (input.masterReceipt.signature_scheme === BATCH_SIGNATURE_SCHEME) {
+    const batch = input.masterReceipt.batch;
+    if (!batch) {
+      return { ok: false, reason: "batch-signed master receipt has no batch proof" };
+    }
+    const leafHash = merkleLeafHash(canonicalEnvelope);
+    if (!verifyInclusion(leafHash, batch.leaf_index, batch.size, batch.audit_path, batch.root_hash)) {
+      return { ok: false, reason: "batch audit path does not lead to the signed Merkle root" };
+    }
+    payload = Buffer.from(
+      batchSigningPayload({ receipt_version: input.masterReceipt.receipt_version, ...batch }),
+      "utf8"
+    );
+  }
 
-  const publicKeyPem =
-    input.verifyKeyPem ??
-    derivePublicKeyPemFromPrivate(input.signingKeyPem) ??
-    asString(input.masterReceipt.metadata?.public_key);
+  const cosignatures = input.masterReceipt.cosignatures ?? [];
+  for (const cosignature of cosignatures) {
+    if (!verifyCosignature(cosignature, canonicalEnvelope)) {
+      return { ok: false, reason: `cosignature by key_id ${cosignature.key_id} (${cosignature.role}) is invalid` };
+    }
+  }
+
+  let signatures: SignatureSummary;
+  if (input.signaturePolicy) {
+    const policy = evaluateSignaturePolicy(input.signaturePolicy, payload, input.masterReceipt, canonicalEnvelope);
+    if (!policy.ok) {
+      return { ok: false, reason: policy.reason };
+    }
+    signatures = policy.summary;
+  } else {
+    const publicKeyPem =
+      input.verifyKeyPem ??
+      derivePublicKeyPemFromPrivate(input.signingKeyPem) ??
+      asString(input.masterReceipt.metadata?.public_key);
+
+    if (!publicKeyPem) {
+      return { ok: false, reason: "missing verify key (RECEIPT_VERIFY_KEY) for Ed25519 verification" };
+    }
 
-  if (!publicKeyPem) {
-    return { ok: false, reason: "missing verify key (RECEIPT_VERIFY_KEY) for Ed25519 verification" };
+    if (!verifyEd25519(payload, input.masterReceipt.signature, normalizePem(publicKeyPem))) {
+      return { ok: false, reason: "ed25519 signature verification failed" };
+    }
+    signatures = {
+      valid: [
+        { key_id: computeKeyId(normalizePem(publicKeyPem)), role: PRIMARY_SIGNATURE_ROLE },
+        ...cosignatures.map(({ key_id, role }) => ({ key_id, role })),
+      ],
+    };
+  }
+
+  if (input.encryptedEvidencePack) {
+    const binding = checkCiphertextBinding(input.masterReceipt, input.encryptedEvidencePack);
+    if (!binding.ok) {
+      return { ok: false, reason: `encrypted evidence invalid: ${binding.reason}` };
+    }
+  }
+
+  if (input.evidencePack.transparency) {
+    const inclusion = verifyInclusionProof(input.evidencePack.transparency, input.masterReceipt, {
+      publicKeyPem: input.logVerifyKeyPem ? normalizePem(input.logVerifyKeyPem) : undefined,
+    });
+    if (!inclusion.ok) {
+      return { ok: false, reason: `transparency log inclusion proof invalid: ${inclusion.reason}` };
+    }
   }
 
-  const publicKey = createPublicKey(normalizePem(publicKeyPem));
-  const ok = verifyDetached(
-    null,
-    payload,
-    publicKey,
-    Buffer.from(input.masterReceipt.signature, "base64")
+  const signing_time = assessSigningTime(input.masterReceipt, {
+    tsaKeyring: input.tsaKeyring,
+  });
+  if (signing_time.status === "invalid") {
+    return { ok: false, reason: signing_time.reason, signing_time };
+  }
+
+  return {
+    ok: true,
+    signing_time,
+    signatures,
+    ...(disclosure ? { disclosure: { withheld: disclosure.withheld, total: disclosure.total } } : {}),
+  };
+}
+
+// ── Co-signing ────────────────────────────────────────────────────────────────
+
+const PRIMARY_SIGNATURE_ROLE = "primary";
+
+interface SignatureSummary {
+  /** Keys with a valid signature on the checkpoint, primary first */
+  valid: Array<{ key_id: string; role: string }>;
+  /** Set when a signature policy was applied */
+  threshold?: number;
+}
+
+/** Master receipt fields in the signed envelope; the last four only when present. */
+export const SIGNED_ENVELOPE_FIELDS = [
+  "receipt_version",
+  "receipt_id",
+  "content_hash",
+  "signature_scheme",
+  "prev_receipt_hash",
+  "content_commitment",
+  "evidence_ciphertext_hash",
+  "canonicalization",
+] as const;
+
+/** The per-receipt fields every signature covers, read back from a master receipt. */
+function signedEnvelope(receipt: MasterReceipt): Record<string, unknown> {
+  return Object.fromEntries(
+    SIGNED_ENVELOPE_FIELDS.filter((field) => receipt[field] !== undefined).map((field) => [field, receipt[field]])
   );
+}
+
+function verifyEd25519(payload: Buffer, signature: string, publicKeyPem: string): boolean {
+  try {
+    return verifyDetached(null, payload, createPublicKey(publicKeyPem), Buffer.from(signature, "base64"));
+  } catch {
+    return false;
+  }
+}
 
-  return ok ? { ok: true } : { ok: false, reason: "ed25519 signature verification failed" };
+/**
+ * The bytes a cosignature signs: its role and the receipt's canonical
+ * envelope, under a prefix of their own so a cosignature cannot pass for a
+ * primary signature or be relabelled.
+ */
+export function cosignaturePayload(role: string, canonicalEnvelope: string): Buffer {
+  return Buffer.from(`${COSIGNATURE_DOMAIN_PREFIX}${canonicalJson({ role })}|${canonicalEnvelope}`, "utf8");
+}
+
+function verifyCosignature(cosignature: MasterCosignature, canonicalEnvelope: string): boolean {
+  try {
+    return (
+      computeKeyId(cosignature.public_key) === cosignature.key_id &&
+      verifyEd25519(cosignaturePayload(cosignature.role, canonicalEnvelope), cosignature.signature, cosignature.public_key)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Count the distinct policy keys that signed: the primary signature (over
+ * `primaryPayload`, the batch root for batch receipts) and every cosignature
+ * whose key_id is in the policy.  Cosignatures by other keys are ignored.
+ */
+function evaluateSignaturePolicy(
+  policy: SignaturePolicy,
+  primaryPayload: Buffer,
+  receipt: MasterReceipt,
+  canonicalEnvelope: string
+): { ok: true; summary: SignatureSummary } | { ok: false; reason: string } {
+  const keys = policy.keys.map((pem) => normalizePem(pem)).map((pem) => ({ pem, key_id: computeKeyId(pem) }));
+  if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > keys.length) {
+    return { ok: false, reason: `invalid signature policy: threshold must be between 1 and ${keys.length}` };
+  }
+
+  const valid = new Map<string, string>();
+  for (const key of keys) {
+    if (verifyEd25519(primaryPayload, receipt.signature, key.pem)) {
+      valid.set(key.key_id, PRIMARY_SIGNATURE_ROLE);
+    }
+  }
+  for (const cosignature of receipt.cosignatures ?? []) {
+    const key = keys.find((candidate) => candidate.key_id === cosignature.key_id);
+    const payload = cosignaturePayload(cosignature.role, canonicalEnvelope);
+    if (key && !valid.has(key.key_id) && verifyEd25519(payload, cosignature.signature, key.pem)) {
+      valid.set(key.key_id, cosignature.role);
+    }
+  }
+
+  const summary = {
+    valid: [...valid].map(([key_id, role]) => ({ key_id, role })),
+    threshold: policy.threshold,
+  };
+  if (valid.size < policy.threshold) {
+    return {
+      ok: false,
+      reason: `signature threshold not met: ${valid.size} of ${policy.threshold} required signatures from ${keys.length} policy keys`,
+    };
+  }
+  return { ok: true, summary };
+}
+
+/**
+ * Add `signer`'s signature to a master receipt, over `role` and the envelope
+ * the primary signature covers (for batch receipts: this receipt's own
+ * envelope, not the batch root).  Cosignatures are excluded from
+ * receipt_hash, so chain entries and transparency log leaves stay valid.
+ */
+export async function cosignMasterReceipt<T extends MasterReceipt>(receipt: T, signer: Signer, role: string): Promise<T> {
+  if (!role.trim()) {
+    throw new Error("A cosignature needs a role (e.g. reviewer)");
+  }
+  const public_key = await signer.publicKey();
+  const key_id = computeKeyId(public_key);
+  if ((receipt.cosignatures ?? []).some((cosignature) => cosignature.key_id === key_id)) {
+    throw new Error(`Receipt ${receipt.receipt_id} is already cosigned by key_id ${key_id}`);
+  }
+
+  const payload = cosignaturePayload(role, canonicalizeWith(receipt.canonicalization, signedEnvelope(receipt)));
+  const signature = (await signer.sign(payload)).toString("base64");
+  return {
+    ...receipt,
+    cosignatures: [
+      ...(receipt.cosignatures ?? []),
+      { key_id, role, public_key, signature, signed_at: new Date().toISOString() },
+    ],
+  };
 }
 
 export async function runIngestValet(argv: string[], options?: RunIngestOptions): Promise<boolean> {
   const parsed = parseIngestArgs(argv);
   const quiet = options?.quiet ?? parsed.quiet;
-  const { inputDir } = parsed;
+
+  const prepared: PreparedIngest[] = [];
+  for (const inputDir of parsed.inputDirs) {
+    const item = prepareIngest(inputDir);
+    if (!item) {
+      return false;
+    }
+    prepared.push(item);
+  }
+
+  // HALO checkpoint generation phase
+  const signer = resolveSigner();
+  if (!signer) {
+    console.error(
+      "[ERROR] A signing key is required for HALO checkpoint generation phase: set RECEIPT_SIGNING_KEY (Ed25519 private key PEM), " +
+        "RECEIPT_SIGNING_KEY_FILE, HALO_SIGNER_COMMAND or HALO_SIGNER_SOCKET."
+    );
+    return false;
+  }
+  const signerPublicKey = await signer.publicKey();
+
+  const chainPath = resolveChainPath();
+  const encryptTo = loadRecipientPublicKeys(parsed.encryptTo);
+  // The attestation's ELI validation tags and validates with the same gazetteer and rules.
+  const gazetteer = resolveGazetteer();
+  const eliRules = resolveRuleSet();
+  const sources = prepared.map((item) => ({
+    transcript: item.transcript,
+    sourceDir: item.inputDir,
+    sourceReceiptFile: item.receiptFile,
+    sourceFiles: item.sourceFiles,
+    matchedHmacStrategy: item.hmacStrategy,
+    selectiveDisclosure: parsed.selectiveDisclosure,
+    encryptTo,
+    canonicalization: parsed.canonicalization,
+    gazetteer,
+  }));
+
+  // Reading the chain head, signing and appending must not interleave with another writer.
+  return withChainLock(chainPath, async () => {
+    const prevReceiptHash = nextPrevReceiptHash(chainPath);
+    const signed =
+      sources.length > 1
+        ? await createMasterReceiptBatchWithSigner(sources, { signer, prevReceiptHash })
+        : [await createMasterReceiptWithSigner({ ...sources[0], signer, prevReceiptHash })];
+
+    const tsa = resolveTimestampAuthority();
+    if (tsa) {
+      for (const item of signed) {
+        item.master_receipt = await timestampReceipt(item.master_receipt, tsa);
+      }
+    }
+
+    let allPassed = true;
+    for (const [index, item] of prepared.entries()) {
+      const context = { signer, logSigner: resolveLogSigner(), signerPublicKey, chainPath, gazetteer, eliRules, quiet };
+      allPassed = (await completeIngest(item, signed[index], context)) && allPassed;
+    }
+    return allPassed;
+  });
+}
+
+/** Read one Valet bundle and verify its HMAC; logs and returns undefined on failure. */
+function prepareIngest(inputDir: string): PreparedIngest | undefined {
   ensureDirectory(inputDir);
 
   const sourceFiles = collectSourceFiles(inputDir);
   const receiptFile = pickReceiptFile(sourceFiles);
   if (!receiptFile) {
     console.error("[ERROR] No Valet receipt JSON found. Expected receipt.json or receipt*.json in input directory.");
-    return false;
+    return undefined;
   }
 
   const receiptPath = join(inputDir, receiptFile.file);
@@ -481,7 +1153,7 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
   const hmacKey = process.env.VALET_RECEIPT_HMAC_KEY;
   if (!hmacKey) {
     console.error("[ERROR] VALET_RECEIPT_HMAC_KEY is required for HMAC verification phase.");
-    return false;
+    return undefined;
   }
 
   const hmacResult = verifyValetHmac(receiptJson, hmacKey);
@@ -495,30 +1167,39 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
 
   if (!hmacResult.ok || hmacResult.strategy === "none") {
     console.error("[ERROR] Valet HMAC verification failed.");
-    return false;
-  }
-
-  // HALO checkpoint generation phase
-  const signingKey = process.env.RECEIPT_SIGNING_KEY;
-  if (!signingKey) {
-    console.error("[ERROR] RECEIPT_SIGNING_KEY (Ed25519 private key PEM) is required for HALO checkpoint generation phase.");
-    return false;
+    return undefined;
   }
 
-  const transcript = normalizeValetToTranscript(receiptJson);
+  return {
+    inputDir,
+    receiptFile: receiptFile.file,
+    sourceFiles,
+    transcript: normalizeValetToTranscript(receiptJson),
+    hmacStrategy: hmacResult.strategy,
+    checks,
+  };
+}
 
+/** Transparency log, offline checks, output files and chain entry for one signed checkpoint. */
+async function completeIngest(
+  prepared: PreparedIngest,
+  { master_receipt, evidence_pack, encrypted_evidence_pack }: Checkpoint,
+  context: {
+    signer: Signer;
+    logSigner: Signer;
+    signerPublicKey: string;
+    chainPath: string;
+    gazetteer?: Gazetteer;
+    eliRules: RuleSet;
+    quiet: boolean;
+  }
+): Promise<boolean> {
+  const { inputDir, checks } = prepared;
+  const { signer, logSigner, chainPath, quiet } = context;
+  const verifyKeyPem = process.env.RECEIPT_VERIFY_KEY ?? context.signerPublicKey;
   const outputDir = join(inputDir, "halo_checkpoint");
   mkdirSync(outputDir, { recursive: true });
 
-  const { master_receipt, evidence_pack } = createMasterReceipt({
-    transcript,
-    sourceDir: inputDir,
-    sourceReceiptFile: receiptFile.file,
-    sourceFiles,
-    matchedHmacStrategy: hmacResult.strategy,
-    signingKeyPem: signingKey,
-  });
-
   checks.push({
     name: "content_hash_computed",
     passed: true,
@@ -527,9 +1208,35 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
   checks.push({
     name: "ed25519_checkpoint_generated",
     passed: true,
-    detail: `receipt_id=${master_receipt.receipt_id}`,
+    detail: master_receipt.batch
+      ? `receipt_id=${master_receipt.receipt_id} batch_id=${master_receipt.batch.batch_id} leaf=${master_receipt.batch.leaf_index + 1}/${master_receipt.batch.size}`
+      : `receipt_id=${master_receipt.receipt_id}`,
   });
 
+  if (master_receipt.timestamp_token) {
+    checks.push({
+      name: "timestamp_token_attached",
+      passed: true,
+      detail: `tsa=${master_receipt.timestamp_token.tsa} gen_time=${master_receipt.timestamp_token.gen_time}`,
+    });
+  }
+
+  if (encrypted_evidence_pack) {
+    checks.push({
+      name: "evidence_pack_encrypted",
+      passed: true,
+      detail: `cipher=${encrypted_evidence_pack.cipher} recipients=${encrypted_evidence_pack.recipients.map((r) => r.key_id).join(",")}; plaintext evidence_pack.json not written`,
+    });
+  }
+
+  if (evidence_pack.disclosure) {
+    checks.push({
+      name: "selective_disclosure_committed",
+      passed: true,
+      detail: `scheme=${evidence_pack.disclosure.scheme} messages=${evidence_pack.disclosure.commitments.messages.length} assertions=${evidence_pack.disclosure.commitments.assertions.length}`,
+    });
+  }
+
   const masterNoPlaintext = assertMasterHasNoPlaintext(master_receipt);
   checks.push({
     name: "master_receipt_plaintext_check",
@@ -537,6 +1244,22 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
     detail: masterNoPlaintext.ok ? "No transcript/plaintext fields in master receipt." : masterNoPlaintext.reason,
   });
 
+  const logDir = resolveLogDir();
+  const logged = await appendToLogWithSigner(
+    logDir,
+    { kind: "master", receipt_id: master_receipt.receipt_id, receipt_hash: hashReceipt(master_receipt) },
+    logSigner
+  );
+  evidence_pack.transparency = logged.proof;
+  if (encrypted_evidence_pack) {
+    encrypted_evidence_pack.transparency = logged.proof;
+  }
+  checks.push({
+    name: "transparency_log_appended",
+    passed: true,
+    detail: `leaf_index=${logged.leaf.index} tree_size=${logged.tree_head.tree_size} log=${logDir}`,
+  });
+
   const masterLeakScan = scanForLeaks([{ field: "master_receipt", value: master_receipt }], [
     process.env.OPENAI_API_KEY,
     process.env.VALET_RECEIPT_HMAC_KEY,
@@ -568,13 +1291,15 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
   const verifyResult = verifyCheckpointOffline({
     masterReceipt: master_receipt,
     evidencePack: evidence_pack,
-    verifyKeyPem: process.env.RECEIPT_VERIFY_KEY,
-    signingKeyPem: signingKey,
+    verifyKeyPem,
+    encryptedEvidencePack: encrypted_evidence_pack,
   });
   checks.push({
     name: "offline_verify",
     passed: verifyResult.ok,
-    detail: verifyResult.ok ? "Offline hash + Ed25519 verification passed." : verifyResult.reason ?? "verification failed",
+    detail: verifyResult.ok
+      ? "Offline hash + Ed25519 + inclusion proof verification passed."
+      : verifyResult.reason ?? "verification failed",
   });
 
   const tamperedEvidence = structuredClone(evidence_pack);
@@ -582,8 +1307,7 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
   const tamperedEvidenceVerify = verifyCheckpointOffline({
     masterReceipt: master_receipt,
     evidencePack: tamperedEvidence,
-    verifyKeyPem: process.env.RECEIPT_VERIFY_KEY,
-    signingKeyPem: signingKey,
+    verifyKeyPem,
   });
   checks.push({
     name: "acceptance_tampered_evidence_fails",
@@ -598,8 +1322,7 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
   const tamperedMasterVerify = verifyCheckpointOffline({
     masterReceipt: tamperedMaster,
     evidencePack: evidence_pack,
-    verifyKeyPem: process.env.RECEIPT_VERIFY_KEY,
-    signingKeyPem: signingKey,
+    verifyKeyPem,
   });
   checks.push({
     name: "acceptance_tampered_master_fails",
@@ -609,42 +1332,115 @@ export async function runIngestValet(argv: string[], options?: RunIngestOptions)
       : "tampered master unexpectedly verified",
   });
 
-  writeFileSync(join(outputDir, "master_receipt.json"), `${JSON.stringify(master_receipt, null, 2)}\n`, "utf8");
-  writeFileSync(join(outputDir, "evidence_pack.json"), `${JSON.stringify(evidence_pack, null, 2)}\n`, "utf8");
-
-  const submission = await maybeSubmitToLedger(master_receipt, evidence_pack);
-  if (submission.attempted) {
-    writeFileSync(
-      join(outputDir, "ledger_submission.json"),
-      `${JSON.stringify(
-        {
-          endpoint: submission.endpoint,
-          ok: submission.ok,
-          status: submission.status,
-          detail: submission.detail,
-          response: submission.responseBody,
-        },
-        null,
-        2
-      )}\n`,
-      "utf8"
-    );
+  const tamperedInclusion = structuredClone(evidence_pack);
+  tamperedInclusion.transparency!.signed_tree_head.root_hash = flipHexChar(logged.tree_head.root_hash);
+  const tamperedInclusionVerify = verifyCheckpointOffline({
+    masterReceipt: master_receipt,
+    evidencePack: tamperedInclusion,
+    verifyKeyPem,
+  });
+  checks.push({
+    name: "acceptance_tampered_inclusion_fails",
+    passed: !tamperedInclusionVerify.ok,
+    detail: !tamperedInclusionVerify.ok
+      ? tamperedInclusionVerify.reason ?? "tampered inclusion proof failed as expected"
+      : "tampered inclusion proof unexpectedly verified",
+  });
 
-    checks.push({
-      name: "ledger_submission",
-      passed: submission.ok,
-      detail: submission.detail,
-    });
+  const written: Array<[string, string]> = [
+    ["master_receipt.json", `${JSON.stringify(master_receipt, null, 2)}\n`],
+    encrypted_evidence_pack
+      ? ["evidence_pack.enc.json", `${JSON.stringify(encrypted_evidence_pack, null, 2)}\n`]
+      : ["evidence_pack.json", `${JSON.stringify(evidence_pack, null, 2)}\n`],
+  ];
+  for (const [name, content] of written) {
+    writeFileSync(join(outputDir, name), content, "utf8");
   }
 
+  const assistantText = extractAssistantText(prepared.transcript);
+  const attestation = await signAttestation(
+    buildRunStatement(
+      written.map(([name, content]) => subjectFor(name, content)),
+      {
+        prompt_sha256: promptDigest(extractUserText(prepared.transcript)),
+        provider: "valet",
+        model: asString(prepared.transcript.model) ?? "unknown",
+        receipt_id: master_receipt.receipt_id,
+        eli_validation: validateLedgerSemantics(
+          tagResponseToLedger(assistantText, { gazetteer: context.gazetteer }),
+          assistantText,
+          context.eliRules
+        ),
+        leak_scan: {
+          ok: masterLeakScan.ok && evidenceLeakScan.ok,
+          findings: [...masterLeakScan.findings, ...evidenceLeakScan.findings],
+        },
+        produced_at: master_receipt.verification.verified_at,
+      }
+    ),
+    signer
+  );
+  writeFileSync(join(outputDir, ATTESTATION_FILE), `${JSON.stringify(attestation, null, 2)}\n`, "utf8");
+  checks.push({
+    name: "attestation_signed",
+    passed: true,
+    detail: `in-toto statement over ${written.map(([name]) => name).join(", ")}; DSSE keyid=${attestation.signatures[0].keyid}`,
+  });
+
+  const chainEntry = appendChainEntry(chainPath, {
+    kind: "master",
+    receipt_id: master_receipt.receipt_id,
+    receipt_hash: hashReceipt(master_receipt),
+    receipt_path: join(outputDir, "master_receipt.json"),
+  });
+  checks.push({
+    name: "receipt_chain_appended",
+    passed: true,
+    detail: `seq=${chainEntry.seq} chain=${chainPath}`,
+  });
+
+  // Record the master receipt in the seen-receipt store, so ingesting the same Valet run again is flagged.
+  const runId = `valet-${master_receipt.receipt_id}`;
+  const seen = await loadSeenReceipts();
+  const replay = checkReplay(receiptIdentity(master_receipt, runId)!, seen, {
+    freshnessWindowMs: resolveFreshnessWindowMs(),
+  });
+  checks.push({
+    name: "replay_check",
+    passed: true,
+    detail: replay.ok
+      ? `No reused receipt_id or replayed content_hash among ${seen.length} seen receipts.`
+      : `Warning only: ${replay.findings.map((f) => `${f.kind}: ${f.detail}`).join("; ")}`,
+  });
+  await upsertRunRecord({
+    runId,
+    provider: "valet",
+    model: asString(prepared.transcript.model) ?? "unknown",
+    status: "ingested",
+    contentHash: sha256Hex(written[0][1]),
+    artifactDir: outputDir,
+    artifactPath: join(outputDir, "master_receipt.json"),
+    promptHash: sha256Hex(extractUserText(prepared.transcript)),
+    receiptId: master_receipt.receipt_id,
+    receiptHash: hashReceipt(master_receipt),
+    receiptContentHash: master_receipt.content_hash,
+    createdAt: new Date().toISOString(),
+  });
+
   return finalizeRun({
     checks,
     inputDir,
     outputDir,
-    matchedHmacStrategy: hmacResult.strategy,
+    matchedHmacStrategy: prepared.hmacStrategy,
     masterLeakScan,
     evidenceLeakScan,
-    submission,
+    transparency: {
+      log_dir: logDir,
+      leaf_index: logged.leaf.index,
+      tree_size: logged.tree_head.tree_size,
+      root_hash: logged.tree_head.root_hash,
+    },
+    replay,
     quiet,
   });
 }
@@ -656,7 +1452,8 @@ function finalizeRun(input: {
   matchedHmacStrategy: HmacStrategy | "none";
   masterLeakScan: { ok: boolean; findings: Array<{ location: string; pattern: string }> };
   evidenceLeakScan: { ok: boolean; findings: Array<{ location: string; pattern: string }> };
-  submission?: SubmissionResult;
+  transparency?: ProtocolReport["transparency"];
+  replay?: ReplayCheckResult;
   quiet?: boolean;
 }): boolean {
   const overallPass = input.checks.every((check) => check.passed);
@@ -674,15 +1471,8 @@ function finalizeRun(input: {
       evidence_ok: input.evidenceLeakScan.ok,
       evidence_findings: input.evidenceLeakScan.findings,
     },
-    submission: input.submission
-      ? {
-          attempted: input.submission.attempted,
-          ok: input.submission.ok,
-          endpoint: input.submission.endpoint,
-          status: input.submission.status,
-          detail: input.submission.detail,
-        }
-      : undefined,
+    transparency: input.transparency,
+    replay: input.replay,
   };
 
   mkdirSync(input.outputDir, { recursive: true });
@@ -693,6 +1483,7 @@ function finalizeRun(input: {
     printCheck(byName.get("valet_hmac_verification"), "Valet HMAC verified");
     printCheck(byName.get("content_hash_computed"), "Canonical content_hash computed");
     printCheck(byName.get("ed25519_checkpoint_generated"), "Ed25519 checkpoint generated");
+    printCheck(byName.get("transparency_log_appended"), "Transparency log appended");
     printCheck(byName.get("offline_verify"), "Offline verify OK");
 
     logger.info({ msg: "matched_hmac_strategy", matchedHmacStrategy: input.matchedHmacStrategy });
@@ -841,7 +1632,15 @@ function extractAssistantText(transcript: JsonRecord): string {
     .join("\n");
 }
 
-function normalizePem(rawPem: string): string {
+function extractUserText(transcript: JsonRecord): string {
+  const messages = asMessageArray(transcript.messages) ?? [];
+  return messages
+    .filter((message) => message.role.toLowerCase() === "user")
+    .map((message) => message.content)
+    .join("\n");
+}
+
+export function normalizePem(rawPem: string): string {
   return rawPem.includes("\\n") ? rawPem.replace(/\\n/g, "\n") : rawPem;
 }
 
@@ -893,68 +1692,6 @@ function assertMasterHasNoPlaintext(masterReceipt: MasterReceipt): { ok: boolean
   return { ok: true, reason: "OK" };
 }
 
-async function maybeSubmitToLedger(
-  masterReceipt: MasterReceipt,
-  evidencePack: EvidencePack
-): Promise<SubmissionResult> {
-  const baseUrl = process.env.HALO_LEDGER_URL;
-  if (!baseUrl) {
-    return {
-      attempted: false,
-      ok: false,
-      endpoint: "",
-      detail: "Ledger submission skipped (HALO_LEDGER_URL not configured).",
-    };
-  }
-
-  const endpointPath = process.env.HALO_INGEST_ENDPOINT ?? "/api/receipts/ingest";
-  const endpoint = new URL(endpointPath, baseUrl).toString();
-
-  const headers: Record<string, string> = {
-    "content-type": "application/json",
-  };
-  if (process.env.HALO_API_TOKEN) {
-    headers.authorization = `Bearer ${process.env.HALO_API_TOKEN}`;
-  }
-
-  try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ master_receipt: masterReceipt, evidence_pack: evidencePack }),
-    });
-
-    const responseText = await response.text();
-    const responseBody = tryParseJson(responseText);
-
-    return {
-      attempted: true,
-      ok: response.ok,
-      endpoint,
-      status: response.status,
-      responseBody,
-      detail: response.ok
-        ? `Ledger submission succeeded (${response.status}).`
-        : `Ledger submission failed (${response.status}).`,
-    };
-  } catch (error) {
-    return {
-      attempted: true,
-      ok: false,
-      endpoint,
-      detail: `Ledger submission threw error: ${error instanceof Error ? error.message : String(error)}`,
-    };
-  }
-}
-
-function tryParseJson(input: string): unknown {
-  try {
-    return JSON.parse(input) as unknown;
-  } catch {
-    return { raw: input };
-  }
-}
-
 if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
   if (process.argv.includes("--help") || process.argv.includes("-h")) {
     printUsageAndExit();
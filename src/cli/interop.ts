@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+/**
+ * Interop CLI – export receipts as JWS / COSE_Sign1 and verify them back.
+ *
+ * Usage:
+ *   npm run interop -- export --in <receipt.json> --format jws|cose --out <path>
+ *   npm run interop -- import --in <receipt.jws|receipt.cose> [--evidence <evidence_pack.json>]
+ *
+ * `export` accepts a master receipt, a HALO receipt, a checkpoint bundle
+ * ({ master_receipt, evidence_pack }) or a console artifact.  Master receipts
+ * are signed by the signer backend (HALO_SIGNER, see
+ * src/halo/signingBackend.ts); HALO receipts with the keyring key named by
+ * their key_id (HALO_KEYRING_FILE).
+ *
+ * `import` verifies the JWS or COSE_Sign1 signature, then the receipt it
+ * carries: master receipts through verifyCheckpointOffline against
+ * --evidence, HALO receipts through verifyReceipt.  Exits 1 on failure.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  exportCoseSign1,
+  exportCoseSign1WithSigner,
+  exportJws,
+  exportJwsWithSigner,
+  importInteropReceipt,
+  keyringSigner,
+  type InteropFormat,
+  type InteropImportResult,
+  type InteropSigner,
+} from "../halo/interop.js";
+import { computeKeyId, findKey, loadKeyring, type Keyring } from "../halo/keyring.js";
+import { resolveSigner } from "../halo/signingBackend.js";
+import { detectDocumentKind } from "../halo/schemaRegistry.js";
+import { verifyReceipt, type VerifyResult } from "../halo/verifier.js";
+import type { HaloReceipt } from "../halo/signer.js";
+import { loadTsaKeyring } from "../halo/timestamp.js";
+import { isEncryptedEvidencePack } from "../halo/evidenceEncryption.js";
+import { normalizePem, verifyCheckpointOffline, type EvidencePack } from "./ingestValet.js";
+
+type InteropCommand = "export" | "import";
+
+interface InteropArgs {
+  command: InteropCommand;
+  inPath: string;
+  format?: InteropFormat;
+  outPath?: string;
+  evidencePath?: string;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+export interface InteropVerifyResult extends InteropImportResult {
+  format: InteropFormat;
+  /** Result of verifying the carried receipt itself */
+  receiptVerification?: { ok: boolean; reason?: string };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseInteropArgs(argv: string[]): InteropArgs {
+  const args = argv.slice(2);
+  const command = args[0];
+  if (command !== "export" && command !== "import") {
+    throw new Error("Usage: interop export --in <receipt.json> --format jws|cose --out <path> | import --in <file> [--evidence <path>]");
+  }
+
+  let inPath: string | undefined;
+  let format: InteropFormat | undefined;
+  let outPath: string | undefined;
+  let evidencePath: string | undefined;
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--in" && args[i + 1]) {
+      inPath = args[++i];
+    } else if (arg === "--format" && args[i + 1]) {
+      const value = args[++i];
+      if (value !== "jws" && value !== "cose") {
+        throw new Error(`--format must be jws or cose, got: ${value}`);
+      }
+      format = value;
+    } else if (arg === "--out" && args[i + 1]) {
+      outPath = args[++i];
+    } else if (arg === "--evidence" && args[i + 1]) {
+      evidencePath = args[++i];
+    }
+  }
+
+  if (!inPath) {
+    throw new Error("--in <path> is required.");
+  }
+  if (command === "export" && (!format || !outPath)) {
+    throw new Error("export requires --format jws|cose and --out <path>.");
+  }
+  return {
+    command,
+    inPath: resolve(inPath),
+    format,
+    outPath: outPath ? resolve(outPath) : undefined,
+    evidencePath: evidencePath ? resolve(evidencePath) : undefined,
+  };
+}
+
+/** The receipt inside a bundle or console artifact, or the document itself. */
+function selectReceipt(doc: JsonRecord): JsonRecord {
+  if (doc.master_receipt && typeof doc.master_receipt === "object") return doc.master_receipt as JsonRecord;
+  if (detectDocumentKind(doc) === "console_artifact") return doc.receipt as JsonRecord;
+  return doc;
+}
+
+/** RECEIPT_VERIFY_KEY, or the public key of the configured signer backend. */
+export async function masterVerifyKey(): Promise<string | undefined> {
+  if (process.env.RECEIPT_VERIFY_KEY) return normalizePem(process.env.RECEIPT_VERIFY_KEY);
+  return resolveSigner()?.publicKey();
+}
+
+/**
+ * Verify a JWS or COSE_Sign1 receipt and then the receipt it carries: master
+ * receipts through verifyCheckpointOffline (needs the evidence pack), HALO
+ * receipts through verifyReceipt.
+ */
+export function verifyInteropReceipt(
+  encoded: string | Uint8Array,
+  options: {
+    /** Ed25519 public key of the checkpoint signer */
+    verifyKeyPem?: string;
+    /** Keyring for HALO receipts (public-only is enough) */
+    keyring?: Keyring;
+    evidencePack?: EvidencePack;
+    logVerifyKeyPem?: string;
+    tsaKeyring?: Keyring;
+  }
+): InteropVerifyResult {
+  const masterKid = options.verifyKeyPem ? computeKeyId(options.verifyKeyPem) : undefined;
+  const imported = importInteropReceipt(encoded, (kid) =>
+    kid === masterKid ? options.verifyKeyPem : options.keyring ? findKey(options.keyring, kid)?.public_key : undefined
+  );
+  if (!imported.ok || !imported.receipt) {
+    return imported;
+  }
+
+  let receiptVerification: { ok: boolean; reason?: string };
+  if (imported.kind === "master_receipt") {
+    receiptVerification = options.evidencePack
+      ? verifyCheckpointOffline({
+          masterReceipt: imported.receipt as never,
+          evidencePack: options.evidencePack,
+          verifyKeyPem: options.verifyKeyPem,
+          logVerifyKeyPem: options.logVerifyKeyPem,
+          tsaKeyring: options.tsaKeyring,
+        })
+      : { ok: false, reason: "master receipts need their evidence pack (--evidence) to verify" };
+  } else {
+    const result: VerifyResult = options.keyring
+      ? verifyReceipt(imported.receipt as unknown as HaloReceipt, options.keyring, { tsaKeyring: options.tsaKeyring })
+      : { valid: false, reason: "HALO receipts need a keyring to verify" };
+    receiptVerification = { ok: result.valid, reason: result.reason };
+  }
+
+  return {
+    ...imported,
+    ok: receiptVerification.ok,
+    reason: receiptVerification.ok ? undefined : receiptVerification.reason,
+    receiptVerification,
+  };
+}
+
+// ── Commands ──────────────────────────────────────────────────────────────────
+
+async function runExport(opts: InteropArgs): Promise<boolean> {
+  const receipt = selectReceipt(JSON.parse(readFileSync(opts.inPath, "utf8")) as JsonRecord);
+  const kind = detectDocumentKind(receipt);
+
+  let output: string | Buffer;
+  if (kind === "master_receipt") {
+    const signer = resolveSigner();
+    if (!signer) {
+      throw new Error("A signer backend is required to export master receipts: set HALO_SIGNER or RECEIPT_SIGNING_KEY.");
+    }
+    output =
+      opts.format === "jws" ? `${await exportJwsWithSigner(receipt, signer)}\n` : await exportCoseSign1WithSigner(receipt, signer);
+  } else if (kind === "halo_receipt") {
+    const signer: InteropSigner = keyringSigner(loadKeyring(), String(receipt.key_id));
+    output = opts.format === "jws" ? `${exportJws(receipt, signer)}\n` : exportCoseSign1(receipt, signer);
+  } else {
+    throw new Error(`No master receipt or HALO receipt found in ${opts.inPath}`);
+  }
+
+  mkdirSync(dirname(opts.outPath!), { recursive: true });
+  writeFileSync(opts.outPath!, output);
+
+  console.log(`[interop] ${kind} ${String(receipt.receipt_id ?? receipt.id)}`);
+  console.log(`[interop] ${opts.format === "jws" ? "JWS (EdDSA)" : "COSE_Sign1 (EdDSA)"} written to ${opts.outPath}`);
+  return true;
+}
+
+async function runImport(opts: InteropArgs): Promise<boolean> {
+  const encoded = readFileSync(opts.inPath);
+  let keyring: Keyring | undefined;
+  try {
+    keyring = loadKeyring();
+  } catch {
+    keyring = undefined;
+  }
+  const evidencePack = opts.evidencePath
+    ? (JSON.parse(readFileSync(opts.evidencePath, "utf8")) as EvidencePack)
+    : undefined;
+  if (evidencePack && isEncryptedEvidencePack(evidencePack)) {
+    throw new Error("--evidence is encrypted; decrypt it first (npm run verify -- --decrypt-key).");
+  }
+
+  const result = verifyInteropReceipt(encoded, {
+    verifyKeyPem: await masterVerifyKey(),
+    keyring,
+    evidencePack,
+    logVerifyKeyPem: process.env.HALO_TLOG_VERIFY_KEY,
+    tsaKeyring: loadTsaKeyring(),
+  });
+
+  console.log(`[interop] ${opts.inPath} (${result.format.toUpperCase()})`);
+  if (!result.receipt) {
+    console.log(`  ❌ Envelope signature: ${result.reason}`);
+    return false;
+  }
+  console.log(`  ✅ Envelope signature: EdDSA, kid ${result.kid}`);
+  console.log(
+    `  ${result.ok ? "✅" : "❌"} ${result.kind === "master_receipt" ? "Checkpoint verification" : "HALO receipt verification"}: ${
+      result.ok ? "verified" : result.reason
+    }`
+  );
+  return result.ok;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runInterop(argv: string[]): Promise<boolean> {
+  const opts = parseInteropArgs(argv);
+  return opts.command === "export" ? runExport(opts) : runImport(opts);
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runInterop(process.argv)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((err: unknown) => {
+      console.error("[interop] ERROR:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
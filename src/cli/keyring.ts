@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+/**
+ * Keyring CLI – manage the local HALO Ed25519 signing keyring.
+ *
+ * Usage:
+ *   npm run keyring -- init
+ *   npm run keyring -- list
+ *   npm run keyring -- rotate [--overlap-days 14]
+ *   npm run keyring -- revoke <key_id> [--reason "compromised laptop"]
+ *   npm run keyring -- export-public --out keyring.public.json
+ *
+ * All commands accept --keyring <path> (default: HALO_KEYRING_FILE or
+ * .halo/keyring.json).
+ */
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  createKeyring,
+  exportPublicKeyring,
+  keyStatus,
+  loadKeyring,
+  resolveKeyringPath,
+  revokeKey,
+  rotateKeyring,
+  saveKeyring,
+  DEFAULT_OVERLAP_DAYS,
+} from "../halo/keyring.js";
+
+type KeyringCommand = "init" | "list" | "rotate" | "revoke" | "export-public";
+
+interface KeyringArgs {
+  command: KeyringCommand;
+  keyringPath: string;
+  keyId?: string;
+  reason?: string;
+  overlapDays: number;
+  out?: string;
+  force: boolean;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseKeyringArgs(argv: string[]): KeyringArgs {
+  const args = argv.slice(2);
+  const command = args[0] as KeyringCommand | undefined;
+  if (!command || !["init", "list", "rotate", "revoke", "export-public"].includes(command)) {
+    throw new Error(
+      `Unknown or missing command: ${command ?? "(none)"}. ` +
+        "Expected one of: init, list, rotate, revoke, export-public."
+    );
+  }
+
+  let keyringPath: string | undefined;
+  let keyId: string | undefined;
+  let reason: string | undefined;
+  let overlapDays = DEFAULT_OVERLAP_DAYS;
+  let out: string | undefined;
+  let force = false;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--keyring" && args[i + 1]) {
+      keyringPath = args[++i];
+    } else if (arg === "--reason" && args[i + 1]) {
+      reason = args[++i];
+    } else if (arg === "--overlap-days" && args[i + 1]) {
+      const parsed = Number(args[++i]);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`--overlap-days must be a non-negative number, got: ${String(parsed)}`);
+      }
+      overlapDays = parsed;
+    } else if (arg === "--out" && args[i + 1]) {
+      out = args[++i];
+    } else if (arg === "--force") {
+      force = true;
+    } else if (!arg.startsWith("-") && !keyId) {
+      keyId = arg;
+    }
+  }
+
+  if (command === "revoke" && !keyId) {
+    throw new Error("revoke requires a <key_id> argument.");
+  }
+
+  return { command, keyringPath: resolveKeyringPath(keyringPath), keyId, reason, overlapDays, out, force };
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export function runKeyring(argv: string[]): void {
+  const opts = parseKeyringArgs(argv);
+
+  if (opts.command === "init") {
+    if (existsSync(opts.keyringPath) && !opts.force) {
+      throw new Error(`Keyring already exists at ${opts.keyringPath} (use --force to overwrite).`);
+    }
+    const keyring = createKeyring();
+    saveKeyring(keyring, opts.keyringPath);
+    console.log(`[keyring] Created ${opts.keyringPath}`);
+    console.log(`[keyring]   active key_id: ${keyring.active_key_id}`);
+    return;
+  }
+
+  const keyring = loadKeyring(opts.keyringPath);
+
+  if (opts.command === "list") {
+    const now = new Date();
+    for (const entry of keyring.keys) {
+      const status = keyStatus(keyring, entry, now);
+      const window = entry.expires_at ? ` expires_at=${entry.expires_at}` : "";
+      const revoked = entry.revoked_at ? ` revoked_at=${entry.revoked_at}` : "";
+      console.log(`${entry.key_id}  ${status.padEnd(7)} created_at=${entry.created_at}${window}${revoked}`);
+    }
+    return;
+  }
+
+  if (opts.command === "rotate") {
+    const rotated = rotateKeyring(keyring, { overlapDays: opts.overlapDays });
+    saveKeyring(rotated, opts.keyringPath);
+    console.log(`[keyring] Rotated: ${keyring.active_key_id} → ${rotated.active_key_id}`);
+    console.log(`[keyring]   previous key verifies for ${opts.overlapDays} more day(s)`);
+    return;
+  }
+
+  if (opts.command === "revoke") {
+    const revoked = revokeKey(keyring, opts.keyId!, { reason: opts.reason });
+    saveKeyring(revoked, opts.keyringPath);
+    console.log(`[keyring] Revoked ${opts.keyId}`);
+    if (opts.keyId === keyring.active_key_id) {
+      console.log("[keyring] ⚠️  The active key was revoked; run `rotate` before signing again.");
+    }
+    return;
+  }
+
+  const publicKeyring = `${JSON.stringify(exportPublicKeyring(keyring), null, 2)}\n`;
+  if (opts.out) {
+    const outPath = resolve(opts.out);
+    mkdirSync(dirname(outPath), { recursive: true });
+    writeFileSync(outPath, publicKeyring, "utf8");
+    console.log(`[keyring] Public keyring written to ${outPath}`);
+  } else {
+    process.stdout.write(publicKeyring);
+  }
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  try {
+    runKeyring(process.argv);
+  } catch (err: unknown) {
+    console.error("[keyring] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
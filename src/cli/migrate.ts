@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * Migrate CLI – upgrade HALO documents to the current schema version.
+ *
+ * Usage:
+ *   npm run migrate -- --in <document.json> [--out <path>] [--check]
+ *
+ * Accepts any document in the schema registry (artifacts, console artifacts,
+ * HALO and master receipts, evidence packs) or a checkpoint bundle
+ * ({ master_receipt, evidence_pack }).  Without --out the migration is only
+ * reported.  --check exits 1 when the document is not at the current version.
+ *
+ * Signed fields are never rewritten, so a migrated document verifies exactly
+ * as before.  1.0.0 HMAC receipts cannot move to 2.0.0 without re-signing;
+ * they are reported and left as they are.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { migrateDocument, type MigrationResult } from "../halo/migrations.js";
+import { currentVersion, validateDocument } from "../halo/schemaRegistry.js";
+
+interface MigrateArgs {
+  inPath: string;
+  outPath?: string;
+  check: boolean;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseMigrateArgs(argv: string[]): MigrateArgs {
+  const args = argv.slice(2);
+  let inPath: string | undefined;
+  let outPath: string | undefined;
+  let check = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--in" && args[i + 1]) {
+      inPath = args[++i];
+    } else if (arg === "--out" && args[i + 1]) {
+      outPath = args[++i];
+    } else if (arg === "--check") {
+      check = true;
+    }
+  }
+
+  if (!inPath) {
+    throw new Error("--in <document.json> is required.");
+  }
+  return { inPath: resolve(inPath), outPath: outPath ? resolve(outPath) : undefined, check };
+}
+
+function isCheckpointBundle(value: JsonRecord): boolean {
+  return Boolean(
+    value.master_receipt &&
+      typeof value.master_receipt === "object" &&
+      value.evidence_pack &&
+      typeof value.evidence_pack === "object"
+  );
+}
+
+function describe(label: string, result: MigrationResult): string[] {
+  const lines = [`[migrate] ${label}: ${result.kind} ${result.from} → ${result.to}`];
+  for (const step of result.applied) {
+    lines.push(`[migrate]   ✅ ${step}`);
+  }
+  if (result.stoppedReason) {
+    lines.push(`[migrate]   ⚠️  ${result.stoppedReason}`);
+  }
+  if (result.applied.length === 0 && !result.stoppedReason) {
+    lines.push("[migrate]   already current");
+  }
+  return lines;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export function runMigrate(argv: string[]): boolean {
+  const opts = parseMigrateArgs(argv);
+  const input = JSON.parse(readFileSync(opts.inPath, "utf8")) as JsonRecord;
+
+  const parts: Array<[string, JsonRecord]> = isCheckpointBundle(input)
+    ? [
+        ["master_receipt", input.master_receipt as JsonRecord],
+        ["evidence_pack", input.evidence_pack as JsonRecord],
+      ]
+    : [["document", input]];
+
+  const results = parts.map(([label, doc]) => [label, migrateDocument(doc)] as const);
+  const output = isCheckpointBundle(input)
+    ? { ...input, ...Object.fromEntries(results.map(([label, result]) => [label, result.document])) }
+    : results[0][1].document;
+
+  console.log(`[migrate] ${opts.inPath}`);
+  for (const [label, result] of results) {
+    for (const line of describe(label, result)) console.log(line);
+    const validation = validateDocument(result.document, result.kind);
+    if (!validation.ok) {
+      console.log(`[migrate]   ❌ schema: ${validation.errors.join("; ")}`);
+    }
+  }
+
+  const valid = results.every(([, result]) => validateDocument(result.document, result.kind).ok);
+
+  if (opts.outPath) {
+    mkdirSync(dirname(opts.outPath), { recursive: true });
+    writeFileSync(opts.outPath, `${JSON.stringify(output, null, 2)}\n`, "utf8");
+    console.log(`[migrate] Migrated document written to ${opts.outPath}`);
+  } else {
+    console.log("[migrate] Dry run; pass --out <path> to write the migrated document.");
+  }
+
+  if (opts.check) {
+    return valid && results.every(([, result]) => result.from === currentVersion(result.kind));
+  }
+  return valid;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  try {
+    process.exit(runMigrate(process.argv) ? 0 : 1);
+  } catch (err: unknown) {
+    console.error("[migrate] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Redact CLI – withhold messages and ELI assertions from a selective-disclosure
+ * evidence pack while keeping it verifiable against its master receipt.
+ *
+ * Usage:
+ *   npm run redact -- --evidence <evidence_pack.json> [--withhold-messages 0,2] [--withhold-assertions 1] --out <path>
+ *
+ * Indexes are zero-based.  The pack must come from
+ * `ingest-valet --selective-disclosure`; the redacted pack still verifies with
+ * `verifyCheckpointOffline` and the Evidence Inspector, which list the parts
+ * that were withheld.  Withholding an assistant message also withholds the
+ * assertions tagged from it.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { withholdParts } from "../halo/disclosure.js";
+import type { EvidencePack } from "./ingestValet.js";
+
+interface RedactArgs {
+  evidencePath: string;
+  outPath: string;
+  messages: number[];
+  assertions: number[];
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function parseIndexList(value: string, flag: string): number[] {
+  return value.split(",").map((part) => {
+    const parsed = Number(part.trim());
+    if (part.trim() === "" || !Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${flag} expects comma-separated indexes, got: ${value}`);
+    }
+    return parsed;
+  });
+}
+
+export function parseRedactArgs(argv: string[]): RedactArgs {
+  const args = argv.slice(2);
+  let evidencePath: string | undefined;
+  let outPath: string | undefined;
+  const messages: number[] = [];
+  const assertions: number[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--evidence" && args[i + 1]) {
+      evidencePath = args[++i];
+    } else if (arg === "--out" && args[i + 1]) {
+      outPath = args[++i];
+    } else if (arg === "--withhold-messages" && args[i + 1]) {
+      messages.push(...parseIndexList(args[++i], "--withhold-messages"));
+    } else if (arg === "--withhold-assertions" && args[i + 1]) {
+      assertions.push(...parseIndexList(args[++i], "--withhold-assertions"));
+    }
+  }
+
+  if (!evidencePath) {
+    throw new Error("--evidence <evidence_pack.json> is required.");
+  }
+  if (!outPath) {
+    throw new Error("--out <path> is required.");
+  }
+  return { evidencePath: resolve(evidencePath), outPath: resolve(outPath), messages, assertions };
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export function runRedact(argv: string[]): boolean {
+  const opts = parseRedactArgs(argv);
+  if (opts.outPath === opts.evidencePath) {
+    throw new Error("--out must differ from --evidence; keep the unredacted pack.");
+  }
+
+  const evidence = JSON.parse(readFileSync(opts.evidencePath, "utf8")) as EvidencePack;
+  const redacted = withholdParts(evidence, { messages: opts.messages, assertions: opts.assertions });
+
+  mkdirSync(dirname(opts.outPath), { recursive: true });
+  writeFileSync(opts.outPath, `${JSON.stringify(redacted, null, 2)}\n`, "utf8");
+
+  console.log(`[redact] ${opts.evidencePath}`);
+  console.log(`[redact]   withheld messages:   ${opts.messages.join(", ") || "(none)"}`);
+  const assertions = redacted.disclosure!.salts.assertions.flatMap((salt, index) =>
+    salt === null && evidence.disclosure!.salts.assertions[index] !== null ? [index] : []
+  );
+  console.log(`[redact]   withheld assertions: ${assertions.join(", ") || "(none)"}`);
+  console.log(`[redact] Redacted evidence pack written to ${opts.outPath}`);
+  return true;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  try {
+    process.exit(runRedact(process.argv) ? 0 : 1);
+  } catch (err: unknown) {
+    console.error("[redact] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
@@ -5,6 +5,9 @@
  * Usage:
  *   npm run demo -- --prompt "Tell me about ocean tides."
  *   npm run demo -- --input-file path/to/prompt.txt --model gpt-4o --out-dir out
+ *   npm run demo -- --prompt "..." --policy policy.json --quarantine-dir out/quarantine
+ *   npm run demo -- --prompt "..." --rule-pack strict-medical --rules-config eli-rules.json
+ *   npm run demo -- --prompt "..." --gazetteer entities.json
  *
  * Required environment variable (live LLM path):
  *   OPENAI_API_KEY  – provider credential; never written to any output file
@@ -12,6 +15,11 @@
  * Optional environment variables:
  *   E2E_MODEL       – model name (default: "gpt-4.1-mini")
  *   E2E_ENDPOINT    – "/chat/completions" (default) or "/responses"
+ *   HALO_POLICY_FILE    – run policy (see src/halo/policy.ts), same as --policy
+ *   HALO_QUARANTINE_DIR – where quarantined runs go (default: <out-dir>/quarantine)
+ *   HALO_ELI_RULE_PACK  – ELI rule pack (see src/eli/rules.ts), same as --rule-pack
+ *   HALO_ELI_RULES_FILE – ELI rule overrides, same as --rules-config
+ *   HALO_ELI_GAZETTEER  – entity names for claim annotations (see src/eli/annotations.ts), same as --gazetteer
  *
  * Output files written to <out-dir>/ (default: out/):
  *   artifact.json   – full machine-readable truth object
@@ -19,6 +27,12 @@
  *   transcript.json – signed transcript object only
  *   ledger.json     – ELI ledger only
  *   report.md       – human-readable summary
+ *   attestation.dsse.json – in-toto statement over the files above, signed
+ *                     (DSSE) with the receipt signer (RECEIPT_SIGNING_KEY or
+ *                     HALO_SIGNER); skipped when none is configured
+ *
+ * With a policy, a rejected run writes nothing and exits 1; a quarantined run
+ * writes the files above to the quarantine directory and exits 1.
  */
 import { readFileSync, mkdirSync, writeFileSync, existsSync } from "node:fs";
 import { resolve } from "node:path";
@@ -28,12 +42,25 @@ import { dirname } from "node:path";
 import {
   invokeLLMWithHaloAdapter,
   signHaloTranscriptAdapter,
+  verifyHaloReceiptAdapter,
 } from "../adapters/haloReceiptsAdapter.js";
 import { invokeAnthropicLLM } from "../adapters/anthropicAdapter.js";
 import { invokeGeminiLLM } from "../adapters/geminiAdapter.js";
 import { tagResponseToLedger, validateLedgerSemantics } from "../adapters/eliAdapter.js";
 import { scanForLeaks } from "../utils/leakScan.js";
+import { resolveSigner } from "../halo/signingBackend.js";
 import type { Artifact } from "../types/artifact.js";
+import { ARTIFACT_VERSION } from "../halo/schemaRegistry.js";
+import { resolveRuleSet } from "../eli/rules.js";
+import { resolveGazetteer } from "../eli/annotations.js";
+import { describePolicyFindings, evaluatePolicy, resolvePolicy, resolveQuarantineDir } from "../halo/policy.js";
+import {
+  ATTESTATION_FILE,
+  buildRunStatement,
+  promptDigest,
+  signAttestation,
+  subjectFor,
+} from "../halo/attestation.js";
 
 type DemoProvider = "openai" | "anthropic" | "gemini";
 
@@ -47,6 +74,11 @@ function parseArgs(argv: string[]): {
   endpoint: "/chat/completions" | "/responses";
   maxTokens?: number;
   outDir: string;
+  policyFile?: string;
+  quarantineDir?: string;
+  rulePack?: string;
+  rulesConfig?: string;
+  gazetteer?: string;
 } {
   const args = argv.slice(2);
   let prompt: string | undefined;
@@ -57,6 +89,11 @@ function parseArgs(argv: string[]): {
     (process.env.E2E_ENDPOINT as "/chat/completions" | "/responses") ?? "/chat/completions";
   let maxTokens: number | undefined;
   let outDir = "out";
+  let policyFile: string | undefined;
+  let quarantineDir: string | undefined;
+  let rulePack: string | undefined;
+  let rulesConfig: string | undefined;
+  let gazetteer: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -86,10 +123,33 @@ function parseArgs(argv: string[]): {
       maxTokens = parsed;
     } else if (arg === "--out-dir" && args[i + 1]) {
       outDir = args[++i];
+    } else if (arg === "--policy" && args[i + 1]) {
+      policyFile = args[++i];
+    } else if (arg === "--quarantine-dir" && args[i + 1]) {
+      quarantineDir = args[++i];
+    } else if (arg === "--rule-pack" && args[i + 1]) {
+      rulePack = args[++i];
+    } else if (arg === "--rules-config" && args[i + 1]) {
+      rulesConfig = args[++i];
+    } else if (arg === "--gazetteer" && args[i + 1]) {
+      gazetteer = args[++i];
     }
   }
 
-  return { prompt, inputFile, provider, model, endpoint, maxTokens, outDir };
+  return {
+    prompt,
+    inputFile,
+    provider,
+    model,
+    endpoint,
+    maxTokens,
+    outDir,
+    policyFile,
+    quarantineDir,
+    rulePack,
+    rulesConfig,
+    gazetteer,
+  };
 }
 
 function resolvePrompt(opts: { prompt?: string; inputFile?: string }): string {
@@ -118,20 +178,29 @@ function getOrchestratorVersion(): string {
 }
 
 function buildReport(artifact: Artifact, promptText: string): string {
-  const { meta, llm, eliValidation, eliLedger, security, provenance } = artifact;
+  const { meta, llm, eliValidation, eliLedger, security, provenance, policy } = artifact;
 
   const leakStatus = security.credentialLeakScan.ok
     ? "✅ PASS (no credential patterns found)"
     : `❌ FAIL – findings:\n${security.credentialLeakScan.findings.map((f) => `  - ${f.location}: ${f.pattern}`).join("\n")}`;
 
+  const issueLines = eliValidation.issues.map((i) => `  - [${i.severity}] ${i.claimId}: ${i.rule} – ${i.detail}`).join("\n");
   const validationStatus = eliValidation.ok
-    ? "✅ PASS (no ERROR issues)"
-    : `❌ FAIL – issues:\n${eliValidation.issues.map((i) => `  - [${i.severity}] ${i.claimId}: ${i.rule} – ${i.detail}`).join("\n")}`;
+    ? `✅ PASS (no ERROR issues)${eliValidation.issues.length > 0 ? ` – other issues:\n${issueLines}` : ""}`
+    : `❌ FAIL – issues:\n${issueLines}`;
 
   const factOrInference = eliLedger.claims.filter(
     (c) => c.type === "FACT" || c.type === "INFERENCE"
   ).length;
 
+  const policySection = !policy
+    ? ""
+    : `
+## Policy
+- **Action:** ${policy.action}
+${policy.findings.length > 0 ? describePolicyFindings(policy).map((line) => `- ${line}`).join("\n") : "- No policy rule fired"}
+`;
+
   const provenanceSection = provenance.provenanceHash
     ? `**Provenance hash:** \`${provenance.provenanceHash}\``
     : "_Provenance hash not returned by this provider/endpoint._";
@@ -162,11 +231,13 @@ ${provenanceSection}
 - **Tagged at:** ${eliLedger.tagged_at}
 
 ## Semantic validation
+- **Rule pack:** ${eliValidation.rulePack ?? "default"}
+
 ${validationStatus}
 
 ## Credential leak scan
 ${leakStatus}
-
+${policySection}
 ## Output files
 | File | Contents |
 |------|----------|
@@ -186,6 +257,8 @@ _Run \`npm run verify -- --artifact out/artifact.json\` to verify offline._
 export async function runDemo(argv: string[]): Promise<void> {
   const opts = parseArgs(argv);
   const promptText = resolvePrompt(opts);
+  const ruleSet = resolveRuleSet({ pack: opts.rulePack, configFile: opts.rulesConfig });
+  const gazetteer = resolveGazetteer(opts.gazetteer);
 
   ensureProviderKey(opts.provider);
 
@@ -209,8 +282,8 @@ export async function runDemo(argv: string[]): Promise<void> {
 
   console.log("[demo] LLM responded. Running ELI tagging...");
 
-  const ledger = tagResponseToLedger(adapterResult.outputText);
-  const validation = validateLedgerSemantics(ledger, adapterResult.outputText);
+  const ledger = tagResponseToLedger(adapterResult.outputText, { gazetteer });
+  const validation = validateLedgerSemantics(ledger, adapterResult.outputText, ruleSet);
 
   const leakScan = scanForLeaks(
     [
@@ -226,6 +299,21 @@ export async function runDemo(argv: string[]): Promise<void> {
       )
   );
 
+  const policy = resolvePolicy(opts.policyFile);
+  const decision = policy
+    ? evaluatePolicy(policy, {
+        receiptValid: (await verifyHaloReceiptAdapter(adapterResult.transcript, adapterResult.haloReceipt)).ok,
+        validation,
+        leakScan,
+      })
+    : undefined;
+  if (decision?.action === "reject") {
+    throw new Error(
+      `Run rejected by policy; no artifacts written:\n${describePolicyFindings(decision).map((line) => `  - ${line}`).join("\n")}`
+    );
+  }
+  const quarantined = decision?.action === "quarantine";
+
   const provenance = adapterResult.provenance as Record<string, unknown>;
 
   const llmEndpoint =
@@ -237,6 +325,7 @@ export async function runDemo(argv: string[]): Promise<void> {
 
   const artifact: Artifact = {
     meta: {
+      schemaVersion: ARTIFACT_VERSION,
       timestamp: new Date().toISOString(),
       orchestratorVersion: getOrchestratorVersion(),
       nodeVersion: process.version,
@@ -264,30 +353,69 @@ export async function runDemo(argv: string[]): Promise<void> {
     eliLedger: ledger,
     eliValidation: validation,
     security: { credentialLeakScan: leakScan },
+    ...(decision ? { policy: decision } : {}),
   };
 
   // Write output files
-  const outDir = resolve(opts.outDir);
+  const outDir = quarantined ? resolveQuarantineDir(opts.outDir, opts.quarantineDir) : resolve(opts.outDir);
   mkdirSync(outDir, { recursive: true });
 
-  writeFileSync(resolve(outDir, "artifact.json"), JSON.stringify(artifact, null, 2), "utf8");
-  writeFileSync(resolve(outDir, "receipt.json"), JSON.stringify(artifact.haloReceipt, null, 2), "utf8");
-  writeFileSync(resolve(outDir, "transcript.json"), JSON.stringify(artifact.transcript, null, 2), "utf8");
-  writeFileSync(resolve(outDir, "ledger.json"), JSON.stringify(artifact.eliLedger, null, 2), "utf8");
-  writeFileSync(resolve(outDir, "report.md"), buildReport(artifact, promptText), "utf8");
+  const files: Array<[string, string]> = [
+    ["artifact.json", JSON.stringify(artifact, null, 2)],
+    ["receipt.json", JSON.stringify(artifact.haloReceipt, null, 2)],
+    ["transcript.json", JSON.stringify(artifact.transcript, null, 2)],
+    ["ledger.json", JSON.stringify(artifact.eliLedger, null, 2)],
+    ["report.md", buildReport(artifact, promptText)],
+  ];
+  for (const [name, content] of files) {
+    writeFileSync(resolve(outDir, name), content, "utf8");
+  }
 
-  console.log(`\n[demo] ✅ Artifacts written to ${outDir}/`);
-  console.log(`[demo]   artifact.json`);
-  console.log(`[demo]   receipt.json`);
-  console.log(`[demo]   transcript.json`);
-  console.log(`[demo]   ledger.json`);
-  console.log(`[demo]   report.md`);
+  if (quarantined) {
+    console.log(`\n[demo] ⚠️  Run quarantined by policy; artifacts written to ${outDir}/`);
+  } else {
+    console.log(`\n[demo] ✅ Artifacts written to ${outDir}/`);
+  }
+  for (const [name] of files) {
+    console.log(`[demo]   ${name}`);
+  }
+
+  const signer = resolveSigner();
+  if (signer) {
+    const receiptId = (artifact.haloReceipt as { id?: unknown } | undefined)?.id;
+    const statement = buildRunStatement(
+      files.map(([name, content]) => subjectFor(name, content)),
+      {
+        prompt_sha256: promptDigest(promptText),
+        provider: opts.provider,
+        model: opts.model,
+        receipt_id: typeof receiptId === "string" ? receiptId : undefined,
+        eli_validation: validation,
+        leak_scan: leakScan,
+        produced_at: artifact.meta.timestamp,
+      }
+    );
+    const envelope = await signAttestation(statement, signer);
+    writeFileSync(resolve(outDir, ATTESTATION_FILE), `${JSON.stringify(envelope, null, 2)}\n`, "utf8");
+    console.log(`[demo]   ${ATTESTATION_FILE} (keyid ${envelope.signatures[0].keyid})`);
+  } else {
+    console.log(`[demo]   (${ATTESTATION_FILE} skipped: no signing key; set RECEIPT_SIGNING_KEY or HALO_SIGNER)`);
+  }
+
+  if (decision && decision.findings.length > 0) {
+    console.error(`\n[demo] Policy ${decision.action}:`);
+    console.error(describePolicyFindings(decision).map((line) => `  - ${line}`).join("\n"));
+  }
 
   if (!leakScan.ok) {
     console.error("\n[demo] ⚠️  CREDENTIAL LEAK SCAN FAILED – review artifact before sharing.");
     console.error(leakScan.findings.map((f) => `  - ${f.location}: ${f.pattern}`).join("\n"));
     process.exit(1);
   }
+
+  if (quarantined) {
+    process.exit(1);
+  }
 }
 
 async function invokeGeminiWithHalo(
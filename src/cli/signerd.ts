@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Signing daemon CLI – reference backend for HALO_SIGNER=socket / command.
+ *
+ * Usage:
+ *   npm run signerd -- --socket /run/halo/signer.sock --key-file /secure/receipt_signing.pem
+ *   npm run signerd -- --stdio --key-file /secure/receipt_signing.pem
+ *
+ * `--socket` listens on a Unix socket (mode 0600) until SIGINT/SIGTERM; point
+ * the orchestrator at it with HALO_SIGNER_SOCKET.  `--stdio` answers the
+ * request lines on stdin and exits, so it can stand in for an HSM/KMS wrapper
+ * in HALO_SIGNER_COMMAND.  Both speak the line protocol described in
+ * src/halo/signingBackend.ts.
+ *
+ * The key file defaults to HALO_SIGNERD_KEY_FILE.  The private key stays in
+ * this process; the orchestrator only ever sees the public key and signatures.
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { computeKeyId } from "../halo/keyring.js";
+import { createPemSigner, handleSignerRequest, startSigningDaemon } from "../halo/signingBackend.js";
+
+interface SignerdArgs {
+  mode: "socket" | "stdio";
+  socketPath?: string;
+  keyFile: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function parseSignerdArgs(argv: string[]): SignerdArgs {
+  const args = argv.slice(2);
+  let socketPath: string | undefined;
+  let stdio = false;
+  let keyFile = process.env.HALO_SIGNERD_KEY_FILE;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--socket" && args[i + 1]) {
+      socketPath = args[++i];
+    } else if (arg === "--stdio") {
+      stdio = true;
+    } else if (arg === "--key-file" && args[i + 1]) {
+      keyFile = args[++i];
+    }
+  }
+
+  if (!keyFile) {
+    throw new Error("--key-file <path> (or HALO_SIGNERD_KEY_FILE) is required.");
+  }
+  if (stdio === Boolean(socketPath)) {
+    throw new Error("Usage: signerd --socket <path> --key-file <pem> | --stdio --key-file <pem>");
+  }
+  return {
+    mode: stdio ? "stdio" : "socket",
+    socketPath: socketPath ? resolve(socketPath) : undefined,
+    keyFile: resolve(keyFile),
+  };
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolveInput, reject) => {
+    let input = "";
+    process.stdin.setEncoding("utf8");
+    process.stdin.on("data", (chunk: string) => (input += chunk));
+    process.stdin.on("end", () => resolveInput(input));
+    process.stdin.on("error", reject);
+  });
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runSignerd(argv: string[]): Promise<void> {
+  const opts = parseSignerdArgs(argv);
+  const privateKeyPem = readFileSync(opts.keyFile, "utf8");
+
+  if (opts.mode === "stdio") {
+    const lines = (await readStdin()).split("\n").filter((line) => line.trim().length > 0);
+    for (const line of lines) {
+      process.stdout.write(`${JSON.stringify(handleSignerRequest(line, privateKeyPem))}\n`);
+    }
+    return;
+  }
+
+  const keyId = computeKeyId(await createPemSigner(privateKeyPem, "signerd").publicKey());
+  const daemon = await startSigningDaemon({ socketPath: opts.socketPath!, privateKeyPem });
+  console.log(`[signerd] key_id ${keyId} listening on ${daemon.socketPath}`);
+  console.log("[signerd] set HALO_SIGNER_SOCKET to this path; Ctrl-C to stop");
+
+  const stop = () => {
+    daemon.close().then(() => process.exit(0));
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runSignerd(process.argv).catch((err: unknown) => {
+    console.error("[signerd] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
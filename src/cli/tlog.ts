@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+/**
+ * Transparency log CLI – inspect the local Merkle log and produce proofs.
+ *
+ * Usage:
+ *   npm run tlog -- head
+ *   npm run tlog -- prove <receipt_id> [--size 12] [--out proof.json]
+ *   npm run tlog -- consistency <first_size> [<second_size>] [--out consistency.json]
+ *   npm run tlog -- verify
+ *
+ * All commands accept --log-dir <path> (default: HALO_TLOG_DIR or
+ * out/console/transparency_log).  `verify` replays every leaf and tree head
+ * and exits 1 on any finding; set HALO_TLOG_VERIFY_KEY to pin the log key.
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  auditLog,
+  latestTreeHead,
+  proveConsistency,
+  proveInclusion,
+  resolveLogDir,
+} from "../halo/transparencyLog.js";
+
+type TlogCommand = "head" | "prove" | "consistency" | "verify";
+
+interface TlogArgs {
+  command: TlogCommand;
+  logDir: string;
+  positionals: string[];
+  size?: number;
+  out?: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function parseSize(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${flag} must be a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
+
+export function parseTlogArgs(argv: string[]): TlogArgs {
+  const args = argv.slice(2);
+  const command = args[0] as TlogCommand | undefined;
+  if (!command || !["head", "prove", "consistency", "verify"].includes(command)) {
+    throw new Error(
+      `Unknown or missing command: ${command ?? "(none)"}. Expected one of: head, prove, consistency, verify.`
+    );
+  }
+
+  let logDir: string | undefined;
+  let size: number | undefined;
+  let out: string | undefined;
+  const positionals: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--log-dir" && args[i + 1]) {
+      logDir = args[++i];
+    } else if (arg === "--size" && args[i + 1]) {
+      size = parseSize(args[++i], "--size");
+    } else if (arg === "--out" && args[i + 1]) {
+      out = args[++i];
+    } else if (!arg.startsWith("-")) {
+      positionals.push(arg);
+    }
+  }
+
+  if (command === "prove" && positionals.length === 0) {
+    throw new Error("prove requires a <receipt_id> argument.");
+  }
+  if (command === "consistency" && positionals.length === 0) {
+    throw new Error("consistency requires a <first_size> argument.");
+  }
+
+  return { command, logDir: resolveLogDir(logDir), positionals, size, out };
+}
+
+function emit(value: unknown, out: string | undefined, label: string): void {
+  const json = `${JSON.stringify(value, null, 2)}\n`;
+  if (out) {
+    const outPath = resolve(out);
+    mkdirSync(dirname(outPath), { recursive: true });
+    writeFileSync(outPath, json, "utf8");
+    console.log(`[tlog] ${label} written to ${outPath}`);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export function runTlog(argv: string[]): boolean {
+  const opts = parseTlogArgs(argv);
+
+  if (opts.command === "head") {
+    const head = latestTreeHead(opts.logDir);
+    if (!head) {
+      throw new Error(`Transparency log is empty: ${opts.logDir}`);
+    }
+    emit(head, opts.out, "Tree head");
+    return true;
+  }
+
+  if (opts.command === "prove") {
+    emit(proveInclusion(opts.logDir, opts.positionals[0], opts.size), opts.out, "Inclusion proof");
+    return true;
+  }
+
+  if (opts.command === "consistency") {
+    const first = parseSize(opts.positionals[0], "<first_size>");
+    const second = opts.positionals[1] ? parseSize(opts.positionals[1], "<second_size>") : undefined;
+    emit(proveConsistency(opts.logDir, first, second), opts.out, "Consistency proof");
+    return true;
+  }
+
+  const result = auditLog(opts.logDir, { publicKeyPem: process.env.HALO_TLOG_VERIFY_KEY });
+  console.log(`[tlog] ${opts.logDir}`);
+  console.log(`[tlog]   tree_size: ${result.tree_size}`);
+  console.log(`[tlog]   root_hash: ${result.root_hash}`);
+  for (const finding of result.findings) {
+    console.log(`  ❌ ${finding.kind}: ${finding.detail}`);
+  }
+  console.log(`[tlog] Overall: ${result.ok ? "✅ PASS" : "❌ FAIL"}`);
+  return result.ok;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  try {
+    process.exit(runTlog(process.argv) ? 0 : 1);
+  } catch (err: unknown) {
+    console.error("[tlog] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
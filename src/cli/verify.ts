@@ -4,24 +4,74 @@
  *
  * Usage:
  *   npm run verify -- --artifact out/artifact.json
+ *   npm run verify -- --artifact checkpoint.json --decrypt-key recipient.pem
+ *   npm run verify -- --artifact checkpoint.json --threshold 2 \
+ *     --signer-key ops.pub.pem --signer-key audit.pub.pem --signer-key legal.pub.pem
  *
  * Exits 0 when all checks pass, 1 when any check fails.
  *
+ * Checkpoint bundles ({ master_receipt, evidence_pack }) are verified with
+ * verifyCheckpointOffline, including batch-signed receipts, partially
+ * disclosed (redacted) evidence packs and any carried transparency log
+ * inclusion proof.  An encrypted evidence pack (`evidence_pack.enc.json`
+ * contents as `evidence_pack`) is checked against the master receipt's
+ * evidence_ciphertext_hash, then decrypted with the recipient X25519 private
+ * key from --decrypt-key or HALO_EVIDENCE_KEY_FILE and verified as above.
+ * With --threshold, the checkpoint passes only when that many of the
+ * --signer-key public keys signed it (primary signature or cosignatures,
+ * see `npm run cosign`) instead of checking RECEIPT_VERIFY_KEY alone.
+ *
  * Checks performed:
  *   1. HALO receipt verification via halo-receipts contract
  *   2. ELI semantic validation re-run on stored ledger
  *   3. Credential leak scan on transcript + receipt + provenance
+ *   4. Signing time: attested by a trusted timestamp authority or self-asserted
+ *      (trusted TSA keys from HALO_TSA_KEYRING_FILE, default .halo/tsa_keyring.json)
+ *   5. Replay / duplicate detection against the run index (file or `runs`
+ *      table): reused receipt_id, replayed content_hash, and timestamps outside
+ *      HALO_FRESHNESS_WINDOW_SECONDS (checkpoint bundles too)
+ *   6. Schema version: every document validates against the registered schema
+ *      for its version; outdated versions pass and point at `npm run migrate`
+ *
+ * Receipt bundles (`receipt.bundle`, see `npm run export-bundle`) are checked
+ * against their manifest, then verified as a checkpoint bundle with the key
+ * they carry, or with RECEIPT_VERIFY_KEY, which must match the bundle's key_id.
+ *
+ * Attestations (`attestation.dsse.json`, a DSSE envelope around an in-toto
+ * statement) are verified against RECEIPT_VERIFY_KEY (or the key derived from
+ * RECEIPT_SIGNING_KEY); every subject must match the file of the same name
+ * next to the envelope, and the attested ELI validation and leak scan must
+ * have passed.
  *
  * Writes out/verify_report.md (or --out-dir/verify_report.md).
  */
-import { readFileSync, mkdirSync, writeFileSync } from "node:fs";
-import { resolve } from "node:path";
+import { existsSync, readFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { verifyHaloReceiptAdapter } from "../adapters/haloReceiptsAdapter.js";
 import { validateLedgerSemantics } from "../adapters/eliAdapter.js";
+import { resolveRuleSet } from "../eli/rules.js";
 import { scanForLeaks } from "../utils/leakScan.js";
 import type { Artifact } from "../types/artifact.js";
-import { verifyCheckpointOffline } from "./ingestValet.js";
+import { verifyCheckpointOffline, type SignaturePolicy } from "./ingestValet.js";
+import { masterVerifyKey } from "./interop.js";
+import { checkSubjects, isDsseEnvelope, verifyAttestation, type DsseEnvelope } from "../halo/attestation.js";
+import {
+  checkCiphertextBinding,
+  decryptEvidencePack,
+  isEncryptedEvidencePack,
+  type EncryptedEvidencePack,
+} from "../halo/evidenceEncryption.js";
+import { isReceiptBundle, openReceiptBundle, type ReceiptBundle } from "../halo/receiptBundle.js";
+import { validateDocument } from "../halo/schemaRegistry.js";
+import { assessSigningTime, loadTsaKeyring, type SigningTimeAssessment } from "../halo/timestamp.js";
+import {
+  checkReplay,
+  loadSeenReceipts,
+  receiptIdentity,
+  resolveFreshnessWindowMs,
+  type ReplayCheckResult,
+} from "../halo/replay.js";
 
 interface CheckpointBundle {
   master_receipt: Record<string, unknown>;
@@ -30,10 +80,20 @@ interface CheckpointBundle {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function parseArgs(argv: string[]): { artifactPath: string; outDir: string } {
+interface VerifyArgs {
+  artifactPath: string;
+  outDir: string;
+  decryptKeyPath?: string;
+  signaturePolicy?: SignaturePolicy;
+}
+
+function parseArgs(argv: string[]): VerifyArgs {
   const args = argv.slice(2);
   let artifactPath: string | undefined;
   let outDir = "out";
+  let decryptKeyPath = process.env.HALO_EVIDENCE_KEY_FILE;
+  let threshold: number | undefined;
+  const signerKeyPaths: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -41,14 +101,31 @@ function parseArgs(argv: string[]): { artifactPath: string; outDir: string } {
       artifactPath = args[++i];
     } else if (arg === "--out-dir" && args[i + 1]) {
       outDir = args[++i];
+    } else if (arg === "--decrypt-key" && args[i + 1]) {
+      decryptKeyPath = args[++i];
+    } else if (arg === "--threshold" && args[i + 1]) {
+      threshold = Number(args[++i]);
+    } else if (arg === "--signer-key" && args[i + 1]) {
+      signerKeyPaths.push(args[++i]);
     }
   }
 
   if (!artifactPath) {
     throw new Error("Provide --artifact <path> (e.g. out/artifact.json).");
   }
+  if ((threshold === undefined) !== (signerKeyPaths.length === 0)) {
+    throw new Error("--threshold <n> and --signer-key <pem> go together.");
+  }
 
-  return { artifactPath: resolve(artifactPath), outDir };
+  return {
+    artifactPath: resolve(artifactPath),
+    outDir,
+    decryptKeyPath: decryptKeyPath ? resolve(decryptKeyPath) : undefined,
+    signaturePolicy:
+      threshold === undefined
+        ? undefined
+        : { threshold, keys: signerKeyPaths.map((path) => readFileSync(resolve(path), "utf8")) },
+  };
 }
 
 function loadArtifact(path: string): Artifact {
@@ -85,15 +162,80 @@ interface CheckResult {
   detail: string;
 }
 
+/**
+ * Check the artifact's receipt against the seen-receipt store.  Console
+ * artifacts carry their `runId`, so the run that produced the receipt is not
+ * reported as a replay of itself.
+ */
+export async function checkArtifactReplay(artifact: unknown): Promise<ReplayCheckResult & { seen: number }> {
+  const root = (artifact && typeof artifact === "object" ? artifact : {}) as Record<string, unknown>;
+  const receipt = isCheckpointBundle(artifact) ? artifact.master_receipt : root.haloReceipt ?? root.receipt;
+  const identity = receiptIdentity(receipt, typeof root.runId === "string" ? root.runId : undefined);
+  if (!identity) {
+    return { ok: true, findings: [], seen: 0 };
+  }
+
+  const seen = await loadSeenReceipts();
+  return { ...checkReplay(identity, seen, { freshnessWindowMs: resolveFreshnessWindowMs() }), seen: seen.length };
+}
+
+function replayCheck(replay: ReplayCheckResult & { seen: number }): CheckResult {
+  const window = resolveFreshnessWindowMs();
+  return {
+    name: "Replay / duplicate detection",
+    passed: replay.ok,
+    detail: replay.ok
+      ? `No reused receipt_id or replayed content_hash among ${replay.seen} seen receipts${
+          window !== undefined ? `; within ${window / 1000}s freshness window` : ""
+        }.`
+      : `Findings: ${[...new Set(replay.findings.map((f) => f.kind))].join(", ")} (see Replay findings).`,
+  };
+}
+
+function signingTimeCheck(assessment: SigningTimeAssessment): CheckResult {
+  return {
+    name: "Signing time",
+    passed: assessment.status !== "invalid",
+    detail: `${assessment.status}: ${assessment.reason}`,
+  };
+}
+
+function schemaCheck(documents: unknown[]): CheckResult {
+  const results = documents.map((doc) => validateDocument(doc));
+  const failed = results.filter((result) => !result.ok);
+  const outdated = results.filter((result) => result.ok && result.outdated);
+  return {
+    name: "Schema version",
+    passed: failed.length === 0,
+    detail:
+      failed.length > 0
+        ? failed.map((result) => `${result.kind ?? "document"}: ${result.errors.slice(0, 3).join("; ")}`).join(" | ")
+        : `${results.map((result) => `${result.kind} ${result.version}`).join(", ")}${
+            outdated.length > 0 ? " (outdated; upgrade with npm run migrate)" : ""
+          }.`,
+  };
+}
+
 function buildVerifyReport(
   artifactPath: string,
   checks: CheckResult[],
-  overallPassed: boolean
+  overallPassed: boolean,
+  replay?: ReplayCheckResult
 ): string {
   const status = overallPassed ? "✅ PASS" : "❌ FAIL";
   const rows = checks
     .map((c) => `| ${c.name} | ${c.passed ? "✅ PASS" : "❌ FAIL"} | ${c.detail} |`)
     .join("\n");
+  const replaySection =
+    replay && replay.findings.length > 0
+      ? `
+## Replay findings
+
+| Kind | Detail |
+|------|--------|
+${replay.findings.map((f) => `| ${f.kind} | ${f.detail} |`).join("\n")}
+`
+      : "";
 
   return `# Offline Verification Report
 
@@ -105,7 +247,7 @@ function buildVerifyReport(
 | Check | Result | Detail |
 |-------|--------|--------|
 ${rows}
-
+${replaySection}
 ---
 _Generated by \`npm run verify\`_
 `;
@@ -114,13 +256,19 @@ _Generated by \`npm run verify\`_
 // ── Main ──────────────────────────────────────────────────────────────────────
 
 export async function runVerify(argv: string[]): Promise<boolean> {
-  const { artifactPath, outDir } = parseArgs(argv);
+  const { artifactPath, outDir, decryptKeyPath, signaturePolicy } = parseArgs(argv);
 
   console.log(`[verify] Loading artifact: ${artifactPath}`);
   const artifact = loadArtifact(artifactPath) as unknown;
 
   if (isCheckpointBundle(artifact)) {
-    return runCheckpointVerify(artifactPath, artifact, outDir);
+    return runCheckpointVerify(artifactPath, artifact, outDir, { decryptKeyPath, signaturePolicy });
+  }
+  if (isReceiptBundle(artifact)) {
+    return runBundleVerify(artifactPath, artifact, outDir, { decryptKeyPath, signaturePolicy });
+  }
+  if (isDsseEnvelope(artifact)) {
+    return runAttestationVerify(artifactPath, artifact, outDir);
   }
 
   const orchestratorArtifact = artifact as Artifact;
@@ -158,7 +306,9 @@ export async function runVerify(argv: string[]): Promise<boolean> {
     const claims = orchestratorArtifact.eliLedger?.claims ?? [];
     // Reconstruct approximate source from claim texts
     const reconstructedSource = claims.map((c) => c.text).join(" ");
-    const revalidation = validateLedgerSemantics(orchestratorArtifact.eliLedger, reconstructedSource);
+    // Same rule pack as the run (overrides from HALO_ELI_RULES_FILE apply)
+    const ruleSet = resolveRuleSet({ pack: orchestratorArtifact.eliValidation?.rulePack });
+    const revalidation = validateLedgerSemantics(orchestratorArtifact.eliLedger, reconstructedSource, ruleSet);
     checks.push({
       name: "ELI semantic validation",
       passed: revalidation.ok,
@@ -192,10 +342,30 @@ export async function runVerify(argv: string[]): Promise<boolean> {
       : `Findings: ${leakScan.findings.map((f) => `${f.location}: ${f.pattern}`).join("; ")}`,
   });
 
+  // ── Check 4: Signing time ────────────────────────────────────────────────
+
+  const receipt = orchestratorArtifact.haloReceipt;
+  checks.push(
+    signingTimeCheck(
+      receipt && typeof receipt === "object"
+        ? assessSigningTime(receipt, { tsaKeyring: loadTsaKeyring() })
+        : { status: "self-asserted", reason: "no HALO receipt in artifact" }
+    )
+  );
+
+  // ── Check 5: Replay / duplicate detection ────────────────────────────────
+
+  const replay = await checkArtifactReplay(artifact);
+  checks.push(replayCheck(replay));
+
+  // ── Check 6: Schema version ──────────────────────────────────────────────
+
+  checks.push(schemaCheck([artifact]));
+
   // ── Output ────────────────────────────────────────────────────────────────
 
   const overallPassed = checks.every((c) => c.passed);
-  const report = buildVerifyReport(artifactPath, checks, overallPassed);
+  const report = buildVerifyReport(artifactPath, checks, overallPassed, replay);
 
   mkdirSync(resolve(outDir), { recursive: true });
   writeFileSync(resolve(outDir, "verify_report.md"), report, "utf8");
@@ -204,34 +374,140 @@ export async function runVerify(argv: string[]): Promise<boolean> {
   for (const c of checks) {
     console.log(`  ${c.passed ? "✅" : "❌"} ${c.name}: ${c.detail}`);
   }
+  for (const finding of replay.findings) {
+    console.log(`  ❌ ${finding.kind}: ${finding.detail}`);
+  }
   console.log(`\n[verify] Report written to ${outDir}/verify_report.md`);
   console.log(`[verify] Overall: ${overallPassed ? "✅ PASS" : "❌ FAIL"}`);
 
   return overallPassed;
 }
 
-function runCheckpointVerify(
-  artifactPath: string,
+/**
+ * Check an encrypted evidence pack against the master receipt and decrypt it.
+ * Returns the plaintext pack, or undefined when no usable key was given.
+ */
+function openEncryptedEvidence(
   bundle: CheckpointBundle,
-  outDir: string
-): boolean {
-  const checks: CheckResult[] = [];
-
-  const checkpointVerify = verifyCheckpointOffline({
-    masterReceipt: bundle.master_receipt as never,
-    evidencePack: bundle.evidence_pack as never,
-    verifyKeyPem: process.env.RECEIPT_VERIFY_KEY,
+  encrypted: EncryptedEvidencePack,
+  decryptKeyPath: string | undefined,
+  checks: CheckResult[]
+): Record<string, unknown> | undefined {
+  const binding = checkCiphertextBinding(bundle.master_receipt as never, encrypted);
+  checks.push({
+    name: "Encrypted evidence binding",
+    passed: binding.ok,
+    detail: binding.ok
+      ? `Ciphertext matches evidence_ciphertext_hash; ${encrypted.recipients.length} recipient(s).`
+      : binding.reason ?? "failed",
   });
 
+  if (!decryptKeyPath) {
+    checks.push({
+      name: "Evidence decryption",
+      passed: false,
+      detail: "Evidence pack is encrypted; provide --decrypt-key <recipient.pem> or HALO_EVIDENCE_KEY_FILE.",
+    });
+    return undefined;
+  }
+
+  try {
+    const decrypted = decryptEvidencePack(encrypted, readFileSync(decryptKeyPath, "utf8"));
+    checks.push({ name: "Evidence decryption", passed: true, detail: `Decrypted with ${decryptKeyPath}.` });
+    return decrypted;
+  } catch (err) {
+    checks.push({
+      name: "Evidence decryption",
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    });
+    return undefined;
+  }
+}
+
+async function runCheckpointVerify(
+  artifactPath: string,
+  bundle: CheckpointBundle,
+  outDir: string,
+  options: {
+    decryptKeyPath?: string;
+    signaturePolicy?: SignaturePolicy;
+    /** Defaults to RECEIPT_VERIFY_KEY */
+    verifyKeyPem?: string;
+    /** Checks already run on the container (receipt bundles) */
+    checks?: CheckResult[];
+  } = {}
+): Promise<boolean> {
+  const { decryptKeyPath, signaturePolicy } = options;
+  const checks: CheckResult[] = [...(options.checks ?? [])];
+
+  const encrypted = isEncryptedEvidencePack(bundle.evidence_pack) ? bundle.evidence_pack : undefined;
+  const evidence = encrypted
+    ? openEncryptedEvidence(bundle, encrypted, decryptKeyPath, checks)
+    : bundle.evidence_pack;
+
+  const checkpointVerify: ReturnType<typeof verifyCheckpointOffline> = evidence
+    ? verifyCheckpointOffline({
+        masterReceipt: bundle.master_receipt as never,
+        evidencePack: evidence as never,
+        verifyKeyPem: options.verifyKeyPem ?? process.env.RECEIPT_VERIFY_KEY,
+        logVerifyKeyPem: process.env.HALO_TLOG_VERIFY_KEY,
+        tsaKeyring: loadTsaKeyring(),
+        encryptedEvidencePack: encrypted,
+        signaturePolicy,
+      })
+    : { ok: false, reason: "evidence pack not decrypted; content_hash and signature not checked" };
+
+  const batch = bundle.master_receipt.batch as { leaf_index?: number; size?: number } | undefined;
   checks.push({
     name: "Checkpoint hash/signature verification",
     passed: checkpointVerify.ok,
-    detail: checkpointVerify.ok ? "content_hash + Ed25519 verified." : checkpointVerify.reason ?? "failed",
+    detail: checkpointVerify.ok
+      ? batch
+        ? `content_hash + batch audit path (leaf ${batch.leaf_index} of ${batch.size}) + Ed25519 root signature verified.`
+        : "content_hash + Ed25519 verified."
+      : checkpointVerify.reason ?? "failed",
   });
 
-  const assertions = Array.isArray(bundle.evidence_pack.eli_assertions)
-    ? bundle.evidence_pack.eli_assertions
-    : [];
+  const cosignatures = Array.isArray(bundle.master_receipt.cosignatures) ? bundle.master_receipt.cosignatures : [];
+  if (checkpointVerify.signatures && (signaturePolicy || cosignatures.length > 0)) {
+    const { valid, threshold } = checkpointVerify.signatures;
+    const signers = valid.map((signature) => `${signature.key_id} (${signature.role})`).join(", ");
+    checks.push({
+      name: "Signatures",
+      passed: true,
+      detail: signaturePolicy
+        ? `${valid.length} of ${signaturePolicy.keys.length} policy keys signed, threshold ${threshold}: ${signers}`
+        : `valid signatures: ${signers}`,
+    });
+  }
+
+  const inclusion = (evidence ?? bundle.evidence_pack).transparency as
+    | { leaf_index?: number; signed_tree_head?: { tree_size?: number; key_id?: string } }
+    | undefined;
+  if (inclusion) {
+    checks.push({
+      name: "Transparency log inclusion",
+      passed: checkpointVerify.ok,
+      detail: `leaf ${inclusion.leaf_index} of tree size ${inclusion.signed_tree_head?.tree_size}, tree head key_id ${inclusion.signed_tree_head?.key_id}${process.env.HALO_TLOG_VERIFY_KEY ? " (pinned)" : " (unpinned)"}`,
+    });
+  }
+
+  if (checkpointVerify.signing_time) {
+    checks.push(signingTimeCheck(checkpointVerify.signing_time));
+  }
+
+  if (checkpointVerify.disclosure) {
+    const { withheld, total } = checkpointVerify.disclosure;
+    const list = (indexes: number[] | undefined) => (indexes?.length ? indexes.join(", ") : "none");
+    checks.push({
+      name: "Selective disclosure",
+      passed: true,
+      detail: `withheld messages: ${list(withheld?.messages)} of ${total?.messages}; withheld assertions: ${list(withheld?.assertions)} of ${total?.assertions}.`,
+    });
+  }
+
+  const assertions = Array.isArray(evidence?.eli_assertions) ? evidence.eli_assertions : [];
   checks.push({
     name: "ELI assertions present",
     passed: assertions.length > 0,
@@ -253,6 +529,92 @@ function runCheckpointVerify(
       : `Findings: ${leakScan.findings.map((f) => `${f.location}: ${f.pattern}`).join("; ")}`,
   });
 
+  const replay = await checkArtifactReplay(bundle);
+  checks.push(replayCheck(replay));
+  checks.push(schemaCheck([bundle.master_receipt, bundle.evidence_pack]));
+
+  const overallPassed = checks.every((check) => check.passed);
+  const report = buildVerifyReport(artifactPath, checks, overallPassed, replay);
+
+  mkdirSync(resolve(outDir), { recursive: true });
+  writeFileSync(resolve(outDir, "verify_report.md"), report, "utf8");
+
+  console.log("\n[verify] Results:");
+  for (const check of checks) {
+    console.log(`  ${check.passed ? "✅" : "❌"} ${check.name}: ${check.detail}`);
+  }
+  for (const finding of replay.findings) {
+    console.log(`  ❌ ${finding.kind}: ${finding.detail}`);
+  }
+  console.log(`\n[verify] Report written to ${outDir}/verify_report.md`);
+  console.log(`[verify] Overall: ${overallPassed ? "✅ PASS" : "❌ FAIL"}`);
+
+  return overallPassed;
+}
+
+/**
+ * Verify a receipt bundle: the manifest and key first, then the checkpoint it
+ * carries as a checkpoint bundle, and the bundled attestation against the
+ * bundled files.  RECEIPT_VERIFY_KEY, when set, pins the checkpoint key.
+ */
+async function runBundleVerify(
+  artifactPath: string,
+  bundle: ReceiptBundle,
+  outDir: string,
+  options: { decryptKeyPath?: string; signaturePolicy?: SignaturePolicy }
+): Promise<boolean> {
+  const opened = openReceiptBundle(bundle, { pinnedKeyPem: await masterVerifyKey() });
+  const bundleCheck: CheckResult = {
+    name: "Receipt bundle",
+    passed: opened.ok,
+    detail: opened.ok
+      ? `${bundle.manifest.length} file(s) match the manifest; key_id ${bundle.signing.key_id} ${opened.pinned ? "(pinned)" : "(carried in the bundle, unpinned)"}.`
+      : opened.reason ?? "failed",
+  };
+  const documents = opened.documents ?? {};
+  const evidence = documents.evidence_pack ?? documents.encrypted_evidence_pack;
+  if (!opened.ok || !documents.master_receipt || !evidence) {
+    const checks = [bundleCheck];
+    if (opened.ok) {
+      checks.push({ name: "Evidence pack", passed: false, detail: "bundle carries no evidence pack." });
+    }
+    mkdirSync(resolve(outDir), { recursive: true });
+    writeFileSync(resolve(outDir, "verify_report.md"), buildVerifyReport(artifactPath, checks, false), "utf8");
+
+    console.log("\n[verify] Results:");
+    for (const check of checks) {
+      console.log(`  ${check.passed ? "✅" : "❌"} ${check.name}: ${check.detail}`);
+    }
+    console.log(`\n[verify] Report written to ${outDir}/verify_report.md`);
+    console.log("[verify] Overall: ❌ FAIL");
+    return false;
+  }
+
+  const checks = [bundleCheck];
+  if (documents.attestation && isDsseEnvelope(documents.attestation)) {
+    checks.push(
+      ...attestationChecks(documents.attestation, opened.verifyKeyPem, "not in the bundle", (name) => bundle.files[name])
+    );
+  }
+  return runCheckpointVerify(
+    artifactPath,
+    { master_receipt: documents.master_receipt, evidence_pack: evidence },
+    outDir,
+    { ...options, verifyKeyPem: opened.verifyKeyPem, checks }
+  );
+}
+
+/**
+ * Verify an attestation envelope.  Subjects are read from the envelope's
+ * directory by bare file name; names with a path component never match.
+ */
+async function runAttestationVerify(artifactPath: string, envelope: DsseEnvelope, outDir: string): Promise<boolean> {
+  const dir = dirname(artifactPath);
+  const checks = attestationChecks(envelope, await masterVerifyKey(), "not found next to the envelope", (name) => {
+    const path = resolve(dir, name);
+    return name === basename(name) && existsSync(path) ? readFileSync(path) : undefined;
+  });
+
   const overallPassed = checks.every((check) => check.passed);
   const report = buildVerifyReport(artifactPath, checks, overallPassed);
 
@@ -269,6 +631,58 @@ function runCheckpointVerify(
   return overallPassed;
 }
 
+/** DSSE signature, subject digest and attested-result checks for one envelope. */
+function attestationChecks(
+  envelope: DsseEnvelope,
+  verifyKey: string | undefined,
+  missingLabel: string,
+  read: (name: string) => string | Uint8Array | undefined
+): CheckResult[] {
+  const checks: CheckResult[] = [];
+  const result = verifyKey
+    ? verifyAttestation(envelope, verifyKey)
+    : { ok: false, reason: "no verify key; set RECEIPT_VERIFY_KEY (or RECEIPT_SIGNING_KEY)", statement: undefined };
+  checks.push({
+    name: "DSSE signature",
+    passed: result.ok,
+    detail: result.ok ? `in-toto statement signed by keyid ${result.keyid}.` : result.reason ?? "failed",
+  });
+
+  const statement = result.statement;
+  if (statement) {
+    const subjects = checkSubjects(statement, read);
+    checks.push({
+      name: "Subject digests",
+      passed: subjects.ok,
+      detail: subjects.ok
+        ? `${statement.subject.length} subject(s) match: ${statement.subject.map((s) => s.name).join(", ")}.`
+        : [
+            subjects.mismatched.length > 0 ? `digest mismatch: ${subjects.mismatched.join(", ")}` : "",
+            subjects.missing.length > 0 ? `${missingLabel}: ${subjects.missing.join(", ")}` : "",
+          ]
+            .filter(Boolean)
+            .join("; "),
+    });
+
+    const { predicate } = statement;
+    checks.push({
+      name: "ELI semantic validation (attested)",
+      passed: predicate.eli_validation?.ok === true,
+      detail: predicate.eli_validation?.ok
+        ? `${predicate.provider} ${predicate.model}: no ERROR issues.`
+        : `Issues: ${(predicate.eli_validation?.issues ?? []).map((i) => `[${i.severity}] ${i.rule}`).join("; ")}`,
+    });
+    checks.push({
+      name: "Credential leak scan (attested)",
+      passed: predicate.leak_scan?.ok === true,
+      detail: predicate.leak_scan?.ok
+        ? "No credential patterns found."
+        : `Findings: ${(predicate.leak_scan?.findings ?? []).map((f) => `${f.location}: ${f.pattern}`).join("; ")}`,
+    });
+  }
+  return checks;
+}
+
 // ── Entry ─────────────────────────────────────────────────────────────────────
 
 if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+/**
+ * Verify-chain CLI – walk the receipt chain and prove history was not pruned.
+ *
+ * Usage:
+ *   npm run verify-chain
+ *   npm run verify-chain -- --chain out/console/receipt_chain.jsonl --run-index out/console/run_index.json
+ *
+ * Exits 0 when the chain is intact, 1 when any finding is reported.
+ *
+ * Checks performed on every entry:
+ *   1. entry_hash matches the entry contents (no in-place edits)
+ *   2. seq numbers are contiguous (GAP), unique (FORK) and increasing (REORDER)
+ *   3. prev_hash links to the preceding entry; no two entries share a parent
+ *   4. the stored receipt still exists, hashes to receipt_hash, and its
+ *      signed prev_receipt_hash points at the preceding receipt
+ *   5. console runs are still present in the run index (file or `runs` table)
+ *
+ * Writes <out-dir>/chain_report.md (default out/).
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  readChain,
+  resolveChainPath,
+  verifyChain,
+  type ChainEntry,
+  type ChainVerifyResult,
+} from "../halo/receiptChain.js";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function parseArgs(argv: string[]): { chainPath: string; runIndexPath: string; outDir: string } {
+  const args = argv.slice(2);
+  let chainPath: string | undefined;
+  let runIndexPath = process.env.CONSOLE_RUN_INDEX_FILE ?? "out/console/run_index.json";
+  let outDir = "out";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--chain" && args[i + 1]) {
+      chainPath = args[++i];
+    } else if (arg === "--run-index" && args[i + 1]) {
+      runIndexPath = args[++i];
+    } else if (arg === "--out-dir" && args[i + 1]) {
+      outDir = args[++i];
+    }
+  }
+
+  return { chainPath: resolveChainPath(chainPath), runIndexPath: resolve(runIndexPath), outDir };
+}
+
+/** Load the receipt a chain entry points at; console artifacts nest it under `receipt`. */
+export function loadChainedReceipt(entry: ChainEntry): Record<string, unknown> | undefined {
+  if (!entry.receipt_path || !existsSync(entry.receipt_path)) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(entry.receipt_path, "utf8")) as Record<string, unknown>;
+    const nested = parsed.receipt;
+    if (entry.kind === "halo" && nested && typeof nested === "object" && !Array.isArray(nested)) {
+      return nested as Record<string, unknown>;
+    }
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+async function loadIndexedRunIds(runIndexPath: string): Promise<Set<string> | undefined> {
+  if (process.env.DATABASE_URL) {
+    const { default: pg } = await import("pg");
+    const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+    try {
+      await client.connect();
+      const result = await client.query<{ run_id: string }>("select run_id from runs");
+      return new Set(result.rows.map((row) => row.run_id));
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  if (!existsSync(runIndexPath)) {
+    return undefined;
+  }
+
+  const parsed = JSON.parse(readFileSync(runIndexPath, "utf8")) as Array<{ runId?: string }>;
+  return new Set(
+    (Array.isArray(parsed) ? parsed : [])
+      .map((record) => record.runId)
+      .filter((runId): runId is string => typeof runId === "string")
+  );
+}
+
+function buildChainReport(chainPath: string, result: ChainVerifyResult): string {
+  const status = result.ok ? "✅ PASS" : "❌ FAIL";
+  const rows =
+    result.findings.length > 0
+      ? result.findings.map((f) => `| ${f.seq} | ${f.kind} | ${f.detail} |`).join("\n")
+      : "| – | – | No findings. |";
+
+  return `# Receipt Chain Report
+
+**Chain:** \`${chainPath}\`
+**Entries:** ${result.entries}
+**Head:** \`${result.head ?? "(empty)"}\`
+**Overall:** ${status}
+
+## Findings
+
+| Seq | Kind | Detail |
+|-----|------|--------|
+${rows}
+
+---
+_Generated by \`npm run verify-chain\`_
+`;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+export async function runVerifyChain(argv: string[]): Promise<boolean> {
+  const { chainPath, runIndexPath, outDir } = parseArgs(argv);
+
+  console.log(`[verify-chain] Loading chain: ${chainPath}`);
+  if (!existsSync(chainPath)) {
+    throw new Error(`Receipt chain not found: ${chainPath}`);
+  }
+
+  const entries = readChain(chainPath);
+  const indexedRunIds = await loadIndexedRunIds(runIndexPath);
+  const result = verifyChain(entries, { loadReceipt: loadChainedReceipt, indexedRunIds });
+
+  mkdirSync(resolve(outDir), { recursive: true });
+  writeFileSync(resolve(outDir, "chain_report.md"), buildChainReport(chainPath, result), "utf8");
+
+  console.log(`\n[verify-chain] ${result.entries} entries, head ${result.head ?? "(empty)"}`);
+  for (const finding of result.findings) {
+    console.log(`  ❌ seq ${finding.seq} ${finding.kind}: ${finding.detail}`);
+  }
+  console.log(`\n[verify-chain] Report written to ${outDir}/chain_report.md`);
+  console.log(`[verify-chain] Overall: ${result.ok ? "✅ PASS" : "❌ FAIL"}`);
+
+  return result.ok;
+}
+
+// ── Entry ─────────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === resolve(process.argv[1])) {
+  runVerifyChain(process.argv).then((passed) => {
+    process.exit(passed ? 0 : 1);
+  }).catch((err: unknown) => {
+    console.error("[verify-chain] ERROR:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Cross-response claim agreement.
+ *
+ * Aligns the ELI claims of several responses to the same prompt (one per
+ * provider/model in a fan-out run) and reports which claims appear in all,
+ * some or only one of them.  Disagreement between models is the signal: a
+ * claim only one model makes deserves a second look.
+ *
+ * Alignment is lexical, like the tagger: each claim becomes a set of content
+ * tokens, and two claims match when the Jaccard similarity of their token sets
+ * reaches the threshold (default 0.5).  Responses are walked in order; each
+ * claim joins the most similar group that has no claim from its own response
+ * yet, or starts a new group.
+ */
+import type { EliLedger, EpiType } from "./tagger.js";
+
+export const AGREEMENT_METHOD = "token-jaccard";
+export const DEFAULT_AGREEMENT_THRESHOLD = 0.5;
+
+export type ClaimSupport = "all" | "some" | "one";
+
+export interface AlignedMember {
+  claim_id: string;
+  type: EpiType;
+  text: string;
+  /** Similarity to the group when the claim joined it (1 for the first member) */
+  similarity: number;
+}
+
+export interface AlignedClaim {
+  /** "claim-1", "claim-2", … in order of first appearance */
+  id: string;
+  /** Text of the first member */
+  text: string;
+  support: ClaimSupport;
+  /** One row of the agreement matrix: the matching claim per response, or null */
+  members: Record<string, AlignedMember | null>;
+  /** False when the responses that make the claim type it differently */
+  types_agree: boolean;
+}
+
+export interface PairwiseAgreement {
+  a: string;
+  b: string;
+  /** Claims both responses make */
+  shared: number;
+  /** shared / claims either response makes */
+  agreement: number;
+}
+
+export interface AgreementMatrix {
+  method: typeof AGREEMENT_METHOD;
+  threshold: number;
+  /** Column labels, in input order */
+  responses: string[];
+  claims: AlignedClaim[];
+  summary: { all: number; some: number; one: number; type_conflicts: number };
+  pairwise: PairwiseAgreement[];
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "for", "from", "has", "have", "in", "into", "is",
+  "it", "its", "of", "on", "or", "that", "the", "their", "there", "these", "this", "those", "to", "was", "were",
+  "which", "with",
+]);
+
+/** Content tokens of a claim: lower-cased words minus stopwords, with a plural "s" dropped. */
+export function claimTokens(text: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    tokens.add(word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+  }
+  return tokens;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Align the claims of `responses` (label → ledger, labels unique) into an
+ * agreement matrix.
+ */
+export function alignClaims(
+  responses: Array<{ label: string; ledger: EliLedger }>,
+  options?: { threshold?: number }
+): AgreementMatrix {
+  const threshold = options?.threshold ?? DEFAULT_AGREEMENT_THRESHOLD;
+  const labels = responses.map((response) => response.label);
+  if (new Set(labels).size !== labels.length) {
+    throw new Error(`Response labels must be unique (got: ${labels.join(", ")})`);
+  }
+
+  const groups: Array<{ tokens: Set<string>[]; members: Map<string, AlignedMember> }> = [];
+  for (const { label, ledger } of responses) {
+    for (const claim of ledger.claims) {
+      const tokens = claimTokens(claim.text);
+      let best: (typeof groups)[number] | undefined;
+      let bestScore = 0;
+      for (const group of groups) {
+        if (group.members.has(label)) continue;
+        const score = Math.max(...group.tokens.map((other) => jaccard(tokens, other)));
+        if (score > bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      }
+
+      const member = { claim_id: claim.id, type: claim.type, text: claim.text };
+      if (best && bestScore >= threshold) {
+        best.tokens.push(tokens);
+        best.members.set(label, { ...member, similarity: round(bestScore) });
+      } else {
+        groups.push({ tokens: [tokens], members: new Map([[label, { ...member, similarity: 1 }]]) });
+      }
+    }
+  }
+
+  const claims: AlignedClaim[] = groups.map((group, index) => {
+    const count = group.members.size;
+    const first = [...group.members.values()][0];
+    return {
+      id: `claim-${index + 1}`,
+      text: first.text,
+      support: count === labels.length ? "all" : count === 1 ? "one" : "some",
+      members: Object.fromEntries(labels.map((label) => [label, group.members.get(label) ?? null])),
+      types_agree: new Set([...group.members.values()].map((member) => member.type)).size === 1,
+    };
+  });
+
+  const pairwise: PairwiseAgreement[] = [];
+  for (let i = 0; i < labels.length; i++) {
+    for (let j = i + 1; j < labels.length; j++) {
+      const [a, b] = [labels[i], labels[j]];
+      const either = claims.filter((claim) => claim.members[a] || claim.members[b]).length;
+      const shared = claims.filter((claim) => claim.members[a] && claim.members[b]).length;
+      pairwise.push({ a, b, shared, agreement: either === 0 ? 1 : round(shared / either) });
+    }
+  }
+
+  return {
+    method: AGREEMENT_METHOD,
+    threshold,
+    responses: labels,
+    claims,
+    summary: {
+      all: claims.filter((claim) => claim.support === "all").length,
+      some: claims.filter((claim) => claim.support === "some").length,
+      one: claims.filter((claim) => claim.support === "one").length,
+      type_conflicts: claims.filter((claim) => !claim.types_agree).length,
+    },
+    pairwise,
+  };
+}
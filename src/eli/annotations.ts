@@ -0,0 +1,240 @@
+/**
+ * Structured annotations on ELI claims.
+ *
+ * Picks the checkable parts out of a claim so downstream tools – filters like
+ * "numeric FACT claims about dates", fact-checking jobs – need not parse the
+ * text again:
+ *
+ *   - url         http(s) links, trailing punctuation excluded
+ *   - date        ISO dates (1998-03-14), "14 March 1998", "March 14, 1998",
+ *                 "March 1998", bare years (1000–2099) and decades ("1990s"),
+ *                 normalised to YYYY-MM-DD, YYYY-MM, YYYY or YYY (decade)
+ *   - percentage  "12%", "12 percent", "12.5 per cent" (value 12.5)
+ *   - quantity    any other number, its scale folded into the value ("3
+ *                 million" is 3000000), with a unit when one follows ("300 m",
+ *                 "5 mg") or a currency sign precedes it ("$4.2 billion")
+ *   - entity      names from the gazetteer, typed, then runs of capitalised
+ *                 words ("Bank of England"); a lone capitalised word opening
+ *                 the claim is read as an ordinary word
+ *
+ * Each annotation carries its own [start, end) span into the response, so
+ * `response.slice(...span) === text`.  Kinds are matched in the order above
+ * and never overlap: the digits of a URL or a date are not also a quantity.
+ *
+ * A gazetteer maps names to entity types, e.g. `{ "aspirin": "DRUG",
+ * "World Health Organization": "ORG" }`; names match case-insensitively on
+ * word boundaries.  Runs read it from the JSON file named by
+ * `HALO_ELI_GAZETTEER` (or `--gazetteer` where a CLI offers it).
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+export type AnnotationKind = "url" | "date" | "percentage" | "quantity" | "entity";
+
+export interface ClaimAnnotation {
+  kind: AnnotationKind;
+  /** The annotated text, response.slice(span[0], span[1]) */
+  text: string;
+  /** [start, end) offsets into the response */
+  span: [number, number];
+  /** Numeric value of a quantity or percentage */
+  value?: number;
+  /** Unit of a quantity ("m", "mg", "day", "USD", …); absent for bare numbers */
+  unit?: string;
+  /** Normalised date: YYYY-MM-DD, YYYY-MM, YYYY or YYY (decade) */
+  date?: string;
+  /** Entity type from the gazetteer; absent for capitalised runs */
+  entity_type?: string;
+}
+
+/** Entity name → entity type */
+export type Gazetteer = Record<string, string>;
+
+// ── Patterns ─────────────────────────────────────────────────────────────────
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH =
+  "(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)\\.?";
+const YEAR = "(1\\d{3}|20\\d{2})";
+const DAY = "(0?[1-9]|[12]\\d|3[01])(?:st|nd|rd|th)?";
+const NUMBER = "(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)";
+const UNIT =
+  "(km/h|mph|kWh|MWh|GWh|kW|MW|GW|kHz|MHz|GHz|Hz|KB|MB|GB|TB|km|cm|mm|nm|µm|µg|mcg|mg|kg|ml|mL|ms|°C|°F|" +
+  "kilomet(?:er|re)s?|millimet(?:er|re)s?|centimet(?:er|re)s?|met(?:er|re)s?|miles?|feet|foot|ft|inch(?:es)?|" +
+  "kilograms?|milligrams?|grams?|lbs?|pounds?|tonnes?|tons?|lit(?:er|re)s?|" +
+  "seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|decades?|century|centuries|" +
+  "USD|EUR|GBP|dollars?|euros?|volts?|watts?|m|g|l|L|s|h|t|V|W)";
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12 };
+const CURRENCIES: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP" };
+
+/** Not part of a larger number or word, and not after a currency sign or a hyphenated word ("COVID-19"). */
+const NUMBER_START = "(?<![\\p{L}\\d.,$€£]|[\\p{L}\\d]-)";
+const NUMBER_END = "(?![\\p{L}\\d]|[.,]\\d)";
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>()[\]"'`]+/g;
+const DATE_PATTERNS: Array<{ pattern: RegExp; date: (match: RegExpExecArray) => string }> = [
+  {
+    pattern: new RegExp(`(?<![\\d-])${YEAR}-(0[1-9]|1[0-2])(?:-(0[1-9]|[12]\\d|3[01]))?(?![\\d-])`, "gu"),
+    date: (m) => [m[1], m[2], m[3]].filter(Boolean).join("-"),
+  },
+  {
+    pattern: new RegExp(`\\b${DAY}\\s+${MONTH}\\s*,?\\s+${YEAR}\\b`, "gu"),
+    date: (m) => isoDate(m[3], m[2], m[1]),
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+${DAY},?\\s+${YEAR}\\b`, "gu"),
+    date: (m) => isoDate(m[3], m[1], m[2]),
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+${YEAR}\\b`, "gu"),
+    date: (m) => isoDate(m[2], m[1]),
+  },
+  {
+    pattern: new RegExp(`${NUMBER_START}(1\\d{2}|20\\d)0s\\b`, "gu"),
+    date: (m) => m[1],
+  },
+  {
+    // A bare year, unless it is a quantity ("1500 mg") or a percentage.
+    pattern: new RegExp(`${NUMBER_START}${YEAR}${NUMBER_END}(?!\\s*(?:%|per ?cent\\b|${UNIT}(?![\\p{L}\\d])))`, "gu"),
+    date: (m) => m[1],
+  },
+];
+const PERCENTAGE_PATTERN = new RegExp(`${NUMBER_START}${NUMBER}\\s*(?:%|per ?cent\\b)`, "gu");
+const QUANTITY_PATTERN = new RegExp(
+  `${NUMBER_START}([$€£])?${NUMBER}(?:\\s*(thousand|million|billion|trillion))?(?:\\s*${UNIT})?${NUMBER_END}`,
+  "gu"
+);
+
+const CAPITALISED_WORD = "\\p{Lu}[\\p{L}\\p{N}'’-]*";
+const CAPITALISED_RUN = new RegExp(
+  `(?<![\\p{L}\\p{N}])${CAPITALISED_WORD}(?:[ \\t]+(?:(?:of|the|de|del|la|le|von|van|der|for|&)[ \\t]+){0,2}${CAPITALISED_WORD})*`,
+  "gu"
+);
+/** Capitalised words that open sentences rather than name things */
+const LEADING_WORDS = new Set([
+  "A", "An", "The", "This", "That", "These", "Those", "It", "Its", "In", "On", "At", "For", "By", "From", "With", "Our",
+  "Their", "His", "Her", "We", "They", "He", "She", "I", "And", "But", "So", "If", "When", "While", "Since", "After",
+  "Before", "During", "As", "Some", "Most", "All", "Many",
+]);
+const NOT_ENTITIES =
+  /^(I|I['’]\w+|Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday|January|February|March|April|May|June|July|August|September|October|November|December)$/;
+
+function isoDate(year: string, month: string, day?: string): string {
+  const monthNumber = MONTH_NAMES.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+  const parts = [year, String(monthNumber).padStart(2, "0")];
+  if (day) parts.push(day.replace(/\D+$/, "").padStart(2, "0"));
+  return parts.join("-");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function singular(unit: string): string {
+  if (unit.length <= 3) return unit;
+  if (unit === "centuries") return "century";
+  if (unit === "feet") return "foot";
+  if (unit.endsWith("ches")) return unit.slice(0, -2);
+  return unit.endsWith("s") ? unit.slice(0, -1) : unit;
+}
+
+// ── Annotation ───────────────────────────────────────────────────────────────
+
+/**
+ * Annotate one claim.
+ *
+ * @param text       The claim text.
+ * @param offset     Offset of `text` in the response; spans are relative to the response.
+ * @param gazetteer  Known entity names and their types.
+ */
+export function annotateClaim(text: string, offset: number, gazetteer: Gazetteer = {}): ClaimAnnotation[] {
+  const annotations: ClaimAnnotation[] = [];
+  const add = (start: number, end: number, fields: Omit<ClaimAnnotation, "text" | "span">): boolean => {
+    if (annotations.some(({ span }) => start < span[1] - offset && end > span[0] - offset)) return false;
+    annotations.push({ ...fields, text: text.slice(start, end), span: [offset + start, offset + end] });
+    return true;
+  };
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(/[.,;:!?*_]+$/, "");
+    add(match.index, match.index + url.length, { kind: "url" });
+  }
+  for (const { pattern, date } of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      add(match.index, match.index + match[0].length, { kind: "date", date: date(match) });
+    }
+  }
+  for (const match of text.matchAll(PERCENTAGE_PATTERN)) {
+    add(match.index, match.index + match[0].length, { kind: "percentage", value: Number(match[1].replace(/,/g, "")) });
+  }
+  for (const match of text.matchAll(QUANTITY_PATTERN)) {
+    const [whole, currency, number, scale, unit] = match;
+    const value = Number(number.replace(/,/g, "")) * (scale ? SCALES[scale] : 1);
+    const resolvedUnit = currency ? CURRENCIES[currency] : unit ? singular(unit) : undefined;
+    add(match.index, match.index + whole.length, {
+      kind: "quantity",
+      value,
+      ...(resolvedUnit ? { unit: resolvedUnit } : {}),
+    });
+  }
+
+  const names = Object.keys(gazetteer).sort((a, b) => b.length - a.length);
+  for (const name of names) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, "giu");
+    for (const match of text.matchAll(pattern)) {
+      add(match.index, match.index + match[0].length, { kind: "entity", entity_type: gazetteer[name] });
+    }
+  }
+  for (const match of text.matchAll(CAPITALISED_RUN)) {
+    const words = match[0].split(/([ \t]+)/);
+    let start = match.index;
+    while (words.length > 1 && LEADING_WORDS.has(words[0])) {
+      start += words[0].length + words[1].length;
+      words.splice(0, 2);
+    }
+    const name = words.join("");
+    if (words.length === 1) {
+      const opensClaim = !/[\p{L}\p{N}]/u.test(text.slice(0, start));
+      if (LEADING_WORDS.has(name) || NOT_ENTITIES.test(name) || (opensClaim && !/^\p{Lu}{2,}/u.test(name))) continue;
+    }
+    add(start, start + name.length, { kind: "entity" });
+  }
+
+  return annotations.sort((a, b) => a.span[0] - b.span[0]);
+}
+
+// ── Gazetteer files ──────────────────────────────────────────────────────────
+
+/** Check a parsed gazetteer document: an object of entity name → entity type. */
+export function parseGazetteer(value: unknown): Gazetteer {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Invalid ELI gazetteer: expected an object of entity name → entity type");
+  }
+  const gazetteer: Gazetteer = {};
+  for (const [name, type] of Object.entries(value)) {
+    if (name.trim() === "") throw new Error("Invalid ELI gazetteer: entity names must not be empty");
+    if (typeof type !== "string" || type === "") {
+      throw new Error(`Invalid ELI gazetteer: ${name} must map to an entity type string`);
+    }
+    gazetteer[name] = type;
+  }
+  return gazetteer;
+}
+
+/** Read and check a gazetteer file. */
+export function loadGazetteer(path: string): Gazetteer {
+  const gazetteerPath = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(gazetteerPath, "utf8"));
+  } catch (err) {
+    throw new Error(`Cannot read ELI gazetteer ${gazetteerPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseGazetteer(parsed);
+}
+
+/** The gazetteer at `path` or `HALO_ELI_GAZETTEER`, or undefined when neither is set. */
+export function resolveGazetteer(path?: string): Gazetteer | undefined {
+  const gazetteerPath = path ?? process.env.HALO_ELI_GAZETTEER;
+  return gazetteerPath ? loadGazetteer(gazetteerPath) : undefined;
+}
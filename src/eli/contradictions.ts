@@ -0,0 +1,213 @@
+/**
+ * Contradictions within one response.
+ *
+ * Compares every pair of claims in a ledger and reports the pairs that say
+ * opposite things about the same subject.  The comparison is lexical,
+ * deterministic and offline, like the tagger:
+ *
+ *   - two claims share a subject when they have at least two content words in
+ *     common (after stemming), unless each names an entity – a capitalised
+ *     word – the other does not mention ("tides at Brest" vs "tides in the
+ *     Mediterranean");
+ *   - date      both mention years, none in common ("founded in 1998" vs
+ *               "since its 2001 founding");
+ *   - number    both give a quantity in the same unit, no value in common
+ *               ("300 m long" vs "450 m long");
+ *
+ *     dates and numbers are only compared when the claims also share a word
+ *     outside their subjects – the words before the first verb – so a
+ *     chronology ("The Apollo program landed … in 1969", "The Apollo program
+ *     ended in 1972") is not read as two dates for one event;
+ *
+ *   - negation  the same statement with and without a negation ("Aspirin
+ *               thins the blood" vs "Aspirin does not thin the blood");
+ *   - antonym   the same statement with opposite words (increase/decrease,
+ *               higher/lower, safe/unsafe, …).
+ *
+ * A pair is reported once, with the first kind that applies.
+ */
+import type { EliClaim, EliLedger } from "./tagger.js";
+
+export type ContradictionKind = "date" | "number" | "negation" | "antonym";
+
+export interface Contradiction {
+  /** The earlier and the later claim */
+  claims: [string, string];
+  kind: ContradictionKind;
+  detail: string;
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "could", "did", "do", "does", "for", "from",
+  "had", "has", "have", "in", "into", "is", "it", "its", "of", "on", "or", "since", "than", "that", "the", "their",
+  "there", "these", "they", "this", "those", "to", "was", "were", "which", "will", "with", "would",
+]);
+
+const DETERMINERS = new Set(["the", "a", "an", "its", "their", "this", "these", "those"]);
+
+const NEGATION = /\b(not|no|never|none|cannot)\b|n['’]t\b/i;
+const NEGATION_WORDS = new Set(["not", "no", "never", "none", "cannot"]);
+
+const ANTONYMS: Array<[RegExp, RegExp]> = [
+  [/\b(increas\w*|rises?|rising|rose|grows?|growing|grew)\b/i, /\b(decreas\w*|falls?|falling|fell|drops?|dropp\w*|declin\w*|shrinks?|shrank)\b/i],
+  [/\b(higher|more|larger|greater|bigger|longer)\b/i, /\b(lower|less|fewer|smaller|shorter)\b/i],
+  [/\b(true|correct)\b/i, /\b(false|incorrect|wrong)\b/i],
+  [/\b(safe)\b/i, /\b(unsafe|dangerous|harmful)\b/i],
+  [/\b(possible)\b/i, /\b(impossible)\b/i],
+  [/\b(effective)\b/i, /\b(ineffective)\b/i],
+  [/\b(legal)\b/i, /\b(illegal)\b/i],
+  [/\b(alive)\b/i, /\b(dead)\b/i],
+  [/\b(open)\b/i, /\b(closed)\b/i],
+  [/\b(wins?|won)\b/i, /\b(loses?|lost)\b/i],
+  [/\b(strong\w*)\b/i, /\b(weak\w*)\b/i],
+];
+
+const YEAR = /\b(1[0-9]{3}|20[0-9]{2})\b/g;
+const QUANTITY = /(\d+(?:[.,]\d+)*)\s*(%|[\p{L}°µ]+)?/gu;
+
+interface ClaimFeatures {
+  words: Set<string>;
+  stems: Set<string>;
+  /** Stems of the words before the first verb */
+  subject: Set<string>;
+  entities: Set<string>;
+  years: Set<string>;
+  /** unit → values */
+  quantities: Map<string, Set<string>>;
+  negated: boolean;
+}
+
+function stem(word: string): string {
+  let w = word.toLowerCase().replace(/['’]s$/, "");
+  if (w.length > 5 && w.endsWith("ing")) w = w.slice(0, -3);
+  else if (w.length > 4 && w.endsWith("ed")) w = w.slice(0, -2);
+  else if (w.length > 4 && w.endsWith("ies")) w = `${w.slice(0, -3)}y`;
+  else if (w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) w = w.slice(0, -1);
+  return w;
+}
+
+/**
+ * The leading noun phrase of `words`: after a determiner, the words up to the
+ * first stopword or verb-looking word ("opened", "employs").  Empty when the
+ * claim opens with something else ("Since its 2001 founding, …").
+ */
+function subjectStems(words: string[]): Set<string> {
+  const subject = new Set<string>();
+  let index = 0;
+  while (index < words.length && DETERMINERS.has(words[index].toLowerCase())) index++;
+  for (; index < words.length; index++) {
+    const lower = words[index].toLowerCase();
+    const verb = (lower.length > 4 && lower.endsWith("ed")) || (subject.size > 0 && /[^s]s$/.test(lower));
+    if (STOPWORDS.has(lower) || NEGATION_WORDS.has(lower) || verb) break;
+    subject.add(stem(lower));
+  }
+  return subject;
+}
+
+function features(text: string): ClaimFeatures {
+  const antonymWords = new Set<string>();
+  for (const pair of ANTONYMS) {
+    for (const side of pair) {
+      for (const match of text.matchAll(new RegExp(side.source, "gi"))) antonymWords.add(match[0].toLowerCase());
+    }
+  }
+
+  const stems = new Set<string>();
+  const entities = new Set<string>();
+  const words = text.match(/[\p{L}][\p{L}'’]*/gu) ?? [];
+  words.forEach((word) => {
+    const lower = word.toLowerCase();
+    if (/^\p{Lu}/u.test(word) && word !== "I" && !STOPWORDS.has(lower)) entities.add(lower);
+    if (lower.length < 2 || STOPWORDS.has(lower) || NEGATION_WORDS.has(lower) || /n['’]t$/.test(lower)) return;
+    if (antonymWords.has(lower)) return;
+    stems.add(stem(lower));
+  });
+
+  const years = new Set([...text.matchAll(YEAR)].map((match) => match[1]));
+  const quantities = new Map<string, Set<string>>();
+  for (const match of text.matchAll(QUANTITY)) {
+    const value = match[1].replace(/,/g, "");
+    if (years.has(value) || !match[2]) continue;
+    const unit = match[2] === "%" ? "%" : stem(match[2]);
+    if (!quantities.has(unit)) quantities.set(unit, new Set());
+    quantities.get(unit)!.add(value);
+    stems.delete(unit);
+  }
+
+  return {
+    words: new Set(words.map((word) => word.toLowerCase())),
+    stems,
+    subject: subjectStems(words),
+    entities,
+    years,
+    quantities,
+    negated: NEGATION.test(text),
+  };
+}
+
+function shared(a: Set<string>, b: Set<string>): string[] {
+  return [...a].filter((entry) => b.has(entry));
+}
+
+function sameSubject(a: ClaimFeatures, b: ClaimFeatures): boolean {
+  if (shared(a.stems, b.stems).length < 2) return false;
+  const onlyA = [...a.entities].some((entity) => !b.words.has(entity));
+  const onlyB = [...b.entities].some((entity) => !a.words.has(entity));
+  return !(onlyA && onlyB);
+}
+
+/** The side of an antonym pair `text` uses, or undefined for neither or both. */
+function antonymSide(text: string, [x, y]: [RegExp, RegExp]): RegExp | undefined {
+  const hasX = x.test(text);
+  const hasY = y.test(text);
+  return hasX === hasY ? undefined : hasX ? x : y;
+}
+
+function list(values: Set<string>): string {
+  return [...values].join(", ");
+}
+
+/** Why `b` contradicts `a`, or undefined when it does not (as far as the heuristics can tell). */
+export function compareClaims(a: EliClaim, b: EliClaim): Contradiction | undefined {
+  const fa = features(a.text);
+  const fb = features(b.text);
+  if (!sameSubject(fa, fb)) return undefined;
+  const found = (kind: ContradictionKind, detail: string): Contradiction => ({ claims: [a.id, b.id], kind, detail });
+
+  const samePredicate = shared(fa.stems, fb.stems).some((word) => !fa.subject.has(word) && !fb.subject.has(word));
+  if (samePredicate && fa.years.size > 0 && fb.years.size > 0 && shared(fa.years, fb.years).length === 0) {
+    return found("date", `dates differ (${list(fa.years)} vs ${list(fb.years)})`);
+  }
+  for (const [unit, values] of samePredicate ? fa.quantities : []) {
+    const other = fb.quantities.get(unit);
+    if (other && shared(values, other).length === 0) {
+      return found("number", `numbers differ (${list(values)} ${unit} vs ${list(other)} ${unit})`);
+    }
+  }
+
+  const overlap = shared(fa.stems, fb.stems).length / new Set([...fa.stems, ...fb.stems]).size;
+  const sides = ANTONYMS.map((pair) => [antonymSide(a.text, pair), antonymSide(b.text, pair)] as const);
+  if (fa.negated !== fb.negated) {
+    // "does not increase" next to "decreases" agrees; only a plain negation contradicts.
+    const sameTerms = sides.every(([sideA, sideB]) => sideA === sideB);
+    return overlap >= 0.6 && sameTerms ? found("negation", "one claim negates the other") : undefined;
+  }
+  for (const [sideA, sideB] of sides) {
+    if (sideA && sideB && sideA !== sideB) {
+      return found("antonym", `opposite terms ("${sideA.exec(a.text)![0]}" vs "${sideB.exec(b.text)![0]}")`);
+    }
+  }
+  return undefined;
+}
+
+/** Every contradicting pair of claims in `ledger`, in ledger order. */
+export function findContradictions(ledger: EliLedger): Contradiction[] {
+  const found: Contradiction[] = [];
+  ledger.claims.forEach((later, index) => {
+    for (const earlier of ledger.claims.slice(0, index)) {
+      const contradiction = compareClaims(earlier, later);
+      if (contradiction) found.push(contradiction);
+    }
+  });
+  return found;
+}
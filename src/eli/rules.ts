@@ -0,0 +1,433 @@
+/**
+ * ELI validator rules and rule packs.
+ *
+ * Every rule has an id, a default severity, a description and a
+ * configuration (its `defaultConfig`, overridable per pack or per config
+ * file).  A rule looks at one claim at a time and returns one detail per
+ * problem it finds.
+ *
+ * A rule pack picks the rules a run applies and their severities:
+ *
+ *   - default         the structural rules (ids, types, spans, premise links)
+ *                     plus FACT_WITHOUT_EVIDENCE and INFERENCE_LAUNDERING, all
+ *                     ERROR; inferences without a premise and claims that
+ *                     contradict each other are a WARNING
+ *   - lenient-chat    structural rules ERROR, evidence and laundering demoted
+ *                     to WARNING / INFO – for conversational answers
+ *   - strict-medical  longer evidence spans, unsupported inferences,
+ *                     contradictions and absolute language (ERROR), opinions
+ *                     (WARNING) flagged – for clinical content
+ *
+ * A rule config file chooses a pack and overrides single rules:
+ *
+ *   {
+ *     "pack": "strict-medical",
+ *     "rules": {
+ *       "OPINION_CLAIM": "OFF",
+ *       "FACT_WITHOUT_EVIDENCE": { "severity": "WARNING", "config": { "minEvidenceLength": 15 } }
+ *     }
+ *   }
+ *
+ * A severity override also switches on a rule the pack leaves out.  Only
+ * ERROR issues fail validation; WARNING and INFO are reported alongside.
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { compareClaims } from "./contradictions.js";
+import type { EliClaim, EliLedger } from "./tagger.js";
+
+export const ISSUE_SEVERITIES = ["ERROR", "WARNING", "INFO"] as const;
+
+export type IssueSeverity = (typeof ISSUE_SEVERITIES)[number];
+
+export type RuleConfig = Record<string, number | string | string[]>;
+
+export interface RuleContext {
+  sourceText: string;
+  config: RuleConfig;
+  /** The whole ledger, for rules that follow `depends_on` */
+  ledger: EliLedger;
+}
+
+export interface EliRule {
+  id: string;
+  description: string;
+  defaultSeverity: IssueSeverity;
+  defaultConfig: RuleConfig;
+  /** One detail per problem with `claim`; empty when the claim passes */
+  check(claim: EliClaim, context: RuleContext): string[];
+}
+
+/** How a pack or config file sets one rule: a severity, "OFF", or both plus config. */
+export type RuleSetting = IssueSeverity | "OFF" | { severity?: IssueSeverity | "OFF"; config?: RuleConfig };
+
+export interface RulePack {
+  name: string;
+  description: string;
+  /** The rules the pack applies; rules it leaves out are off */
+  rules: Record<string, RuleSetting>;
+}
+
+export interface RuleConfigFile {
+  pack?: string;
+  rules: Record<string, RuleSetting>;
+}
+
+export interface ResolvedRule {
+  rule: EliRule;
+  severity: IssueSeverity;
+  config: RuleConfig;
+}
+
+/** The rules one run applies, in registry order. */
+export interface RuleSet {
+  pack: string;
+  rules: ResolvedRule[];
+}
+
+export const DEFAULT_RULE_PACK = "default";
+
+// ── Rules ────────────────────────────────────────────────────────────────────
+
+const VALID_TYPES = new Set(["FACT", "INFERENCE", "ASSERTION", "OPINION"]);
+
+function firstSpanText(claim: EliClaim, sourceText: string): string | undefined {
+  if (!claim.span_refs || claim.span_refs.length === 0) return undefined;
+  const [start, end] = claim.span_refs[0];
+  return sourceText.slice(start, end);
+}
+
+/**
+ * The dependency cycle through `claim` as a list of ids (first id repeated at
+ * the end), or undefined.  Only the cycle member that comes first in the
+ * ledger reports it, so each cycle is reported once.
+ */
+function dependencyCycle(claim: EliClaim, ledger: EliLedger): string[] | undefined {
+  const byId = new Map(ledger.claims.map((entry) => [entry.id, entry]));
+  const path = [claim.id];
+  const seen = new Set<string>();
+  const visit = (id: string): boolean => {
+    if (id === claim.id) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    path.push(id);
+    if ((byId.get(id)?.depends_on ?? []).some(visit)) return true;
+    path.pop();
+    return false;
+  };
+  if (!(claim.depends_on ?? []).some(visit)) return undefined;
+
+  const order = (id: string) => ledger.claims.findIndex((entry) => entry.id === id);
+  return path.every((id) => order(id) >= order(claim.id)) ? [...path, claim.id] : undefined;
+}
+
+function wordPattern(words: RuleConfig[string]): RegExp {
+  const list = (Array.isArray(words) ? words : [String(words)]).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${list.join("|")})(?![\\p{L}\\p{N}])`, "iu");
+}
+
+export const ELI_RULES: readonly EliRule[] = [
+  {
+    id: "MISSING_ID",
+    description: "Every claim has a non-empty id.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim) => (!claim.id || claim.id.trim() === "" ? ["Claim is missing an id"] : []),
+  },
+  {
+    id: "INVALID_TYPE",
+    description: "Every claim has one of the four epistemic types.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim) => (VALID_TYPES.has(claim.type) ? [] : [`Unknown type: ${claim.type}`]),
+  },
+  {
+    id: "NO_SPAN_REF",
+    description: "Every claim references at least one span of the response.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim) => (!claim.span_refs || claim.span_refs.length === 0 ? ["Claim has no span_refs"] : []),
+  },
+  {
+    id: "INVALID_SPAN",
+    description: "Every span is a [start, end] pair inside the response.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim, { sourceText }) =>
+      (claim.span_refs ?? [])
+        .filter(
+          ([start, end]) =>
+            typeof start !== "number" || typeof end !== "number" || start < 0 || end > sourceText.length || start >= end
+        )
+        .map(([start, end]) => `Span [${start}, ${end}] is out of bounds for source text of length ${sourceText.length}`),
+  },
+  {
+    id: "FACT_WITHOUT_EVIDENCE",
+    description: "A FACT claim's span resolves to non-trivial text.",
+    defaultSeverity: "ERROR",
+    defaultConfig: { minEvidenceLength: 10 },
+    check: (claim, { sourceText, config }) => {
+      const span = claim.type === "FACT" ? firstSpanText(claim, sourceText) : undefined;
+      if (span === undefined) return [];
+      const evidence = span.trim();
+      return evidence.length < Number(config.minEvidenceLength)
+        ? [`FACT claim span resolves to trivially short text: "${evidence}"`]
+        : [];
+    },
+  },
+  {
+    id: "INFERENCE_LAUNDERING",
+    description: "An INFERENCE claim keeps its hedging language.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {
+      hedges: [
+        "therefore", "thus", "hence", "consequently", "suggest", "suggests", "imply", "implies", "likely", "probably",
+        "may", "might", "could", "appear", "appears", "seem", "seems",
+      ],
+    },
+    check: (claim, { sourceText, config }) => {
+      const span = claim.type === "INFERENCE" ? firstSpanText(claim, sourceText) : undefined;
+      if (span === undefined || wordPattern(config.hedges).test(span)) return [];
+      return ["INFERENCE claim span contains no hedging language – possible inference laundering"];
+    },
+  },
+  {
+    id: "UNKNOWN_PREMISE",
+    description: "Every depends_on entry names another claim of the ledger.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim, { ledger }) =>
+      (claim.depends_on ?? [])
+        .filter((id) => !ledger.claims.some((entry) => entry.id === id))
+        .map((id) => `depends_on references unknown claim ${id}`),
+  },
+  {
+    id: "DEPENDENCY_CYCLE",
+    description: "Claims do not rely on each other in a circle.",
+    defaultSeverity: "ERROR",
+    defaultConfig: {},
+    check: (claim, { ledger }) => {
+      const cycle = dependencyCycle(claim, ledger);
+      return cycle ? [`Claims depend on each other in a cycle: ${cycle.join(" → ")}`] : [];
+    },
+  },
+  {
+    id: "INFERENCE_WITHOUT_PREMISE",
+    description: "An INFERENCE claim relies on at least one premise that is not an opinion.",
+    defaultSeverity: "WARNING",
+    defaultConfig: {},
+    check: (claim, { ledger }) => {
+      // Ledgers tagged before claims were linked carry no depends_on at all.
+      if (claim.type !== "INFERENCE" || claim.depends_on === undefined) return [];
+      const premises = ledger.claims.filter((entry) => claim.depends_on!.includes(entry.id));
+      if (premises.length === 0) return ["INFERENCE claim cites no premise"];
+      return premises.every((premise) => premise.type === "OPINION")
+        ? ["INFERENCE claim rests only on opinions"]
+        : [];
+    },
+  },
+  {
+    id: "CONTRADICTION",
+    description: "No claim contradicts an earlier claim about the same subject (dates, numbers, negation, antonyms).",
+    defaultSeverity: "WARNING",
+    defaultConfig: {},
+    check: (claim, { ledger }) => {
+      // Each pair is reported once, on its later claim.
+      const earlier = ledger.claims.slice(0, Math.max(ledger.claims.indexOf(claim), 0));
+      return earlier.flatMap((other) => {
+        const contradiction = compareClaims(other, claim);
+        return contradiction ? [`Claims ${other.id} and ${claim.id} contradict each other: ${contradiction.detail}`] : [];
+      });
+    },
+  },
+  {
+    id: "ABSOLUTE_LANGUAGE",
+    description: "No claim states a certainty the evidence cannot carry (always, never, guaranteed, cures…).",
+    defaultSeverity: "WARNING",
+    defaultConfig: {
+      terms: ["always", "never", "guaranteed", "guarantees", "cure", "cures", "completely safe", "no risk", "100%", "proven"],
+    },
+    check: (claim, { config }) => {
+      const match = wordPattern(config.terms).exec(claim.text ?? "");
+      return match ? [`${claim.type} claim uses absolute language: "${match[1]}"`] : [];
+    },
+  },
+  {
+    id: "OPINION_CLAIM",
+    description: "The response voices an opinion.",
+    defaultSeverity: "INFO",
+    defaultConfig: {},
+    check: (claim) => (claim.type === "OPINION" ? ["Claim is an opinion, not a fact or inference"] : []),
+  },
+];
+
+// ── Packs ────────────────────────────────────────────────────────────────────
+
+const STRUCTURAL: Record<string, RuleSetting> = {
+  MISSING_ID: "ERROR",
+  INVALID_TYPE: "ERROR",
+  NO_SPAN_REF: "ERROR",
+  INVALID_SPAN: "ERROR",
+  UNKNOWN_PREMISE: "ERROR",
+  DEPENDENCY_CYCLE: "ERROR",
+};
+
+export const RULE_PACKS: Readonly<Record<string, RulePack>> = {
+  default: {
+    name: "default",
+    description: "Structural, evidence and laundering issues are errors; missing premises and contradictions warn.",
+    rules: {
+      ...STRUCTURAL,
+      FACT_WITHOUT_EVIDENCE: "ERROR",
+      INFERENCE_LAUNDERING: "ERROR",
+      INFERENCE_WITHOUT_PREMISE: "WARNING",
+      CONTRADICTION: "WARNING",
+    },
+  },
+  "lenient-chat": {
+    name: "lenient-chat",
+    description: "Conversational answers: only structural problems fail; thin evidence and laundering are reported.",
+    rules: {
+      ...STRUCTURAL,
+      FACT_WITHOUT_EVIDENCE: "WARNING",
+      INFERENCE_LAUNDERING: "INFO",
+      INFERENCE_WITHOUT_PREMISE: "INFO",
+      CONTRADICTION: "INFO",
+    },
+  },
+  "strict-medical": {
+    name: "strict-medical",
+    description: "Clinical content: longer evidence spans, no absolute language, opinions flagged.",
+    rules: {
+      ...STRUCTURAL,
+      FACT_WITHOUT_EVIDENCE: { severity: "ERROR", config: { minEvidenceLength: 20 } },
+      INFERENCE_LAUNDERING: "ERROR",
+      INFERENCE_WITHOUT_PREMISE: "ERROR",
+      CONTRADICTION: "ERROR",
+      ABSOLUTE_LANGUAGE: "ERROR",
+      OPINION_CLAIM: "WARNING",
+    },
+  },
+};
+
+// ── Resolution ───────────────────────────────────────────────────────────────
+
+function findRule(id: string): EliRule | undefined {
+  return ELI_RULES.find((rule) => rule.id === id);
+}
+
+function normalizeSetting(setting: RuleSetting): { severity?: IssueSeverity | "OFF"; config?: RuleConfig } {
+  return typeof setting === "string" ? { severity: setting } : setting;
+}
+
+/**
+ * The rule set for `pack` (default "default") with `overrides` applied on top.
+ * Throws on an unknown pack or rule.
+ */
+export function buildRuleSet(pack: string = DEFAULT_RULE_PACK, overrides: Record<string, RuleSetting> = {}): RuleSet {
+  const base = RULE_PACKS[pack];
+  if (!base) {
+    throw new Error(`Unknown ELI rule pack: ${pack} (known: ${Object.keys(RULE_PACKS).join(", ")})`);
+  }
+  for (const id of Object.keys(overrides)) {
+    if (!findRule(id)) throw new Error(`Unknown ELI rule: ${id}`);
+  }
+
+  const rules: ResolvedRule[] = [];
+  for (const rule of ELI_RULES) {
+    const fromPack = base.rules[rule.id] !== undefined ? normalizeSetting(base.rules[rule.id]) : undefined;
+    const override = overrides[rule.id] !== undefined ? normalizeSetting(overrides[rule.id]) : undefined;
+    if (!fromPack && !override?.severity) continue;
+
+    const severity = override?.severity ?? fromPack?.severity ?? rule.defaultSeverity;
+    if (severity === "OFF") continue;
+    rules.push({
+      rule,
+      severity,
+      config: { ...rule.defaultConfig, ...fromPack?.config, ...override?.config },
+    });
+  }
+  return { pack, rules };
+}
+
+function isRuleConfigValue(value: unknown): value is RuleConfig[string] {
+  return (
+    typeof value === "number" ||
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((entry) => typeof entry === "string"))
+  );
+}
+
+/** Check a parsed rule config document; throws on the first problem. */
+export function parseRuleConfig(value: unknown): RuleConfigFile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid ELI rule config: expected a JSON object");
+  }
+  const document = value as Record<string, unknown>;
+  if (document.pack !== undefined && (typeof document.pack !== "string" || !RULE_PACKS[document.pack])) {
+    throw new Error(`Invalid ELI rule config: pack must be one of ${Object.keys(RULE_PACKS).join(", ")}, got: ${String(document.pack)}`);
+  }
+  const rawRules = document.rules ?? {};
+  if (!rawRules || typeof rawRules !== "object" || Array.isArray(rawRules)) {
+    throw new Error("Invalid ELI rule config: rules must be an object");
+  }
+
+  const severities: readonly string[] = [...ISSUE_SEVERITIES, "OFF"];
+  const rules: Record<string, RuleSetting> = {};
+  for (const [id, raw] of Object.entries(rawRules as Record<string, unknown>)) {
+    const rule = findRule(id);
+    if (!rule) {
+      throw new Error(`Invalid ELI rule config: unknown rule ${id}`);
+    }
+    const setting = typeof raw === "string" ? { severity: raw } : raw;
+    if (!setting || typeof setting !== "object" || Array.isArray(setting)) {
+      throw new Error(`Invalid ELI rule config: rules.${id} must be a severity or an object`);
+    }
+    const { severity, config } = setting as { severity?: unknown; config?: unknown };
+    if (severity !== undefined && (typeof severity !== "string" || !severities.includes(severity))) {
+      throw new Error(`Invalid ELI rule config: rules.${id}.severity must be one of ${severities.join(", ")}, got: ${String(severity)}`);
+    }
+    if (config !== undefined) {
+      if (!config || typeof config !== "object" || Array.isArray(config)) {
+        throw new Error(`Invalid ELI rule config: rules.${id}.config must be an object`);
+      }
+      for (const [key, entry] of Object.entries(config)) {
+        if (!(key in rule.defaultConfig)) {
+          throw new Error(`Invalid ELI rule config: rules.${id}.config.${key} is not an option of ${id}`);
+        }
+        if (!isRuleConfigValue(entry) || typeof entry !== typeof rule.defaultConfig[key]) {
+          throw new Error(`Invalid ELI rule config: rules.${id}.config.${key} has the wrong type`);
+        }
+      }
+    }
+    rules[id] = {
+      ...(severity !== undefined ? { severity: severity as IssueSeverity | "OFF" } : {}),
+      ...(config !== undefined ? { config: config as RuleConfig } : {}),
+    };
+  }
+
+  return { ...(typeof document.pack === "string" ? { pack: document.pack } : {}), rules };
+}
+
+/** Read and check a rule config file. */
+export function loadRuleConfig(path: string): RuleConfigFile {
+  const configPath = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(`Cannot read ELI rule config ${configPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseRuleConfig(parsed);
+}
+
+/**
+ * The rule set for a run: the pack from `pack`, `HALO_ELI_RULE_PACK`, the
+ * config file or "default", with the overrides from the config file at
+ * `configFile` or `HALO_ELI_RULES_FILE`.
+ */
+export function resolveRuleSet(options: { pack?: string; configFile?: string } = {}): RuleSet {
+  const configPath = options.configFile ?? process.env.HALO_ELI_RULES_FILE;
+  const config = configPath ? loadRuleConfig(configPath) : undefined;
+  return buildRuleSet(options.pack ?? process.env.HALO_ELI_RULE_PACK ?? config?.pack, config?.rules);
+}
@@ -0,0 +1,257 @@
+/**
+ * Markdown-aware segmentation of LLM responses into claim units.
+ *
+ * Most responses are markdown, so a plain sentence split breaks on list
+ * markers, table pipes, fenced code and abbreviations like "e.g." or "Dr.".
+ * The segmenter walks the response line by line, recognises the block
+ * structure first and only then splits prose into sentences:
+ *
+ *   - fenced code blocks (``` or ~~~) become one "code" segment, fences included
+ *   - ATX headings (# …) become "heading" segments
+ *   - each list item (-, *, +, 1., 1)) is one "list_item" unit, marker excluded,
+ *     continuation lines included
+ *   - each body cell of a pipe table is one "table_cell" unit; the header row
+ *     and the delimiter row are labels, not claims, and are dropped
+ *   - thematic breaks (---, ***) are dropped
+ *   - everything else is a paragraph (blockquote markers are treated as
+ *     whitespace), split into "sentence" units
+ *
+ * Every segment carries its exact [start, end) offsets into the response,
+ * computed while scanning, so `response.slice(start, end) === text` holds
+ * even when the same sentence appears twice.  Indented code blocks, setext
+ * headings and HTML blocks are not recognised and read as paragraphs.
+ */
+
+export type SegmentKind = "sentence" | "list_item" | "table_cell" | "heading" | "code";
+
+/** Segment kinds the tagger turns into claims. */
+export type ClaimUnitKind = Exclude<SegmentKind, "heading" | "code">;
+
+export interface Segment {
+  kind: SegmentKind;
+  /** response.slice(start, end) */
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Line {
+  start: number;
+  /** Offset of the line end, before "\n" or "\r\n" */
+  end: number;
+  text: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}(?:\s+|$)/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(?=\S)/;
+const BLOCKQUOTE = /^ {0,3}>/;
+
+/** Words that end in "." without ending the sentence. */
+const ABBREVIATIONS = new Set([
+  "al", "approx", "cf", "dr", "e.g", "eq", "fig", "figs", "i.e", "jr", "mr", "mrs", "ms", "prof", "sr", "st", "u.k", "u.s", "vs",
+]);
+
+/** Capitalised words that usually open a sentence rather than follow an initial as a surname. */
+const SENTENCE_OPENERS = new Set([
+  "a", "after", "also", "an", "and", "as", "at", "before", "but", "by", "finally", "first", "for", "from", "he", "her",
+  "here", "his", "how", "however", "if", "in", "it", "its", "next", "no", "not", "now", "of", "on", "or", "our", "she",
+  "so", "that", "the", "their", "then", "there", "these", "they", "this", "those", "to", "we", "what", "when", "where",
+  "which", "while", "who", "why", "with", "yes", "you",
+]);
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf("\n", start);
+    const stop = newline === -1 ? text.length : newline;
+    const end = stop > start && text[stop - 1] === "\r" ? stop - 1 : stop;
+    lines.push({ start, end, text: text.slice(start, end) });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+function isBlank(line: Line): boolean {
+  return line.text.trim().length === 0;
+}
+
+function isDelimiterRow(line: Line): boolean {
+  const row = line.text.trim();
+  if (!row.includes("|")) return false;
+  const cells = row.replace(/^\|/, "").replace(/\|$/, "").split("|");
+  return cells.every((cell) => /^\s*:?-+:?\s*$/.test(cell));
+}
+
+function isTableStart(lines: Line[], i: number): boolean {
+  return lines[i].text.includes("|") && i + 1 < lines.length && isDelimiterRow(lines[i + 1]);
+}
+
+/**
+ * Whether line `i` opens a block of its own.  Inside a paragraph an ordered
+ * list only interrupts when it starts at 1, so a wrapped line such as
+ * "1999. The …" stays prose.
+ */
+function startsBlock(lines: Line[], i: number, inParagraph: boolean): boolean {
+  const { text } = lines[i];
+  if (FENCE.test(text) || HEADING.test(text) || THEMATIC_BREAK.test(text) || isTableStart(lines, i)) return true;
+  if (BLOCKQUOTE.test(text)) return !inParagraph;
+  const item = LIST_ITEM.exec(text);
+  if (!item) return false;
+  return !inParagraph || !/^\d/.test(item[2]) || /^0*1[.)]$/.test(item[2]);
+}
+
+function push(segments: Segment[], source: string, kind: SegmentKind, start: number, end: number): void {
+  while (start < end && /\s/.test(source[start])) start++;
+  while (end > start && /\s/.test(source[end - 1])) end--;
+  if (end > start) segments.push({ kind, text: source.slice(start, end), start, end });
+}
+
+function atLineStart(source: string, pos: number): boolean {
+  let back = pos;
+  while (back > 0 && (source[back - 1] === " " || source[back - 1] === "\t")) back--;
+  return back === 0 || source[back - 1] === "\n";
+}
+
+/** Skip whitespace and blockquote markers at the start of a line. */
+function skipGap(source: string, pos: number, to: number): number {
+  while (pos < to) {
+    if (/\s/.test(source[pos])) {
+      pos++;
+    } else if (source[pos] === ">" && atLineStart(source, pos)) {
+      pos++;
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+function isAbbreviation(source: string, from: number, dot: number, next: number): boolean {
+  let wordStart = dot;
+  while (wordStart > from && /[\p{L}.]/u.test(source[wordStart - 1])) wordStart--;
+  const word = source.slice(wordStart, dot);
+  if (ABBREVIATIONS.has(word.toLowerCase())) return true;
+  // Initials ("J. Smith") and numbered references ("No. 5")
+  if (/^\p{Lu}$/u.test(word)) return continuesName(source, next);
+  return word.toLowerCase() === "no" && /\d/.test(source[next] ?? "");
+}
+
+/**
+ * Whether the text at `pos` completes a name after an initial: more initials,
+ * then a capitalised surname ("R. Tolkien", "Smith").  "Plan B. Then …" and
+ * "A B. C." end their sentence at the letter.
+ */
+function continuesName(source: string, pos: number): boolean {
+  const name = /^(?:\p{Lu}\.[ \t]+)*(\p{Lu}\p{Ll}[\p{L}'’-]*)/u.exec(source.slice(pos, pos + 200));
+  return name !== null && !SENTENCE_OPENERS.has(name[1].toLowerCase());
+}
+
+/** Split the prose in source[from, to) into sentence segments. */
+function splitSentences(source: string, from: number, to: number, segments: Segment[]): void {
+  let start = skipGap(source, from, to);
+  let pos = start;
+  while (pos < to) {
+    const ch = source[pos];
+    if (ch !== "." && ch !== "!" && ch !== "?") {
+      pos++;
+      continue;
+    }
+    // Take the whole terminator run plus closing quotes, brackets and emphasis.
+    let end = pos + 1;
+    while (end < to && /[.!?)\]"'”’*_]/.test(source[end])) end++;
+    const next = skipGap(source, end, to);
+    const boundary =
+      end === to ||
+      (/\s/.test(source[end]) &&
+        !/\p{Ll}/u.test(source[next] ?? "") &&
+        !(ch === "." && end === pos + 1 && isAbbreviation(source, start, pos, next)));
+    if (boundary) {
+      push(segments, source, "sentence", start, end);
+      start = next;
+      pos = next;
+    } else {
+      pos = end;
+    }
+  }
+  if (start < to) push(segments, source, "sentence", start, to);
+}
+
+function pushTableRow(source: string, line: Line, segments: Segment[]): void {
+  let cellStart = 0;
+  for (let i = 0; i <= line.text.length; i++) {
+    if (i < line.text.length && (line.text[i] !== "|" || line.text[i - 1] === "\\")) continue;
+    // Empty cells, including the ones outside the outer pipes, are dropped by push().
+    push(segments, source, "table_cell", line.start + cellStart, line.start + i);
+    cellStart = i + 1;
+  }
+}
+
+/** Segment a (markdown) response into claim units, headings and code blocks. */
+export function segmentResponse(response: string): Segment[] {
+  const lines = splitLines(response);
+  const segments: Segment[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line) || THEMATIC_BREAK.test(line.text)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      const marker = fence[1];
+      let close = i + 1;
+      const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+      while (close < lines.length && !closing.test(lines[close].text)) close++;
+      const last = lines[Math.min(close, lines.length - 1)];
+      push(segments, response, "code", line.start, last.end);
+      i = close + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line.text);
+    if (heading) {
+      const content = line.text.slice(heading[0].length).replace(/(^|\s+)#+\s*$/, "");
+      push(segments, response, "heading", line.start + heading[0].length, line.start + heading[0].length + content.length);
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].text.includes("|")) {
+        pushTableRow(response, lines[i], segments);
+        i++;
+      }
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line.text);
+    if (item) {
+      let end = line.end;
+      i++;
+      while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i, false)) {
+        end = lines[i].end;
+        i++;
+      }
+      push(segments, response, "list_item", line.start + item[0].length, end);
+      continue;
+    }
+
+    let end = line.end;
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i, true)) {
+      end = lines[i].end;
+      i++;
+    }
+    splitSentences(response, line.start, end, segments);
+  }
+
+  return segments;
+}
@@ -5,11 +5,33 @@
  * epistemic type (FACT, INFERENCE, ASSERTION, OPINION) and optional
  * span references into the source text.
  *
+ * The response is split into claim units by the markdown-aware segmenter
+ * (segmenter.ts): prose sentences, list items and table cells.  Headings and
+ * fenced code blocks are not claims; code block spans are listed separately
+ * on the ledger.
+ *
+ * Claims are linked to the premises they rely on (`depends_on`):
+ *
+ *   - a claim that opens with a conclusion marker ("Therefore", "This means",
+ *     "As a result", …) or carries "therefore / thus / hence / consequently"
+ *     depends on the claim before it;
+ *   - a claim that opens with an explanation marker ("Because", "This is
+ *     because", …) is a premise of the claim before it;
+ *   - an INFERENCE claim still without premises depends on the nearest FACT
+ *     among the two claims before it, unless it is already a premise of that
+ *     FACT.
+ *
+ * Each claim is annotated with the URLs, dates, percentages, quantities and
+ * named entities it mentions (annotations.ts), each with its own span.
+ *
  * The tagger uses a simple heuristic rule-set as a reference
  * implementation.  In production this should be replaced with the
  * canonical ELI validator/tagger package.
  */
 
+import { annotateClaim, type ClaimAnnotation, type Gazetteer } from "./annotations.js";
+import { segmentResponse, type ClaimUnitKind } from "./segmenter.js";
+
 export type EpiType = "FACT" | "INFERENCE" | "ASSERTION" | "OPINION";
 
 export interface EliClaim {
@@ -24,15 +46,28 @@ export interface EliClaim {
    * Each entry is [start, end] (inclusive, exclusive).
    */
   span_refs: Array<[number, number]>;
+  /** Markdown unit the claim was taken from */
+  unit?: ClaimUnitKind;
+  /** Ids of the claims this claim relies on (its premises); absent on ledgers tagged before linking */
+  depends_on?: string[];
+  /** URLs, dates, percentages, quantities and entities in the claim; absent on ledgers tagged before annotation */
+  annotations?: ClaimAnnotation[];
+}
+
+export interface TagOptions {
+  /** Known entity names and their types (see annotations.ts) */
+  gazetteer?: Gazetteer;
 }
 
 export interface EliLedger {
   /** ISO-8601 timestamp the ledger was produced */
   tagged_at: string;
-  /** Total number of sentences processed */
+  /** Total number of claim units (sentences, list items, table cells) processed */
   sentence_count: number;
   /** All extracted claims */
   claims: EliClaim[];
+  /** [start, end) spans of fenced code blocks, which carry no claims (omitted when there are none) */
+  code_blocks?: Array<[number, number]>;
 }
 
 // Simple heuristic patterns for epistemic classification
@@ -50,6 +85,14 @@ const FACT_MARKERS = [
   /\b\d{4}\b/, // year reference
 ];
 
+const CONCLUSION_OPENERS =
+  /^[\W_]*(therefore|thus|hence|consequently|so|as a result|it follows|that is why|this is why|this (means|suggests|implies|shows|indicates))\b/i;
+const CONCLUSION_ADVERBS = /\b(therefore|thus|hence|consequently)\b/i;
+const EXPLANATION_OPENERS = /^[\W_]*(because|this is because|that is because|this is due to|the reason is)\b/i;
+
+/** How many claims back an unlinked INFERENCE looks for a FACT premise. */
+const PREMISE_WINDOW = 2;
+
 function classifySentence(sentence: string): EpiType {
   if (OPINION_PATTERNS.some((p) => p.test(sentence))) return "OPINION";
   if (INFERENCE_PATTERNS.some((p) => p.test(sentence))) return "INFERENCE";
@@ -61,33 +104,64 @@ function classifySentence(sentence: string): EpiType {
  * Tag an LLM response text and produce an ELI ledger.
  *
  * @param response  Raw text returned by the LLM provider.
+ * @param options   Annotation settings.
  */
-export function tagResponse(response: string): EliLedger {
-  // Split on sentence boundaries (naïve but sufficient for invariant testing)
-  const sentences = response
-    .split(/(?<=[.!?])\s+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
+export function tagResponse(response: string, options: TagOptions = {}): EliLedger {
   const claims: EliClaim[] = [];
-  let cursor = 0;
+  const codeBlocks: Array<[number, number]> = [];
 
-  for (const sentence of sentences) {
-    const start = response.indexOf(sentence, cursor);
-    const end = start + sentence.length;
-    cursor = end;
+  for (const segment of segmentResponse(response)) {
+    if (segment.kind === "code") {
+      codeBlocks.push([segment.start, segment.end]);
+      continue;
+    }
+    if (segment.kind === "heading") continue;
 
     claims.push({
       id: crypto.randomUUID(),
-      type: classifySentence(sentence),
-      text: sentence,
-      span_refs: [[start, end]],
+      type: classifySentence(segment.text),
+      text: segment.text,
+      span_refs: [[segment.start, segment.end]],
+      unit: segment.kind,
+      annotations: annotateClaim(segment.text, segment.start, options.gazetteer),
     });
   }
 
+  linkPremises(claims);
+
   return {
     tagged_at: new Date().toISOString(),
-    sentence_count: sentences.length,
+    sentence_count: claims.length,
     claims,
+    ...(codeBlocks.length > 0 ? { code_blocks: codeBlocks } : {}),
   };
 }
+
+/** Fill `depends_on` from discourse markers and nearness (see the module comment). */
+function linkPremises(claims: EliClaim[]): void {
+  const premises = claims.map(() => new Set<string>());
+
+  claims.forEach((claim, index) => {
+    const previous = claims[index - 1];
+    if (!previous) return;
+    if (CONCLUSION_OPENERS.test(claim.text) || CONCLUSION_ADVERBS.test(claim.text)) {
+      premises[index].add(previous.id);
+    } else if (EXPLANATION_OPENERS.test(claim.text)) {
+      premises[index - 1].add(claim.id);
+    }
+  });
+
+  claims.forEach((claim, index) => {
+    if (claim.type !== "INFERENCE" || premises[index].size > 0) return;
+    for (let back = index - 1; back >= Math.max(0, index - PREMISE_WINDOW); back--) {
+      if (claims[back].type === "FACT") {
+        if (!premises[back].has(claim.id)) premises[index].add(claims[back].id);
+        break;
+      }
+    }
+  });
+
+  claims.forEach((claim, index) => {
+    claim.depends_on = [...premises[index]];
+  });
+}
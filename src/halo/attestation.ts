@@ -0,0 +1,206 @@
+/**
+ * in-toto attestations for orchestrator runs.
+ *
+ * Each run (a demo run or an ingested Valet checkpoint) can be described as an
+ * in-toto Statement v1: the subjects are the files the run wrote, named by
+ * their SHA-256 digests, and the predicate records what produced them: the
+ * prompt hash, provider, model, the ELI validation result and the credential
+ * leak scan result.
+ *
+ * The statement is signed in a DSSE envelope (payloadType
+ * "application/vnd.in-toto+json") with the Ed25519 receipt key through its
+ * signer backend (see signingBackend.ts); `keyid` is the key's key_id.  The signature covers the DSSE
+ * pre-authentication encoding (PAE) of the payload, so the envelope verifies
+ * with standard in-toto / sigstore tooling as well as verifyAttestation.
+ */
+import { createHash, createPublicKey, verify } from "node:crypto";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { computeKeyId } from "./keyring.js";
+import { resolveVerifyKey, type InteropKeyResolver } from "./interop.js";
+import type { Signer } from "./signingBackend.js";
+
+export const IN_TOTO_STATEMENT_TYPE = "https://in-toto.io/Statement/v1";
+export const DSSE_PAYLOAD_TYPE = "application/vnd.in-toto+json";
+export const RUN_PREDICATE_TYPE = "https://github.com/Swixixle/orchestrator-repo/attestation/llm-run/v1";
+
+/** File name the demo and ingest commands write the envelope to. */
+export const ATTESTATION_FILE = "attestation.dsse.json";
+
+/** in-toto ResourceDescriptor restricted to what a run produces. */
+export interface AttestationSubject {
+  name: string;
+  digest: { sha256: string };
+}
+
+export interface RunPredicate {
+  /** SHA-256 hex of the prompt text (the prompt itself is not attested) */
+  prompt_sha256: string;
+  provider: string;
+  model: string;
+  /** receipt_id of the master receipt or id of the HALO receipt, when known */
+  receipt_id?: string;
+  eli_validation: { ok: boolean; issues: Array<{ rule: string; severity: string; detail?: string }> };
+  leak_scan: { ok: boolean; findings: Array<{ location: string; pattern: string }> };
+  produced_at: string;
+}
+
+export interface InTotoStatement {
+  _type: typeof IN_TOTO_STATEMENT_TYPE;
+  subject: AttestationSubject[];
+  predicateType: string;
+  predicate: RunPredicate;
+}
+
+export interface DsseEnvelope {
+  payloadType: string;
+  /** Base64 of the statement JSON */
+  payload: string;
+  signatures: Array<{ keyid: string; sig: string }>;
+}
+
+export interface AttestationVerifyResult {
+  ok: boolean;
+  reason?: string;
+  keyid?: string;
+  statement?: InTotoStatement;
+}
+
+export interface SubjectCheckResult {
+  ok: boolean;
+  /** Subjects whose file exists but hashes differently */
+  mismatched: string[];
+  /** Subjects with no file to compare against */
+  missing: string[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function sha256Hex(content: string | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** DSSE v1 pre-authentication encoding: "DSSEv1 <len> <type> <len> <body>". */
+export function dssePae(payloadType: string, payload: Uint8Array): Buffer {
+  const type = Buffer.from(payloadType, "utf8");
+  return Buffer.concat([
+    Buffer.from(`DSSEv1 ${type.length} `, "utf8"),
+    type,
+    Buffer.from(` ${payload.length} `, "utf8"),
+    payload,
+  ]);
+}
+
+export function subjectFor(name: string, content: string | Uint8Array): AttestationSubject {
+  return { name, digest: { sha256: sha256Hex(content) } };
+}
+
+export function promptDigest(prompt: string): string {
+  return sha256Hex(prompt);
+}
+
+export function isDsseEnvelope(value: unknown): value is DsseEnvelope {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const root = value as Record<string, unknown>;
+  return typeof root.payloadType === "string" && typeof root.payload === "string" && Array.isArray(root.signatures);
+}
+
+// ── Statement ────────────────────────────────────────────────────────────────
+
+export function buildRunStatement(subjects: AttestationSubject[], predicate: RunPredicate): InTotoStatement {
+  if (subjects.length === 0) {
+    throw new Error("An attestation needs at least one subject");
+  }
+  return {
+    _type: IN_TOTO_STATEMENT_TYPE,
+    subject: subjects,
+    predicateType: RUN_PREDICATE_TYPE,
+    predicate,
+  };
+}
+
+// ── DSSE ─────────────────────────────────────────────────────────────────────
+
+export async function signAttestation(statement: InTotoStatement, signer: Signer): Promise<DsseEnvelope> {
+  const keyid = computeKeyId(await signer.publicKey());
+  const payload = Buffer.from(canonicalJson(statement), "utf8");
+  const sig = await signer.sign(dssePae(DSSE_PAYLOAD_TYPE, payload));
+  return {
+    payloadType: DSSE_PAYLOAD_TYPE,
+    payload: payload.toString("base64"),
+    signatures: [{ keyid, sig: sig.toString("base64") }],
+  };
+}
+
+/**
+ * Verify a DSSE envelope and return the in-toto statement it carries.  The
+ * envelope passes when any signature verifies under a key the resolver
+ * knows; subjects are checked separately with checkSubjects.
+ */
+export function verifyAttestation(envelope: DsseEnvelope, keys: InteropKeyResolver): AttestationVerifyResult {
+  if (envelope.payloadType !== DSSE_PAYLOAD_TYPE) {
+    return { ok: false, reason: `unsupported DSSE payloadType: ${envelope.payloadType}` };
+  }
+  if (envelope.signatures.length === 0) {
+    return { ok: false, reason: "DSSE envelope has no signatures" };
+  }
+
+  const payload = Buffer.from(envelope.payload, "base64");
+  const pae = dssePae(envelope.payloadType, payload);
+  let reason = "DSSE signature verification failed";
+  let keyid: string | undefined;
+  for (const signature of envelope.signatures) {
+    const key = resolveVerifyKey(keys, signature.keyid);
+    if (!key.publicKeyPem) {
+      reason = key.reason ?? reason;
+      continue;
+    }
+    try {
+      const publicKey = createPublicKey(key.publicKeyPem);
+      if (publicKey.asymmetricKeyType === "ed25519" && verify(null, pae, publicKey, Buffer.from(signature.sig, "base64"))) {
+        keyid = signature.keyid;
+        break;
+      }
+    } catch {
+      // fall through to the next signature
+    }
+    reason = "DSSE signature verification failed";
+  }
+  if (!keyid) {
+    return { ok: false, reason };
+  }
+
+  let statement: InTotoStatement;
+  try {
+    statement = JSON.parse(payload.toString("utf8")) as InTotoStatement;
+  } catch {
+    return { ok: false, keyid, reason: "DSSE payload is not valid JSON" };
+  }
+  if (statement._type !== IN_TOTO_STATEMENT_TYPE) {
+    return { ok: false, keyid, reason: `not an in-toto Statement v1: ${String(statement._type)}` };
+  }
+  if (statement.predicateType !== RUN_PREDICATE_TYPE) {
+    return { ok: false, keyid, reason: `unsupported predicateType: ${String(statement.predicateType)}` };
+  }
+  if (!Array.isArray(statement.subject) || statement.subject.length === 0) {
+    return { ok: false, keyid, reason: "statement has no subjects" };
+  }
+  return { ok: true, keyid, statement };
+}
+
+/** Compare each subject digest with the content `read` returns for its name. */
+export function checkSubjects(
+  statement: InTotoStatement,
+  read: (name: string) => string | Uint8Array | undefined
+): SubjectCheckResult {
+  const mismatched: string[] = [];
+  const missing: string[] = [];
+  for (const subject of statement.subject) {
+    const content = read(subject.name);
+    if (content === undefined) {
+      missing.push(subject.name);
+    } else if (sha256Hex(content) !== subject.digest?.sha256) {
+      mismatched.push(subject.name);
+    }
+  }
+  return { ok: mismatched.length === 0 && missing.length === 0, mismatched, missing };
+}
@@ -0,0 +1,116 @@
+/**
+ * Signed comparison artifacts for fan-out runs.
+ *
+ * A fan-out run (orchestrator.ts runFanOut) sends one prompt to several
+ * providers; the comparison artifact keeps every run — its own HALO receipt,
+ * verification, ELI ledger and validation, or the error — plus the claim
+ * agreement matrix (eli/agreement.ts), and is signed as a whole.
+ *
+ * The signature is an ordinary HALO receipt whose `response` is the canonical
+ * JSON of the artifact without its `receipt` field.  That text is the artifact
+ * itself, so the stored receipt leaves `response` out and verifyComparison puts
+ * it back before checking the signature.
+ */
+import { createHash } from "node:crypto";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { signHaloReceipt, type HaloReceipt } from "./signer.js";
+import { verifyReceipt } from "./verifier.js";
+import { COMPARISON_VERSION } from "./schemaRegistry.js";
+import type { Keyring } from "./keyring.js";
+import type { AgreementMatrix } from "../eli/agreement.js";
+import type { EliLedger } from "../eli/tagger.js";
+import type { ValidationResult } from "../eli/validator.js";
+import type { VerifyResult } from "./verifier.js";
+import type { FanOutResult } from "../orchestrator.js";
+
+export interface ComparisonRun {
+  label: string;
+  provider?: string;
+  model?: string;
+  ok: boolean;
+  outputText?: string;
+  receipt?: HaloReceipt;
+  verification?: VerifyResult;
+  ledger?: EliLedger;
+  validation?: ValidationResult;
+  error?: string;
+}
+
+export interface ComparisonArtifact {
+  comparison_version: typeof COMPARISON_VERSION;
+  created_at: string;
+  prompt: string;
+  prompt_sha256: string;
+  runs: ComparisonRun[];
+  agreement: AgreementMatrix;
+  /** HALO receipt over the rest of the artifact, without `response` */
+  receipt: Omit<HaloReceipt, "response">;
+}
+
+export interface ComparisonVerifyResult {
+  ok: boolean;
+  reason?: string;
+}
+
+function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+/** Build and sign the comparison artifact for a fan-out result. */
+export function signComparison(prompt: string, fanOut: FanOutResult, keyring: Keyring): ComparisonArtifact {
+  const body: Omit<ComparisonArtifact, "receipt"> = {
+    comparison_version: COMPARISON_VERSION,
+    created_at: new Date().toISOString(),
+    prompt,
+    prompt_sha256: sha256Hex(prompt),
+    runs: fanOut.runs.map(({ label, provider, model, ok, result, error }) => ({
+      label,
+      ...(provider !== undefined ? { provider } : {}),
+      ...(model !== undefined ? { model } : {}),
+      ok,
+      ...(result
+        ? {
+            outputText: result.llmResponse,
+            receipt: result.receipt,
+            verification: result.verification,
+            ledger: result.ledger,
+            validation: result.validation,
+          }
+        : {}),
+      ...(error !== undefined ? { error } : {}),
+    })),
+    agreement: fanOut.agreement,
+  };
+  const { response: _signedText, ...receipt } = signHaloReceipt(canonicalJson(body), keyring);
+  return { ...body, receipt };
+}
+
+/**
+ * Check the comparison signature and every run's receipt against `keyring`,
+ * and that each run's receipt signed the response it is stored with.
+ */
+export function verifyComparison(artifact: ComparisonArtifact, keyring: Keyring): ComparisonVerifyResult {
+  const { receipt, ...body } = artifact;
+  if (body.comparison_version !== COMPARISON_VERSION) {
+    return { ok: false, reason: `unsupported comparison_version: ${String(body.comparison_version)}` };
+  }
+  const signed = verifyReceipt({ ...receipt, response: canonicalJson(body) } as HaloReceipt, keyring);
+  if (!signed.valid) {
+    return { ok: false, reason: `comparison signature: ${signed.reason ?? signed.code}` };
+  }
+
+  for (const run of body.runs) {
+    if (!run.ok) continue;
+    if (!run.receipt) {
+      return { ok: false, reason: `run "${run.label}": missing receipt` };
+    }
+    const result = verifyReceipt(run.receipt, keyring);
+    if (!result.valid) {
+      return { ok: false, reason: `run "${run.label}": ${result.reason ?? result.code}` };
+    }
+    if (run.outputText !== run.receipt.response) {
+      return { ok: false, reason: `run "${run.label}": outputText does not match the signed receipt response` };
+    }
+  }
+  return { ok: true };
+}
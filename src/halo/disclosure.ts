@@ -0,0 +1,343 @@
+/**
+ * Selective disclosure for checkpoint evidence packs.
+ *
+ * In the default mode `content_hash` is SHA-256 over the whole canonical
+ * transcript, so proving any part of a conversation reveals all of it.  In
+ * selective-disclosure mode every transcript message and every ELI assertion
+ * gets its own salted commitment,
+ *
+ *   commitment = SHA-256(canonicalJson({ kind, index, salt, value }))
+ *
+ * plus one commitment for the rest of the transcript (the "frame": model,
+ * created_at, inputs).  `content_hash` becomes the hash of the commitment set,
+ * so the signed envelope commits to every part without containing any of it.
+ *
+ * Withholding a part replaces its value with `{ withheld: true }` and drops
+ * its salt; the commitment stays, so the pack still verifies and shows which
+ * parts were withheld.  The frame is always disclosed.
+ *
+ * ELI assertions are tagged from the assistant messages (joined by "\n"), so
+ * withholding an assistant message also withholds every assertion whose span
+ * falls inside it.  A message the frame repeats – `inputs` often echoes the
+ * prompt – cannot be withheld, and neither can an assistant message whose
+ * assertions cannot be placed; withholdParts refuses both rather than leak.
+ *
+ * Commitments are serialised with the receipt's canonicalization scheme
+ * (canonicalJson unless the receipt names rfc8785).
+ */
+import { createHash, randomBytes } from "node:crypto";
+import { canonicalizeWith } from "../utils/canonicalJson.js";
+
+export const DISCLOSURE_SCHEME = "halo.sd.v1";
+
+/** Placeholder left in place of a withheld message or assertion. */
+export const WITHHELD_PART = Object.freeze({ withheld: true as const });
+
+export type DisclosurePartKind = "frame" | "message" | "assertion";
+
+export interface DisclosureCommitments {
+  frame: string;
+  messages: string[];
+  assertions: string[];
+}
+
+export interface EvidenceDisclosure {
+  scheme: typeof DISCLOSURE_SCHEME;
+  commitments: DisclosureCommitments;
+  /** Per-part salts (hex); null where the part is withheld */
+  salts: {
+    frame: string;
+    messages: Array<string | null>;
+    assertions: Array<string | null>;
+  };
+}
+
+export interface DisclosureVerifyResult {
+  ok: boolean;
+  reason?: string;
+  /** Indexes of withheld parts; set when the commitments verify */
+  withheld?: { messages: number[]; assertions: number[] };
+  /** Total parts committed to */
+  total?: { messages: number; assertions: number };
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function sha256Hex(input: string): string {
+  return createHash("sha256").update(input, "utf8").digest("hex");
+}
+
+/** Drop `undefined` members so commitments match the value after a JSON round trip. */
+function plain(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+function transcriptFrame(transcript: JsonRecord): JsonRecord {
+  const { messages: _messages, ...frame } = transcript;
+  return frame;
+}
+
+function transcriptMessages(transcript: JsonRecord): unknown[] {
+  return Array.isArray(transcript.messages) ? transcript.messages : [];
+}
+
+function isWithheld(value: unknown): boolean {
+  return (value as JsonRecord | null)?.withheld === true;
+}
+
+/** Whether `value` is exactly WITHHELD_PART, with no other members. */
+function isWithheldPlaceholder(value: unknown): boolean {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === "withheld" && isWithheld(value);
+}
+
+/** Every string inside `value`. */
+function stringLeaves(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(stringLeaves);
+  if (value && typeof value === "object") return Object.values(value).flatMap(stringLeaves);
+  return [];
+}
+
+/** [start, end) spans of an assertion, from `sources` ("[0,12]") or `span_refs`; undefined when there are none. */
+function assertionSpans(assertion: unknown): Array<[number, number]> | undefined {
+  const record = (assertion ?? {}) as JsonRecord;
+  const raw = Array.isArray(record.sources) ? record.sources : Array.isArray(record.span_refs) ? record.span_refs : [];
+  const spans = raw.flatMap((source): Array<[number, number]> => {
+    try {
+      const span: unknown = typeof source === "string" ? JSON.parse(source) : source;
+      return Array.isArray(span) && span.length === 2 && span.every((offset) => typeof offset === "number")
+        ? [span as [number, number]]
+        : [];
+    } catch {
+      return [];
+    }
+  });
+  return spans.length > 0 ? spans : undefined;
+}
+
+/**
+ * Assertions tagged from the assistant messages at `indexes`.  Throws when a
+ * message cannot be placed in the tagged text (an earlier assistant message
+ * is already withheld) or a disclosed assertion carries no span.
+ */
+function assertionsFromMessages(messages: unknown[], assertions: unknown[], indexes: number[]): number[] {
+  const ranges: Array<[number, number]> = [];
+  let offset: number | undefined = 0;
+  messages.forEach((message, index) => {
+    const { role, content } = (message ?? {}) as JsonRecord;
+    const assistant = isWithheld(message) || (typeof role === "string" && role.toLowerCase() === "assistant");
+    if (!assistant) return;
+    const text = typeof content === "string" ? content : undefined;
+    if (indexes.includes(index) && !isWithheld(message)) {
+      if (offset === undefined || text === undefined) {
+        throw new Error(
+          `Cannot tell which assertions come from message ${index}; withhold it from the unredacted evidence pack.`
+        );
+      }
+      ranges.push([offset, offset + text.length]);
+    }
+    offset = offset === undefined || text === undefined ? undefined : offset + text.length + 1;
+  });
+  if (ranges.length === 0) return [];
+
+  return assertions.flatMap((assertion, index) => {
+    if (isWithheld(assertion)) return [];
+    const spans = assertionSpans(assertion);
+    if (!spans) {
+      throw new Error(`Assertion ${index} has no span; cannot tell whether it quotes a withheld message.`);
+    }
+    return spans.some(([start, end]) => ranges.some(([from, to]) => start < to && end > from)) ? [index] : [];
+  });
+}
+
+// ── Commitments ──────────────────────────────────────────────────────────────
+
+export function commitPart(
+  kind: DisclosurePartKind,
+  index: number,
+  salt: string,
+  value: unknown,
+  canonicalization?: string
+): string {
+  return sha256Hex(canonicalizeWith(canonicalization, { kind, index, salt, value: plain(value) }));
+}
+
+/** The value signed as `content_hash` in selective-disclosure mode. */
+export function commitmentRoot(commitments: DisclosureCommitments, canonicalization?: string): string {
+  return sha256Hex(canonicalizeWith(canonicalization, { scheme: DISCLOSURE_SCHEME, ...commitments }));
+}
+
+/** Salt and commit every part of a transcript and its ELI assertions. */
+export function commitEvidence(
+  transcript: JsonRecord,
+  assertions: unknown[],
+  canonicalization?: string
+): { content_hash: string; disclosure: EvidenceDisclosure } {
+  const salt = () => randomBytes(16).toString("hex");
+  const messages = transcriptMessages(transcript);
+
+  const salts = {
+    frame: salt(),
+    messages: messages.map(() => salt()),
+    assertions: assertions.map(() => salt()),
+  };
+  const commitments: DisclosureCommitments = {
+    frame: commitPart("frame", 0, salts.frame, transcriptFrame(transcript), canonicalization),
+    messages: messages.map((message, i) => commitPart("message", i, salts.messages[i], message, canonicalization)),
+    assertions: assertions.map((assertion, i) =>
+      commitPart("assertion", i, salts.assertions[i], assertion, canonicalization)
+    ),
+  };
+
+  return {
+    content_hash: commitmentRoot(commitments, canonicalization),
+    disclosure: { scheme: DISCLOSURE_SCHEME, commitments, salts },
+  };
+}
+
+// ── Redaction ────────────────────────────────────────────────────────────────
+
+/**
+ * Withhold messages and assertions from a selective-disclosure evidence pack.
+ * Withholding an assistant message also withholds the assertions tagged from
+ * it.  Returns a new pack; indexes that are out of range, and messages whose
+ * content would stay disclosed elsewhere, throw.
+ */
+export function withholdParts<
+  T extends { transcript: JsonRecord; eli_assertions: unknown[]; disclosure?: EvidenceDisclosure },
+>(evidence: T, withhold: { messages?: number[]; assertions?: number[] }): T {
+  const disclosure = evidence.disclosure;
+  if (!disclosure) {
+    throw new Error("Evidence pack has no selective disclosure commitments; re-ingest with --selective-disclosure.");
+  }
+
+  const messages = [...transcriptMessages(evidence.transcript)];
+  const assertions = [...evidence.eli_assertions];
+  const salts = {
+    frame: disclosure.salts.frame,
+    messages: [...disclosure.salts.messages],
+    assertions: [...disclosure.salts.assertions],
+  };
+
+  for (const index of withhold.messages ?? []) {
+    if (!Number.isInteger(index) || index < 0 || index >= messages.length) {
+      throw new Error(`Message index out of range: ${index} (pack has ${messages.length} messages)`);
+    }
+    const repeated = stringLeaves((messages[index] as JsonRecord | null)?.content).filter(
+      (text) => text.length > 0 && stringLeaves(transcriptFrame(evidence.transcript)).some((leaf) => leaf.includes(text))
+    );
+    if (repeated.length > 0) {
+      throw new Error(
+        `Message ${index} is repeated in the transcript fields outside messages (e.g. inputs), which are always disclosed; it cannot be withheld.`
+      );
+    }
+  }
+  const derived = assertionsFromMessages(messages, assertions, withhold.messages ?? []);
+  for (const index of withhold.messages ?? []) {
+    messages[index] = { ...WITHHELD_PART };
+    salts.messages[index] = null;
+  }
+  for (const index of [...(withhold.assertions ?? []), ...derived]) {
+    if (!Number.isInteger(index) || index < 0 || index >= assertions.length) {
+      throw new Error(`Assertion index out of range: ${index} (pack has ${assertions.length} assertions)`);
+    }
+    assertions[index] = { ...WITHHELD_PART };
+    salts.assertions[index] = null;
+  }
+
+  return {
+    ...evidence,
+    transcript: { ...evidence.transcript, messages },
+    eli_assertions: assertions,
+    disclosure: { ...disclosure, salts },
+  };
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+function verifyParts(
+  kind: "message" | "assertion",
+  values: unknown[],
+  commitments: string[],
+  salts: Array<string | null>,
+  canonicalization?: string
+): { ok: true; withheld: number[] } | { ok: false; reason: string } {
+  if (values.length !== commitments.length || salts.length !== commitments.length) {
+    return { ok: false, reason: `${kind} count does not match the ${commitments.length} committed ${kind}s` };
+  }
+
+  const withheld: number[] = [];
+  for (let i = 0; i < commitments.length; i++) {
+    const salt = salts[i];
+    if (salt === null) {
+      // A withheld slot must hold the bare placeholder, never content that would be shown unverified.
+      if (!isWithheldPlaceholder(values[i])) {
+        return { ok: false, reason: `${kind} ${i} has no salt but is not a withheld placeholder` };
+      }
+      withheld.push(i);
+      continue;
+    }
+    if (isWithheldPlaceholder(values[i])) {
+      return { ok: false, reason: `${kind} ${i} is a withheld placeholder but carries a salt` };
+    }
+    if (commitPart(kind, i, salt, values[i], canonicalization) !== commitments[i]) {
+      return { ok: false, reason: `${kind} ${i} does not match its commitment` };
+    }
+  }
+  return { ok: true, withheld };
+}
+
+/**
+ * Check a (possibly partially disclosed) evidence pack against the signed
+ * `content_hash`: the commitment set must hash to it and every disclosed part
+ * must open its commitment.
+ */
+export function verifyDisclosure(
+  transcript: JsonRecord,
+  assertions: unknown[],
+  disclosure: EvidenceDisclosure,
+  contentHash: string,
+  canonicalization?: string
+): DisclosureVerifyResult {
+  if (disclosure.scheme !== DISCLOSURE_SCHEME) {
+    return { ok: false, reason: `unsupported disclosure scheme: ${disclosure.scheme ?? "undefined"}` };
+  }
+
+  const { commitments, salts } = disclosure;
+  if (
+    typeof commitments?.frame !== "string" ||
+    !Array.isArray(commitments.messages) ||
+    !Array.isArray(commitments.assertions) ||
+    typeof salts?.frame !== "string" ||
+    !Array.isArray(salts.messages) ||
+    !Array.isArray(salts.assertions)
+  ) {
+    return { ok: false, reason: "malformed disclosure commitments" };
+  }
+
+  if (commitmentRoot(commitments, canonicalization) !== contentHash) {
+    return { ok: false, reason: "disclosure commitments do not hash to content_hash" };
+  }
+  if (commitPart("frame", 0, salts.frame, transcriptFrame(transcript), canonicalization) !== commitments.frame) {
+    return { ok: false, reason: "transcript fields outside messages do not match their commitment" };
+  }
+
+  const messages = verifyParts(
+    "message",
+    transcriptMessages(transcript),
+    commitments.messages,
+    salts.messages,
+    canonicalization
+  );
+  if (!messages.ok) return messages;
+  const assertionParts = verifyParts("assertion", assertions, commitments.assertions, salts.assertions, canonicalization);
+  if (!assertionParts.ok) return assertionParts;
+
+  return {
+    ok: true,
+    withheld: { messages: messages.withheld, assertions: assertionParts.withheld },
+    total: { messages: commitments.messages.length, assertions: commitments.assertions.length },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Encrypted evidence packs.
+ *
+ * An evidence pack holds the plaintext transcript, so by default it must sit
+ * behind separate access control.  Encrypting it for one or more recipients
+ * lets it live in shared storage instead:
+ *
+ *   - the pack is serialised and sealed once with a random 256-bit content key
+ *     (AES-256-GCM; the cleartext header is the associated data);
+ *   - for each recipient X25519 public key, an ephemeral X25519 key agreement
+ *     and HKDF-SHA256 derive a key-encryption key that wraps the content key.
+ *
+ * The master receipt stays public and signs `evidence_ciphertext_hash`, so the
+ * ciphertext cannot be swapped without breaking the receipt signature.  The
+ * transparency inclusion proof carries nothing sensitive and stays in the
+ * cleartext header.
+ *
+ * Recipient keys are plain X25519 PEM files, e.g.
+ *   openssl genpkey -algorithm X25519 -out recipient.pem
+ *   openssl pkey -in recipient.pem -pubout -out recipient.pub.pem
+ */
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { computeKeyId } from "./keyring.js";
+
+export const ENCRYPTED_EVIDENCE_VERSION = "halo.enc.v1";
+
+export const EVIDENCE_CIPHER = "AES-256-GCM";
+
+/** HKDF info prefix for key-encryption keys; the recipient key_id is appended. */
+export const KEK_INFO_PREFIX = "HALO_EVIDENCE_KEK_V1|";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface EvidenceRecipient {
+  /** key_id of the recipient X25519 public key (see computeKeyId) */
+  key_id: string;
+  /** Ephemeral X25519 public key, SPKI DER (base64) */
+  ephemeral_public_key: string;
+  iv: string;
+  /** Content key sealed with the key-encryption key; ciphertext || tag (base64) */
+  wrapped_key: string;
+}
+
+export interface EncryptedEvidencePack {
+  version: typeof ENCRYPTED_EVIDENCE_VERSION;
+  receipt_id: string;
+  content_hash: string;
+  cipher: typeof EVIDENCE_CIPHER;
+  iv: string;
+  /** Sealed evidence pack JSON; ciphertext || tag (base64) */
+  ciphertext: string;
+  recipients: EvidenceRecipient[];
+  /** Transparency log inclusion proof, kept in the clear */
+  transparency?: unknown;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): { iv: string; sealed: string } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  if (aad) cipher.setAAD(aad);
+  const body = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return { iv: iv.toString("base64"), sealed: body.toString("base64") };
+}
+
+function open(key: Buffer, iv: string, sealed: string, aad?: Buffer): Buffer {
+  const body = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(body.subarray(body.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(body.subarray(0, body.length - TAG_BYTES)), decipher.final()]);
+}
+
+function deriveKek(sharedSecret: Buffer, keyId: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", sharedSecret, Buffer.alloc(0), KEK_INFO_PREFIX + keyId, 32));
+}
+
+/** Associated data for the evidence ciphertext: the cleartext header it travels with. */
+export function evidenceAad(header: { receipt_id: string; content_hash: string }): string {
+  return canonicalJson({
+    version: ENCRYPTED_EVIDENCE_VERSION,
+    receipt_id: header.receipt_id,
+    content_hash: header.content_hash,
+  });
+}
+
+/** The value a master receipt signs as `evidence_ciphertext_hash`. */
+export function evidenceCiphertextHash(pack: Pick<EncryptedEvidencePack, "iv" | "ciphertext">): string {
+  return createHash("sha256").update(canonicalJson({ iv: pack.iv, ciphertext: pack.ciphertext }), "utf8").digest("hex");
+}
+
+export function isEncryptedEvidencePack(value: unknown): value is EncryptedEvidencePack {
+  const record = value as JsonRecord | undefined;
+  return Boolean(
+    record &&
+      typeof record === "object" &&
+      record.version === ENCRYPTED_EVIDENCE_VERSION &&
+      typeof record.ciphertext === "string" &&
+      Array.isArray(record.recipients)
+  );
+}
+
+// ── Encryption ───────────────────────────────────────────────────────────────
+
+/** Generate an X25519 recipient key pair (PEM); mainly for tests. */
+export function generateRecipientKeyPair(): { publicKeyPem: string; privateKeyPem: string } {
+  const { publicKey, privateKey } = generateKeyPairSync("x25519");
+  return {
+    publicKeyPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    privateKeyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  };
+}
+
+/**
+ * Encrypt an evidence pack for every recipient public key.  The pack's
+ * `transparency` proof, if any, is moved to the cleartext header.
+ */
+export function encryptEvidencePack(
+  evidence: JsonRecord & { receipt_id: string; content_hash: string },
+  recipientPublicKeysPem: string[]
+): EncryptedEvidencePack {
+  if (recipientPublicKeysPem.length === 0) {
+    throw new Error("encryptEvidencePack requires at least one recipient public key");
+  }
+
+  const { transparency, ...sealedFields } = evidence;
+  const contentKey = randomBytes(32);
+  const body = seal(
+    contentKey,
+    Buffer.from(JSON.stringify(sealedFields), "utf8"),
+    Buffer.from(evidenceAad(evidence), "utf8")
+  );
+
+  const recipients = recipientPublicKeysPem.map((publicKeyPem) => {
+    const recipientKey = createPublicKey(publicKeyPem);
+    if (recipientKey.asymmetricKeyType !== "x25519") {
+      throw new Error(`Evidence recipient keys must be X25519, got: ${recipientKey.asymmetricKeyType ?? "unknown"}`);
+    }
+    const keyId = computeKeyId(publicKeyPem);
+    const ephemeral = generateKeyPairSync("x25519");
+    const shared = diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipientKey });
+    const wrapped = seal(deriveKek(shared, keyId), contentKey);
+    return {
+      key_id: keyId,
+      ephemeral_public_key: ephemeral.publicKey.export({ type: "spki", format: "der" }).toString("base64"),
+      iv: wrapped.iv,
+      wrapped_key: wrapped.sealed,
+    };
+  });
+
+  return {
+    version: ENCRYPTED_EVIDENCE_VERSION,
+    receipt_id: evidence.receipt_id,
+    content_hash: evidence.content_hash,
+    cipher: EVIDENCE_CIPHER,
+    iv: body.iv,
+    ciphertext: body.sealed,
+    recipients,
+    ...(transparency !== undefined ? { transparency } : {}),
+  };
+}
+
+// ── Decryption ───────────────────────────────────────────────────────────────
+
+/**
+ * Check that an encrypted pack is the one a master receipt signed: same
+ * receipt and content hash in the header, and a ciphertext matching
+ * `evidence_ciphertext_hash`.  Needs no private key.
+ */
+export function checkCiphertextBinding(
+  master: { receipt_id: string; content_hash: string; evidence_ciphertext_hash?: string },
+  pack: EncryptedEvidencePack
+): { ok: boolean; reason?: string } {
+  if (master.evidence_ciphertext_hash === undefined) {
+    return { ok: false, reason: "master receipt does not bind an encrypted evidence pack" };
+  }
+  if (pack.receipt_id !== master.receipt_id || pack.content_hash !== master.content_hash) {
+    return { ok: false, reason: "encrypted evidence header does not match the master receipt" };
+  }
+  if (evidenceCiphertextHash(pack) !== master.evidence_ciphertext_hash) {
+    return { ok: false, reason: "evidence ciphertext does not match evidence_ciphertext_hash" };
+  }
+  return { ok: true };
+}
+
+/**
+ * Decrypt an evidence pack with a recipient's X25519 private key.  The
+ * cleartext transparency proof is restored into the returned pack.  Throws
+ * when the key is not a recipient or the ciphertext or header was altered.
+ */
+export function decryptEvidencePack(pack: EncryptedEvidencePack, privateKeyPem: string): JsonRecord {
+  if (pack.version !== ENCRYPTED_EVIDENCE_VERSION) {
+    throw new Error(`Unsupported encrypted evidence version: ${String(pack.version)}`);
+  }
+
+  const privateKey = createPrivateKey(privateKeyPem);
+  const keyId = computeKeyId(createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString());
+  const recipient = pack.recipients.find((entry) => entry.key_id === keyId);
+  if (!recipient) {
+    throw new Error(`Key ${keyId} is not a recipient of this evidence pack`);
+  }
+
+  let plaintext: Buffer;
+  try {
+    const ephemeral = createPublicKey({
+      key: Buffer.from(recipient.ephemeral_public_key, "base64"),
+      format: "der",
+      type: "spki",
+    });
+    const contentKey = open(
+      deriveKek(diffieHellman({ privateKey, publicKey: ephemeral }), keyId),
+      recipient.iv,
+      recipient.wrapped_key
+    );
+    plaintext = open(contentKey, pack.iv, pack.ciphertext, Buffer.from(evidenceAad(pack), "utf8"));
+  } catch {
+    throw new Error("Evidence pack decryption failed: ciphertext, header or wrapped key was altered");
+  }
+
+  return {
+    ...(JSON.parse(plaintext.toString("utf8")) as JsonRecord),
+    ...(pack.transparency !== undefined ? { transparency: pack.transparency } : {}),
+  };
+}
+
+// ── Configuration ────────────────────────────────────────────────────────────
+
+/**
+ * Recipient public keys from `--encrypt-to` paths, else the comma-separated
+ * paths in `HALO_EVIDENCE_RECIPIENTS`.  Empty means no encryption.
+ */
+export function loadRecipientPublicKeys(paths?: string[]): string[] {
+  const selected =
+    paths && paths.length > 0
+      ? paths
+      : (process.env.HALO_EVIDENCE_RECIPIENTS ?? "").split(",").map((value) => value.trim()).filter(Boolean);
+  return selected.map((path) => readFileSync(resolve(path), "utf8"));
+}
@@ -0,0 +1,291 @@
+/**
+ * Standard signature formats for HALO receipts.
+ *
+ * Master receipts and HALO receipts can be exported as
+ *
+ *   - a compact JWS (RFC 7515) with `alg: "EdDSA"` (RFC 8037), and
+ *   - a tagged COSE_Sign1 structure (RFC 9052) with algorithm -8 (EdDSA).
+ *
+ * The payload of both is the canonical JSON of the receipt, byte-for-byte the
+ * same, and both are signed with the Ed25519 key that signed the receipt
+ * (`kid` is its key_id, see computeKeyId).  Importing verifies the outer
+ * signature and returns the receipt, which callers then verify as usual
+ * (verifyCheckpointOffline or verifyReceipt), so a partner can check the
+ * standard envelope with off-the-shelf JOSE/COSE tooling and still get the
+ * native receipt back.
+ */
+import { createPrivateKey, createPublicKey, sign, verify } from "node:crypto";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { cborTag, decodeCbor, encodeCbor, type CborValue } from "../utils/cbor.js";
+import { computeKeyId, findKey, type Keyring } from "./keyring.js";
+import { detectDocumentKind } from "./schemaRegistry.js";
+import type { Signer } from "./signingBackend.js";
+
+export type InteropReceiptKind = "master_receipt" | "halo_receipt";
+
+export type InteropFormat = "jws" | "cose";
+
+/** Content types carried in the JWS `cty` and COSE content-type headers. */
+export const INTEROP_CONTENT_TYPES: Record<InteropReceiptKind, string> = {
+  master_receipt: "application/vnd.halo.master-receipt+json",
+  halo_receipt: "application/vnd.halo.receipt+json",
+};
+
+const JWS_ALG = "EdDSA";
+const COSE_SIGN1_TAG = 18;
+const COSE_ALG_EDDSA = -8;
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_CONTENT_TYPE = 3;
+const COSE_HEADER_KID = 4;
+
+type JsonRecord = Record<string, unknown>;
+
+/** Ed25519 private key that signs the export, and the kid to name it by. */
+export interface InteropSigner {
+  privateKeyPem: string;
+  /** Defaults to computeKeyId of the matching public key */
+  kid?: string;
+}
+
+/** A fixed Ed25519 public key, or a lookup from kid to public key. */
+export type InteropKeyResolver = string | ((kid: string) => string | undefined);
+
+export interface InteropImportResult {
+  ok: boolean;
+  reason?: string;
+  kind?: InteropReceiptKind;
+  kid?: string;
+  /** The receipt carried as the payload; set when the outer signature verifies */
+  receipt?: JsonRecord;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function receiptKind(receipt: unknown): InteropReceiptKind {
+  const kind = detectDocumentKind(receipt);
+  if (kind !== "master_receipt" && kind !== "halo_receipt") {
+    throw new Error(`Only master receipts and HALO receipts can be exported, got: ${kind ?? "unknown document"}`);
+  }
+  return kind;
+}
+
+function kindForContentType(contentType: unknown): InteropReceiptKind | undefined {
+  return (Object.keys(INTEROP_CONTENT_TYPES) as InteropReceiptKind[]).find(
+    (kind) => INTEROP_CONTENT_TYPES[kind] === contentType
+  );
+}
+
+function signerKid(signer: InteropSigner): string {
+  if (signer.kid) return signer.kid;
+  const publicKey = createPublicKey(createPrivateKey(signer.privateKeyPem));
+  return computeKeyId(publicKey.export({ type: "spki", format: "pem" }).toString());
+}
+
+/** Look up the public key for a kid; a fixed key must match the kid. */
+export function resolveVerifyKey(resolver: InteropKeyResolver, kid: string): { publicKeyPem?: string; reason?: string } {
+  if (typeof resolver === "function") {
+    const publicKeyPem = resolver(kid);
+    return publicKeyPem ? { publicKeyPem } : { reason: `no verify key for kid ${kid}` };
+  }
+  if (computeKeyId(resolver) !== kid) {
+    return { reason: `kid ${kid} does not match the verify key (${computeKeyId(resolver)})` };
+  }
+  return { publicKeyPem: resolver };
+}
+
+function verifyEd25519(data: Buffer, signature: Buffer, publicKeyPem: string): boolean {
+  try {
+    const key = createPublicKey(publicKeyPem);
+    return key.asymmetricKeyType === "ed25519" && verify(null, data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/** Parse the payload and check it is the kind the header announced. */
+function openPayload(payload: Buffer, kind: InteropReceiptKind, kid: string): InteropImportResult {
+  let receipt: JsonRecord;
+  try {
+    receipt = JSON.parse(payload.toString("utf8")) as JsonRecord;
+  } catch {
+    return { ok: false, reason: "payload is not valid JSON" };
+  }
+  if (detectDocumentKind(receipt) !== kind) {
+    return { ok: false, reason: `payload is not a ${kind}` };
+  }
+  return { ok: true, kind, kid, receipt };
+}
+
+/** Signer for a HALO receipt: the keyring key named by its key_id. */
+export function keyringSigner(keyring: Keyring, keyId: string): InteropSigner {
+  const entry = findKey(keyring, keyId);
+  if (!entry?.private_key) {
+    throw new Error(`Keyring has no private key for key_id ${keyId}`);
+  }
+  return { privateKeyPem: entry.private_key, kid: keyId };
+}
+
+/** Resolve kids against a keyring (public-only is enough). */
+export function keyringResolver(keyring: Keyring): InteropKeyResolver {
+  return (kid) => findKey(keyring, kid)?.public_key;
+}
+
+// ── JWS ──────────────────────────────────────────────────────────────────────
+
+/** BASE64URL(header).BASE64URL(payload), the bytes a JWS signs. */
+function jwsSigningInput(receipt: object, kid: string): string {
+  const kind = receiptKind(receipt);
+  const header = canonicalJson({ alg: JWS_ALG, cty: INTEROP_CONTENT_TYPES[kind], kid });
+  const payload = Buffer.from(canonicalJson(receipt), "utf8").toString("base64url");
+  return `${Buffer.from(header, "utf8").toString("base64url")}.${payload}`;
+}
+
+/** Export a receipt as a compact JWS: BASE64URL(header).BASE64URL(payload).BASE64URL(signature). */
+export function exportJws(receipt: object, signer: InteropSigner): string {
+  const signingInput = jwsSigningInput(receipt, signerKid(signer));
+  const signature = sign(null, Buffer.from(signingInput, "ascii"), createPrivateKey(signer.privateKeyPem));
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/** exportJws with a signer backend instead of an in-process key. */
+export async function exportJwsWithSigner(receipt: object, signer: Signer): Promise<string> {
+  const signingInput = jwsSigningInput(receipt, computeKeyId(await signer.publicKey()));
+  const signature = await signer.sign(Buffer.from(signingInput, "ascii"));
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+export function importJws(token: string, keys: InteropKeyResolver): InteropImportResult {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) {
+    return { ok: false, reason: "not a compact JWS (expected three dot-separated parts)" };
+  }
+
+  let header: JsonRecord;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8")) as JsonRecord;
+  } catch {
+    return { ok: false, reason: "JWS header is not valid JSON" };
+  }
+  if (header.alg !== JWS_ALG) {
+    return { ok: false, reason: `unsupported JWS alg: ${String(header.alg)}` };
+  }
+  const kind = kindForContentType(header.cty);
+  if (!kind) {
+    return { ok: false, reason: `unsupported JWS cty: ${String(header.cty)}` };
+  }
+  if (typeof header.kid !== "string") {
+    return { ok: false, reason: "JWS header has no kid" };
+  }
+
+  const key = resolveVerifyKey(keys, header.kid);
+  if (!key.publicKeyPem) {
+    return { ok: false, reason: key.reason };
+  }
+  const signingInput = Buffer.from(`${parts[0]}.${parts[1]}`, "ascii");
+  if (!verifyEd25519(signingInput, Buffer.from(parts[2], "base64url"), key.publicKeyPem)) {
+    return { ok: false, reason: "JWS signature verification failed" };
+  }
+  return openPayload(Buffer.from(parts[1], "base64url"), kind, header.kid);
+}
+
+// ── COSE_Sign1 ───────────────────────────────────────────────────────────────
+
+function sigStructure(protectedHeader: Uint8Array, payload: Uint8Array): Buffer {
+  return encodeCbor(["Signature1", protectedHeader, new Uint8Array(0), payload]);
+}
+
+/** The protected header and payload of a COSE_Sign1 export. */
+function coseParts(receipt: object, kid: string): { protectedHeader: Buffer; payload: Buffer } {
+  const kind = receiptKind(receipt);
+  const protectedHeader = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [COSE_HEADER_ALG, COSE_ALG_EDDSA],
+      [COSE_HEADER_CONTENT_TYPE, INTEROP_CONTENT_TYPES[kind]],
+      [COSE_HEADER_KID, Buffer.from(kid, "utf8")],
+    ])
+  );
+  return { protectedHeader, payload: Buffer.from(canonicalJson(receipt), "utf8") };
+}
+
+/** Export a receipt as a tagged COSE_Sign1 message (CBOR bytes). */
+export function exportCoseSign1(receipt: object, signer: InteropSigner): Buffer {
+  const { protectedHeader, payload } = coseParts(receipt, signerKid(signer));
+  const signature = sign(null, sigStructure(protectedHeader, payload), createPrivateKey(signer.privateKeyPem));
+  return encodeCbor(cborTag(COSE_SIGN1_TAG, [protectedHeader, new Map(), payload, signature]));
+}
+
+/** exportCoseSign1 with a signer backend instead of an in-process key. */
+export async function exportCoseSign1WithSigner(receipt: object, signer: Signer): Promise<Buffer> {
+  const { protectedHeader, payload } = coseParts(receipt, computeKeyId(await signer.publicKey()));
+  const signature = await signer.sign(sigStructure(protectedHeader, payload));
+  return encodeCbor(cborTag(COSE_SIGN1_TAG, [protectedHeader, new Map(), payload, signature]));
+}
+
+export function importCoseSign1(message: Uint8Array, keys: InteropKeyResolver): InteropImportResult {
+  let decoded: CborValue;
+  try {
+    decoded = decodeCbor(message);
+  } catch (err) {
+    return { ok: false, reason: `not valid CBOR: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const body = decoded && typeof decoded === "object" && "tag" in decoded ? decoded.value : decoded;
+  if (decoded && typeof decoded === "object" && "tag" in decoded && decoded.tag !== COSE_SIGN1_TAG) {
+    return { ok: false, reason: `unexpected CBOR tag ${decoded.tag} (COSE_Sign1 is ${COSE_SIGN1_TAG})` };
+  }
+  if (
+    !Array.isArray(body) ||
+    body.length !== 4 ||
+    !(body[0] instanceof Uint8Array) ||
+    !(body[1] instanceof Map) ||
+    !(body[2] instanceof Uint8Array) ||
+    !(body[3] instanceof Uint8Array)
+  ) {
+    return { ok: false, reason: "not a COSE_Sign1 structure with an attached payload" };
+  }
+  const [protectedHeader, , payload, signature] = body as [Uint8Array, Map<CborValue, CborValue>, Uint8Array, Uint8Array];
+
+  let headers: CborValue;
+  try {
+    headers = decodeCbor(protectedHeader);
+  } catch {
+    return { ok: false, reason: "COSE protected header is not valid CBOR" };
+  }
+  if (!(headers instanceof Map)) {
+    return { ok: false, reason: "COSE protected header is not a map" };
+  }
+  if (headers.get(COSE_HEADER_ALG) !== COSE_ALG_EDDSA) {
+    return { ok: false, reason: `unsupported COSE alg: ${String(headers.get(COSE_HEADER_ALG))}` };
+  }
+  const kind = kindForContentType(headers.get(COSE_HEADER_CONTENT_TYPE));
+  if (!kind) {
+    return { ok: false, reason: `unsupported COSE content type: ${String(headers.get(COSE_HEADER_CONTENT_TYPE))}` };
+  }
+  const kidBytes = headers.get(COSE_HEADER_KID);
+  if (!(kidBytes instanceof Uint8Array)) {
+    return { ok: false, reason: "COSE protected header has no kid" };
+  }
+  const kid = Buffer.from(kidBytes).toString("utf8");
+
+  const key = resolveVerifyKey(keys, kid);
+  if (!key.publicKeyPem) {
+    return { ok: false, reason: key.reason };
+  }
+  if (!verifyEd25519(sigStructure(protectedHeader, payload), Buffer.from(signature), key.publicKeyPem)) {
+    return { ok: false, reason: "COSE_Sign1 signature verification failed" };
+  }
+  return openPayload(Buffer.from(payload), kind, kid);
+}
+
+/** Import either format: a compact JWS string or COSE_Sign1 bytes. */
+export function importInteropReceipt(
+  encoded: string | Uint8Array,
+  keys: InteropKeyResolver
+): InteropImportResult & { format: InteropFormat } {
+  const text = typeof encoded === "string" ? encoded : Buffer.from(encoded).toString("latin1");
+  if (/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\s*$/.test(text)) {
+    return { format: "jws", ...importJws(text, keys) };
+  }
+  const bytes = typeof encoded === "string" ? Buffer.from(encoded, "base64") : encoded;
+  return { format: "cose", ...importCoseSign1(bytes, keys) };
+}
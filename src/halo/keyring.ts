@@ -0,0 +1,197 @@
+/**
+ * HALO signing keyring.
+ *
+ * Holds the Ed25519 keys used to sign and verify HALO receipts.  Each key
+ * is identified by a `key_id` (a fingerprint of its public key) and carries
+ * the lifecycle timestamps that implement docs/security/key-rotation.md:
+ *
+ *   - exactly one key is *active* and used for new signatures;
+ *   - on rotation the previous active key keeps verifying receipts until its
+ *     `expires_at` (the 14-day dual support window), then is refused;
+ *   - a revoked key is refused immediately, regardless of its window.
+ *
+ * The keyring is persisted as a local JSON file (default `.halo/keyring.json`,
+ * override with `HALO_KEYRING_FILE`).  The file contains private keys and
+ * must never be committed or shared; hand verifiers the output of
+ * `exportPublicKeyring` instead.
+ */
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+} from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+/** Days an outgoing key keeps verifying receipts after a rotation. */
+export const DEFAULT_OVERLAP_DAYS = 14;
+
+export const DEFAULT_KEYRING_FILE = ".halo/keyring.json";
+
+export interface KeyringEntry {
+  /** Fingerprint of the public key: first 16 hex chars of SHA-256(SPKI DER) */
+  key_id: string;
+  algorithm: "ed25519";
+  /** SPKI PEM public key */
+  public_key: string;
+  /** PKCS#8 PEM private key; absent in exported (public-only) keyrings */
+  private_key?: string;
+  /** ISO-8601 timestamp the key was generated */
+  created_at: string;
+  /** ISO-8601 end of the verification window; set when the key is rotated out */
+  expires_at?: string;
+  /** ISO-8601 timestamp the key was revoked */
+  revoked_at?: string;
+  revocation_reason?: string;
+}
+
+export interface Keyring {
+  version: 1;
+  /** key_id of the key used for new signatures */
+  active_key_id: string;
+  keys: KeyringEntry[];
+}
+
+export type KeyStatus = "active" | "overlap" | "expired" | "revoked";
+
+// ── Construction ─────────────────────────────────────────────────────────────
+
+/** Compute the key_id for an Ed25519 public key PEM. */
+export function computeKeyId(publicKeyPem: string): string {
+  const der = createPublicKey(publicKeyPem).export({ type: "spki", format: "der" });
+  return createHash("sha256").update(der).digest("hex").slice(0, 16);
+}
+
+/** Generate a fresh Ed25519 keyring entry. */
+export function generateKeyEntry(now: Date = new Date()): KeyringEntry {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const public_key = publicKey.export({ type: "spki", format: "pem" }).toString();
+  return {
+    key_id: computeKeyId(public_key),
+    algorithm: "ed25519",
+    public_key,
+    private_key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    created_at: now.toISOString(),
+  };
+}
+
+/** Create an in-memory keyring holding a single active key. */
+export function createKeyring(now: Date = new Date()): Keyring {
+  const entry = generateKeyEntry(now);
+  return { version: 1, active_key_id: entry.key_id, keys: [entry] };
+}
+
+// ── Lifecycle ────────────────────────────────────────────────────────────────
+
+/**
+ * Rotate the keyring: generate a new active key and schedule the outgoing
+ * key to expire after the overlap window.  Returns a new keyring object.
+ */
+export function rotateKeyring(
+  keyring: Keyring,
+  options?: { now?: Date; overlapDays?: number }
+): Keyring {
+  const now = options?.now ?? new Date();
+  const overlapDays = options?.overlapDays ?? DEFAULT_OVERLAP_DAYS;
+  const expiresAt = new Date(now.getTime() + overlapDays * 24 * 60 * 60 * 1000).toISOString();
+  const next = generateKeyEntry(now);
+
+  const keys = keyring.keys.map((entry) =>
+    entry.key_id === keyring.active_key_id && !entry.expires_at
+      ? { ...entry, expires_at: expiresAt }
+      : entry
+  );
+
+  return { version: 1, active_key_id: next.key_id, keys: [...keys, next] };
+}
+
+/**
+ * Revoke a key.  Receipts signed with a revoked key no longer verify.
+ * Revoking the active key leaves the keyring without a signing key until
+ * it is rotated.
+ */
+export function revokeKey(
+  keyring: Keyring,
+  keyId: string,
+  options?: { now?: Date; reason?: string }
+): Keyring {
+  if (!keyring.keys.some((entry) => entry.key_id === keyId)) {
+    throw new Error(`Unknown key_id: ${keyId}`);
+  }
+
+  const revokedAt = (options?.now ?? new Date()).toISOString();
+  return {
+    ...keyring,
+    keys: keyring.keys.map((entry) =>
+      entry.key_id === keyId && !entry.revoked_at
+        ? { ...entry, revoked_at: revokedAt, revocation_reason: options?.reason }
+        : entry
+    ),
+  };
+}
+
+/** Classify a key at a point in time. */
+export function keyStatus(keyring: Keyring, entry: KeyringEntry, now: Date = new Date()): KeyStatus {
+  if (entry.revoked_at) return "revoked";
+  if (entry.expires_at && Date.parse(entry.expires_at) <= now.getTime()) return "expired";
+  if (entry.key_id === keyring.active_key_id) return "active";
+  return "overlap";
+}
+
+export function findKey(keyring: Keyring, keyId: string): KeyringEntry | undefined {
+  return keyring.keys.find((entry) => entry.key_id === keyId);
+}
+
+/** Return the key used for new signatures, or throw when none is usable. */
+export function activeSigningKey(keyring: Keyring, now: Date = new Date()): KeyringEntry & { private_key: string } {
+  const entry = findKey(keyring, keyring.active_key_id);
+  if (!entry) {
+    throw new Error(`Keyring active_key_id ${keyring.active_key_id} has no matching key.`);
+  }
+  const status = keyStatus(keyring, entry, now);
+  if (status !== "active") {
+    throw new Error(`Active key ${entry.key_id} is ${status}; rotate the keyring before signing.`);
+  }
+  if (!entry.private_key) {
+    throw new Error(`Active key ${entry.key_id} has no private key (public-only keyring).`);
+  }
+  return entry as KeyringEntry & { private_key: string };
+}
+
+/** Strip private keys so the keyring can be handed to verifiers. */
+export function exportPublicKeyring(keyring: Keyring): Keyring {
+  return {
+    ...keyring,
+    keys: keyring.keys.map(({ private_key: _privateKey, ...entry }) => entry),
+  };
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+export function resolveKeyringPath(path?: string): string {
+  return resolve(path ?? process.env.HALO_KEYRING_FILE ?? DEFAULT_KEYRING_FILE);
+}
+
+/** Load a keyring file.  Throws with a fix hint when it does not exist. */
+export function loadKeyring(path?: string): Keyring {
+  const keyringPath = resolveKeyringPath(path);
+  if (!existsSync(keyringPath)) {
+    throw new Error(
+      `HALO keyring not found: ${keyringPath}\n` +
+        "  Fix:      npm run keyring -- init   (or set HALO_KEYRING_FILE)"
+    );
+  }
+
+  const parsed = JSON.parse(readFileSync(keyringPath, "utf8")) as Partial<Keyring>;
+  if (parsed.version !== 1 || typeof parsed.active_key_id !== "string" || !Array.isArray(parsed.keys)) {
+    throw new Error(`Invalid HALO keyring file: ${keyringPath}`);
+  }
+  return parsed as Keyring;
+}
+
+export function saveKeyring(keyring: Keyring, path?: string): string {
+  const keyringPath = resolveKeyringPath(path);
+  mkdirSync(dirname(keyringPath), { recursive: true });
+  writeFileSync(keyringPath, `${JSON.stringify(keyring, null, 2)}\n`, { encoding: "utf8", mode: 0o600 });
+  return keyringPath;
+}
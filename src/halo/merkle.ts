@@ -0,0 +1,160 @@
+/**
+ * RFC 6962 / RFC 9162 Merkle tree primitives.
+ *
+ * Used by the transparency log and by batch signing.  Hashes are SHA-256
+ * with domain separation between leaves (0x00 prefix) and interior nodes
+ * (0x01 prefix), so a leaf can never be confused with a subtree.  All
+ * hashes cross this module's boundary as lowercase hex strings.
+ *
+ * Proof generation takes the full list of leaf hashes; verification needs
+ * only the proof, the leaf (or old root) and the tree size.
+ */
+import { createHash } from "node:crypto";
+
+/** Root of the empty tree: SHA-256 of the empty string. */
+export const EMPTY_TREE_ROOT = createHash("sha256").digest("hex");
+
+// ── Hashing ──────────────────────────────────────────────────────────────────
+
+/** Leaf hash: SHA-256(0x00 || data). */
+export function merkleLeafHash(data: Buffer | string): string {
+  const bytes = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+  return createHash("sha256").update(Buffer.from([0x00])).update(bytes).digest("hex");
+}
+
+/** Interior node hash: SHA-256(0x01 || left || right). */
+export function merkleNodeHash(left: string, right: string): string {
+  return createHash("sha256")
+    .update(Buffer.from([0x01]))
+    .update(Buffer.from(left, "hex"))
+    .update(Buffer.from(right, "hex"))
+    .digest("hex");
+}
+
+/** Largest power of two strictly smaller than n (n > 1). */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k << 1 < n) k <<= 1;
+  return k;
+}
+
+/** Merkle Tree Hash (MTH) over a list of leaf hashes. */
+export function merkleRoot(leafHashes: string[]): string {
+  if (leafHashes.length === 0) return EMPTY_TREE_ROOT;
+  if (leafHashes.length === 1) return leafHashes[0];
+  const k = splitPoint(leafHashes.length);
+  return merkleNodeHash(merkleRoot(leafHashes.slice(0, k)), merkleRoot(leafHashes.slice(k)));
+}
+
+// ── Inclusion proofs ─────────────────────────────────────────────────────────
+
+/** Audit path (RFC 6962 PATH) for the leaf at `index` in the tree of `leafHashes`. */
+export function inclusionProof(leafHashes: string[], index: number): string[] {
+  if (index < 0 || index >= leafHashes.length) {
+    throw new Error(`Leaf index ${index} out of range for tree size ${leafHashes.length}`);
+  }
+  if (leafHashes.length === 1) return [];
+
+  const k = splitPoint(leafHashes.length);
+  return index < k
+    ? [...inclusionProof(leafHashes.slice(0, k), index), merkleRoot(leafHashes.slice(k))]
+    : [...inclusionProof(leafHashes.slice(k), index - k), merkleRoot(leafHashes.slice(0, k))];
+}
+
+/** Verify an audit path (RFC 9162 §2.1.3.2). */
+export function verifyInclusion(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  auditPath: string[],
+  rootHash: string
+): boolean {
+  if (index < 0 || index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leafHash;
+
+  for (const p of auditPath) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = merkleNodeHash(p, r);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      r = merkleNodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && r === rootHash;
+}
+
+// ── Consistency proofs ───────────────────────────────────────────────────────
+
+function subproof(m: number, leaves: string[], complete: boolean): string[] {
+  const n = leaves.length;
+  if (m === n) return complete ? [] : [merkleRoot(leaves)];
+
+  const k = splitPoint(n);
+  return m <= k
+    ? [...subproof(m, leaves.slice(0, k), complete), merkleRoot(leaves.slice(k))]
+    : [...subproof(m - k, leaves.slice(k), false), merkleRoot(leaves.slice(0, k))];
+}
+
+/** Consistency proof (RFC 6962 PROOF) between the first `oldSize` leaves and all of `leafHashes`. */
+export function consistencyProof(leafHashes: string[], oldSize: number): string[] {
+  if (oldSize <= 0 || oldSize > leafHashes.length) {
+    throw new Error(`Old tree size ${oldSize} out of range for tree size ${leafHashes.length}`);
+  }
+  return subproof(oldSize, leafHashes, true);
+}
+
+/** Verify a consistency proof (RFC 9162 §2.1.4.2). */
+export function verifyConsistency(
+  oldSize: number,
+  newSize: number,
+  oldRoot: string,
+  newRoot: string,
+  proof: string[]
+): boolean {
+  if (oldSize <= 0 || oldSize > newSize) return false;
+  if (oldSize === newSize) return proof.length === 0 && oldRoot === newRoot;
+
+  const path = (oldSize & (oldSize - 1)) === 0 ? [oldRoot, ...proof] : [...proof];
+  if (path.length === 0) return false;
+
+  let fn = oldSize - 1;
+  let sn = newSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = merkleNodeHash(c, fr);
+      sr = merkleNodeHash(c, sr);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      }
+    } else {
+      sr = merkleNodeHash(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && fr === oldRoot && sr === newRoot;
+}
@@ -0,0 +1,131 @@
+/**
+ * Forward migrations for HALO documents (see schemaRegistry.ts).
+ *
+ * A migration rewrites a document from one version to the next.  It may add
+ * version markers or reshape unsigned fields, but must leave every field the
+ * document's signature or content_hash covers unchanged; migrateDocument
+ * checks this after each step and throws if a migration broke it.  A version
+ * that can only move forward by re-signing (1.0.0 HMAC receipts) is not
+ * migrated: it stays where it is and verifiers dispatch on it instead.
+ */
+import { canonicalJson } from "../utils/canonicalJson.js";
+import {
+  ARTIFACT_VERSION,
+  CONSOLE_ARTIFACT_VERSION,
+  EVIDENCE_PACK_VERSION,
+  LEGACY_HALO_RECEIPT_VERSION,
+  UNVERSIONED,
+  currentVersion,
+  detectDocumentKind,
+  documentVersion,
+  isSupportedVersion,
+  signedFields,
+  type DocumentKind,
+} from "./schemaRegistry.js";
+
+type JsonRecord = Record<string, unknown>;
+
+export interface Migration {
+  kind: DocumentKind;
+  from: string;
+  to: string;
+  description: string;
+  upgrade(doc: JsonRecord): JsonRecord;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    kind: "evidence_pack",
+    from: UNVERSIONED,
+    to: EVIDENCE_PACK_VERSION,
+    description: "add evidence_version",
+    upgrade: (doc) => ({ evidence_version: EVIDENCE_PACK_VERSION, ...doc }),
+  },
+  {
+    kind: "artifact",
+    from: UNVERSIONED,
+    to: ARTIFACT_VERSION,
+    description: "add meta.schemaVersion",
+    upgrade: (doc) => ({ ...doc, meta: { ...(doc.meta as JsonRecord), schemaVersion: ARTIFACT_VERSION } }),
+  },
+  {
+    kind: "console_artifact",
+    from: UNVERSIONED,
+    to: CONSOLE_ARTIFACT_VERSION,
+    description: "add schemaVersion",
+    upgrade: (doc) => ({ schemaVersion: CONSOLE_ARTIFACT_VERSION, ...doc }),
+  },
+];
+
+/** Versions that cannot be migrated without a new signature, and why. */
+const TERMINAL_VERSIONS: Partial<Record<DocumentKind, Record<string, string>>> = {
+  halo_receipt: {
+    [LEGACY_HALO_RECEIPT_VERSION]:
+      "1.0.0 receipts are HMAC-signed without a key_id; 2.0.0 needs a new Ed25519 signature, so the receipt is " +
+      "kept at 1.0.0 (verifyReceipt checks it against HALO_SIGNING_KEY)",
+  },
+};
+
+export interface MigrationResult {
+  kind: DocumentKind;
+  from: string;
+  /** Version the document ended at */
+  to: string;
+  /** The migrated document; the input is not modified */
+  document: JsonRecord;
+  /** Migration steps applied, e.g. "unversioned → halo.evidence.v1: add evidence_version" */
+  applied: string[];
+  /** Why the document stopped short of the current version, if it did */
+  stoppedReason?: string;
+}
+
+function signedProjection(kind: DocumentKind, doc: JsonRecord): string {
+  const projection: JsonRecord = {};
+  for (const field of signedFields(kind)) {
+    if (doc[field] !== undefined) projection[field] = doc[field];
+  }
+  return canonicalJson(projection);
+}
+
+/**
+ * Migrate a document forward to the current version of its kind.  Throws for
+ * documents that are not recognised, have an unknown version, or when a
+ * migration step changes a signed field.
+ */
+export function migrateDocument(doc: unknown, kind?: DocumentKind): MigrationResult {
+  const resolvedKind = kind ?? detectDocumentKind(doc);
+  if (!resolvedKind || !doc || typeof doc !== "object" || Array.isArray(doc)) {
+    throw new Error("Not a recognised HALO document; nothing to migrate.");
+  }
+
+  const from = documentVersion(resolvedKind, doc);
+  if (from === undefined || !isSupportedVersion(resolvedKind, from)) {
+    throw new Error(`Unsupported ${resolvedKind} version: ${from ?? "missing"}`);
+  }
+
+  const target = currentVersion(resolvedKind);
+  const signedBefore = signedProjection(resolvedKind, doc as JsonRecord);
+  let document = doc as JsonRecord;
+  let version = from;
+  const applied: string[] = [];
+
+  while (version !== target) {
+    const terminal = TERMINAL_VERSIONS[resolvedKind]?.[version];
+    if (terminal) {
+      return { kind: resolvedKind, from, to: version, document, applied, stoppedReason: terminal };
+    }
+    const step = MIGRATIONS.find((migration) => migration.kind === resolvedKind && migration.from === version);
+    if (!step) {
+      throw new Error(`No migration for ${resolvedKind} from ${version} to ${target}`);
+    }
+
+    document = step.upgrade(document);
+    if (signedProjection(resolvedKind, document) !== signedBefore) {
+      throw new Error(`Migration ${step.from} → ${step.to} for ${resolvedKind} changed signed fields`);
+    }
+    applied.push(`${step.from} → ${step.to}: ${step.description}`);
+    version = step.to;
+  }
+
+  return { kind: resolvedKind, from, to: version, document, applied };
+}
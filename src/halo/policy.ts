@@ -0,0 +1,205 @@
+/**
+ * Run policy gates.
+ *
+ * A policy file maps validation outcomes of a run to an action:
+ *
+ *   {
+ *     "policy_version": "halo.policy.v1",
+ *     "rules": [
+ *       { "outcome": "receipt_invalid", "action": "reject" },
+ *       { "outcome": "validation_rule", "rule": "FACT_WITHOUT_EVIDENCE", "above": 2, "action": "quarantine" },
+ *       { "outcome": "leak_findings", "action": "reject" },
+ *       { "outcome": "validation_failed", "action": "warn" }
+ *     ]
+ *   }
+ *
+ * Outcomes:
+ *   - receipt_invalid    the receipt did not verify;
+ *   - validation_failed  ELI semantic validation did not pass;
+ *   - validation_rule    issues for one validator rule (`rule`, e.g. FACT_WITHOUT_EVIDENCE);
+ *   - leak_findings      credential leak scan findings.
+ *
+ * A rule fires when its outcome's count is above `above` (default 0).  The
+ * most severe action among the fired rules wins — reject, then quarantine,
+ * then warn — and a run no rule fires on is allowed.  The demo CLI and the
+ * console server's /api/run enforce it: rejected runs write no artifacts,
+ * quarantined runs write theirs to the quarantine directory instead.
+ */
+import { readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+export const POLICY_VERSION = "halo.policy.v1";
+
+export const POLICY_ACTIONS = ["reject", "quarantine", "warn", "allow"] as const;
+export const POLICY_OUTCOMES = ["receipt_invalid", "validation_failed", "validation_rule", "leak_findings"] as const;
+
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+export type PolicyOutcome = (typeof POLICY_OUTCOMES)[number];
+
+export interface PolicyRule {
+  /** Name used in findings; defaults to the outcome (and `rule`) */
+  id?: string;
+  outcome: PolicyOutcome;
+  /** Validator rule name; required for `validation_rule` */
+  rule?: string;
+  /** Fire only when the count is above this (default 0) */
+  above?: number;
+  action: PolicyAction;
+}
+
+export interface Policy {
+  policy_version: typeof POLICY_VERSION;
+  rules: PolicyRule[];
+}
+
+/** What a run produced, as far as the policy is concerned. Unknown outcomes never fire. */
+export interface RunOutcomes {
+  /** Whether the receipt verified; omit when it was not checked */
+  receiptValid?: boolean;
+  /** Either validator result shape: `{ passed, violations }` or `{ ok, issues }` */
+  validation?: {
+    passed?: boolean;
+    ok?: boolean;
+    violations?: ReadonlyArray<{ rule: string }>;
+    issues?: ReadonlyArray<{ rule: string }>;
+  };
+  leakScan?: { findings: readonly unknown[] };
+}
+
+export interface PolicyFinding {
+  rule: string;
+  outcome: PolicyOutcome;
+  count: number;
+  action: PolicyAction;
+}
+
+export interface PolicyDecision {
+  policy_version: typeof POLICY_VERSION;
+  action: PolicyAction;
+  /** The rules that fired, in policy order */
+  findings: PolicyFinding[];
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+/** Check a parsed policy document; throws on the first problem. */
+export function parsePolicy(value: unknown): Policy {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Invalid policy: expected a JSON object");
+  }
+  const document = value as Record<string, unknown>;
+  if (document.policy_version !== POLICY_VERSION) {
+    throw new Error(`Invalid policy: policy_version must be ${POLICY_VERSION}, got: ${String(document.policy_version)}`);
+  }
+  if (!Array.isArray(document.rules)) {
+    throw new Error("Invalid policy: rules must be an array");
+  }
+
+  const rules = document.rules.map((raw: unknown, index): PolicyRule => {
+    const at = `rules[${index}]`;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`Invalid policy: ${at} must be an object`);
+    }
+    const rule = raw as Record<string, unknown>;
+    if (!isOneOf(POLICY_OUTCOMES, rule.outcome)) {
+      throw new Error(`Invalid policy: ${at}.outcome must be one of ${POLICY_OUTCOMES.join(", ")}, got: ${String(rule.outcome)}`);
+    }
+    if (!isOneOf(POLICY_ACTIONS, rule.action)) {
+      throw new Error(`Invalid policy: ${at}.action must be one of ${POLICY_ACTIONS.join(", ")}, got: ${String(rule.action)}`);
+    }
+    if (rule.outcome === "validation_rule" && (typeof rule.rule !== "string" || rule.rule === "")) {
+      throw new Error(`Invalid policy: ${at}.rule is required for outcome validation_rule`);
+    }
+    if (rule.above !== undefined && (typeof rule.above !== "number" || !Number.isInteger(rule.above) || rule.above < 0)) {
+      throw new Error(`Invalid policy: ${at}.above must be a non-negative integer`);
+    }
+    if (rule.id !== undefined && typeof rule.id !== "string") {
+      throw new Error(`Invalid policy: ${at}.id must be a string`);
+    }
+    return {
+      ...(rule.id !== undefined ? { id: rule.id } : {}),
+      outcome: rule.outcome,
+      ...(typeof rule.rule === "string" ? { rule: rule.rule } : {}),
+      ...(rule.above !== undefined ? { above: rule.above } : {}),
+      action: rule.action,
+    };
+  });
+
+  return { policy_version: POLICY_VERSION, rules };
+}
+
+/** Read and check a policy file. */
+export function loadPolicy(path: string): Policy {
+  const policyPath = resolve(path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(policyPath, "utf8"));
+  } catch (err) {
+    throw new Error(`Cannot read policy file ${policyPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parsePolicy(parsed);
+}
+
+/** The policy at `path` or `HALO_POLICY_FILE`, or undefined when neither is set. */
+export function resolvePolicy(path?: string): Policy | undefined {
+  const policyPath = path ?? process.env.HALO_POLICY_FILE;
+  return policyPath ? loadPolicy(policyPath) : undefined;
+}
+
+/** Where quarantined runs go: `path`, `HALO_QUARANTINE_DIR`, or `<outDir>/quarantine`. */
+export function resolveQuarantineDir(outDir: string, path?: string): string {
+  return resolve(path ?? process.env.HALO_QUARANTINE_DIR ?? join(outDir, "quarantine"));
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+const SEVERITY: Record<PolicyAction, number> = { allow: 0, warn: 1, quarantine: 2, reject: 3 };
+
+/** How often the rule's outcome occurred, or undefined when the run did not report it. */
+function countOutcome(rule: PolicyRule, outcomes: RunOutcomes): number | undefined {
+  const { validation } = outcomes;
+  switch (rule.outcome) {
+    case "receipt_invalid":
+      return outcomes.receiptValid === undefined ? undefined : outcomes.receiptValid ? 0 : 1;
+    case "validation_failed": {
+      const passed = validation?.passed ?? validation?.ok;
+      return passed === undefined ? undefined : passed ? 0 : 1;
+    }
+    case "validation_rule": {
+      const issues = validation?.violations ?? validation?.issues;
+      return issues?.filter((issue) => issue.rule === rule.rule).length;
+    }
+    case "leak_findings":
+      return outcomes.leakScan?.findings.length;
+  }
+}
+
+/** Apply `policy` to a run's outcomes. */
+export function evaluatePolicy(policy: Policy, outcomes: RunOutcomes): PolicyDecision {
+  const findings: PolicyFinding[] = [];
+  for (const rule of policy.rules) {
+    const count = countOutcome(rule, outcomes);
+    if (count === undefined || count <= (rule.above ?? 0)) continue;
+    findings.push({
+      rule: rule.id ?? (rule.rule ? `${rule.outcome}:${rule.rule}` : rule.outcome),
+      outcome: rule.outcome,
+      count,
+      action: rule.action,
+    });
+  }
+
+  const action = findings.reduce<PolicyAction>(
+    (worst, finding) => (SEVERITY[finding.action] > SEVERITY[worst] ? finding.action : worst),
+    "allow"
+  );
+  return { policy_version: POLICY_VERSION, action, findings };
+}
+
+/** One line per fired rule, e.g. "validation_rule:FACT_WITHOUT_EVIDENCE (3) → quarantine". */
+export function describePolicyFindings(decision: PolicyDecision): string[] {
+  return decision.findings.map((finding) => `${finding.rule} (${finding.count}) → ${finding.action}`);
+}
@@ -0,0 +1,218 @@
+/**
+ * Detached verification bundles ("receipt.bundle").
+ *
+ * A bundle is one JSON file that carries everything a third party needs to
+ * verify a checkpoint offline:
+ *
+ *   files              each document as the exact text written to disk:
+ *                      master_receipt.json, evidence_pack.json (or
+ *                      evidence_pack.enc.json) and attestation.dsse.json when present
+ *   manifest           path, role, byte size and SHA-256 of every file
+ *   signing            algorithm, domain prefixes and envelope fields of the
+ *                      master receipt signature, and the key's key_id (plus its
+ *                      SPKI PEM unless exported fingerprint-only)
+ *   canonicalization   how content_hash and the signed envelope serialise JSON
+ *   proofs             JSON pointers to the inclusion proof, timestamp token and
+ *                      cosignatures inside the files
+ *
+ * Proofs stay inside the documents they belong to, so the manifest hashes
+ * cover them.  A public key carried in the bundle only proves the bundle is
+ * self-consistent; auditors pin it by comparing key_id with the published
+ * fingerprint, or by supplying the key themselves.
+ */
+import { createHash } from "node:crypto";
+import { JCS_CANONICALIZATION, LEGACY_CANONICALIZATION } from "../utils/canonicalJson.js";
+import { computeKeyId } from "./keyring.js";
+
+export const RECEIPT_BUNDLE_VERSION = "halo.bundle.v1";
+
+/** File name `export-bundle` writes by default. */
+export const RECEIPT_BUNDLE_FILE = "receipt.bundle";
+
+/** How each scheme in src/utils/canonicalJson.ts serialises JSON, as recorded in a bundle. */
+const CANONICALIZATION_DESCRIPTIONS: Record<string, string> = {
+  [LEGACY_CANONICALIZATION]: "UTF-8 JSON, object keys sorted by code unit at every depth, arrays in order, no whitespace",
+  [JCS_CANONICALIZATION]: "RFC 8785 JSON Canonicalization Scheme (JCS)",
+};
+
+export type BundleFileRole = "master_receipt" | "evidence_pack" | "encrypted_evidence_pack" | "attestation";
+
+export interface BundleFile {
+  path: string;
+  role: BundleFileRole;
+  content: string;
+}
+
+export interface BundleManifestEntry {
+  path: string;
+  role: BundleFileRole;
+  size: number;
+  sha256: string;
+}
+
+export interface BundleSigning {
+  algorithm: "Ed25519";
+  /** Prefix of the signed bytes for single receipts */
+  domain_prefix: string;
+  /** Prefix of the signed batch root for ed25519-merkle-batch receipts */
+  batch_domain_prefix: string;
+  /** Prefix of the bytes cosignatures sign, together with their role (absent in older bundles) */
+  cosignature_domain_prefix?: string;
+  /** Master receipt fields in the signed envelope, when present */
+  envelope_fields: string[];
+  key_id: string;
+  /** SPKI PEM; absent when the bundle was exported fingerprint-only */
+  public_key?: string;
+}
+
+export interface ReceiptBundle {
+  bundle_version: typeof RECEIPT_BUNDLE_VERSION;
+  created_at: string;
+  receipt_id: string;
+  canonicalization: { scheme: string; description: string };
+  signing: BundleSigning;
+  /** JSON pointers ("<path>#/<field>") to proofs carried in the files */
+  proofs: { transparency_inclusion?: string; timestamp_token?: string; cosignatures?: string };
+  manifest: BundleManifestEntry[];
+  files: Record<string, string>;
+}
+
+export interface OpenedBundle {
+  ok: boolean;
+  reason?: string;
+  /** Parsed files by role; set when the manifest checks out */
+  documents?: Partial<Record<BundleFileRole, Record<string, unknown>>>;
+  /** Key the checkpoint should be verified with: the pinned key, else the bundle's */
+  verifyKeyPem?: string;
+  /** True when the key came from the caller rather than the bundle */
+  pinned?: boolean;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function sha256Hex(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/** The master receipt's scheme; receipts without the field use halo.canonical-json.v1. */
+function canonicalizationOf(receipt: Record<string, unknown>): ReceiptBundle["canonicalization"] {
+  const scheme = typeof receipt.canonicalization === "string" ? receipt.canonicalization : LEGACY_CANONICALIZATION;
+  const description = CANONICALIZATION_DESCRIPTIONS[scheme];
+  if (!description) {
+    throw new Error(`Unsupported canonicalization scheme: ${scheme}`);
+  }
+  return { scheme, description };
+}
+
+export function isReceiptBundle(value: unknown): value is ReceiptBundle {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const root = value as Record<string, unknown>;
+  return (
+    root.bundle_version === RECEIPT_BUNDLE_VERSION &&
+    Array.isArray(root.manifest) &&
+    Boolean(root.files) &&
+    typeof root.files === "object"
+  );
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+export function buildReceiptBundle(input: {
+  files: BundleFile[];
+  signing: Omit<BundleSigning, "key_id" | "public_key">;
+  publicKeyPem: string;
+  /** Carry only the key's key_id, not the key itself */
+  fingerprintOnly?: boolean;
+  now?: Date;
+}): ReceiptBundle {
+  const master = input.files.find((file) => file.role === "master_receipt");
+  if (!master) {
+    throw new Error("A receipt bundle needs a master receipt");
+  }
+  const paths = new Set(input.files.map((file) => file.path));
+  if (paths.size !== input.files.length) {
+    throw new Error("Receipt bundle file paths must be unique");
+  }
+
+  const receipt = JSON.parse(master.content) as Record<string, unknown>;
+  const evidence = input.files.find((file) => file.role === "evidence_pack" || file.role === "encrypted_evidence_pack");
+  const evidenceDoc = evidence ? (JSON.parse(evidence.content) as Record<string, unknown>) : undefined;
+
+  return {
+    bundle_version: RECEIPT_BUNDLE_VERSION,
+    created_at: (input.now ?? new Date()).toISOString(),
+    receipt_id: String(receipt.receipt_id),
+    canonicalization: canonicalizationOf(receipt),
+    signing: {
+      ...input.signing,
+      key_id: computeKeyId(input.publicKeyPem),
+      ...(input.fingerprintOnly ? {} : { public_key: input.publicKeyPem }),
+    },
+    proofs: {
+      ...(evidenceDoc?.transparency ? { transparency_inclusion: `${evidence!.path}#/transparency` } : {}),
+      ...(receipt.timestamp_token ? { timestamp_token: `${master.path}#/timestamp_token` } : {}),
+      ...(Array.isArray(receipt.cosignatures) ? { cosignatures: `${master.path}#/cosignatures` } : {}),
+    },
+    manifest: input.files.map((file) => ({
+      path: file.path,
+      role: file.role,
+      size: Buffer.byteLength(file.content, "utf8"),
+      sha256: sha256Hex(file.content),
+    })),
+    files: Object.fromEntries(input.files.map((file) => [file.path, file.content])),
+  };
+}
+
+// ── Open ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Check the manifest against the files and settle the verify key.  With a
+ * `pinnedKeyPem`, its key_id must match the bundle's; without one, the
+ * bundle's own public key is used.  The checkpoint itself is verified by the
+ * caller (verifyCheckpointOffline) with the returned documents and key.
+ */
+export function openReceiptBundle(bundle: ReceiptBundle, options?: { pinnedKeyPem?: string }): OpenedBundle {
+  const listed = new Set(bundle.manifest.map((entry) => entry.path));
+  const unlisted = Object.keys(bundle.files).filter((path) => !listed.has(path));
+  if (unlisted.length > 0) {
+    return { ok: false, reason: `files missing from the manifest: ${unlisted.join(", ")}` };
+  }
+
+  const documents: OpenedBundle["documents"] = {};
+  for (const entry of bundle.manifest) {
+    const content = bundle.files[entry.path];
+    if (typeof content !== "string") {
+      return { ok: false, reason: `manifest lists ${entry.path} but the bundle does not carry it` };
+    }
+    if (sha256Hex(content) !== entry.sha256 || Buffer.byteLength(content, "utf8") !== entry.size) {
+      return { ok: false, reason: `digest mismatch: ${entry.path}` };
+    }
+    try {
+      documents[entry.role] = JSON.parse(content) as Record<string, unknown>;
+    } catch {
+      return { ok: false, reason: `${entry.path} is not valid JSON` };
+    }
+  }
+  if (!documents.master_receipt) {
+    return { ok: false, reason: "bundle has no master receipt" };
+  }
+
+  const bundledKey = bundle.signing?.public_key;
+  if (bundledKey && computeKeyId(bundledKey) !== bundle.signing.key_id) {
+    return { ok: false, reason: "bundled public key does not match signing.key_id" };
+  }
+  if (options?.pinnedKeyPem) {
+    const pinnedKeyId = computeKeyId(options.pinnedKeyPem);
+    if (pinnedKeyId !== bundle.signing?.key_id) {
+      return { ok: false, reason: `bundle key_id ${bundle.signing?.key_id} does not match the pinned key ${pinnedKeyId}` };
+    }
+    return { ok: true, documents, verifyKeyPem: options.pinnedKeyPem, pinned: true };
+  }
+  if (!bundledKey) {
+    return {
+      ok: false,
+      reason: `bundle carries only key_id ${bundle.signing?.key_id}; supply the public key (RECEIPT_VERIFY_KEY)`,
+    };
+  }
+  return { ok: true, documents, verifyKeyPem: bundledKey, pinned: false };
+}
@@ -0,0 +1,324 @@
+/**
+ * Append-only receipt chain.
+ *
+ * Every receipt produced by the console (`/api/run`) or the Valet bridge
+ * (`ingest-valet`) is recorded as one JSONL entry in a chain file that
+ * lives next to the run index (default `out/console/receipt_chain.jsonl`,
+ * override with `HALO_CHAIN_FILE`).
+ *
+ * Two links make pruning detectable:
+ *   - each entry stores `prev_hash`, the `entry_hash` of the entry before it;
+ *   - each chained receipt carries a signed `prev_receipt_hash`, the
+ *     `receipt_hash` of the receipt before it.
+ *
+ * Deleting, reordering or forking history therefore breaks either the
+ * entry links, the sequence numbers, or a signature on a surviving receipt.
+ * `verifyChain` walks the whole history and reports each of these.
+ *
+ * Receipts signed together in one batch (`batch.batch_id`) all link to the
+ * receipt before the batch; they are appended to the chain consecutively.
+ *
+ * A writer that reads the head, signs and appends while another does the same
+ * forks the chain.  `withChainLock` runs those steps for one chain file one
+ * writer at a time, across processes (a `<chain file>.lock` file, see
+ * utils/fileLock.ts) as well as within one.
+ */
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { withFileLock } from "../utils/fileLock.js";
+
+/** `prev_hash` / `prev_receipt_hash` of the first entry in a chain. */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Receipt fields that are derived after signing and excluded from `receipt_hash`.
+ * `timestamp_token` is itself a signature over `receipt_hash` (see timestamp.ts);
+ * `cosignatures` are added to a master receipt after it has been chained.
+ */
+const UNHASHED_RECEIPT_FIELDS = new Set(["verification", "timestamp_token", "cosignatures"]);
+
+export type ChainReceiptKind = "halo" | "master";
+
+export interface ChainEntry {
+  /** Zero-based position in the chain */
+  seq: number;
+  kind: ChainReceiptKind;
+  receipt_id: string;
+  /** SHA-256 over the canonical receipt (derived fields excluded) */
+  receipt_hash: string;
+  /** `entry_hash` of the previous entry, or GENESIS_HASH */
+  prev_hash: string;
+  /** ISO-8601 timestamp the entry was appended */
+  appended_at: string;
+  run_id?: string;
+  /** File holding the receipt (console artifact or master_receipt.json) */
+  receipt_path?: string;
+  /** SHA-256 over the canonical entry without this field */
+  entry_hash: string;
+}
+
+export type ChainFindingKind =
+  | "GAP"
+  | "FORK"
+  | "REORDER"
+  | "BROKEN_LINK"
+  | "ENTRY_TAMPERED"
+  | "RECEIPT_MISSING"
+  | "RECEIPT_MISMATCH"
+  | "RECEIPT_LINK_MISMATCH"
+  | "MISSING_FROM_INDEX";
+
+export interface ChainFinding {
+  kind: ChainFindingKind;
+  /** `seq` of the entry the finding is about */
+  seq: number;
+  detail: string;
+}
+
+export interface ChainVerifyResult {
+  ok: boolean;
+  entries: number;
+  /** `entry_hash` of the last entry */
+  head?: string;
+  findings: ChainFinding[];
+}
+
+// ── Hashing ──────────────────────────────────────────────────────────────────
+
+function sha256Hex(input: string): string {
+  return createHash("sha256").update(input, "utf8").digest("hex");
+}
+
+/** Hash a receipt object for chaining. */
+export function hashReceipt(receipt: unknown): string {
+  const record =
+    receipt && typeof receipt === "object" && !Array.isArray(receipt)
+      ? Object.fromEntries(
+          Object.entries(receipt as Record<string, unknown>).filter(
+            ([key]) => !UNHASHED_RECEIPT_FIELDS.has(key)
+          )
+        )
+      : receipt;
+  return sha256Hex(canonicalJson(record));
+}
+
+export function computeEntryHash(entry: Omit<ChainEntry, "entry_hash">): string {
+  return sha256Hex(canonicalJson(entry));
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+/** Chain file path: `HALO_CHAIN_FILE`, else next to the console run index. */
+export function resolveChainPath(path?: string): string {
+  if (path) return resolve(path);
+  if (process.env.HALO_CHAIN_FILE) return resolve(process.env.HALO_CHAIN_FILE);
+  const runIndexPath = resolve(process.env.CONSOLE_RUN_INDEX_FILE ?? "out/console/run_index.json");
+  return join(dirname(runIndexPath), "receipt_chain.jsonl");
+}
+
+/** Read every entry of a chain file, in file order. */
+export function readChain(path: string): ChainEntry[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), lineNo: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNo }) => {
+      try {
+        return JSON.parse(line) as ChainEntry;
+      } catch {
+        throw new Error(`Malformed receipt chain entry at ${path}:${lineNo}`);
+      }
+    });
+}
+
+/** Return the last entry of a chain file, if any. */
+export function chainHead(path: string): ChainEntry | undefined {
+  const entries = readChain(path);
+  return entries[entries.length - 1];
+}
+
+/** `prev_receipt_hash` to embed in the next receipt signed for this chain. */
+export function nextPrevReceiptHash(path: string): string {
+  return chainHead(path)?.receipt_hash ?? GENESIS_HASH;
+}
+
+const chainLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` once every earlier task for the same chain file has settled and
+ * no other process holds the chain's lock file.  Read the head
+ * (`nextPrevReceiptHash`), sign and `appendChainEntry` inside one task so that
+ * concurrent writers do not sign the same prev_receipt_hash.  Keep slow work
+ * that does not touch the chain, such as the LLM call, outside the task.
+ */
+export async function withChainLock<T>(path: string, task: () => Promise<T>): Promise<T> {
+  const key = resolve(path);
+  const previous = chainLocks.get(key) ?? Promise.resolve();
+  const locked = () => withFileLock(key, task);
+  const run = previous.then(locked, locked);
+  const settled = run.catch(() => undefined);
+  chainLocks.set(key, settled);
+  try {
+    return await run;
+  } finally {
+    if (chainLocks.get(key) === settled) chainLocks.delete(key);
+  }
+}
+
+/** Append a receipt to the chain and return the new entry. */
+export function appendChainEntry(
+  path: string,
+  input: {
+    kind: ChainReceiptKind;
+    receipt_id: string;
+    receipt_hash: string;
+    run_id?: string;
+    receipt_path?: string;
+  },
+  now: Date = new Date()
+): ChainEntry {
+  const head = chainHead(path);
+  const body: Omit<ChainEntry, "entry_hash"> = {
+    seq: head ? head.seq + 1 : 0,
+    kind: input.kind,
+    receipt_id: input.receipt_id,
+    receipt_hash: input.receipt_hash,
+    prev_hash: head?.entry_hash ?? GENESIS_HASH,
+    appended_at: now.toISOString(),
+    ...(input.run_id ? { run_id: input.run_id } : {}),
+    ...(input.receipt_path ? { receipt_path: input.receipt_path } : {}),
+  };
+  const entry: ChainEntry = { ...body, entry_hash: computeEntryHash(body) };
+
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, `${JSON.stringify(entry)}\n`, "utf8");
+  return entry;
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+function batchIdOf(receipt: Record<string, unknown>): string | undefined {
+  const batch = receipt.batch;
+  if (!batch || typeof batch !== "object" || Array.isArray(batch)) return undefined;
+  const batchId = (batch as Record<string, unknown>).batch_id;
+  return typeof batchId === "string" ? batchId : undefined;
+}
+
+/**
+ * Walk a chain and report gaps, forks, reordering and broken links.
+ *
+ * @param entries Chain entries in file order.
+ * @param options `loadReceipt` resolves the stored receipt for an entry
+ *                (return undefined when it is gone); `indexedRunIds` is the
+ *                set of run IDs still present in the run index.
+ */
+export function verifyChain(
+  entries: ChainEntry[],
+  options?: {
+    loadReceipt?: (entry: ChainEntry) => Record<string, unknown> | undefined;
+    indexedRunIds?: Set<string>;
+  }
+): ChainVerifyResult {
+  const findings: ChainFinding[] = [];
+  const seenSeqs = new Set<number>();
+  const childrenOf = new Map<string, number[]>();
+  let previous: ChainEntry | undefined;
+  let previousBatch: { batch_id: string; expectedPrevReceipt: string } | undefined;
+
+  for (const entry of entries) {
+    const { entry_hash: storedHash, ...body } = entry;
+    if (computeEntryHash(body) !== storedHash) {
+      findings.push({ kind: "ENTRY_TAMPERED", seq: entry.seq, detail: "entry_hash does not match entry contents" });
+    }
+
+    const siblings = childrenOf.get(entry.prev_hash) ?? [];
+    if (siblings.length > 0) {
+      findings.push({
+        kind: "FORK",
+        seq: entry.seq,
+        detail: `prev_hash ${entry.prev_hash.slice(0, 12)}… already extended by seq ${siblings.join(", ")}`,
+      });
+    }
+    childrenOf.set(entry.prev_hash, [...siblings, entry.seq]);
+
+    const expectedSeq = previous ? previous.seq + 1 : 0;
+    let ordered = true;
+    if (seenSeqs.has(entry.seq)) {
+      ordered = false;
+      findings.push({ kind: "FORK", seq: entry.seq, detail: `seq ${entry.seq} appears more than once` });
+    } else if (entry.seq < expectedSeq) {
+      ordered = false;
+      findings.push({ kind: "REORDER", seq: entry.seq, detail: `seq ${entry.seq} found after seq ${previous?.seq}` });
+    } else if (entry.seq > expectedSeq) {
+      ordered = false;
+      findings.push({
+        kind: "GAP",
+        seq: entry.seq,
+        detail: `${entry.seq - expectedSeq} entr${entry.seq - expectedSeq === 1 ? "y" : "ies"} missing before seq ${entry.seq}`,
+      });
+    }
+    seenSeqs.add(entry.seq);
+
+    const expectedPrev = previous?.entry_hash ?? GENESIS_HASH;
+    if (ordered && entry.prev_hash !== expectedPrev) {
+      findings.push({ kind: "BROKEN_LINK", seq: entry.seq, detail: "prev_hash does not match the preceding entry" });
+    }
+
+    if (previous && Date.parse(entry.appended_at) < Date.parse(previous.appended_at)) {
+      findings.push({
+        kind: "REORDER",
+        seq: entry.seq,
+        detail: `appended_at ${entry.appended_at} is earlier than the preceding entry`,
+      });
+    }
+
+    let currentBatch: typeof previousBatch;
+    if (options?.loadReceipt) {
+      const receipt = options.loadReceipt(entry);
+      if (!receipt) {
+        findings.push({
+          kind: "RECEIPT_MISSING",
+          seq: entry.seq,
+          detail: `receipt ${entry.receipt_id} not found${entry.receipt_path ? ` at ${entry.receipt_path}` : ""}`,
+        });
+      } else {
+        if (hashReceipt(receipt) !== entry.receipt_hash) {
+          findings.push({ kind: "RECEIPT_MISMATCH", seq: entry.seq, detail: `receipt ${entry.receipt_id} differs from chained hash` });
+        }
+        const batchId = batchIdOf(receipt);
+        const expectedPrevReceipt =
+          batchId && previousBatch?.batch_id === batchId
+            ? previousBatch.expectedPrevReceipt
+            : previous?.receipt_hash ?? GENESIS_HASH;
+        currentBatch = batchId ? { batch_id: batchId, expectedPrevReceipt } : undefined;
+        if (receipt.prev_receipt_hash !== expectedPrevReceipt) {
+          findings.push({
+            kind: "RECEIPT_LINK_MISMATCH",
+            seq: entry.seq,
+            detail: `receipt ${entry.receipt_id} commits to prev_receipt_hash ${String(receipt.prev_receipt_hash ?? "(none)").slice(0, 12)}…, chain expects ${expectedPrevReceipt.slice(0, 12)}…`,
+          });
+        }
+      }
+    }
+
+    if (options?.indexedRunIds && entry.run_id && !options.indexedRunIds.has(entry.run_id)) {
+      findings.push({ kind: "MISSING_FROM_INDEX", seq: entry.seq, detail: `run ${entry.run_id} is no longer in the run index` });
+    }
+
+    previous = entry;
+    previousBatch = currentBatch;
+  }
+
+  return {
+    ok: findings.length === 0,
+    entries: entries.length,
+    head: previous?.entry_hash,
+    findings,
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Replay and duplicate-receipt detection.
+ *
+ * Every console run, and every master receipt `ingest-valet` signs, records
+ * the identity of its receipt (`receipt_id`, `receipt_hash`, `content_hash`)
+ * in the run index (upsertRunRecord) — the `runs` table when `DATABASE_URL`
+ * is set, otherwise the run index file.  That index is the seen-receipt
+ * store: verifying a receipt against it flags
+ *
+ *   - RECEIPT_ID_REUSED      the receipt_id was already used by another run or
+ *                            by a different receipt;
+ *   - CONTENT_HASH_REPLAYED  the same content_hash appears under another
+ *                            receipt_id;
+ *   - TIMESTAMP_OUTSIDE_WINDOW  the receipt's claimed signing time is older than
+ *                            the freshness window (`HALO_FRESHNESS_WINDOW_SECONDS`)
+ *                            or in the future.
+ *
+ * Records from the same run, or with the same `receipt_hash` when no run is
+ * known, are the receipt itself and are not findings.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { hashReceipt } from "./receiptChain.js";
+import { claimedSigningTime, MAX_CLOCK_SKEW_MS } from "./timestamp.js";
+
+export const DEFAULT_RUN_INDEX_FILE = "out/console/run_index.json";
+
+export interface SeenReceipt {
+  receipt_id: string;
+  receipt_hash: string;
+  content_hash: string;
+  run_id?: string;
+  /** Signing time claimed by the receipt, if any */
+  timestamp?: string;
+}
+
+/** One run in the run index (file format; the `runs` table has the same columns in snake_case). */
+export interface RunIndexRecord {
+  runId: string;
+  provider: string;
+  model: string;
+  status: string;
+  contentHash: string;
+  artifactDir: string;
+  artifactPath: string;
+  promptHash: string;
+  /** Receipt identity for replay detection */
+  receiptId?: string;
+  receiptHash?: string;
+  receiptContentHash?: string;
+  createdAt: string;
+}
+
+export type ReplayFindingKind = "RECEIPT_ID_REUSED" | "CONTENT_HASH_REPLAYED" | "TIMESTAMP_OUTSIDE_WINDOW";
+
+export interface ReplayFinding {
+  kind: ReplayFindingKind;
+  detail: string;
+}
+
+export interface ReplayCheckResult {
+  ok: boolean;
+  findings: ReplayFinding[];
+}
+
+// ── Identity ─────────────────────────────────────────────────────────────────
+
+/**
+ * Extract the identity of a HALO receipt, master receipt or halo-receipts
+ * transcript receipt.  Returns undefined when it has no id or content hash.
+ */
+export function receiptIdentity(receipt: unknown, runId?: string): SeenReceipt | undefined {
+  if (!receipt || typeof receipt !== "object" || Array.isArray(receipt)) {
+    return undefined;
+  }
+
+  const record = receipt as Record<string, unknown>;
+  const receiptId = record.receipt_id ?? record.id;
+  const contentHash = record.content_hash ?? record.responseHash ?? record.transcript_hash;
+  if (typeof receiptId !== "string" || typeof contentHash !== "string") {
+    return undefined;
+  }
+
+  const timestamp = claimedSigningTime(record);
+  return {
+    receipt_id: receiptId,
+    receipt_hash: hashReceipt(record),
+    content_hash: contentHash,
+    ...(runId !== undefined ? { run_id: runId } : {}),
+    ...(timestamp !== undefined ? { timestamp } : {}),
+  };
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+function isSameOccurrence(candidate: SeenReceipt, seen: SeenReceipt): boolean {
+  if (candidate.run_id !== undefined && seen.run_id !== undefined) {
+    return candidate.run_id === seen.run_id;
+  }
+  return candidate.receipt_hash === seen.receipt_hash;
+}
+
+/**
+ * Check one receipt against the seen-receipt store.
+ *
+ * @param options `freshnessWindowMs` enables the timestamp check; `now`
+ *                overrides the clock (tests).
+ */
+export function checkReplay(
+  candidate: SeenReceipt,
+  seen: SeenReceipt[],
+  options?: { freshnessWindowMs?: number; now?: Date }
+): ReplayCheckResult {
+  const findings: ReplayFinding[] = [];
+
+  for (const record of seen) {
+    if (isSameOccurrence(candidate, record)) continue;
+    const where = record.run_id ? `run ${record.run_id}` : `receipt_hash ${record.receipt_hash}`;
+
+    if (record.receipt_id === candidate.receipt_id) {
+      findings.push({
+        kind: "RECEIPT_ID_REUSED",
+        detail: `receipt_id ${candidate.receipt_id} was already seen in ${where}`,
+      });
+    } else if (record.content_hash === candidate.content_hash) {
+      findings.push({
+        kind: "CONTENT_HASH_REPLAYED",
+        detail: `content_hash ${candidate.content_hash} was already seen under receipt_id ${record.receipt_id} (${where})`,
+      });
+    }
+  }
+
+  const windowMs = options?.freshnessWindowMs;
+  if (windowMs !== undefined) {
+    const now = (options?.now ?? new Date()).getTime();
+    const claimed = candidate.timestamp !== undefined ? Date.parse(candidate.timestamp) : Number.NaN;
+    if (Number.isNaN(claimed)) {
+      findings.push({
+        kind: "TIMESTAMP_OUTSIDE_WINDOW",
+        detail: `receipt ${candidate.receipt_id} has no parseable timestamp to check freshness`,
+      });
+    } else if (claimed < now - windowMs) {
+      findings.push({
+        kind: "TIMESTAMP_OUTSIDE_WINDOW",
+        detail: `timestamp ${candidate.timestamp} is older than the ${windowMs / 1000}s freshness window`,
+      });
+    } else if (claimed > now + MAX_CLOCK_SKEW_MS) {
+      findings.push({
+        kind: "TIMESTAMP_OUTSIDE_WINDOW",
+        detail: `timestamp ${candidate.timestamp} is in the future`,
+      });
+    }
+  }
+
+  return { ok: findings.length === 0, findings };
+}
+
+// ── Configuration / store ────────────────────────────────────────────────────
+
+/** Freshness window from `HALO_FRESHNESS_WINDOW_SECONDS`; undefined disables the check. */
+export function resolveFreshnessWindowMs(): number | undefined {
+  const raw = process.env.HALO_FRESHNESS_WINDOW_SECONDS;
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`HALO_FRESHNESS_WINDOW_SECONDS must be a positive number, got: ${raw}`);
+  }
+  return seconds * 1000;
+}
+
+export function resolveRunIndexPath(path?: string): string {
+  return resolve(path ?? process.env.CONSOLE_RUN_INDEX_FILE ?? DEFAULT_RUN_INDEX_FILE);
+}
+
+/** Map run index records (file format) to seen receipts; runs without receipt identity are skipped. */
+export function seenReceiptsFromRunIndex(records: unknown): SeenReceipt[] {
+  if (!Array.isArray(records)) return [];
+
+  return records.flatMap((record: Record<string, unknown>) =>
+    typeof record?.receiptId === "string" &&
+    typeof record.receiptHash === "string" &&
+    typeof record.receiptContentHash === "string"
+      ? [
+          {
+            receipt_id: record.receiptId,
+            receipt_hash: record.receiptHash,
+            content_hash: record.receiptContentHash,
+            ...(typeof record.runId === "string" ? { run_id: record.runId } : {}),
+          },
+        ]
+      : []
+  );
+}
+
+/** Create the `runs` table, or add the columns older databases lack (receipt identity included). */
+export async function ensureRunIndexSchema(client: import("pg").Client): Promise<void> {
+  await client.query(`
+    create table if not exists runs (
+      run_id text primary key,
+      provider text not null,
+      model text not null,
+      status text not null,
+      content_hash text not null,
+      artifact_dir text not null,
+      artifact_path text not null,
+      prompt_hash text not null,
+      created_at timestamptz not null default now()
+    )
+  `);
+
+  await client.query(`alter table runs add column if not exists artifact_path text`);
+  await client.query(`alter table runs add column if not exists prompt_hash text`);
+  await client.query(`alter table runs add column if not exists created_at timestamptz default now()`);
+  await client.query(`alter table runs add column if not exists receipt_id text`);
+  await client.query(`alter table runs add column if not exists receipt_hash text`);
+  await client.query(`alter table runs add column if not exists receipt_content_hash text`);
+}
+
+/**
+ * Load the seen-receipt store from the `runs` table (DATABASE_URL) or the run
+ * index file.  The table is migrated first; when the database cannot be used
+ * the file is read instead, as the console does when it records runs.
+ */
+export async function loadSeenReceipts(runIndexPath?: string): Promise<SeenReceipt[]> {
+  if (process.env.DATABASE_URL) {
+    const { default: pg } = await import("pg");
+    const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+    try {
+      await client.connect();
+      await ensureRunIndexSchema(client);
+      const result = await client.query<{
+        run_id: string;
+        receipt_id: string;
+        receipt_hash: string;
+        receipt_content_hash: string;
+      }>(
+        `select run_id, receipt_id, receipt_hash, receipt_content_hash
+         from runs
+         where receipt_id is not null and receipt_hash is not null and receipt_content_hash is not null`
+      );
+      return result.rows.map((row) => ({
+        receipt_id: row.receipt_id,
+        receipt_hash: row.receipt_hash,
+        content_hash: row.receipt_content_hash,
+        run_id: row.run_id,
+      }));
+    } catch {
+      // Fall through to the run index file.
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  const path = resolveRunIndexPath(runIndexPath);
+  if (!existsSync(path)) {
+    return [];
+  }
+  return seenReceiptsFromRunIndex(JSON.parse(readFileSync(path, "utf8")));
+}
+
+/**
+ * Insert or replace the run index record for `entry.runId`: in the `runs`
+ * table (DATABASE_URL), or the run index file when there is no usable database.
+ */
+export async function upsertRunRecord(entry: RunIndexRecord, runIndexPath?: string): Promise<void> {
+  if (process.env.DATABASE_URL) {
+    const { default: pg } = await import("pg");
+    const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+    try {
+      await client.connect();
+      await ensureRunIndexSchema(client);
+      await client.query(
+        `
+        insert into runs (
+          run_id,
+          provider,
+          model,
+          status,
+          content_hash,
+          artifact_dir,
+          artifact_path,
+          prompt_hash,
+          receipt_id,
+          receipt_hash,
+          receipt_content_hash,
+          created_at
+        )
+        values ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12::timestamptz)
+        on conflict (run_id)
+        do update set
+          provider = excluded.provider,
+          model = excluded.model,
+          status = excluded.status,
+          content_hash = excluded.content_hash,
+          artifact_dir = excluded.artifact_dir,
+          artifact_path = excluded.artifact_path,
+          prompt_hash = excluded.prompt_hash,
+          receipt_id = excluded.receipt_id,
+          receipt_hash = excluded.receipt_hash,
+          receipt_content_hash = excluded.receipt_content_hash,
+          created_at = excluded.created_at
+      `,
+        [
+          entry.runId,
+          entry.provider,
+          entry.model,
+          entry.status,
+          entry.contentHash,
+          entry.artifactDir,
+          entry.artifactPath,
+          entry.promptHash,
+          entry.receiptId ?? null,
+          entry.receiptHash ?? null,
+          entry.receiptContentHash ?? null,
+          entry.createdAt,
+        ]
+      );
+      return;
+    } catch {
+      // Fall through to the run index file.
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  const path = resolveRunIndexPath(runIndexPath);
+  let records: RunIndexRecord[] = [];
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf8"));
+    records = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Missing or unreadable: start a new index.
+  }
+  const index = records.findIndex((record) => record.runId === entry.runId);
+  if (index >= 0) {
+    records[index] = entry;
+  } else {
+    records.push(entry);
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(records, null, 2)}\n`, "utf8");
+}
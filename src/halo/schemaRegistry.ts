@@ -0,0 +1,527 @@
+/**
+ * Schema registry for HALO documents.
+ *
+ * Every document the orchestrator writes has a kind and a version:
+ *
+ *   kind                      version field             versions
+ *   halo_receipt              schema_version            1.0.0 (HMAC), 2.0.0 (Ed25519 + key_id)
+ *   master_receipt            receipt_version           halo.master.v1
+ *   evidence_pack             evidence_version          unversioned, halo.evidence.v1
+ *   encrypted_evidence_pack   version                   halo.enc.v1
+ *   artifact                  meta.schemaVersion        unversioned, halo.artifact.v1
+ *   console_artifact          schemaVersion             unversioned, halo.console.v1
+ *   receipt_bundle            bundle_version            halo.bundle.v1
+ *   comparison                comparison_version        halo.comparison.v1
+ *
+ * Documents written before their kind carried a version field are
+ * "unversioned"; migrations.ts stamps them forward.  Each (kind, version) pair
+ * has a JSON Schema, and each kind lists the fields its signature or
+ * content_hash covers so migrations can prove they left them untouched.
+ */
+import { CANONICALIZATION_SCHEMES } from "../utils/canonicalJson.js";
+import { validateJsonSchema, type JsonSchema } from "../utils/jsonSchema.js";
+import { HALO_RECEIPT_SCHEMA_VERSION } from "./signer.js";
+import { ENCRYPTED_EVIDENCE_VERSION, EVIDENCE_CIPHER } from "./evidenceEncryption.js";
+import { DISCLOSURE_SCHEME } from "./disclosure.js";
+import { RECEIPT_BUNDLE_VERSION } from "./receiptBundle.js";
+
+export type DocumentKind =
+  | "halo_receipt"
+  | "master_receipt"
+  | "evidence_pack"
+  | "encrypted_evidence_pack"
+  | "artifact"
+  | "console_artifact"
+  | "receipt_bundle"
+  | "comparison";
+
+/** Version label of documents written before their kind had a version field. */
+export const UNVERSIONED = "unversioned";
+
+/** HMAC-SHA256 receipts produced before keyring signing; no key_id. */
+export const LEGACY_HALO_RECEIPT_VERSION = "1.0.0";
+export const MASTER_RECEIPT_VERSION = "halo.master.v1";
+export const EVIDENCE_PACK_VERSION = "halo.evidence.v1";
+export const ARTIFACT_VERSION = "halo.artifact.v1";
+export const CONSOLE_ARTIFACT_VERSION = "halo.console.v1";
+export const COMPARISON_VERSION = "halo.comparison.v1";
+
+type JsonRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): JsonRecord | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as JsonRecord) : undefined;
+}
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+const HEX_SHA256: JsonSchema = { type: "string", pattern: "^[0-9a-f]{64}$" };
+const NON_EMPTY: JsonSchema = { type: "string", minLength: 1 };
+const OBJECT: JsonSchema = { type: "object" };
+
+const HALO_RECEIPT_V1_SCHEMA: JsonSchema = {
+  $id: "halo:halo_receipt/1.0.0",
+  title: "HALO receipt 1.0.0 (HMAC-SHA256 over id|timestamp|responseHash)",
+  type: "object",
+  required: ["id", "timestamp", "responseHash", "signature", "response", "schema_version"],
+  properties: {
+    id: NON_EMPTY,
+    timestamp: NON_EMPTY,
+    responseHash: HEX_SHA256,
+    signature: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    response: { type: "string" },
+    schema_version: { const: LEGACY_HALO_RECEIPT_VERSION },
+  },
+};
+
+const HALO_RECEIPT_V2_SCHEMA: JsonSchema = {
+  $id: `halo:halo_receipt/${HALO_RECEIPT_SCHEMA_VERSION}`,
+  title: "HALO receipt 2.0.0 (Ed25519, keyring key_id)",
+  type: "object",
+  required: ["id", "timestamp", "responseHash", "key_id", "signature", "response", "schema_version"],
+  properties: {
+    id: NON_EMPTY,
+    timestamp: NON_EMPTY,
+    responseHash: HEX_SHA256,
+    key_id: NON_EMPTY,
+    signature: { type: "string", pattern: "^[0-9a-f]{128}$" },
+    response: { type: "string" },
+    schema_version: { const: HALO_RECEIPT_SCHEMA_VERSION },
+    prev_receipt_hash: HEX_SHA256,
+    timestamp_token: OBJECT,
+  },
+};
+
+const MASTER_RECEIPT_V1_SCHEMA: JsonSchema = {
+  $id: `halo:master_receipt/${MASTER_RECEIPT_VERSION}`,
+  title: "HALO checkpoint master receipt",
+  type: "object",
+  required: ["receipt_version", "receipt_id", "content_hash", "signature_scheme", "signature"],
+  properties: {
+    receipt_version: { const: MASTER_RECEIPT_VERSION },
+    receipt_id: NON_EMPTY,
+    content_hash: HEX_SHA256,
+    signature_scheme: { enum: ["ed25519", "ed25519-merkle-batch"] },
+    signature: NON_EMPTY,
+    prev_receipt_hash: HEX_SHA256,
+    batch: {
+      type: "object",
+      required: ["batch_id", "root_hash", "size", "leaf_index", "audit_path"],
+      properties: {
+        batch_id: NON_EMPTY,
+        root_hash: HEX_SHA256,
+        size: { type: "integer" },
+        leaf_index: { type: "integer" },
+        audit_path: { type: "array", items: HEX_SHA256 },
+      },
+    },
+    content_commitment: { const: DISCLOSURE_SCHEME },
+    evidence_ciphertext_hash: HEX_SHA256,
+    canonicalization: { enum: [...CANONICALIZATION_SCHEMES] },
+    timestamp_token: OBJECT,
+    cosignatures: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["key_id", "role", "public_key", "signature"],
+        properties: {
+          key_id: NON_EMPTY,
+          role: NON_EMPTY,
+          public_key: NON_EMPTY,
+          signature: NON_EMPTY,
+          signed_at: NON_EMPTY,
+        },
+      },
+    },
+    metadata: OBJECT,
+    verification: {
+      type: "object",
+      properties: {
+        derived_status: { enum: ["PASS", "FAIL"] },
+        checks: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+};
+
+const EVIDENCE_PACK_PROPERTIES: Record<string, JsonSchema> = {
+  receipt_id: NON_EMPTY,
+  content_hash: HEX_SHA256,
+  canonicalization: { enum: [...CANONICALIZATION_SCHEMES] },
+  valet_source: {
+    type: "object",
+    required: ["source_dir", "files"],
+    properties: {
+      source_dir: { type: "string" },
+      files: {
+        type: "array",
+        items: { type: "object", required: ["file", "sha256"], properties: { file: { type: "string" }, sha256: HEX_SHA256 } },
+      },
+    },
+  },
+  transcript: OBJECT,
+  eli_assertions: {
+    type: "array",
+    items: {
+      anyOf: [
+        {
+          type: "object",
+          required: ["assertion_type", "text"],
+          properties: {
+            text: { type: "string" },
+            annotations: {
+              type: "array",
+              items: { type: "object", required: ["kind", "text", "span"], properties: { kind: { type: "string" } } },
+            },
+          },
+        },
+        { type: "object", required: ["withheld"], properties: { withheld: { const: true } } },
+      ],
+    },
+  },
+  notes: { type: "string" },
+  disclosure: {
+    type: "object",
+    required: ["scheme", "commitments", "salts"],
+    properties: { scheme: { const: DISCLOSURE_SCHEME } },
+  },
+  transparency: OBJECT,
+};
+
+const EVIDENCE_PACK_UNVERSIONED_SCHEMA: JsonSchema = {
+  $id: `halo:evidence_pack/${UNVERSIONED}`,
+  title: "Checkpoint evidence pack (before evidence_version)",
+  type: "object",
+  required: ["receipt_id", "content_hash", "transcript", "eli_assertions"],
+  properties: EVIDENCE_PACK_PROPERTIES,
+};
+
+const EVIDENCE_PACK_V1_SCHEMA: JsonSchema = {
+  $id: `halo:evidence_pack/${EVIDENCE_PACK_VERSION}`,
+  title: "Checkpoint evidence pack",
+  type: "object",
+  required: ["evidence_version", "receipt_id", "content_hash", "transcript", "eli_assertions"],
+  properties: { evidence_version: { const: EVIDENCE_PACK_VERSION }, ...EVIDENCE_PACK_PROPERTIES },
+};
+
+const ENCRYPTED_EVIDENCE_V1_SCHEMA: JsonSchema = {
+  $id: `halo:encrypted_evidence_pack/${ENCRYPTED_EVIDENCE_VERSION}`,
+  title: "Evidence pack encrypted for X25519 recipients",
+  type: "object",
+  required: ["version", "receipt_id", "content_hash", "cipher", "iv", "ciphertext", "recipients"],
+  properties: {
+    version: { const: ENCRYPTED_EVIDENCE_VERSION },
+    receipt_id: NON_EMPTY,
+    content_hash: HEX_SHA256,
+    cipher: { const: EVIDENCE_CIPHER },
+    iv: NON_EMPTY,
+    ciphertext: NON_EMPTY,
+    recipients: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["key_id", "ephemeral_public_key", "iv", "wrapped_key"],
+      },
+    },
+    transparency: OBJECT,
+  },
+};
+
+const ARTIFACT_PROPERTIES: Record<string, JsonSchema> = {
+  llm: {
+    type: "object",
+    required: ["provider", "endpoint", "model", "requestParams"],
+    properties: { provider: { type: "string" }, endpoint: { type: "string" }, model: { type: "string" } },
+  },
+  haloReceipt: OBJECT,
+  provenance: OBJECT,
+  eliLedger: { type: "object", required: ["claims"], properties: { claims: { type: "array" } } },
+  eliValidation: OBJECT,
+  security: { type: "object", required: ["credentialLeakScan"] },
+  policy: { type: "object", required: ["action", "findings"] },
+};
+
+const ARTIFACT_META: JsonSchema = {
+  type: "object",
+  required: ["timestamp", "orchestratorVersion", "nodeVersion"],
+  properties: { timestamp: { type: "string" }, orchestratorVersion: { type: "string" }, nodeVersion: { type: "string" } },
+};
+
+const ARTIFACT_UNVERSIONED_SCHEMA: JsonSchema = {
+  $id: `halo:artifact/${UNVERSIONED}`,
+  title: "Demo CLI artifact (before meta.schemaVersion)",
+  type: "object",
+  required: ["meta", "llm", "transcript", "haloReceipt"],
+  properties: { meta: ARTIFACT_META, ...ARTIFACT_PROPERTIES },
+};
+
+const ARTIFACT_V1_SCHEMA: JsonSchema = {
+  $id: `halo:artifact/${ARTIFACT_VERSION}`,
+  title: "Demo CLI artifact",
+  type: "object",
+  required: ["meta", "llm", "transcript", "haloReceipt"],
+  properties: {
+    meta: {
+      ...ARTIFACT_META,
+      required: [...ARTIFACT_META.required!, "schemaVersion"],
+      properties: { ...ARTIFACT_META.properties, schemaVersion: { const: ARTIFACT_VERSION } },
+    },
+    ...ARTIFACT_PROPERTIES,
+  },
+};
+
+const CONSOLE_ARTIFACT_PROPERTIES: Record<string, JsonSchema> = {
+  runId: NON_EMPTY,
+  provider: { type: "string" },
+  model: { type: "string" },
+  prompt: { type: "string" },
+  outputText: { type: "string" },
+  receipt: OBJECT,
+  verification: OBJECT,
+  ledger: OBJECT,
+  semanticValidation: OBJECT,
+  leakScan: OBJECT,
+  transparency: OBJECT,
+  replay: OBJECT,
+  policy: { type: "object", required: ["action", "findings"] },
+  createdAt: { type: "string" },
+};
+
+const CONSOLE_ARTIFACT_UNVERSIONED_SCHEMA: JsonSchema = {
+  $id: `halo:console_artifact/${UNVERSIONED}`,
+  title: "HALO console run artifact (before schemaVersion)",
+  type: "object",
+  required: ["runId", "receipt"],
+  properties: CONSOLE_ARTIFACT_PROPERTIES,
+};
+
+const CONSOLE_ARTIFACT_V1_SCHEMA: JsonSchema = {
+  $id: `halo:console_artifact/${CONSOLE_ARTIFACT_VERSION}`,
+  title: "HALO console run artifact",
+  type: "object",
+  required: ["schemaVersion", "runId", "receipt", "createdAt"],
+  properties: { schemaVersion: { const: CONSOLE_ARTIFACT_VERSION }, ...CONSOLE_ARTIFACT_PROPERTIES },
+};
+
+const RECEIPT_BUNDLE_V1_SCHEMA: JsonSchema = {
+  $id: `halo:receipt_bundle/${RECEIPT_BUNDLE_VERSION}`,
+  title: "HALO detached verification bundle",
+  type: "object",
+  required: ["bundle_version", "created_at", "receipt_id", "canonicalization", "signing", "manifest", "files"],
+  properties: {
+    bundle_version: { const: RECEIPT_BUNDLE_VERSION },
+    created_at: NON_EMPTY,
+    receipt_id: NON_EMPTY,
+    canonicalization: { type: "object", required: ["scheme"], properties: { scheme: NON_EMPTY } },
+    signing: {
+      type: "object",
+      required: ["algorithm", "domain_prefix", "key_id"],
+      properties: { algorithm: { const: "Ed25519" }, domain_prefix: NON_EMPTY, key_id: NON_EMPTY, public_key: NON_EMPTY },
+    },
+    proofs: OBJECT,
+    manifest: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["path", "role", "size", "sha256"],
+        properties: {
+          path: NON_EMPTY,
+          role: { enum: ["master_receipt", "evidence_pack", "encrypted_evidence_pack", "attestation"] },
+          size: { type: "integer" },
+          sha256: HEX_SHA256,
+        },
+      },
+    },
+    files: { type: "object", additionalProperties: { type: "string" } },
+  },
+};
+
+const COMPARISON_V1_SCHEMA: JsonSchema = {
+  $id: `halo:comparison/${COMPARISON_VERSION}`,
+  title: "Fan-out comparison artifact",
+  type: "object",
+  required: ["comparison_version", "created_at", "prompt_sha256", "runs", "agreement", "receipt"],
+  properties: {
+    comparison_version: { const: COMPARISON_VERSION },
+    created_at: NON_EMPTY,
+    prompt: { type: "string" },
+    prompt_sha256: HEX_SHA256,
+    runs: {
+      type: "array",
+      minItems: 1,
+      items: { type: "object", required: ["label", "ok"], properties: { label: NON_EMPTY, ok: { type: "boolean" } } },
+    },
+    agreement: {
+      type: "object",
+      required: ["method", "threshold", "responses", "claims", "summary"],
+      properties: { responses: { type: "array" }, claims: { type: "array" }, summary: OBJECT },
+    },
+    receipt: { type: "object", required: ["id", "timestamp", "responseHash", "key_id", "signature", "schema_version"] },
+  },
+};
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+interface KindDefinition {
+  /** Version written by the current code */
+  current: string;
+  /** Every known version, oldest first */
+  schemas: Record<string, JsonSchema>;
+  /** Read the version marker; undefined when the marker is missing */
+  versionOf(doc: JsonRecord): string | undefined;
+  /** Fields covered by the document's signature or content_hash */
+  signedFields: string[];
+}
+
+const KINDS: Record<DocumentKind, KindDefinition> = {
+  halo_receipt: {
+    current: HALO_RECEIPT_SCHEMA_VERSION,
+    schemas: { [LEGACY_HALO_RECEIPT_VERSION]: HALO_RECEIPT_V1_SCHEMA, [HALO_RECEIPT_SCHEMA_VERSION]: HALO_RECEIPT_V2_SCHEMA },
+    versionOf: (doc) => (typeof doc.schema_version === "string" ? doc.schema_version : undefined),
+    signedFields: ["id", "timestamp", "responseHash", "key_id", "prev_receipt_hash", "signature", "response", "schema_version"],
+  },
+  master_receipt: {
+    current: MASTER_RECEIPT_VERSION,
+    schemas: { [MASTER_RECEIPT_VERSION]: MASTER_RECEIPT_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.receipt_version === "string" ? doc.receipt_version : undefined),
+    signedFields: [
+      "receipt_version",
+      "receipt_id",
+      "content_hash",
+      "signature_scheme",
+      "prev_receipt_hash",
+      "content_commitment",
+      "evidence_ciphertext_hash",
+      "canonicalization",
+      "batch",
+      "signature",
+    ],
+  },
+  evidence_pack: {
+    current: EVIDENCE_PACK_VERSION,
+    schemas: { [UNVERSIONED]: EVIDENCE_PACK_UNVERSIONED_SCHEMA, [EVIDENCE_PACK_VERSION]: EVIDENCE_PACK_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.evidence_version === "string" ? doc.evidence_version : UNVERSIONED),
+    signedFields: ["receipt_id", "content_hash", "canonicalization", "transcript", "eli_assertions", "disclosure"],
+  },
+  encrypted_evidence_pack: {
+    current: ENCRYPTED_EVIDENCE_VERSION,
+    schemas: { [ENCRYPTED_EVIDENCE_VERSION]: ENCRYPTED_EVIDENCE_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.version === "string" ? doc.version : undefined),
+    signedFields: ["version", "receipt_id", "content_hash", "iv", "ciphertext", "recipients"],
+  },
+  artifact: {
+    current: ARTIFACT_VERSION,
+    schemas: { [UNVERSIONED]: ARTIFACT_UNVERSIONED_SCHEMA, [ARTIFACT_VERSION]: ARTIFACT_V1_SCHEMA },
+    versionOf: (doc) => {
+      const version = asRecord(doc.meta)?.schemaVersion;
+      return typeof version === "string" ? version : UNVERSIONED;
+    },
+    signedFields: ["transcript", "haloReceipt"],
+  },
+  console_artifact: {
+    current: CONSOLE_ARTIFACT_VERSION,
+    schemas: { [UNVERSIONED]: CONSOLE_ARTIFACT_UNVERSIONED_SCHEMA, [CONSOLE_ARTIFACT_VERSION]: CONSOLE_ARTIFACT_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.schemaVersion === "string" ? doc.schemaVersion : UNVERSIONED),
+    signedFields: ["receipt"],
+  },
+  receipt_bundle: {
+    current: RECEIPT_BUNDLE_VERSION,
+    schemas: { [RECEIPT_BUNDLE_VERSION]: RECEIPT_BUNDLE_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.bundle_version === "string" ? doc.bundle_version : undefined),
+    signedFields: ["manifest", "files"],
+  },
+  comparison: {
+    current: COMPARISON_VERSION,
+    schemas: { [COMPARISON_VERSION]: COMPARISON_V1_SCHEMA },
+    versionOf: (doc) => (typeof doc.comparison_version === "string" ? doc.comparison_version : undefined),
+    signedFields: ["comparison_version", "created_at", "prompt", "prompt_sha256", "runs", "agreement", "receipt"],
+  },
+};
+
+export const DOCUMENT_KINDS = Object.keys(KINDS) as DocumentKind[];
+
+/** Recognise a document's kind from its shape; undefined when it is not a HALO document. */
+export function detectDocumentKind(doc: unknown): DocumentKind | undefined {
+  const record = asRecord(doc);
+  if (!record) return undefined;
+  if (typeof record.bundle_version === "string" && "manifest" in record) return "receipt_bundle";
+  if (typeof record.comparison_version === "string" && "agreement" in record) return "comparison";
+  if (typeof record.receipt_version === "string" && "signature_scheme" in record) return "master_receipt";
+  if ("responseHash" in record && "signature" in record) return "halo_receipt";
+  if (record.version === ENCRYPTED_EVIDENCE_VERSION || ("ciphertext" in record && "recipients" in record)) {
+    return "encrypted_evidence_pack";
+  }
+  if ("transcript" in record && "eli_assertions" in record && "content_hash" in record) return "evidence_pack";
+  if ("meta" in record && "llm" in record && "haloReceipt" in record) return "artifact";
+  if ("runId" in record && "receipt" in record) return "console_artifact";
+  return undefined;
+}
+
+/** The document's version; undefined when a required version marker is missing. */
+export function documentVersion(kind: DocumentKind, doc: unknown): string | undefined {
+  return KINDS[kind].versionOf(asRecord(doc) ?? {});
+}
+
+export function currentVersion(kind: DocumentKind): string {
+  return KINDS[kind].current;
+}
+
+export function knownVersions(kind: DocumentKind): string[] {
+  return Object.keys(KINDS[kind].schemas);
+}
+
+export function isSupportedVersion(kind: DocumentKind, version: string | undefined): boolean {
+  return version !== undefined && version in KINDS[kind].schemas;
+}
+
+export function getSchema(kind: DocumentKind, version: string): JsonSchema | undefined {
+  return KINDS[kind].schemas[version];
+}
+
+/** Top-level fields a migration must leave byte-for-byte unchanged. */
+export function signedFields(kind: DocumentKind): string[] {
+  return [...KINDS[kind].signedFields];
+}
+
+export interface DocumentValidationResult {
+  ok: boolean;
+  kind?: DocumentKind;
+  version?: string;
+  /** True when `version` is not what the current code writes */
+  outdated?: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate a document against the schema for its kind and version.  The kind
+ * is detected from the document's shape unless given.
+ */
+export function validateDocument(doc: unknown, kind?: DocumentKind): DocumentValidationResult {
+  const resolvedKind = kind ?? detectDocumentKind(doc);
+  if (!resolvedKind) {
+    return { ok: false, errors: ["not a recognised HALO document"] };
+  }
+
+  const version = documentVersion(resolvedKind, doc);
+  const schema = version === undefined ? undefined : getSchema(resolvedKind, version);
+  if (!schema) {
+    return {
+      ok: false,
+      kind: resolvedKind,
+      version,
+      errors: [
+        `unsupported ${resolvedKind} version: ${version ?? "missing"} (known: ${knownVersions(resolvedKind).join(", ")})`,
+      ],
+    };
+  }
+
+  const result = validateJsonSchema(doc, schema);
+  return {
+    ok: result.ok,
+    kind: resolvedKind,
+    version,
+    outdated: version !== currentVersion(resolvedKind),
+    errors: result.errors,
+  };
+}
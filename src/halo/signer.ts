@@ -8,9 +8,18 @@
  * package.  The implementation here is a self-contained reference that
  * depends only on Node's built-in `crypto` module so the orchestrator can
  * run without an external dependency until the package is published.
+ *
+ * Receipts are signed with the active Ed25519 key of a HALO keyring
+ * (see keyring.ts); the receipt records the `key_id` so verifiers can pick
+ * the right key across rotations.
  */
 
-import { createHmac, createHash, randomUUID } from "node:crypto";
+import { createHash, createPrivateKey, randomUUID, sign } from "node:crypto";
+import { activeSigningKey, loadKeyring, type Keyring } from "./keyring.js";
+import type { TimestampToken } from "./timestamp.js";
+
+/** Receipt schema version produced by this signer. */
+export const HALO_RECEIPT_SCHEMA_VERSION = "2.0.0";
 
 /**
  * HALO receipt object shape
@@ -22,30 +31,65 @@ export interface HaloReceipt {
   timestamp: string;
   /** SHA-256 hash of the raw upstream response (hex) */
   responseHash: string;
-  /** HMAC-SHA256 signature over `id|timestamp|responseHash` (hex) */
+  /** Keyring key_id of the Ed25519 key that produced `signature` */
+  key_id: string;
+  /** Ed25519 signature over `id|timestamp|responseHash|key_id[|prev_receipt_hash]` (hex) */
   signature: string;
   /** The original upstream response that was signed */
   response: string;
   /** Receipt schema version */
   schema_version: string;
+  /**
+   * `receipt_hash` of the previous receipt in the receipt chain (see
+   * receiptChain.ts).  Covered by the signature when present.
+   */
+  prev_receipt_hash?: string;
+  /**
+   * Timestamp authority token over the receipt hash (see timestamp.ts).
+   * Attached after signing; not covered by `signature`.
+   */
+  timestamp_token?: TimestampToken;
 }
 
+/** Build the byte string covered by a receipt signature. */
+export function receiptSigningPayload(
+  receipt: Pick<HaloReceipt, "id" | "timestamp" | "responseHash" | "key_id" | "prev_receipt_hash">
+): string {
+  const base = `${receipt.id}|${receipt.timestamp}|${receipt.responseHash}|${receipt.key_id}`;
+  return receipt.prev_receipt_hash === undefined ? base : `${base}|${receipt.prev_receipt_hash}`;
+}
 
 /**
  * Produce a HALO receipt for an upstream LLM response.
  *
- * @param response   Raw text returned by the LLM provider.
- * @param signingKey Hex-encoded 32-byte HMAC secret.  Falls back to the
- *                   `HALO_SIGNING_KEY` environment variable when omitted.
+ * @param response Raw text returned by the LLM provider.
+ * @param keyring  Keyring whose active key signs the receipt.  Loaded from
+ *                 `HALO_KEYRING_FILE` (default `.halo/keyring.json`) when omitted.
+ * @param options  `prevReceiptHash` links the receipt into a receipt chain.
  * @returns HaloReceipt object
  */
-export function signHaloReceipt(response: string, signingKey?: string): HaloReceipt {
-  const key = signingKey ?? process.env.HALO_SIGNING_KEY ?? "test-signing-key-32-bytes-padded!";
+export function signHaloReceipt(
+  response: string,
+  keyring?: Keyring,
+  options?: { prevReceiptHash?: string }
+): HaloReceipt {
+  const signingKey = activeSigningKey(keyring ?? loadKeyring());
   const id = randomUUID();
   const timestamp = new Date().toISOString();
   const responseHash = createHash("sha256").update(response, "utf8").digest("hex");
-  const payload = `${id}|${timestamp}|${responseHash}`;
-  const signature = createHmac("sha256", key).update(payload, "utf8").digest("hex");
-  const schema_version = "1.0.0";
-  return { id, timestamp, responseHash, signature, response, schema_version };
+  const key_id = signingKey.key_id;
+  const prev_receipt_hash = options?.prevReceiptHash;
+  const payload = receiptSigningPayload({ id, timestamp, responseHash, key_id, prev_receipt_hash });
+  const signature = sign(null, Buffer.from(payload, "utf8"), createPrivateKey(signingKey.private_key)).toString("hex");
+  const schema_version = HALO_RECEIPT_SCHEMA_VERSION;
+  return {
+    id,
+    timestamp,
+    responseHash,
+    key_id,
+    signature,
+    response,
+    schema_version,
+    ...(prev_receipt_hash !== undefined ? { prev_receipt_hash } : {}),
+  };
 }
@@ -0,0 +1,333 @@
+/**
+ * Pluggable Ed25519 signer backends.
+ *
+ * `Signer` is the extension point for keys that should not live in the
+ * orchestrator's environment.  Backends:
+ *
+ *   env      RECEIPT_SIGNING_KEY holds the private key PEM (the default)
+ *   file     RECEIPT_SIGNING_KEY_FILE names a private key PEM file
+ *   command  HALO_SIGNER_COMMAND is run once per request, e.g. an HSM/KMS wrapper
+ *   socket   HALO_SIGNER_SOCKET is the Unix socket of a signing daemon
+ *            (reference daemon: `npm run signerd`)
+ *
+ * The command and socket backends speak the same line protocol: one JSON
+ * request per line, one JSON response line back.
+ *
+ *   {"op":"public_key"}                 → {"ok":true,"public_key":"<SPKI PEM>"}
+ *   {"op":"sign","data":"<base64>"}     → {"ok":true,"signature":"<base64>"}
+ *   anything that fails                 → {"ok":false,"reason":"..."}
+ *
+ * Signatures from remote backends are checked against the backend's public
+ * key before they are used, so a misconfigured wrapper fails loudly instead
+ * of producing receipts that never verify.
+ */
+import { spawn } from "node:child_process";
+import { createPrivateKey, createPublicKey, sign as signDetached, verify as verifyDetached } from "node:crypto";
+import { chmodSync, existsSync, lstatSync, readFileSync, rmSync } from "node:fs";
+import { createConnection, createServer, type Socket } from "node:net";
+import { resolve } from "node:path";
+import { computeKeyId } from "./keyring.js";
+
+export type SignerBackend = "env" | "file" | "command" | "socket";
+
+export const SIGNER_BACKENDS: readonly SignerBackend[] = ["env", "file", "command", "socket"];
+
+/** How long a command or socket backend may take to answer one request. */
+export const DEFAULT_SIGNER_TIMEOUT_MS = 10_000;
+
+/** Signs byte strings with an Ed25519 key it may never expose. */
+export interface Signer {
+  /** Backend and location, for logs (never the key itself) */
+  readonly name: string;
+  /** SPKI PEM of the signing key */
+  publicKey(): Promise<string>;
+  /** Raw Ed25519 signature over `data` */
+  sign(data: Uint8Array): Promise<Buffer>;
+}
+
+export type SignerRequest = { op: "public_key" } | { op: "sign"; data: string };
+
+export type SignerResponse =
+  | { ok: true; public_key?: string; signature?: string }
+  | { ok: false; reason: string };
+
+export interface SigningDaemon {
+  readonly socketPath: string;
+  close(): Promise<void>;
+}
+
+// ── Local keys ───────────────────────────────────────────────────────────────
+
+export function createPemSigner(privateKeyPem: string, name = "env"): Signer {
+  const privateKey = createPrivateKey(privateKeyPem);
+  if (privateKey.asymmetricKeyType !== "ed25519") {
+    throw new Error(`${name} signer: expected an Ed25519 private key, got ${privateKey.asymmetricKeyType}`);
+  }
+  const publicKeyPem = createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString();
+  return {
+    name,
+    async publicKey() {
+      return publicKeyPem;
+    },
+    async sign(data) {
+      return signDetached(null, data, privateKey);
+    },
+  };
+}
+
+export function createPemFileSigner(path: string): Signer {
+  const keyPath = resolve(path);
+  if (!existsSync(keyPath)) {
+    throw new Error(`Signing key file not found: ${keyPath}`);
+  }
+  return createPemSigner(readFileSync(keyPath, "utf8"), `file:${keyPath}`);
+}
+
+// ── Line protocol ────────────────────────────────────────────────────────────
+
+/** Answer one protocol line with `privateKeyPem`; used by the daemon and `signerd --stdio`. */
+export function handleSignerRequest(line: string, privateKeyPem: string): SignerResponse {
+  let request: SignerRequest;
+  try {
+    request = JSON.parse(line) as SignerRequest;
+  } catch {
+    return { ok: false, reason: "request is not valid JSON" };
+  }
+
+  try {
+    const privateKey = createPrivateKey(privateKeyPem);
+    if (request.op === "public_key") {
+      return { ok: true, public_key: createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString() };
+    }
+    if (request.op === "sign" && typeof request.data === "string") {
+      const signature = signDetached(null, Buffer.from(request.data, "base64"), privateKey);
+      return { ok: true, signature: signature.toString("base64") };
+    }
+  } catch (err) {
+    return { ok: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+  return { ok: false, reason: `unsupported request: ${JSON.stringify((request as { op?: unknown }).op)}` };
+}
+
+function parseResponse(name: string, output: string): SignerResponse & { ok: true } {
+  const line = output.split("\n").find((candidate) => candidate.trim().length > 0);
+  if (!line) {
+    throw new Error(`${name} signer returned no response`);
+  }
+  let response: SignerResponse;
+  try {
+    response = JSON.parse(line) as SignerResponse;
+  } catch {
+    throw new Error(`${name} signer returned invalid JSON: ${line.slice(0, 80)}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${name} signer refused the request: ${response.reason}`);
+  }
+  return response;
+}
+
+/**
+ * Wrap a request/response transport as a Signer: cache the public key and
+ * check every signature against it.
+ */
+function remoteSigner(name: string, exchange: (request: SignerRequest) => Promise<string>): Signer {
+  let publicKeyPem: Promise<string> | undefined;
+  const publicKey = () => {
+    publicKeyPem ??= exchange({ op: "public_key" }).then((output) => {
+      const key = parseResponse(name, output).public_key;
+      if (!key || createPublicKey(key).asymmetricKeyType !== "ed25519") {
+        throw new Error(`${name} signer did not return an Ed25519 public key`);
+      }
+      return key;
+    });
+    publicKeyPem.catch(() => {
+      publicKeyPem = undefined;
+    });
+    return publicKeyPem;
+  };
+
+  return {
+    name,
+    publicKey,
+    async sign(data) {
+      const key = await publicKey();
+      const response = parseResponse(name, await exchange({ op: "sign", data: Buffer.from(data).toString("base64") }));
+      const signature = Buffer.from(response.signature ?? "", "base64");
+      if (!verifyDetached(null, data, createPublicKey(key), signature)) {
+        throw new Error(`${name} signer returned a signature that does not verify under key_id ${computeKeyId(key)}`);
+      }
+      return signature;
+    },
+  };
+}
+
+// ── External command ─────────────────────────────────────────────────────────
+
+/**
+ * Run `command` (through the shell) once per request: the request line goes
+ * to stdin, the response line is read from stdout.
+ */
+export function createCommandSigner(command: string, options?: { timeoutMs?: number }): Signer {
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_SIGNER_TIMEOUT_MS;
+  const name = `command:${command.split(/\s+/)[0]}`;
+
+  return remoteSigner(
+    name,
+    (request) =>
+      new Promise((resolveOutput, reject) => {
+        const child = spawn(command, { shell: true, stdio: ["pipe", "pipe", "pipe"], timeout: timeoutMs });
+        let stdout = "";
+        let stderr = "";
+        child.stdout.setEncoding("utf8").on("data", (chunk: string) => (stdout += chunk));
+        child.stderr.setEncoding("utf8").on("data", (chunk: string) => (stderr += chunk));
+        child.on("error", (err) => reject(new Error(`${name} signer failed to start: ${err.message}`)));
+        child.on("close", (code, signal) => {
+          if (code === 0) {
+            resolveOutput(stdout);
+          } else {
+            const why = signal ? `killed by ${signal}` : `exit code ${code}`;
+            reject(new Error(`${name} signer failed (${why})${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+          }
+        });
+        child.stdin.end(`${JSON.stringify(request)}\n`);
+      })
+  );
+}
+
+// ── Unix socket daemon ───────────────────────────────────────────────────────
+
+export function createSocketSigner(socketPath: string, options?: { timeoutMs?: number }): Signer {
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_SIGNER_TIMEOUT_MS;
+  const path = resolve(socketPath);
+  const name = `socket:${path}`;
+
+  return remoteSigner(
+    name,
+    (request) =>
+      new Promise((resolveOutput, reject) => {
+        const socket = createConnection(path);
+        let received = "";
+        socket.setEncoding("utf8");
+        socket.setTimeout(timeoutMs, () => {
+          socket.destroy();
+          reject(new Error(`${name} signer timed out after ${timeoutMs}ms`));
+        });
+        socket.on("connect", () => socket.write(`${JSON.stringify(request)}\n`));
+        socket.on("data", (chunk: string) => {
+          received += chunk;
+          if (received.includes("\n")) {
+            socket.end();
+            resolveOutput(received);
+          }
+        });
+        socket.on("error", (err) => reject(new Error(`${name} signer unreachable: ${err.message}`)));
+        socket.on("close", () => {
+          if (!received.includes("\n")) reject(new Error(`${name} signer closed the connection without a response`));
+        });
+      })
+  );
+}
+
+/**
+ * Reference signing daemon: answers the line protocol on a Unix socket with
+ * `privateKeyPem`.  The socket is created under umask 0177, so it is mode 0600
+ * from the start; a stale socket at `socketPath` is replaced, anything else
+ * there is left alone and the daemon refuses to start.
+ */
+export function startSigningDaemon(options: { socketPath: string; privateKeyPem: string }): Promise<SigningDaemon> {
+  const socketPath = resolve(options.socketPath);
+  createPemSigner(options.privateKeyPem, "signerd");
+  const existing = lstatSync(socketPath, { throwIfNoEntry: false });
+  if (existing && !existing.isSocket()) {
+    throw new Error(`${socketPath} exists and is not a socket; refusing to replace it`);
+  }
+  if (existing) {
+    rmSync(socketPath);
+  }
+
+  const connections = new Set<Socket>();
+  const server = createServer((socket) => {
+    connections.add(socket);
+    socket.on("close", () => connections.delete(socket));
+    socket.on("error", () => socket.destroy());
+
+    let buffered = "";
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffered += chunk;
+      let newline = buffered.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffered.slice(0, newline);
+        buffered = buffered.slice(newline + 1);
+        if (line.trim()) {
+          socket.write(`${JSON.stringify(handleSignerRequest(line, options.privateKeyPem))}\n`);
+        }
+        newline = buffered.indexOf("\n");
+      }
+    });
+  });
+
+  return new Promise((resolveDaemon, reject) => {
+    const umask = process.umask(0o177);
+    server.once("error", (err) => {
+      process.umask(umask);
+      reject(err);
+    });
+    server.listen(socketPath, () => {
+      process.umask(umask);
+      chmodSync(socketPath, 0o600);
+      resolveDaemon({
+        socketPath,
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            for (const socket of connections) socket.destroy();
+            server.close(() => resolveClose());
+          }),
+      });
+    });
+  });
+}
+
+// ── Selection ────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the signer selected by `HALO_SIGNER`.  When unset, the backend is
+ * inferred from whichever of HALO_SIGNER_SOCKET, HALO_SIGNER_COMMAND,
+ * RECEIPT_SIGNING_KEY_FILE or RECEIPT_SIGNING_KEY is set (in that order);
+ * returns undefined when none is.
+ */
+export function resolveSigner(env: NodeJS.ProcessEnv = process.env): Signer | undefined {
+  const selected =
+    env.HALO_SIGNER ||
+    (env.HALO_SIGNER_SOCKET
+      ? "socket"
+      : env.HALO_SIGNER_COMMAND
+        ? "command"
+        : env.RECEIPT_SIGNING_KEY_FILE
+          ? "file"
+          : env.RECEIPT_SIGNING_KEY
+            ? "env"
+            : undefined);
+  if (!selected) return undefined;
+
+  const required = (variable: string): string => {
+    const value = env[variable];
+    if (!value) {
+      throw new Error(`HALO_SIGNER=${selected} requires ${variable}.`);
+    }
+    return value;
+  };
+
+  switch (selected) {
+    case "env":
+      return createPemSigner(required("RECEIPT_SIGNING_KEY").replace(/\\n/g, "\n"));
+    case "file":
+      return createPemFileSigner(required("RECEIPT_SIGNING_KEY_FILE"));
+    case "command":
+      return createCommandSigner(required("HALO_SIGNER_COMMAND"));
+    case "socket":
+      return createSocketSigner(required("HALO_SIGNER_SOCKET"));
+    default:
+      throw new Error(`Unknown HALO_SIGNER: ${selected}. Expected: ${SIGNER_BACKENDS.join(", ")}.`);
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Trusted timestamps for receipts.
+ *
+ * A receipt's own `timestamp` is whatever the signer's clock said.  A
+ * timestamp authority (TSA) countersigns the receipt hash instead, producing
+ * an RFC 3161-style token: the TSA attests that a receipt with this
+ * `receipt_hash` existed at `gen_time`.  The token is attached to the receipt
+ * as `timestamp_token`, which is excluded from `receipt_hash` (see
+ * receiptChain.ts) so it can be added after signing without breaking chains
+ * or transparency log leaves.
+ *
+ * `TimestampAuthority` is the extension point for external TSAs.  The bundled
+ * local TSA signs tokens with the active key of its own keyring (default
+ * `.halo/tsa_keyring.json`, override with `HALO_TSA_KEYRING_FILE`) for tests
+ * and air-gapped deployments.
+ *
+ * A signing time is *attested* only when the token verifies against a key in
+ * the verifier's trusted TSA keyring; otherwise it is *self-asserted*.
+ */
+import { createPrivateKey, createPublicKey, randomBytes, sign, verify } from "node:crypto";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { hashReceipt } from "./receiptChain.js";
+import {
+  activeSigningKey,
+  computeKeyId,
+  findKey,
+  keyStatus,
+  loadKeyring,
+  type Keyring,
+} from "./keyring.js";
+
+export const TIMESTAMP_TOKEN_VERSION = "halo.tst.v1";
+
+/** Domain separator so token signatures cannot be replayed as other HALO signatures. */
+export const TIMESTAMP_DOMAIN_PREFIX = "HALO_TST_V1|";
+
+export const DEFAULT_TSA_KEYRING_FILE = ".halo/tsa_keyring.json";
+
+export const LOCAL_TSA_POLICY = "halo.tsa.local.v1";
+
+/** Claimed signing times may run this far ahead of the attested time (clock skew). */
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface TimestampToken {
+  version: typeof TIMESTAMP_TOKEN_VERSION;
+  /** Name of the issuing authority */
+  tsa: string;
+  /** TSA policy under which the token was issued */
+  policy: string;
+  serial_number: string;
+  /** ISO-8601 time the TSA issued the token */
+  gen_time: string;
+  message_imprint: {
+    hash_algorithm: "sha256";
+    /** `receipt_hash` of the timestamped receipt (hex) */
+    hashed_message: string;
+  };
+  /** Echo of the requester's nonce */
+  nonce?: string;
+  /** Keyring key_id of the TSA key */
+  key_id: string;
+  /** SPKI PEM public key of the TSA key */
+  public_key: string;
+  /** Ed25519 signature over `timestampSigningPayload(token)` (base64) */
+  signature: string;
+}
+
+/** Issues timestamp tokens over a message imprint. */
+export interface TimestampAuthority {
+  readonly name: string;
+  timestamp(hashedMessage: string, options?: { nonce?: string }): Promise<TimestampToken>;
+}
+
+export interface SigningTimeAssessment {
+  status: "attested" | "self-asserted" | "invalid";
+  /** Signing time claimed by the receipt itself */
+  claimed_time?: string;
+  /** `gen_time` of a trusted, valid timestamp token */
+  attested_time?: string;
+  tsa?: string;
+  reason: string;
+}
+
+// ── Signing ──────────────────────────────────────────────────────────────────
+
+/** Build the byte string covered by a token signature. */
+export function timestampSigningPayload(token: Omit<TimestampToken, "public_key" | "signature">): string {
+  return (
+    TIMESTAMP_DOMAIN_PREFIX +
+    canonicalJson({
+      version: token.version,
+      tsa: token.tsa,
+      policy: token.policy,
+      serial_number: token.serial_number,
+      gen_time: token.gen_time,
+      message_imprint: token.message_imprint,
+      ...(token.nonce !== undefined ? { nonce: token.nonce } : {}),
+      key_id: token.key_id,
+    })
+  );
+}
+
+/**
+ * Create the bundled local TSA, signing with the active key of `keyring`.
+ *
+ * @param options `now` overrides the TSA clock (tests).
+ */
+export function createLocalTimestampAuthority(
+  keyring: Keyring,
+  options?: { name?: string; policy?: string; now?: () => Date }
+): TimestampAuthority {
+  const name = options?.name ?? "halo-local-tsa";
+  const policy = options?.policy ?? LOCAL_TSA_POLICY;
+  const clock = options?.now ?? (() => new Date());
+
+  return {
+    name,
+    async timestamp(hashedMessage, request) {
+      const genTime = clock();
+      const key = activeSigningKey(keyring, genTime);
+      const unsigned = {
+        version: TIMESTAMP_TOKEN_VERSION,
+        tsa: name,
+        policy,
+        serial_number: randomBytes(16).toString("hex"),
+        gen_time: genTime.toISOString(),
+        message_imprint: { hash_algorithm: "sha256", hashed_message: hashedMessage },
+        ...(request?.nonce !== undefined ? { nonce: request.nonce } : {}),
+        key_id: key.key_id,
+      } as const;
+      const signature = sign(
+        null,
+        Buffer.from(timestampSigningPayload(unsigned), "utf8"),
+        createPrivateKey(key.private_key)
+      ).toString("base64");
+      return { ...unsigned, public_key: key.public_key, signature };
+    },
+  };
+}
+
+/**
+ * Request a timestamp token over `hashReceipt(receipt)` and attach it.
+ * Throws when the TSA answers for a different imprint or nonce.
+ */
+export async function timestampReceipt<T extends object>(
+  receipt: T,
+  tsa: TimestampAuthority
+): Promise<T & { timestamp_token: TimestampToken }> {
+  const hashedMessage = hashReceipt(receipt);
+  const nonce = randomBytes(8).toString("hex");
+  const token = await tsa.timestamp(hashedMessage, { nonce });
+
+  if (token.message_imprint?.hashed_message !== hashedMessage) {
+    throw new Error(`TSA ${tsa.name} returned a token for a different message imprint.`);
+  }
+  if (token.nonce !== nonce) {
+    throw new Error(`TSA ${tsa.name} returned a token with a mismatched nonce.`);
+  }
+  return { ...receipt, timestamp_token: token };
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+/**
+ * Verify a token against a message imprint.
+ *
+ * Without `tsaKeyring` the token is checked against its embedded public key
+ * and reported as untrusted.  With it, the token's key must be in the keyring
+ * and must not have been revoked, or expired before `gen_time`.
+ */
+export function verifyTimestampToken(
+  token: TimestampToken,
+  hashedMessage: string,
+  options?: { tsaKeyring?: Keyring }
+): { ok: boolean; trusted: boolean; reason?: string } {
+  const fail = (reason: string) => ({ ok: false, trusted: false, reason });
+
+  if (token.version !== TIMESTAMP_TOKEN_VERSION) {
+    return fail(`unsupported timestamp token version: ${token.version ?? "undefined"}`);
+  }
+  if (token.message_imprint?.hash_algorithm !== "sha256") {
+    return fail(`unsupported message imprint hash algorithm: ${token.message_imprint?.hash_algorithm ?? "undefined"}`);
+  }
+  if (token.message_imprint.hashed_message !== hashedMessage) {
+    return fail("message imprint does not match the receipt hash");
+  }
+  const genTime = Date.parse(token.gen_time);
+  if (Number.isNaN(genTime)) {
+    return fail(`invalid gen_time: ${token.gen_time}`);
+  }
+
+  let publicKeyPem = token.public_key;
+  let trusted = false;
+  if (options?.tsaKeyring) {
+    const entry = findKey(options.tsaKeyring, token.key_id);
+    if (entry) {
+      const status = keyStatus(options.tsaKeyring, entry, new Date(genTime));
+      if (status === "revoked") {
+        return fail(`TSA key_id ${entry.key_id} was revoked at ${entry.revoked_at}`);
+      }
+      if (status === "expired") {
+        return fail(`TSA key_id ${entry.key_id} had left its rotation window at gen_time`);
+      }
+      publicKeyPem = entry.public_key;
+      trusted = true;
+    }
+  }
+
+  try {
+    if (computeKeyId(publicKeyPem) !== token.key_id) {
+      return fail("token key_id does not match its public key");
+    }
+    const ok = verify(
+      null,
+      Buffer.from(timestampSigningPayload(token), "utf8"),
+      createPublicKey(publicKeyPem),
+      Buffer.from(token.signature, "base64")
+    );
+    if (!ok) {
+      return fail("timestamp token signature invalid");
+    }
+  } catch {
+    return fail("timestamp token signature invalid");
+  }
+
+  return trusted
+    ? { ok: true, trusted }
+    : { ok: true, trusted, reason: `TSA key_id ${token.key_id} is not in the trusted TSA keyring` };
+}
+
+/** Signing time the receipt claims for itself, if any. */
+export function claimedSigningTime(receipt: object): string | undefined {
+  const record = receipt as Record<string, unknown>;
+  for (const value of [record.timestamp, record.ts, (record.metadata as Record<string, unknown> | undefined)?.ingested_at]) {
+    if (typeof value === "string") return value;
+  }
+  return undefined;
+}
+
+/** Report whether a receipt's signing time is externally attested or only self-asserted. */
+export function assessSigningTime(
+  receipt: object,
+  options?: { tsaKeyring?: Keyring }
+): SigningTimeAssessment {
+  const claimed_time = claimedSigningTime(receipt);
+  const token = (receipt as Record<string, unknown>).timestamp_token as TimestampToken | undefined;
+
+  if (!token || typeof token !== "object") {
+    return { status: "self-asserted", claimed_time, reason: "no timestamp token; signing time is the signer's own clock" };
+  }
+
+  const verified = verifyTimestampToken(token, hashReceipt(receipt), options);
+  if (!verified.ok) {
+    return { status: "invalid", claimed_time, tsa: token.tsa, reason: `timestamp token invalid: ${verified.reason}` };
+  }
+  if (!verified.trusted) {
+    return { status: "self-asserted", claimed_time, tsa: token.tsa, reason: verified.reason ?? "TSA not trusted" };
+  }
+
+  if (claimed_time !== undefined && Date.parse(claimed_time) > Date.parse(token.gen_time) + MAX_CLOCK_SKEW_MS) {
+    return {
+      status: "invalid",
+      claimed_time,
+      attested_time: token.gen_time,
+      tsa: token.tsa,
+      reason: `claimed signing time ${claimed_time} is after the attested time ${token.gen_time}`,
+    };
+  }
+
+  return {
+    status: "attested",
+    claimed_time,
+    attested_time: token.gen_time,
+    tsa: token.tsa,
+    reason: `signing time attested by ${token.tsa} at ${token.gen_time}`,
+  };
+}
+
+// ── Configuration ────────────────────────────────────────────────────────────
+
+export function resolveTsaKeyringPath(path?: string): string {
+  return resolve(path ?? process.env.HALO_TSA_KEYRING_FILE ?? DEFAULT_TSA_KEYRING_FILE);
+}
+
+/** Load the TSA keyring for verification, or undefined when none is configured. */
+export function loadTsaKeyring(path?: string): Keyring | undefined {
+  const keyringPath = resolveTsaKeyringPath(path);
+  return existsSync(keyringPath) ? loadKeyring(keyringPath) : undefined;
+}
+
+/**
+ * Resolve the TSA selected by `HALO_TSA`.  Unset means no timestamping;
+ * `local` uses the bundled TSA with the keyring at `HALO_TSA_KEYRING_FILE`.
+ */
+export function resolveTimestampAuthority(): TimestampAuthority | undefined {
+  const selected = process.env.HALO_TSA;
+  if (!selected) return undefined;
+  if (selected !== "local") {
+    throw new Error(`Unknown HALO_TSA: ${selected}. Expected: local.`);
+  }
+
+  const keyringPath = resolveTsaKeyringPath();
+  if (!existsSync(keyringPath)) {
+    throw new Error(
+      `HALO TSA keyring not found: ${keyringPath}\n` +
+        `  Fix:      npm run keyring -- init --keyring ${DEFAULT_TSA_KEYRING_FILE}   (or set HALO_TSA_KEYRING_FILE)`
+    );
+  }
+  return createLocalTimestampAuthority(loadKeyring(keyringPath));
+}
@@ -0,0 +1,485 @@
+/**
+ * Local Merkle transparency log.
+ *
+ * A certificate-transparency-style, append-only log of every receipt
+ * produced by the console (`/api/run`) and the Valet bridge
+ * (`ingest-valet`).  The log lives in a directory next to the run index
+ * (default `out/console/transparency_log/`, override with `HALO_TLOG_DIR`):
+ *
+ *   leaves.jsonl  one line per logged receipt, in leaf order
+ *   sth.jsonl     one signed tree head (STH) per append
+ *
+ * Each append returns an inclusion proof against the new STH.  The proof is
+ * carried with the receipt (evidence pack / console artifact) so a verifier
+ * can check, offline, that the receipt was logged and that the log operator
+ * signed the tree it was logged into.  Consistency proofs show that a later
+ * tree head extends an earlier one without rewriting history.
+ *
+ * Tree heads are signed with Ed25519 by one log signer shared by every writer
+ * (resolveLogSigner): `HALO_TLOG_SIGNING_KEY_FILE`, else the configured signer
+ * backend (see signingBackend.ts).  The STH carries the public key and its
+ * `key_id` so verifiers can pin it.
+ *
+ * appendToLogWithSigner holds `leaves.jsonl.lock` (see utils/fileLock.ts) from
+ * reading the leaves to writing the new leaf, so writers in different
+ * processes do not take the same leaf index.  appendToLog takes no lock and
+ * is for a single writer.
+ */
+import { createPrivateKey, createPublicKey, sign as signDetached, verify as verifyDetached } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { canonicalJson } from "../utils/canonicalJson.js";
+import { withFileLock } from "../utils/fileLock.js";
+import { computeKeyId } from "./keyring.js";
+import {
+  consistencyProof,
+  inclusionProof,
+  merkleLeafHash,
+  merkleRoot,
+  verifyConsistency,
+  verifyInclusion,
+} from "./merkle.js";
+import { hashReceipt, type ChainReceiptKind } from "./receiptChain.js";
+import { createPemFileSigner, resolveSigner, type Signer } from "./signingBackend.js";
+
+export const TLOG_VERSION = "halo.tlog.v1";
+
+/** Domain separator prepended to the canonical tree head before signing. */
+export const TREE_HEAD_DOMAIN_PREFIX = "HALO_TLOG_STH_V1|";
+
+export interface LogLeaf {
+  /** Zero-based leaf index */
+  index: number;
+  kind: ChainReceiptKind;
+  receipt_id: string;
+  /** `hashReceipt` of the logged receipt */
+  receipt_hash: string;
+  /** RFC 6962 leaf hash over the canonical {kind, receipt_id, receipt_hash} */
+  leaf_hash: string;
+  appended_at: string;
+}
+
+export interface SignedTreeHead {
+  tree_size: number;
+  root_hash: string;
+  timestamp: string;
+  key_id: string;
+  /** SPKI PEM of the key that signed this tree head */
+  public_key: string;
+  /** Base64 Ed25519 signature over TREE_HEAD_DOMAIN_PREFIX + canonical head */
+  signature: string;
+}
+
+export interface InclusionProof {
+  log_version: typeof TLOG_VERSION;
+  leaf_index: number;
+  kind: ChainReceiptKind;
+  receipt_id: string;
+  receipt_hash: string;
+  leaf_hash: string;
+  audit_path: string[];
+  signed_tree_head: SignedTreeHead;
+}
+
+export interface ConsistencyProof {
+  log_version: typeof TLOG_VERSION;
+  first: SignedTreeHead;
+  second: SignedTreeHead;
+  proof: string[];
+}
+
+export type LogFindingKind =
+  | "LEAF_GAP"
+  | "LEAF_TAMPERED"
+  | "STH_SIGNATURE_INVALID"
+  | "STH_ROOT_MISMATCH"
+  | "STH_INCONSISTENT";
+
+export interface LogFinding {
+  kind: LogFindingKind;
+  detail: string;
+}
+
+export interface LogAuditResult {
+  ok: boolean;
+  tree_size: number;
+  root_hash: string;
+  findings: LogFinding[];
+}
+
+// ── Hashing & signing ────────────────────────────────────────────────────────
+
+/** Leaf hash binding the receipt kind, ID and hash. */
+export function computeLeafHash(input: { kind: ChainReceiptKind; receipt_id: string; receipt_hash: string }): string {
+  return merkleLeafHash(
+    canonicalJson({ kind: input.kind, receipt_id: input.receipt_id, receipt_hash: input.receipt_hash })
+  );
+}
+
+/** Byte string an STH signature covers. */
+export function treeHeadSigningPayload(head: Omit<SignedTreeHead, "signature" | "public_key">): string {
+  return (
+    TREE_HEAD_DOMAIN_PREFIX +
+    canonicalJson({
+      tree_size: head.tree_size,
+      root_hash: head.root_hash,
+      timestamp: head.timestamp,
+      key_id: head.key_id,
+    })
+  );
+}
+
+function treeHeadBody(treeSize: number, rootHash: string, publicKeyPem: string, now: Date) {
+  return {
+    tree_size: treeSize,
+    root_hash: rootHash,
+    timestamp: now.toISOString(),
+    key_id: computeKeyId(publicKeyPem),
+  };
+}
+
+export function signTreeHead(
+  treeSize: number,
+  rootHash: string,
+  signingKeyPem: string,
+  now: Date = new Date()
+): SignedTreeHead {
+  const privateKey = createPrivateKey(signingKeyPem);
+  const public_key = createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString();
+  const body = treeHeadBody(treeSize, rootHash, public_key, now);
+  const signature = signDetached(null, Buffer.from(treeHeadSigningPayload(body), "utf8"), privateKey);
+  return { ...body, public_key, signature: signature.toString("base64") };
+}
+
+/** signTreeHead with a signer backend instead of an in-process key. */
+export async function signTreeHeadWithSigner(
+  treeSize: number,
+  rootHash: string,
+  signer: Signer,
+  now: Date = new Date()
+): Promise<SignedTreeHead> {
+  const public_key = await signer.publicKey();
+  const body = treeHeadBody(treeSize, rootHash, public_key, now);
+  const signature = await signer.sign(Buffer.from(treeHeadSigningPayload(body), "utf8"));
+  return { ...body, public_key, signature: signature.toString("base64") };
+}
+
+/**
+ * Check an STH signature.
+ *
+ * @param options `publicKeyPem` pins the expected log key; without it the
+ *                key embedded in the STH is used (integrity only).
+ */
+export function verifyTreeHead(
+  head: SignedTreeHead,
+  options?: { publicKeyPem?: string }
+): { ok: boolean; reason?: string } {
+  try {
+    if (computeKeyId(head.public_key) !== head.key_id) {
+      return { ok: false, reason: "tree head key_id does not match its public key" };
+    }
+    if (options?.publicKeyPem && computeKeyId(options.publicKeyPem) !== head.key_id) {
+      return { ok: false, reason: `tree head signed by unexpected key_id ${head.key_id}` };
+    }
+    const ok = verifyDetached(
+      null,
+      Buffer.from(treeHeadSigningPayload(head), "utf8"),
+      createPublicKey(head.public_key),
+      Buffer.from(head.signature, "base64")
+    );
+    return ok ? { ok: true } : { ok: false, reason: "tree head signature verification failed" };
+  } catch (err) {
+    return { ok: false, reason: `tree head unreadable: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+/** Log directory: `HALO_TLOG_DIR`, else next to the console run index. */
+export function resolveLogDir(path?: string): string {
+  if (path) return resolve(path);
+  if (process.env.HALO_TLOG_DIR) return resolve(process.env.HALO_TLOG_DIR);
+  const runIndexPath = resolve(process.env.CONSOLE_RUN_INDEX_FILE ?? "out/console/run_index.json");
+  return join(dirname(runIndexPath), "transparency_log");
+}
+
+/**
+ * The signer every log writer signs tree heads with: the PEM key in
+ * `HALO_TLOG_SIGNING_KEY_FILE`, else the signer resolveSigner selects.
+ */
+export function resolveLogSigner(env: NodeJS.ProcessEnv = process.env): Signer {
+  if (env.HALO_TLOG_SIGNING_KEY_FILE) return createPemFileSigner(resolve(env.HALO_TLOG_SIGNING_KEY_FILE));
+  const signer = resolveSigner(env);
+  if (!signer) {
+    throw new Error("No transparency log signer: set HALO_TLOG_SIGNING_KEY_FILE, HALO_SIGNER or RECEIPT_SIGNING_KEY.");
+  }
+  return signer;
+}
+
+function readJsonLines<T>(path: string): T[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .map((line, index) => ({ line: line.trim(), lineNo: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNo }) => {
+      try {
+        return JSON.parse(line) as T;
+      } catch {
+        throw new Error(`Malformed transparency log line at ${path}:${lineNo}`);
+      }
+    });
+}
+
+export function readLogLeaves(dir: string): LogLeaf[] {
+  return readJsonLines<LogLeaf>(join(dir, "leaves.jsonl"));
+}
+
+export function readTreeHeads(dir: string): SignedTreeHead[] {
+  return readJsonLines<SignedTreeHead>(join(dir, "sth.jsonl"));
+}
+
+/** Latest signed tree head, if the log is non-empty. */
+export function latestTreeHead(dir: string): SignedTreeHead | undefined {
+  const heads = readTreeHeads(dir);
+  return heads[heads.length - 1];
+}
+
+/**
+ * Append a receipt to the log, sign the new tree head, and return the
+ * inclusion proof against it.
+ */
+export function appendToLog(
+  dir: string,
+  input: { kind: ChainReceiptKind; receipt_id: string; receipt_hash: string },
+  signingKeyPem: string,
+  now: Date = new Date()
+): { leaf: LogLeaf; tree_head: SignedTreeHead; proof: InclusionProof } {
+  const { leaf, leafHashes } = nextLeaf(dir, input, now);
+  const tree_head = signTreeHead(leafHashes.length, merkleRoot(leafHashes), signingKeyPem, now);
+  return commitAppend(dir, leaf, leafHashes, tree_head);
+}
+
+/** appendToLog with a signer backend instead of an in-process key. */
+export async function appendToLogWithSigner(
+  dir: string,
+  input: { kind: ChainReceiptKind; receipt_id: string; receipt_hash: string },
+  signer: Signer,
+  now: Date = new Date()
+): Promise<{ leaf: LogLeaf; tree_head: SignedTreeHead; proof: InclusionProof }> {
+  return withFileLock(join(dir, "leaves.jsonl"), async () => {
+    const { leaf, leafHashes } = nextLeaf(dir, input, now);
+    const tree_head = await signTreeHeadWithSigner(leafHashes.length, merkleRoot(leafHashes), signer, now);
+    return commitAppend(dir, leaf, leafHashes, tree_head);
+  });
+}
+
+function nextLeaf(
+  dir: string,
+  input: { kind: ChainReceiptKind; receipt_id: string; receipt_hash: string },
+  now: Date
+): { leaf: LogLeaf; leafHashes: string[] } {
+  const leaves = readLogLeaves(dir);
+  const leaf: LogLeaf = {
+    index: leaves.length,
+    kind: input.kind,
+    receipt_id: input.receipt_id,
+    receipt_hash: input.receipt_hash,
+    leaf_hash: computeLeafHash(input),
+    appended_at: now.toISOString(),
+  };
+  return { leaf, leafHashes: [...leaves.map((l) => l.leaf_hash), leaf.leaf_hash] };
+}
+
+function commitAppend(
+  dir: string,
+  leaf: LogLeaf,
+  leafHashes: string[],
+  tree_head: SignedTreeHead
+): { leaf: LogLeaf; tree_head: SignedTreeHead; proof: InclusionProof } {
+  mkdirSync(dir, { recursive: true });
+  appendFileSync(join(dir, "leaves.jsonl"), `${JSON.stringify(leaf)}\n`, "utf8");
+  appendFileSync(join(dir, "sth.jsonl"), `${JSON.stringify(tree_head)}\n`, "utf8");
+
+  return { leaf, tree_head, proof: buildInclusionProof(leafHashes, leaf, tree_head) };
+}
+
+function buildInclusionProof(leafHashes: string[], leaf: LogLeaf, head: SignedTreeHead): InclusionProof {
+  return {
+    log_version: TLOG_VERSION,
+    leaf_index: leaf.index,
+    kind: leaf.kind,
+    receipt_id: leaf.receipt_id,
+    receipt_hash: leaf.receipt_hash,
+    leaf_hash: leaf.leaf_hash,
+    audit_path: inclusionProof(leafHashes.slice(0, head.tree_size), leaf.index),
+    signed_tree_head: head,
+  };
+}
+
+function treeHeadAt(dir: string, treeSize?: number): SignedTreeHead {
+  const heads = readTreeHeads(dir);
+  const head =
+    treeSize === undefined ? heads[heads.length - 1] : heads.find((h) => h.tree_size === treeSize);
+  if (!head) {
+    throw new Error(
+      treeSize === undefined ? `Transparency log is empty: ${dir}` : `No signed tree head of size ${treeSize} in ${dir}`
+    );
+  }
+  return head;
+}
+
+/** Inclusion proof for a logged receipt against the STH of `treeSize` (default: latest). */
+export function proveInclusion(dir: string, receiptId: string, treeSize?: number): InclusionProof {
+  const leaves = readLogLeaves(dir);
+  const leaf = leaves.find((l) => l.receipt_id === receiptId);
+  if (!leaf) {
+    throw new Error(`Receipt ${receiptId} is not in the transparency log`);
+  }
+
+  const head = treeHeadAt(dir, treeSize);
+  if (leaf.index >= head.tree_size) {
+    throw new Error(`Receipt ${receiptId} was logged after tree size ${head.tree_size}`);
+  }
+  return buildInclusionProof(leaves.map((l) => l.leaf_hash), leaf, head);
+}
+
+/** Consistency proof between the STHs of `firstSize` and `secondSize` (default: latest). */
+export function proveConsistency(dir: string, firstSize: number, secondSize?: number): ConsistencyProof {
+  const first = treeHeadAt(dir, firstSize);
+  const second = treeHeadAt(dir, secondSize);
+  if (first.tree_size > second.tree_size) {
+    throw new Error(`First tree size ${first.tree_size} is larger than second tree size ${second.tree_size}`);
+  }
+
+  const leafHashes = readLogLeaves(dir)
+    .slice(0, second.tree_size)
+    .map((l) => l.leaf_hash);
+  return {
+    log_version: TLOG_VERSION,
+    first,
+    second,
+    proof: consistencyProof(leafHashes, first.tree_size),
+  };
+}
+
+// ── Verification ─────────────────────────────────────────────────────────────
+
+/**
+ * Verify an inclusion proof for a receipt, offline.
+ *
+ * Checks that the proof is about this receipt, that the audit path leads to
+ * the STH root, and that the STH is signed (by `publicKeyPem` when pinned).
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  receipt: unknown,
+  options?: { publicKeyPem?: string }
+): { ok: boolean; reason?: string } {
+  if (proof.log_version !== TLOG_VERSION) {
+    return { ok: false, reason: `unsupported log_version: ${String(proof.log_version)}` };
+  }
+
+  if (hashReceipt(receipt) !== proof.receipt_hash) {
+    return { ok: false, reason: "inclusion proof receipt_hash does not match the receipt" };
+  }
+
+  if (computeLeafHash(proof) !== proof.leaf_hash) {
+    return { ok: false, reason: "inclusion proof leaf_hash does not match its receipt fields" };
+  }
+
+  const head = proof.signed_tree_head;
+  if (!verifyInclusion(proof.leaf_hash, proof.leaf_index, head.tree_size, proof.audit_path, head.root_hash)) {
+    return { ok: false, reason: `audit path does not lead to the tree head root (size ${head.tree_size})` };
+  }
+
+  return verifyTreeHead(head, options);
+}
+
+/** Verify that `proof.second` extends `proof.first` and both heads are signed. */
+export function verifyConsistencyProof(
+  proof: ConsistencyProof,
+  options?: { publicKeyPem?: string }
+): { ok: boolean; reason?: string } {
+  for (const head of [proof.first, proof.second]) {
+    const headResult = verifyTreeHead(head, options);
+    if (!headResult.ok) return headResult;
+  }
+
+  const consistent = verifyConsistency(
+    proof.first.tree_size,
+    proof.second.tree_size,
+    proof.first.root_hash,
+    proof.second.root_hash,
+    proof.proof
+  );
+  return consistent
+    ? { ok: true }
+    : {
+        ok: false,
+        reason: `tree head ${proof.second.tree_size} is not consistent with tree head ${proof.first.tree_size}`,
+      };
+}
+
+/**
+ * Replay the whole log: every leaf must be contiguous and hash correctly,
+ * every STH must be signed and match the recomputed root at its size, and
+ * each STH must be consistent with the one before it.
+ */
+export function auditLog(dir: string, options?: { publicKeyPem?: string }): LogAuditResult {
+  const findings: LogFinding[] = [];
+  const leaves = readLogLeaves(dir);
+  const leafHashes = leaves.map((l) => l.leaf_hash);
+
+  leaves.forEach((leaf, position) => {
+    if (leaf.index !== position) {
+      findings.push({ kind: "LEAF_GAP", detail: `leaf at line ${position + 1} has index ${leaf.index}` });
+    }
+    if (computeLeafHash(leaf) !== leaf.leaf_hash) {
+      findings.push({ kind: "LEAF_TAMPERED", detail: `leaf ${leaf.index} (${leaf.receipt_id}) does not match its leaf_hash` });
+    }
+  });
+
+  let previous: SignedTreeHead | undefined;
+  for (const head of readTreeHeads(dir)) {
+    const signature = verifyTreeHead(head, options);
+    if (!signature.ok) {
+      findings.push({ kind: "STH_SIGNATURE_INVALID", detail: `tree size ${head.tree_size}: ${signature.reason}` });
+    }
+
+    if (head.tree_size > leafHashes.length || merkleRoot(leafHashes.slice(0, head.tree_size)) !== head.root_hash) {
+      findings.push({ kind: "STH_ROOT_MISMATCH", detail: `tree size ${head.tree_size}: root does not match the stored leaves` });
+    }
+
+    if (previous) {
+      const consistent =
+        previous.tree_size > 0 &&
+        previous.tree_size <= head.tree_size &&
+        head.tree_size <= leafHashes.length &&
+        verifyConsistency(
+          previous.tree_size,
+          head.tree_size,
+          previous.root_hash,
+          head.root_hash,
+          consistencyProof(leafHashes.slice(0, head.tree_size), previous.tree_size)
+        );
+      if (!consistent) {
+        findings.push({
+          kind: "STH_INCONSISTENT",
+          detail: `tree head ${head.tree_size} does not extend tree head ${previous.tree_size}`,
+        });
+      }
+    }
+    previous = head;
+  }
+
+  return {
+    ok: findings.length === 0,
+    tree_size: leaves.length,
+    root_hash: merkleRoot(leafHashes),
+    findings,
+  };
+}
@@ -2,54 +2,185 @@
  * HALO receipt verifier.
  *
  * Verifies that a receipt envelope has not been tampered with by
- * re-deriving the hash and signature from the stored response and
- * comparing them against the values in the envelope.
+ * re-deriving the hash from the stored response and checking the Ed25519
+ * signature against the keyring key named by the receipt's `key_id`.
+ *
+ * During a rotation both the outgoing and the new key verify receipts until
+ * the outgoing key's `expires_at`; revoked keys are refused immediately.
+ *
+ * A valid receipt also reports whether its signing time is attested by a
+ * trusted timestamp authority or only self-asserted (see timestamp.ts).
+ *
+ * Verification dispatches on `schema_version` (see schemaRegistry.ts):
+ * 2.0.0 receipts are checked as above; 1.0.0 receipts predate the keyring and
+ * are HMAC-SHA256 over `id|timestamp|responseHash`, checked against the
+ * shared secret in `HALO_SIGNING_KEY`.
  */
-import { createHmac, createHash, timingSafeEqual } from "node:crypto";
-import type { HaloReceipt } from "./signer.js";
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify } from "node:crypto";
+import { HALO_RECEIPT_SCHEMA_VERSION, receiptSigningPayload, type HaloReceipt } from "./signer.js";
+import { findKey, keyStatus, loadKeyring, type Keyring } from "./keyring.js";
+import { assessSigningTime, type SigningTimeAssessment } from "./timestamp.js";
+import { LEGACY_HALO_RECEIPT_VERSION } from "./schemaRegistry.js";
+
+export type VerifyFailureCode =
+  | "UNSUPPORTED_SCHEMA"
+  | "HASH_MISMATCH"
+  | "UNKNOWN_KEY"
+  | "KEY_REVOKED"
+  | "KEY_EXPIRED"
+  | "SIGNATURE_INVALID"
+  | "TIMESTAMP_INVALID";
 
 export interface VerifyResult {
   valid: boolean;
   /** Human-readable reason when `valid` is false */
   reason?: string;
+  /** Machine-readable failure category when `valid` is false */
+  code?: VerifyFailureCode;
+  /** Whether the signing time is attested or self-asserted; set once the signature verifies */
+  signing_time?: SigningTimeAssessment;
+}
+
+/** A schema_version 1.0.0 receipt: HMAC-signed, no key_id. */
+export interface LegacyHaloReceipt {
+  id: string;
+  timestamp: string;
+  responseHash: string;
+  /** HMAC-SHA256 over `id|timestamp|responseHash` (hex) */
+  signature: string;
+  response: string;
+  schema_version: typeof LEGACY_HALO_RECEIPT_VERSION;
+}
+
+export interface VerifyOptions {
+  /** Clock used for the key rotation overlap window */
+  now?: Date;
+  /** Trusted timestamp authority keys */
+  tsaKeyring?: Keyring;
+  /** Shared secret for 1.0.0 HMAC receipts; defaults to `HALO_SIGNING_KEY` */
+  legacyHmacKey?: string;
+}
+
+function responseHashMatches(receipt: { response: string; responseHash: string }): boolean {
+  return createHash("sha256").update(receipt.response, "utf8").digest("hex") === receipt.responseHash;
 }
 
+const HASH_MISMATCH: VerifyResult = {
+  valid: false,
+  code: "HASH_MISMATCH",
+  reason: "response hash mismatch – content may have been tampered",
+};
+
 /**
  * Verify a HALO receipt.
  *
- * @param receipt    The receipt envelope to verify.
- * @param signingKey Hex-encoded 32-byte HMAC secret.  Falls back to the
- *                   `HALO_SIGNING_KEY` environment variable when omitted.
+ * @param receipt The receipt envelope to verify.
+ * @param keyring Keyring holding the receipt's key (public-only is enough).
+ *                Loaded from `HALO_KEYRING_FILE` when omitted; unused for
+ *                1.0.0 receipts.
+ * @param options See VerifyOptions.
  */
-  const key = signingKey ?? process.env.HALO_SIGNING_KEY ?? "test-signing-key-32-bytes-padded!";
-
-  // 0. Validate schema_version
-  if (!receipt.schema_version || receipt.schema_version !== "1.0.0") {
+export function verifyReceipt(
+  receipt: HaloReceipt | LegacyHaloReceipt,
+  keyring?: Keyring,
+  options?: VerifyOptions
+): VerifyResult {
+  // 0. Dispatch on schema_version
+  if (receipt.schema_version === LEGACY_HALO_RECEIPT_VERSION) {
+    return verifyLegacyReceipt(receipt as LegacyHaloReceipt, options);
+  }
+  if (receipt.schema_version !== HALO_RECEIPT_SCHEMA_VERSION) {
     return {
       valid: false,
+      code: "UNSUPPORTED_SCHEMA",
       reason: `unknown or missing schema_version: ${receipt.schema_version ?? "undefined"}`,
     };
   }
+  return verifyEd25519Receipt(receipt as HaloReceipt, keyring, options);
+}
 
+/** schema_version 2.0.0: Ed25519 signature by a keyring key. */
+function verifyEd25519Receipt(receipt: HaloReceipt, keyring?: Keyring, options?: VerifyOptions): VerifyResult {
   // 1. Re-derive the response hash and compare
-  const expectedHash = createHash("sha256").update(receipt.response, "utf8").digest("hex");
-  if (expectedHash !== receipt.responseHash) {
-    return { valid: false, reason: "response hash mismatch – content may have been tampered" };
+  if (!responseHashMatches(receipt)) {
+    return HASH_MISMATCH;
+  }
+
+  // 2. Resolve the signing key and check its lifecycle state
+  const ring = keyring ?? loadKeyring();
+  const entry = receipt.key_id ? findKey(ring, receipt.key_id) : undefined;
+  if (!entry) {
+    return { valid: false, code: "UNKNOWN_KEY", reason: `unknown key_id: ${receipt.key_id ?? "undefined"}` };
+  }
+
+  const status = keyStatus(ring, entry, options?.now);
+  if (status === "revoked") {
+    return {
+      valid: false,
+      code: "KEY_REVOKED",
+      reason: `key_id ${entry.key_id} was revoked at ${entry.revoked_at}${
+        entry.revocation_reason ? ` (${entry.revocation_reason})` : ""
+      }`,
+    };
+  }
+  if (status === "expired") {
+    return {
+      valid: false,
+      code: "KEY_EXPIRED",
+      reason: `key_id ${entry.key_id} left its rotation window at ${entry.expires_at}`,
+    };
   }
 
-  // 2. Re-derive and compare the HMAC signature (constant-time comparison)
-  const payload = `${receipt.id}|${receipt.timestamp}|${receipt.responseHash}`;
-  const expectedSig = createHmac("sha256", key).update(payload, "utf8").digest("hex");
-  const sigBuffer = Buffer.from(receipt.signature, "hex");
-  const expectedBuffer = Buffer.from(expectedSig, "hex");
+  // 3. Verify the Ed25519 signature
+  const payload = Buffer.from(receiptSigningPayload(receipt), "utf8");
+  let signatureOk = false;
+  try {
+    signatureOk = verify(null, payload, createPublicKey(entry.public_key), Buffer.from(receipt.signature, "hex"));
+  } catch {
+    signatureOk = false;
+  }
 
-  if (sigBuffer.length !== expectedBuffer.length) {
-    return { valid: false, reason: "signature length mismatch" };
+  if (!signatureOk) {
+    return { valid: false, code: "SIGNATURE_INVALID", reason: "signature mismatch – receipt may have been forged" };
   }
 
-  if (!timingSafeEqual(sigBuffer, expectedBuffer)) {
-    return { valid: false, reason: "signature mismatch – receipt may have been forged" };
+  // 4. Classify the signing time; a timestamp token that fails to verify fails the receipt
+  const signing_time = assessSigningTime(receipt, {
+    tsaKeyring: options?.tsaKeyring,
+  });
+  if (signing_time.status === "invalid") {
+    return { valid: false, code: "TIMESTAMP_INVALID", reason: signing_time.reason, signing_time };
   }
 
-  return { valid: true };
+  return { valid: true, signing_time };
+}
+
+/** schema_version 1.0.0: HMAC-SHA256 with a shared secret. */
+function verifyLegacyReceipt(receipt: LegacyHaloReceipt, options?: VerifyOptions): VerifyResult {
+  if (!responseHashMatches(receipt)) {
+    return HASH_MISMATCH;
+  }
+
+  const secret = options?.legacyHmacKey ?? process.env.HALO_SIGNING_KEY;
+  if (!secret) {
+    return {
+      valid: false,
+      code: "UNKNOWN_KEY",
+      reason: "schema_version 1.0.0 receipts are HMAC-signed; set HALO_SIGNING_KEY to verify them",
+    };
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${receipt.id}|${receipt.timestamp}|${receipt.responseHash}`, "utf8")
+    .digest();
+  const actual = Buffer.from(String(receipt.signature ?? ""), "hex");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { valid: false, code: "SIGNATURE_INVALID", reason: "signature mismatch – receipt may have been forged" };
+  }
+
+  const signing_time = assessSigningTime(receipt, { tsaKeyring: options?.tsaKeyring });
+  if (signing_time.status === "invalid") {
+    return { valid: false, code: "TIMESTAMP_INVALID", reason: signing_time.reason, signing_time };
+  }
+  return { valid: true, signing_time };
 }
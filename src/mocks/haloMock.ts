@@ -4,5 +4,6 @@
  * These implementations are ONLY for deterministic, keyless unit tests.
  * The E2E test path uses src/adapters/haloReceiptsAdapter.ts instead.
  */
-export { signResponse, type HaloReceipt } from "../halo/signer.js";
+export { signHaloReceipt as signResponse, type HaloReceipt } from "../halo/signer.js";
 export { verifyReceipt, type VerifyResult } from "../halo/verifier.js";
+export { createKeyring, rotateKeyring, revokeKey, type Keyring } from "../halo/keyring.js";
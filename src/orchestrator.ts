@@ -1,64 +1,421 @@
 /**
  * Orchestrator – wires the full HALO + ELI pipeline.
  *
- * Chain:
- *   invokeLLM (real or mock) → HALO sign → ELI tag → semantic validate
+ * Chain (the default stages):
+ *   invoke (LLM, real or mock) → sign (HALO, [TSA timestamp]) → verify → tag (ELI) → validate
+ *
+ * The pipeline is a list of stages run in order over a shared state.  Each
+ * stage declares the state fields it `requires` and the fields it
+ * `provides`, so callers can add, replace or reorder stages (a PII redaction
+ * stage before "sign", a custom classifier in place of "tag", a policy gate
+ * after "validate") and have the order checked before anything runs.  Every
+ * run reports per-stage timing and errors.
  *
  * The `invokeLLM` function is injected so the orchestrator can be used
  * in both unit tests (with a mock) and the live E2E test (with a real
  * provider client).
+ *
+ * runFanOut sends one prompt through the pipeline once per provider/model, in
+ * parallel, and aligns the resulting ELI claims (see eli/agreement.ts).
  */
-import { signResponse } from "./halo/signer.js";
+import { performance } from "node:perf_hooks";
+import { signHaloReceipt } from "./halo/signer.js";
 import { verifyReceipt } from "./halo/verifier.js";
+import { loadKeyring } from "./halo/keyring.js";
+import { timestampReceipt, type TimestampAuthority } from "./halo/timestamp.js";
 import { tagResponse } from "./eli/tagger.js";
 import { validateLedger } from "./eli/validator.js";
+import { alignClaims, type AgreementMatrix } from "./eli/agreement.js";
 import type { HaloReceipt } from "./halo/signer.js";
+import type { Keyring } from "./halo/keyring.js";
+import type { VerifyResult } from "./halo/verifier.js";
 import type { EliLedger } from "./eli/tagger.js";
 import type { ValidationResult } from "./eli/validator.js";
+import type { RuleSet } from "./eli/rules.js";
+import type { Gazetteer } from "./eli/annotations.js";
 
 export type LLMInvoker = (prompt: string) => Promise<string>;
 
-export interface OrchestrationResult {
+export interface PipelineOptions {
+  /** Links the signed receipt into a receipt chain (see halo/receiptChain.ts) */
+  prevReceiptHash?: string;
+  /** Timestamp authority that countersigns the receipt hash (see halo/timestamp.ts) */
+  tsa?: TimestampAuthority;
+  /** Trusted TSA keys used when classifying the receipt's signing time */
+  tsaKeyring?: Keyring;
+  /** Stages to run instead of defaultStages(); see insertStage / replaceStage / removeStage */
+  stages?: PipelineStage[];
+  /** ELI rules the validate stage applies (default: the "default" pack; see eli/rules.ts) */
+  eliRules?: RuleSet;
+  /** Entity names the tag stage annotates with their types (see eli/annotations.ts) */
+  gazetteer?: Gazetteer;
+}
+
+/** The fields stages read and write. */
+export interface PipelineState {
   /** The prompt that was sent to the LLM */
   prompt: string;
-  /** Raw text response from the LLM */
+  /** Text response from the LLM, as later stages see it (a stage may rewrite it) */
   llmResponse: string;
   /** HALO receipt envelope */
   receipt: HaloReceipt;
   /** Result of offline receipt verification */
-  verification: { valid: boolean; reason?: string };
+  verification: VerifyResult;
   /** ELI claim ledger */
   ledger: EliLedger;
   /** Semantic validation result */
   validation: ValidationResult;
 }
 
+export type PipelineField = keyof PipelineState;
+
+/** What every stage can use besides the state. */
+export interface StageEnvironment {
+  invokeLLM: LLMInvoker;
+  keyring: Keyring;
+  options: PipelineOptions;
+  /** Scratch space for custom stages; returned as `annotations` */
+  annotations: Record<string, unknown>;
+}
+
+export interface PipelineStage {
+  name: string;
+  /** State fields that must be set before the stage runs */
+  requires: readonly PipelineField[];
+  /** State fields the stage sets; anything else it returns is ignored */
+  provides: readonly PipelineField[];
+  run(input: Partial<PipelineState>, env: StageEnvironment): Promise<Partial<PipelineState>>;
+}
+
+export interface StageReport {
+  name: string;
+  /** "skipped" for the stages after a failure */
+  status: "ok" | "failed" | "skipped";
+  durationMs: number;
+  error?: string;
+}
+
+export interface OrchestrationResult extends PipelineState {
+  ok: true;
+  /** One entry per stage, in run order */
+  stages: StageReport[];
+  /** Whatever custom stages left in `env.annotations` */
+  annotations: Record<string, unknown>;
+}
+
+/** A run in which a stage failed; the stages after it are reported as skipped. */
+export interface PipelineFailure {
+  ok: false;
+  /** The fields set before the failure */
+  state: Partial<PipelineState>;
+  /** One entry per stage, in run order, including the failed and skipped ones */
+  stages: StageReport[];
+  annotations: Record<string, unknown>;
+  /** Names the failed stage: `Pipeline stage "invoke" failed: …` */
+  error: string;
+}
+
+export type PipelineResult = OrchestrationResult | PipelineFailure;
+
+// ── Stages ───────────────────────────────────────────────────────────────────
+
+/**
+ * Define a stage with a typed contract: `run` receives exactly the fields in
+ * `requires` and must return every field in `provides`.
+ */
+export function defineStage<R extends PipelineField, P extends PipelineField>(stage: {
+  name: string;
+  requires: readonly R[];
+  provides: readonly P[];
+  run(input: Pick<PipelineState, R>, env: StageEnvironment): Pick<PipelineState, P> | Promise<Pick<PipelineState, P>>;
+}): PipelineStage {
+  return {
+    name: stage.name,
+    requires: stage.requires,
+    provides: stage.provides,
+    run: async (input, env) => stage.run(input as Pick<PipelineState, R>, env),
+  };
+}
+
+/** Step 1 – invoke the LLM */
+export const invokeStage = defineStage({
+  name: "invoke",
+  requires: ["prompt"],
+  provides: ["llmResponse"],
+  run: async ({ prompt }, env) => ({ llmResponse: await env.invokeLLM(prompt) }),
+});
+
+/** Step 2 – HALO sign, then timestamp when a TSA is configured */
+export const signStage = defineStage({
+  name: "sign",
+  requires: ["llmResponse"],
+  provides: ["receipt"],
+  run: async ({ llmResponse }, { keyring, options }) => {
+    const signed = signHaloReceipt(llmResponse, keyring, { prevReceiptHash: options.prevReceiptHash });
+    return { receipt: options.tsa ? await timestampReceipt(signed, options.tsa) : signed };
+  },
+});
+
+/** Step 3 – offline verify of the receipt just signed */
+export const verifyStage = defineStage({
+  name: "verify",
+  requires: ["receipt"],
+  provides: ["verification"],
+  run: ({ receipt }, { keyring, options }) => ({
+    verification: verifyReceipt(receipt, keyring, { tsaKeyring: options.tsaKeyring }),
+  }),
+});
+
+/** Step 4 – ELI tag */
+export const tagStage = defineStage({
+  name: "tag",
+  requires: ["llmResponse"],
+  provides: ["ledger"],
+  run: ({ llmResponse }, { options }) => ({ ledger: tagResponse(llmResponse, { gazetteer: options.gazetteer }) }),
+});
+
+/** Step 5 – semantic validate */
+export const validateStage = defineStage({
+  name: "validate",
+  requires: ["ledger", "llmResponse"],
+  provides: ["validation"],
+  run: ({ ledger, llmResponse }, { options }) => ({ validation: validateLedger(ledger, llmResponse, options.eliRules) }),
+});
+
+/** A fresh copy of the five built-in stages, in order. */
+export function defaultStages(): PipelineStage[] {
+  return [invokeStage, signStage, verifyStage, tagStage, validateStage];
+}
+
+function stageIndex(stages: PipelineStage[], name: string): number {
+  const index = stages.findIndex((stage) => stage.name === name);
+  if (index === -1) {
+    throw new Error(`No pipeline stage named "${name}" (have: ${stages.map((stage) => stage.name).join(", ")})`);
+  }
+  return index;
+}
+
+/** Return a copy of `stages` with `stage` inserted before or after the named stage. */
+export function insertStage(
+  stages: PipelineStage[],
+  position: { before: string } | { after: string },
+  stage: PipelineStage
+): PipelineStage[] {
+  const index = "before" in position ? stageIndex(stages, position.before) : stageIndex(stages, position.after) + 1;
+  return [...stages.slice(0, index), stage, ...stages.slice(index)];
+}
+
+/** Return a copy of `stages` with the named stage swapped for `stage`. */
+export function replaceStage(stages: PipelineStage[], name: string, stage: PipelineStage): PipelineStage[] {
+  const index = stageIndex(stages, name);
+  return [...stages.slice(0, index), stage, ...stages.slice(index + 1)];
+}
+
+/** Return a copy of `stages` without the named stage. */
+export function removeStage(stages: PipelineStage[], name: string): PipelineStage[] {
+  const index = stageIndex(stages, name);
+  return [...stages.slice(0, index), ...stages.slice(index + 1)];
+}
+
+/**
+ * Check a stage list before running it: names are unique and every stage's
+ * `requires` is provided by the initial fields or an earlier stage.  With
+ * `mustProvide`, those fields must be set by the end.  Throws on the first
+ * problem.
+ */
+export function checkStageOrder(
+  stages: PipelineStage[],
+  initial: readonly PipelineField[] = ["prompt"],
+  mustProvide: readonly PipelineField[] = []
+): void {
+  const names = new Set<string>();
+  const available = new Set<PipelineField>(initial);
+  for (const stage of stages) {
+    if (names.has(stage.name)) {
+      throw new Error(`Duplicate pipeline stage name: ${stage.name}`);
+    }
+    names.add(stage.name);
+    const missing = stage.requires.filter((field) => !available.has(field));
+    if (missing.length > 0) {
+      throw new Error(`Pipeline stage "${stage.name}" requires ${missing.join(", ")}, which no earlier stage provides`);
+    }
+    for (const field of stage.provides) available.add(field);
+  }
+  const unprovided = mustProvide.filter((field) => !available.has(field));
+  if (unprovided.length > 0) {
+    throw new Error(`Pipeline stages do not provide ${unprovided.join(", ")}`);
+  }
+}
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+export interface StageRun {
+  ok: boolean;
+  state: Partial<PipelineState>;
+  stages: StageReport[];
+  annotations: Record<string, unknown>;
+  /** What the failed stage threw, when a stage failed */
+  error?: unknown;
+}
+
+/**
+ * Run `stages` in order over `state`.  A stage that throws, or does not
+ * return every field it provides, is reported as failed and the remaining
+ * stages are skipped; nothing is thrown.  Only the stage order is checked up
+ * front (checkStageOrder), and that does throw.
+ */
+export async function runStages(
+  stages: PipelineStage[],
+  state: Partial<PipelineState>,
+  env: Omit<StageEnvironment, "annotations"> & { annotations?: Record<string, unknown> }
+): Promise<StageRun> {
+  checkStageOrder(stages, Object.keys(state) as PipelineField[]);
+  const environment: StageEnvironment = { ...env, annotations: env.annotations ?? {} };
+  const current: Partial<PipelineState> = { ...state };
+  const reports: StageReport[] = [];
+
+  let failed = false;
+  let error: unknown;
+  for (const stage of stages) {
+    if (failed) {
+      reports.push({ name: stage.name, status: "skipped", durationMs: 0 });
+      continue;
+    }
+    const input = Object.fromEntries(stage.requires.map((field) => [field, current[field]])) as Partial<PipelineState>;
+    const started = performance.now();
+    try {
+      const output = await stage.run(input, environment);
+      const missing = stage.provides.filter((field) => output?.[field] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`stage did not return ${missing.join(", ")}`);
+      }
+      for (const field of stage.provides) {
+        (current as Record<string, unknown>)[field] = output[field];
+      }
+      reports.push({ name: stage.name, status: "ok", durationMs: performance.now() - started });
+    } catch (err) {
+      failed = true;
+      error = err;
+      reports.push({
+        name: stage.name,
+        status: "failed",
+        durationMs: performance.now() - started,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return {
+    ok: !failed,
+    state: current,
+    stages: reports,
+    annotations: environment.annotations,
+    ...(failed ? { error } : {}),
+  };
+}
+
+const RESULT_FIELDS: readonly PipelineField[] = ["llmResponse", "receipt", "verification", "ledger", "validation"];
+
 /**
  * Run the full pipeline for a single prompt.
  *
- * @param prompt     The prompt to send to the LLM.
- * @param invokeLLM  Function that calls the LLM and returns the raw response.
- * @param signingKey Optional override for the HALO signing key.
+ * @param prompt    The prompt to send to the LLM.
+ * @param invokeLLM Function that calls the LLM and returns the raw response.
+ * @param keyring   Optional HALO keyring; loaded from `HALO_KEYRING_FILE`
+ *                  when omitted.
+ * @param options   Optional receipt-chain linkage, timestamp authority and
+ *                  stage list.  The stages must provide every field of
+ *                  OrchestrationResult.
+ * A failed stage is not thrown: the result has `ok: false`, the stage
+ * reports (failed and skipped ones included) and the partial state, and the
+ * caller decides what to do.  Only a bad stage order throws, before the LLM
+ * is called.
  */
 export async function runPipeline(
   prompt: string,
   invokeLLM: LLMInvoker,
-  signingKey?: string
-): Promise<OrchestrationResult> {
-  // Step 1 – invoke the LLM
-  const llmResponse = await invokeLLM(prompt);
+  keyring?: Keyring,
+  options?: PipelineOptions
+): Promise<PipelineResult> {
+  const stages = options?.stages ?? defaultStages();
+  checkStageOrder(stages, ["prompt"], RESULT_FIELDS);
+
+  const run = await runStages(stages, { prompt }, { invokeLLM, keyring: keyring ?? loadKeyring(), options: options ?? {} });
+  if (!run.ok) {
+    const failed = run.stages.find((report) => report.status === "failed")!;
+    return {
+      ok: false,
+      state: run.state,
+      stages: run.stages,
+      annotations: run.annotations,
+      error: `Pipeline stage "${failed.name}" failed: ${failed.error}`,
+    };
+  }
+  return { ...(run.state as PipelineState), ok: true, stages: run.stages, annotations: run.annotations };
+}
 
-  // Step 2 – HALO sign
-  const receipt = signResponse(llmResponse, signingKey);
+// ── Fan-out ──────────────────────────────────────────────────────────────────
 
-  // Step 3 – offline verify (gate: abort if the receipt is already broken)
-  const verification = verifyReceipt(receipt, signingKey);
+export interface FanOutTarget {
+  /** Unique column label, e.g. "anthropic:claude-3-5-sonnet-20241022" */
+  label: string;
+  provider?: string;
+  model?: string;
+  invokeLLM: LLMInvoker;
+}
 
-  // Step 4 – ELI tag
-  const ledger = tagResponse(llmResponse);
+export interface FanOutRun {
+  label: string;
+  provider?: string;
+  model?: string;
+  ok: boolean;
+  result?: OrchestrationResult;
+  /** Why the run failed, naming the stage */
+  error?: string;
+  /** Stage reports of a failed run */
+  stages?: StageReport[];
+}
+
+export interface FanOutResult {
+  runs: FanOutRun[];
+  /** Claim agreement across the runs that succeeded */
+  agreement: AgreementMatrix;
+}
+
+/**
+ * Run the pipeline for `prompt` once per target, all at once.  Every run signs
+ * its own receipt; a run that fails is reported, not thrown, and left out of
+ * the agreement matrix.
+ */
+export async function runFanOut(
+  prompt: string,
+  targets: FanOutTarget[],
+  keyring?: Keyring,
+  options?: PipelineOptions & { agreementThreshold?: number }
+): Promise<FanOutResult> {
+  const labels = targets.map((target) => target.label);
+  if (targets.length === 0 || new Set(labels).size !== labels.length) {
+    throw new Error(`Fan-out needs at least one target and unique labels (got: ${labels.join(", ")})`);
+  }
+  const signingKeyring = keyring ?? loadKeyring();
 
-  // Step 5 – semantic validate
-  const validation = validateLedger(ledger, llmResponse);
+  const runs = await Promise.all(
+    targets.map(async ({ label, provider, model, invokeLLM }): Promise<FanOutRun> => {
+      const meta = { label, ...(provider !== undefined ? { provider } : {}), ...(model !== undefined ? { model } : {}) };
+      try {
+        const result = await runPipeline(prompt, invokeLLM, signingKeyring, options);
+        return result.ok
+          ? { ...meta, ok: true, result }
+          : { ...meta, ok: false, error: result.error, stages: result.stages };
+      } catch (err) {
+        return { ...meta, ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    })
+  );
 
-  return { prompt, llmResponse, receipt, verification, ledger, validation };
+  const agreement = alignClaims(
+    runs.filter((run) => run.ok).map((run) => ({ label: run.label, ledger: run.result!.ledger })),
+    { threshold: options?.agreementThreshold }
+  );
+  return { runs, agreement };
 }
@@ -11,12 +11,38 @@ import { fileURLToPath } from "node:url";
 import { createHash, randomUUID } from "node:crypto";
 import type { Request, Response } from "express";
 import rateLimit from "express-rate-limit";
-import { runPipeline } from "../orchestrator.js";
-import { runVerify } from "../cli/verify.js";
+import { runPipeline, type LLMInvoker } from "../orchestrator.js";
+import { resolveKeyringPath } from "../halo/keyring.js";
+import {
+  appendChainEntry,
+  hashReceipt,
+  nextPrevReceiptHash,
+  resolveChainPath,
+  withChainLock,
+} from "../halo/receiptChain.js";
+import { appendToLogWithSigner, resolveLogDir, resolveLogSigner } from "../halo/transparencyLog.js";
+import { loadTsaKeyring, resolveTimestampAuthority } from "../halo/timestamp.js";
+import {
+  checkReplay,
+  ensureRunIndexSchema,
+  loadSeenReceipts,
+  receiptIdentity,
+  resolveFreshnessWindowMs,
+  upsertRunRecord,
+  type RunIndexRecord,
+} from "../halo/replay.js";
+import { CONSOLE_ARTIFACT_VERSION } from "../halo/schemaRegistry.js";
+import { resolveRuleSet, RULE_PACKS } from "../eli/rules.js";
+import { resolveGazetteer } from "../eli/annotations.js";
+import { describePolicyFindings, evaluatePolicy, resolvePolicy, resolveQuarantineDir } from "../halo/policy.js";
+import { checkArtifactReplay, runVerify } from "../cli/verify.js";
 import { scanForLeaks } from "../utils/leakScan.js";
-import { invokeLLMWithHaloAdapter } from "../adapters/haloReceiptsAdapter.js";
-import { invokeAnthropicLLM } from "../adapters/anthropicAdapter.js";
-import { invokeGeminiLLM } from "../adapters/geminiAdapter.js";
+import {
+  createProviderInvoker,
+  defaultModel,
+  ensureProviderSecrets,
+  type LLMProvider,
+} from "../adapters/providerInvoker.js";
 import { renderMasterConsoleHtml } from "./masterConsoleHtml";
 
 const require = createRequire(import.meta.url);
@@ -38,6 +64,8 @@ const uiDist = resolve(process.env.CONSOLE_UI_DIST_DIR ?? "ui/dist");
 const runIndexPath = resolve(
   process.env.CONSOLE_RUN_INDEX_FILE ?? "out/console/run_index.json"
 );
+const chainPath = resolveChainPath();
+const logDir = resolveLogDir();
 
 const rateWindowMs = Number(process.env.RATE_LIMIT_WINDOW_MS ?? "60000");
 const rateMax = Number(process.env.RATE_LIMIT_MAX ?? "120");
@@ -54,6 +82,7 @@ app.get("/api/health", async (_req: Request, res: Response) => {
   const keys = {
     receipt_signing_key: hasSecret("RECEIPT_SIGNING_KEY"),
     receipt_verify_key: hasSecret("RECEIPT_VERIFY_KEY"),
+    halo_keyring: existsSync(resolveKeyringPath()),
     openai_api_key: hasSecret("OPENAI_API_KEY"),
     anthropic_api_key: hasSecret("ANTHROPIC_API_KEY"),
     gemini_api_key: hasSecret("GEMINI_API_KEY"),
@@ -69,10 +98,26 @@ app.get("/api/health", async (_req: Request, res: Response) => {
       db.status !== "fail" &&
       keys.receipt_signing_key &&
       keys.receipt_verify_key &&
+      keys.halo_keyring &&
       (keys.openai_api_key || keys.anthropic_api_key || keys.gemini_api_key),
   });
 });
 
+/**
+ * Call the provider now and return an invoker that replays its response, or
+ * rethrows its error, so the pipeline's invoke stage reports it as usual.
+ */
+async function settledInvoker(invoke: LLMInvoker, prompt: string): Promise<LLMInvoker> {
+  try {
+    const response = await invoke(prompt);
+    return async () => response;
+  } catch (err) {
+    return async () => {
+      throw err;
+    };
+  }
+}
+
 app.post("/api/run", apiRateLimiter, async (req: Request, res: Response) => {
   try {
     const provider = normalizeProvider(req.body?.provider);
@@ -84,91 +129,146 @@ app.post("/api/run", apiRateLimiter, async (req: Request, res: Response) => {
       res.status(400).json({ ok: false, error: "prompt is required" });
       return;
     }
+    const rulePack = typeof req.body?.rulePack === "string" ? req.body.rulePack : undefined;
+    if (rulePack !== undefined && !RULE_PACKS[rulePack]) {
+      res.status(400).json({ ok: false, error: `rulePack must be one of ${Object.keys(RULE_PACKS).join(", ")}` });
+      return;
+    }
 
     ensureProviderSecrets(provider);
 
-    const llmInvoker = async (promptText: string): Promise<string> => {
-      if (provider === "openai") {
-        const adapterResult = await invokeLLMWithHaloAdapter({
-          endpoint: "/chat/completions",
-          model,
-          promptOrMessages: promptText,
-        });
-        return adapterResult.outputText;
+    // The provider call stays outside the chain lock so runs do not queue behind it.
+    const invokeLLM = await settledInvoker(createProviderInvoker({ provider, model }), prompt);
+
+    // Reading the chain head, signing and appending must not interleave with another run.
+    await withChainLock(chainPath, async () => {
+      const pipelineResult = await runPipeline(prompt, invokeLLM, undefined, {
+        prevReceiptHash: nextPrevReceiptHash(chainPath),
+        tsa: resolveTimestampAuthority(),
+        tsaKeyring: loadTsaKeyring(),
+        eliRules: resolveRuleSet({ pack: rulePack }),
+        gazetteer: resolveGazetteer(),
+      });
+      if (!pipelineResult.ok) {
+        res.status(500).json({ ok: false, error: pipelineResult.error, stages: pipelineResult.stages });
+        return;
       }
-
-      if (provider === "anthropic") {
-        const anthropicResult = await invokeAnthropicLLM({
-          model,
-          messages: [{ role: "user", content: promptText }],
+      const runId = createRunId();
+
+      const leakScan = scanForLeaks(
+        [
+          { field: "prompt", value: prompt },
+          { field: "response", value: pipelineResult.llmResponse },
+          { field: "receipt", value: pipelineResult.receipt },
+        ],
+        [process.env.OPENAI_API_KEY, process.env.ANTHROPIC_API_KEY].filter(
+          (value): value is string => typeof value === "string" && value.length > 0
+        ).concat([process.env.GEMINI_API_KEY].filter((value): value is string => typeof value === "string" && value.length > 0))
+      );
+
+      const policy = resolvePolicy();
+      const decision = policy
+        ? evaluatePolicy(policy, {
+            receiptValid: pipelineResult.verification.valid,
+            validation: pipelineResult.validation,
+            leakScan,
+          })
+        : undefined;
+      if (decision?.action === "reject") {
+        res.status(422).json({
+          ok: false,
+          error: `Run rejected by policy: ${describePolicyFindings(decision).join("; ")}`,
+          policy: decision,
+          leakScan,
         });
-        return anthropicResult.outputText;
+        return;
       }
-
-      const geminiResult = await invokeGeminiLLM({
+      const status = decision?.action === "quarantine" ? "quarantined" : "created";
+      const artifactDir = status === "quarantined" ? resolveQuarantineDir(outDir) : outDir;
+
+      const receiptHash = hashReceipt(pipelineResult.receipt);
+      const replay = checkReplay(
+        receiptIdentity(pipelineResult.receipt, runId)!,
+        await loadSeenReceipts(runIndexPath),
+        { freshnessWindowMs: resolveFreshnessWindowMs() }
+      );
+      const logged = await appendToLogWithSigner(
+        logDir,
+        { kind: "halo", receipt_id: pipelineResult.receipt.id, receipt_hash: receiptHash },
+        resolveLogSigner()
+      );
+
+      mkdirSync(artifactDir, { recursive: true });
+
+      const artifactPath = join(artifactDir, `${runId}.console_artifact.json`);
+      const artifactPayload = {
+        schemaVersion: CONSOLE_ARTIFACT_VERSION,
+        runId,
+        provider,
         model,
-        messages: [{ role: "user", content: promptText }],
+        prompt,
+        outputText: pipelineResult.llmResponse,
+        receipt: pipelineResult.receipt,
+        verification: pipelineResult.verification,
+        ledger: pipelineResult.ledger,
+        semanticValidation: pipelineResult.validation,
+        leakScan,
+        transparency: logged.proof,
+        replay,
+        ...(decision ? { policy: decision } : {}),
+        createdAt: new Date().toISOString(),
+      };
+
+      const artifactContent = `${JSON.stringify(artifactPayload, null, 2)}\n`;
+      const contentHash = sha256Hex(artifactContent);
+
+      writeFileSync(artifactPath, artifactContent, "utf8");
+
+      const chainEntry = appendChainEntry(chainPath, {
+        kind: "halo",
+        receipt_id: pipelineResult.receipt.id,
+        receipt_hash: receiptHash,
+        run_id: runId,
+        receipt_path: artifactPath,
       });
-      return geminiResult.outputText;
-    };
 
-    const pipelineResult = await runPipeline(prompt, llmInvoker);
-    const runId = createRunId();
-
-    const leakScan = scanForLeaks(
-      [
-        { field: "prompt", value: prompt },
-        { field: "response", value: pipelineResult.llmResponse },
-        { field: "receipt", value: pipelineResult.receipt },
-      ],
-      [process.env.OPENAI_API_KEY, process.env.ANTHROPIC_API_KEY].filter(
-        (value): value is string => typeof value === "string" && value.length > 0
-      ).concat([process.env.GEMINI_API_KEY].filter((value): value is string => typeof value === "string" && value.length > 0))
-    );
-
-    mkdirSync(outDir, { recursive: true });
-
-    const artifactPath = join(outDir, `${runId}.console_artifact.json`);
-    const artifactPayload = {
-      runId,
-      provider,
-      model,
-      prompt,
-      outputText: pipelineResult.llmResponse,
-      receipt: pipelineResult.receipt,
-      verification: pipelineResult.verification,
-      ledger: pipelineResult.ledger,
-      semanticValidation: pipelineResult.validation,
-      leakScan,
-      createdAt: new Date().toISOString(),
-    };
-
-    const artifactContent = `${JSON.stringify(artifactPayload, null, 2)}\n`;
-    const contentHash = sha256Hex(artifactContent);
-
-    writeFileSync(artifactPath, artifactContent, "utf8");
-
-    await upsertRunIndex({
-      runId,
-      provider,
-      model,
-      status: "created",
-      contentHash,
-      artifactDir: outDir,
-      artifactPath,
-      promptHash: sha256Hex(prompt),
-      createdAt: artifactPayload.createdAt,
-    });
-
-    res.json({
-      ok: true,
-      run_id: runId,
-      provider,
-      model,
-      artifactPath,
-      inspectorUrl: "/inspector",
-      verification: pipelineResult.verification,
-      leakScan,
+      await upsertRunRecord(
+        {
+          runId,
+          provider,
+          model,
+          status,
+          contentHash,
+          artifactDir,
+          artifactPath,
+          promptHash: sha256Hex(prompt),
+          receiptId: pipelineResult.receipt.id,
+          receiptHash,
+          receiptContentHash: pipelineResult.receipt.responseHash,
+          createdAt: artifactPayload.createdAt,
+        },
+        runIndexPath
+      );
+
+      res.json({
+        ok: true,
+        run_id: runId,
+        status,
+        provider,
+        model,
+        artifactPath,
+        inspectorUrl: "/inspector",
+        verification: pipelineResult.verification,
+        chain: { seq: chainEntry.seq, entry_hash: chainEntry.entry_hash },
+        transparency: {
+          leaf_index: logged.leaf.index,
+          tree_size: logged.tree_head.tree_size,
+          root_hash: logged.tree_head.root_hash,
+        },
+        replay,
+        leakScan,
+        ...(decision ? { policy: decision } : {}),
+      });
     });
   } catch (error) {
     res.status(500).json({ ok: false, error: formatError(error) });
@@ -192,7 +292,9 @@ app.post("/api/verify", apiRateLimiter, async (req: Request, res: Response) => {
       resolve("out/console"),
     ]);
 
-    res.json({ ok, artifactPath });
+    const replay = await checkArtifactReplay(readJsonIfExists(artifactPath));
+
+    res.json({ ok, artifactPath, replay: { ok: replay.ok, findings: replay.findings } });
   } catch (error) {
     res.status(500).json({ ok: false, error: formatError(error) });
   }
@@ -401,37 +503,13 @@ function apiHardeningMiddleware(req: Request, res: Response, next: () => void):
   next();
 }
 
-function normalizeProvider(value: unknown): "openai" | "anthropic" | "gemini" {
+function normalizeProvider(value: unknown): LLMProvider {
   const lowered = String(value ?? "openai").toLowerCase();
   if (lowered === "anthropic") return "anthropic";
   if (lowered === "gemini") return "gemini";
   return "openai";
 }
 
-function defaultModel(provider: "openai" | "anthropic" | "gemini"): string {
-  if (provider === "anthropic") {
-    return process.env.ANTHROPIC_MODEL ?? "claude-3-5-sonnet-20241022";
-  }
-
-  if (provider === "gemini") {
-    return process.env.GEMINI_MODEL ?? "gemini-1.5-flash";
-  }
-
-  return process.env.E2E_MODEL ?? "gpt-4.1-mini";
-}
-
-function ensureProviderSecrets(provider: "openai" | "anthropic" | "gemini"): void {
-  if (provider === "openai" && !process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is required when provider=openai");
-  }
-  if (provider === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
-    throw new Error("ANTHROPIC_API_KEY is required when provider=anthropic");
-  }
-  if (provider === "gemini" && !process.env.GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY is required when provider=gemini");
-  }
-}
-
 function stringOrDefault(value: unknown, fallback: string): string {
   return typeof value === "string" && value.trim().length > 0 ? value : fallback;
 }
@@ -464,17 +542,7 @@ function readJsonIfExists(filePath: string): unknown | null {
   }
 }
 
-type RunRecord = {
-  runId: string;
-  provider: string;
-  model: string;
-  status: string;
-  contentHash: string;
-  artifactDir: string;
-  artifactPath: string;
-  promptHash: string;
-  createdAt: string;
-};
+type RunRecord = RunIndexRecord;
 
 async function checkDatabase(): Promise<{ status: "ok" | "skipped" | "fail"; detail: string }> {
   const databaseUrl = process.env.DATABASE_URL;
@@ -485,7 +553,7 @@ async function checkDatabase(): Promise<{ status: "ok" | "skipped" | "fail"; det
   const client = new Client({ connectionString: databaseUrl });
   try {
     await client.connect();
-    await ensureSchema(client);
+    await ensureRunIndexSchema(client);
     await client.query("select 1");
     return { status: "ok", detail: "connected" };
   } catch (error) {
@@ -506,7 +574,7 @@ async function withDatabase<T>(
   const client = new Client({ connectionString: databaseUrl });
   try {
     await client.connect();
-    await ensureSchema(client);
+    await ensureRunIndexSchema(client);
     return await work(client);
   } catch {
     return null;
@@ -515,82 +583,6 @@ async function withDatabase<T>(
   }
 }
 
-async function ensureSchema(client: import("pg").Client): Promise<void> {
-  await client.query(`
-    create table if not exists runs (
-      run_id text primary key,
-      provider text not null,
-      model text not null,
-      status text not null,
-      content_hash text not null,
-      artifact_dir text not null,
-      artifact_path text not null,
-      prompt_hash text not null,
-      created_at timestamptz not null default now()
-    )
-  `);
-
-  await client.query(`alter table runs add column if not exists artifact_path text`);
-  await client.query(`alter table runs add column if not exists prompt_hash text`);
-  await client.query(`alter table runs add column if not exists created_at timestamptz default now()`);
-}
-
-async function upsertRunIndex(entry: RunRecord): Promise<void> {
-  const wroteToDb = await withDatabase(async (client) => {
-    await client.query(
-      `
-      insert into runs (
-        run_id,
-        provider,
-        model,
-        status,
-        content_hash,
-        artifact_dir,
-        artifact_path,
-        prompt_hash,
-        created_at
-      )
-      values ($1, $2, $3, $4, $5, $6, $7, $8, $9::timestamptz)
-      on conflict (run_id)
-      do update set
-        provider = excluded.provider,
-        model = excluded.model,
-        status = excluded.status,
-        content_hash = excluded.content_hash,
-        artifact_dir = excluded.artifact_dir,
-        artifact_path = excluded.artifact_path,
-        prompt_hash = excluded.prompt_hash,
-        created_at = excluded.created_at
-    `,
-      [
-        entry.runId,
-        entry.provider,
-        entry.model,
-        entry.status,
-        entry.contentHash,
-        entry.artifactDir,
-        entry.artifactPath,
-        entry.promptHash,
-        entry.createdAt,
-      ]
-    );
-    return true;
-  });
-
-  if (wroteToDb) {
-    return;
-  }
-
-  const records = readRunIndexFile();
-  const index = records.findIndex((record) => record.runId === entry.runId);
-  if (index >= 0) {
-    records[index] = entry;
-  } else {
-    records.push(entry);
-  }
-  writeRunIndexFile(records);
-}
-
 async function listRunIndex(): Promise<RunRecord[]> {
   const dbRows = await withDatabase(async (client) => {
     const result = await client.query<{
@@ -602,6 +594,9 @@ async function listRunIndex(): Promise<RunRecord[]> {
       artifact_dir: string;
       artifact_path: string | null;
       prompt_hash: string | null;
+      receipt_id: string | null;
+      receipt_hash: string | null;
+      receipt_content_hash: string | null;
       created_at: string;
     }>(
       `
@@ -614,6 +609,9 @@ async function listRunIndex(): Promise<RunRecord[]> {
         artifact_dir,
         artifact_path,
         prompt_hash,
+        receipt_id,
+        receipt_hash,
+        receipt_content_hash,
         created_at::text
       from runs
       order by created_at desc
@@ -633,6 +631,9 @@ async function listRunIndex(): Promise<RunRecord[]> {
           ? row.artifact_path
           : join(row.artifact_dir, `${row.run_id}.console_artifact.json`),
       promptHash: row.prompt_hash ?? "",
+      receiptId: row.receipt_id ?? undefined,
+      receiptHash: row.receipt_hash ?? undefined,
+      receiptContentHash: row.receipt_content_hash ?? undefined,
       createdAt: row.created_at,
     }));
   });
@@ -655,6 +656,9 @@ async function getRunIndex(runId: string): Promise<RunRecord | null> {
       artifact_dir: string;
       artifact_path: string | null;
       prompt_hash: string | null;
+      receipt_id: string | null;
+      receipt_hash: string | null;
+      receipt_content_hash: string | null;
       created_at: string;
     }>(
       `
@@ -667,6 +671,9 @@ async function getRunIndex(runId: string): Promise<RunRecord | null> {
         artifact_dir,
         artifact_path,
         prompt_hash,
+        receipt_id,
+        receipt_hash,
+        receipt_content_hash,
         created_at::text
       from runs
       where run_id = $1
@@ -692,6 +699,9 @@ async function getRunIndex(runId: string): Promise<RunRecord | null> {
           ? row.artifact_path
           : join(row.artifact_dir, `${row.run_id}.console_artifact.json`),
       promptHash: row.prompt_hash ?? "",
+      receiptId: row.receipt_id ?? undefined,
+      receiptHash: row.receipt_hash ?? undefined,
+      receiptContentHash: row.receipt_content_hash ?? undefined,
       createdAt: row.created_at,
     };
   });
@@ -17,10 +17,13 @@
 
 import type { EliLedger } from "../eli/tagger.js";
 import type { EliValidationResult } from "../adapters/eliAdapter.js";
+import type { PolicyDecision } from "../halo/policy.js";
 
 // ── Meta ─────────────────────────────────────────────────────────────────────
 
 export interface ArtifactMeta {
+  /** Artifact schema version (see src/halo/schemaRegistry.ts); absent in older artifacts */
+  schemaVersion?: string;
   /** ISO-8601 timestamp when the artifact was produced */
   timestamp: string;
   /** Value of `version` from package.json */
@@ -87,4 +90,6 @@ export interface Artifact {
   security: {
     credentialLeakScan: LeakScanResult;
   };
+  /** Run policy decision (see src/halo/policy.ts); present when a policy was applied */
+  policy?: PolicyDecision;
 }
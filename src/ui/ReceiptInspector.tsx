@@ -1,13 +1,21 @@
-import { useMemo, useState, type ChangeEvent } from "react";
+import { useMemo, useState, type ChangeEvent, type JSX } from "react";
 import { scanForLeaks } from "../utils/leakScan.js";
-import { recomputeVerification, type LocalVerificationResult } from "./localVerification.js";
+import {
+  decryptEvidencePack,
+  recomputeVerification,
+  verifyBundleManifest,
+  verifyCiphertextBinding,
+  type LocalVerificationResult,
+} from "./localVerification.js";
 import {
   normalizeArtifact,
+  type EliAnnotation,
   type NormalizedArtifact,
   type NormalizedEvidencePack,
   type NormalizedMasterReceipt,
   type ProvenanceLabel,
 } from "./normalizeArtifact.js";
+import { layoutClaimGraph, type ClaimGraph } from "./claimGraph.js";
 
 type UploadedKind = "master" | "evidence" | "artifact";
 
@@ -24,6 +32,9 @@ const DEFAULT_VERIFICATION: LocalVerificationResult = {
   signatureChecked: false,
   signatureValid: false,
   signatureReason: "Signature not verifiable (missing data).",
+  transparencyChecked: false,
+  transparencyValid: false,
+  transparencyReason: "No transparency log inclusion proof loaded.",
   isVerified: false,
 };
 
@@ -34,11 +45,21 @@ export function ReceiptInspector(): JSX.Element {
   const [localVerification, setLocalVerification] = useState<LocalVerificationResult>(
     DEFAULT_VERIFICATION
   );
+  const [decryptKeyPem, setDecryptKeyPem] = useState("");
+  const [decryptedEvidence, setDecryptedEvidence] = useState<NormalizedEvidencePack | null>(null);
+  const [encryptionStatus, setEncryptionStatus] = useState<string[]>([]);
+  const [bundleStatus, setBundleStatus] = useState<{ ok: boolean; reason: string; publicKeyPem?: string } | null>(
+    null
+  );
 
   const effectiveMaster: NormalizedMasterReceipt | undefined =
     masterUpload?.normalized.master_receipt ?? artifactUpload?.normalized.master_receipt;
+  const encryptedEvidence: Record<string, unknown> | undefined =
+    evidenceUpload?.normalized.encrypted_evidence ?? artifactUpload?.normalized.encrypted_evidence;
   const effectiveEvidence: NormalizedEvidencePack | undefined =
-    evidenceUpload?.normalized.evidence_pack ?? artifactUpload?.normalized.evidence_pack;
+    decryptedEvidence ??
+    evidenceUpload?.normalized.evidence_pack ??
+    artifactUpload?.normalized.evidence_pack;
 
   const warnings = useMemo(() => {
     const output: string[] = [];
@@ -79,6 +100,8 @@ export function ReceiptInspector(): JSX.Element {
     return output;
   }, [artifactUpload, effectiveEvidence, effectiveMaster, evidenceUpload, masterUpload]);
 
+  const claimGraph = useMemo(() => layoutClaimGraph(effectiveEvidence?.eli_assertions ?? []), [effectiveEvidence]);
+
   const leakResult = useMemo(() => {
     const targets = [
       masterUpload ? { field: "master_receipt", value: masterUpload.raw } : undefined,
@@ -111,6 +134,10 @@ export function ReceiptInspector(): JSX.Element {
     if (kind === "master") setMasterUpload(payload);
     if (kind === "evidence") setEvidenceUpload(payload);
     if (kind === "artifact") setArtifactUpload(payload);
+    if (kind !== "master") {
+      setDecryptedEvidence(null);
+      setEncryptionStatus([]);
+    }
 
     const nextMaster =
       kind === "master"
@@ -126,10 +153,47 @@ export function ReceiptInspector(): JSX.Element {
           ? normalized.evidence_pack
           : effectiveEvidence;
 
+    const nextEncrypted = kind === "master" ? encryptedEvidence : normalized.encrypted_evidence;
+    if (nextEncrypted) {
+      const binding = await verifyCiphertextBinding(nextMaster, nextEncrypted);
+      setEncryptionStatus([binding.reason]);
+    }
+
+    let nextBundle = bundleStatus;
+    if (kind === "artifact") {
+      nextBundle = normalized.bundle
+        ? await verifyBundleManifest(normalized.bundle, { pinnedKeyPem: envString("VITE_RECEIPT_VERIFY_KEY") })
+        : null;
+      setBundleStatus(nextBundle);
+    }
+
     const result = await recomputeVerification(nextMaster, nextEvidence, {
-      publicKeyPem: envString("VITE_RECEIPT_VERIFY_KEY"),
+      publicKeyPem: envString("VITE_RECEIPT_VERIFY_KEY") ?? nextBundle?.publicKeyPem,
     });
-    setLocalVerification(result);
+    setLocalVerification({ ...result, isVerified: result.isVerified && (nextBundle?.ok ?? true) });
+  }
+
+  async function handleDecrypt(): Promise<void> {
+    if (!encryptedEvidence) return;
+
+    const binding = await verifyCiphertextBinding(effectiveMaster, encryptedEvidence);
+    try {
+      const decrypted = await decryptEvidencePack(encryptedEvidence, decryptKeyPem);
+      const evidence = normalizeArtifact({ evidence_pack: decrypted }).evidence_pack ?? null;
+      setDecryptedEvidence(evidence);
+      setEncryptionStatus([binding.reason, "Evidence pack decrypted locally."]);
+
+      const result = await recomputeVerification(effectiveMaster, evidence ?? undefined, {
+        publicKeyPem: envString("VITE_RECEIPT_VERIFY_KEY") ?? bundleStatus?.publicKeyPem,
+      });
+      setLocalVerification({
+        ...result,
+        isVerified: result.isVerified && binding.ok && (bundleStatus?.ok ?? true),
+      });
+    } catch (error) {
+      setDecryptedEvidence(null);
+      setEncryptionStatus([binding.reason, error instanceof Error ? error.message : String(error)]);
+    }
   }
 
   const contentHash = effectiveMaster?.content_hash;
@@ -151,11 +215,65 @@ export function ReceiptInspector(): JSX.Element {
         </label>
         <br />
         <label>
-          artifact.json (combined)
-          <input type="file" accept="application/json" onChange={(event) => onPick(event, "artifact", handleFile)} />
+          artifact.json or receipt.bundle (combined)
+          <input
+            type="file"
+            accept="application/json,.bundle"
+            onChange={(event) => onPick(event, "artifact", handleFile)}
+          />
         </label>
       </section>
 
+      {artifactUpload?.normalized.bundle ? (
+        <section>
+          <h2>Receipt Bundle</h2>
+          <p>{renderProvenance("DERIVED")}</p>
+          <p>{bundleStatus?.reason ?? "Checking bundle manifest…"}</p>
+          <Field label="key_id" value={artifactUpload.normalized.bundle.key_id} provenance="UNSIGNED" />
+          <details>
+            <summary>Manifest</summary>
+            <pre>{safeStringify(artifactUpload.normalized.bundle.manifest)}</pre>
+          </details>
+        </section>
+      ) : null}
+
+      {encryptedEvidence ? (
+        <section>
+          <h2>Encrypted Evidence</h2>
+          <p>{renderProvenance("DERIVED")}</p>
+          <Field
+            label="recipients"
+            value={recipientKeyIds(encryptedEvidence)}
+            provenance="UNSIGNED"
+          />
+          {encryptionStatus.map((status) => (
+            <p key={status}>{status}</p>
+          ))}
+          <label>
+            Recipient private key (PEM, stays in this browser)
+            <br />
+            <textarea
+              rows={4}
+              cols={70}
+              value={decryptKeyPem}
+              onChange={(event) => setDecryptKeyPem(event.target.value)}
+            />
+          </label>
+          <br />
+          <input
+            type="file"
+            accept=".pem,application/x-pem-file,text/plain"
+            onChange={async (event) => {
+              const file = event.target.files?.[0];
+              if (file) setDecryptKeyPem(await file.text());
+            }}
+          />
+          <button type="button" disabled={!decryptKeyPem} onClick={() => void handleDecrypt()}>
+            Decrypt and verify
+          </button>
+        </section>
+      ) : null}
+
       <section>
         <h2>Verification status</h2>
         <Badge label={localVerification.isVerified ? "Verified" : "Unverified"} />
@@ -163,6 +281,7 @@ export function ReceiptInspector(): JSX.Element {
         <span>{renderProvenance("DERIVED")}</span>
         <p>{localVerification.hashReason}</p>
         <p>{localVerification.signatureReason}</p>
+        <p>{localVerification.transparencyReason}</p>
         <p>
           <strong>Receipt ID:</strong> {effectiveMaster?.receipt_id ?? "(missing)"}
         </p>
@@ -205,6 +324,8 @@ export function ReceiptInspector(): JSX.Element {
             hashMatches: localVerification.hashMatches,
             signatureChecked: localVerification.signatureChecked,
             signatureValid: localVerification.signatureValid,
+            transparencyChecked: localVerification.transparencyChecked,
+            transparencyValid: localVerification.transparencyValid,
             verified: localVerification.isVerified,
           })}
           provenance="DERIVED"
@@ -216,6 +337,53 @@ export function ReceiptInspector(): JSX.Element {
         />
       </section>
 
+      <section>
+        <h2>Transparency Log</h2>
+        <p>{renderProvenance("DERIVED")}</p>
+        <Field
+          label="leaf_index"
+          value={stringOrUndefined(effectiveEvidence?.transparency?.leaf_index)}
+          provenance="DERIVED"
+        />
+        <Field
+          label="signed_tree_head"
+          value={safeStringify(omitPublicKey(effectiveEvidence?.transparency?.signed_tree_head))}
+          provenance="DERIVED"
+        />
+        <details>
+          <summary>Audit path</summary>
+          <pre>{safeStringify(effectiveEvidence?.transparency?.audit_path)}</pre>
+        </details>
+      </section>
+
+      {effectiveMaster?.raw.content_commitment !== undefined ? (
+        <section>
+          <h2>Selective Disclosure</h2>
+          <p>{renderProvenance("DERIVED")}</p>
+          <Field
+            label="content_commitment"
+            value={stringOrUndefined(effectiveMaster.raw.content_commitment)}
+            provenance="SIGNED"
+          />
+          <Field
+            label="withheld messages"
+            value={describeWithheld(
+              localVerification.disclosure?.withheldMessages,
+              localVerification.disclosure?.totalMessages
+            )}
+            provenance="DERIVED"
+          />
+          <Field
+            label="withheld assertions"
+            value={describeWithheld(
+              localVerification.disclosure?.withheldAssertions,
+              localVerification.disclosure?.totalAssertions
+            )}
+            provenance="DERIVED"
+          />
+        </section>
+      ) : null}
+
       <section>
         <h2>Evidence Pack (Sensitive)</h2>
         <Badge label="Sensitive" /> <span>{renderProvenance("UNSIGNED")}</span>
@@ -231,19 +399,29 @@ export function ReceiptInspector(): JSX.Element {
               <th>text</th>
               <th>confidence</th>
               <th>sources</th>
+              <th>annotations</th>
             </tr>
           </thead>
           <tbody>
             {(effectiveEvidence?.eli_assertions ?? []).map((assertion, index) => (
-              <tr key={`${assertion.assertion_type}-${index}`}>
-                <td>{assertion.assertion_type}</td>
-                <td>{assertion.text}</td>
-                <td>{assertion.confidence ?? ""}</td>
-                <td>{assertion.sources.join("; ")}</td>
-              </tr>
+              assertion.withheld ? (
+                <tr key={`withheld-${index}`}>
+                  <td colSpan={5}>[Withheld] assertion {index}</td>
+                </tr>
+              ) : (
+                <tr key={`${assertion.assertion_type}-${index}`}>
+                  <td>{assertion.assertion_type}</td>
+                  <td>{assertion.text}</td>
+                  <td>{assertion.confidence ?? ""}</td>
+                  <td>{assertion.sources.join("; ")}</td>
+                  <td>{(assertion.annotations ?? []).map(describeAnnotation).join("; ")}</td>
+                </tr>
+              )
             ))}
           </tbody>
         </table>
+
+        {claimGraph ? <ClaimGraphView graph={claimGraph} /> : null}
       </section>
 
       <section>
@@ -301,6 +479,71 @@ function Badge({ label }: { label: string }): JSX.Element {
   return <strong>[{label}]</strong>;
 }
 
+const GRAPH_NODE = { width: 150, height: 36, columnGap: 70, rowGap: 18 };
+const GRAPH_COLORS: Record<string, string> = { FACT: "#dbeafe", INFERENCE: "#fef3c7", OTHER: "#e5e7eb" };
+
+/** Claim dependency graph: premises on the left, the claims that rely on them to the right. */
+function ClaimGraphView({ graph }: { graph: ClaimGraph }): JSX.Element {
+  const { width, height, columnGap, rowGap } = GRAPH_NODE;
+  const position = new Map(
+    graph.nodes.map((node) => [
+      node.id,
+      { x: node.column * (width + columnGap), y: node.row * (height + rowGap) },
+    ])
+  );
+  const label = new Map(graph.nodes.map((node) => [node.id, node.label]));
+  const edgePath = ({ from, to }: { from: string; to: string }) => {
+    const a = position.get(from)!;
+    const b = position.get(to)!;
+    return `M ${a.x + width} ${a.y + height / 2} C ${a.x + width + columnGap / 2} ${a.y + height / 2}, ${
+      b.x - columnGap / 2
+    } ${b.y + height / 2}, ${b.x} ${b.y + height / 2}`;
+  };
+
+  return (
+    <details open>
+      <summary>Claim dependency graph [DERIVED]</summary>
+      <svg
+        width={graph.columns * (width + columnGap)}
+        height={graph.rows * (height + rowGap)}
+        role="img"
+        aria-label="Claim dependency graph"
+      >
+        <defs>
+          <marker id="claim-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+          </marker>
+        </defs>
+        {graph.edges.map((edge) => (
+          <path key={`${edge.from}-${edge.to}`} d={edgePath(edge)} fill="none" stroke="#6b7280" markerEnd="url(#claim-arrow)" />
+        ))}
+        {graph.nodes.map((node) => {
+          const { x, y } = position.get(node.id)!;
+          return (
+            <g key={node.id} transform={`translate(${x}, ${y})`}>
+              <title>{node.text}</title>
+              <rect width={width} height={height} rx={6} fill={GRAPH_COLORS[node.assertion_type]} stroke="#374151" />
+              <text x={8} y={height / 2 + 4} fontSize={12}>
+                {node.label} {node.assertion_type} – {node.text.length > 12 ? `${node.text.slice(0, 12)}…` : node.text}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      {graph.cycleEdges.map((edge) => (
+        <p key={`cycle-${edge.from}-${edge.to}`}>
+          Cycle: {label.get(edge.to)} relies on {label.get(edge.from)}, which already relies on it.
+        </p>
+      ))}
+      {graph.missing.map((entry) => (
+        <p key={`missing-${entry.claim}-${entry.premise}`}>
+          {label.get(entry.claim)} relies on a claim that is not in the evidence ({truncateValue(entry.premise)}).
+        </p>
+      ))}
+    </details>
+  );
+}
+
 function Field({
   label,
   value,
@@ -327,6 +570,32 @@ function truncateValue(value: string | undefined): string | undefined {
   return `${value.slice(0, 12)}…${value.slice(-12)}`;
 }
 
+function stringOrUndefined(value: unknown): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+function recipientKeyIds(encrypted: Record<string, unknown>): string | undefined {
+  if (!Array.isArray(encrypted.recipients)) return undefined;
+  return encrypted.recipients
+    .map((recipient) => String((recipient as Record<string, unknown>)?.key_id ?? "(unknown)"))
+    .join(", ");
+}
+
+function describeWithheld(indexes: number[] | undefined, total: number | undefined): string | undefined {
+  if (!indexes || total === undefined) return undefined;
+  return indexes.length > 0 ? `${indexes.join(", ")} (of ${total})` : `none (of ${total})`;
+}
+
+function describeAnnotation(annotation: EliAnnotation): string {
+  return `${annotation.kind}: ${annotation.text}${annotation.entity_type ? ` (${annotation.entity_type})` : ""}`;
+}
+
+function omitPublicKey(value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+  const { public_key: _publicKey, ...rest } = value as Record<string, unknown>;
+  return rest;
+}
+
 function safeStringify(value: unknown): string | undefined {
   if (value === undefined) return undefined;
   try {
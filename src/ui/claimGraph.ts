@@ -0,0 +1,98 @@
+/**
+ * Layout of the ELI claim dependency graph for the Inspector.
+ *
+ * Each claim with an id is a node; each `depends_on` entry is an edge from
+ * the premise to the claim that relies on it.  Nodes are placed in columns by
+ * depth – a claim sits one column right of its deepest premise – and in rows
+ * by ledger order within a column.  Edges that close a cycle and premises
+ * the evidence does not contain are kept aside so the view can flag them.
+ */
+import type { EliAssertion } from "./normalizeArtifact.js";
+
+export interface ClaimGraphNode {
+  id: string;
+  /** "C1", "C2", … in ledger order */
+  label: string;
+  assertion_type: EliAssertion["assertion_type"];
+  text: string;
+  column: number;
+  row: number;
+}
+
+export interface ClaimGraph {
+  nodes: ClaimGraphNode[];
+  /** premise id → dependent claim id */
+  edges: Array<{ from: string; to: string }>;
+  /** Edges that close a dependency cycle (not used for the layout) */
+  cycleEdges: Array<{ from: string; to: string }>;
+  /** depends_on entries that name no claim of the evidence */
+  missing: Array<{ claim: string; premise: string }>;
+  columns: number;
+  rows: number;
+}
+
+/** The dependency graph of `assertions`, or undefined when no claim names a premise. */
+export function layoutClaimGraph(assertions: EliAssertion[]): ClaimGraph | undefined {
+  const claims = assertions.filter(
+    (assertion): assertion is EliAssertion & { id: string } => !assertion.withheld && typeof assertion.id === "string"
+  );
+  if (!claims.some((claim) => (claim.depends_on ?? []).length > 0)) return undefined;
+
+  const byId = new Map(claims.map((claim) => [claim.id, claim]));
+  const edges: ClaimGraph["edges"] = [];
+  const cycleEdges: ClaimGraph["cycleEdges"] = [];
+  const missing: ClaimGraph["missing"] = [];
+
+  const column = new Map<string, number>();
+  const onPath = new Set<string>();
+  const place = (id: string): number => {
+    const known = column.get(id);
+    if (known !== undefined) return known;
+    onPath.add(id);
+    let depth = 0;
+    for (const premise of byId.get(id)?.depends_on ?? []) {
+      if (!byId.has(premise) || onPath.has(premise)) continue;
+      depth = Math.max(depth, place(premise) + 1);
+    }
+    onPath.delete(id);
+    column.set(id, depth);
+    return depth;
+  };
+  claims.forEach((claim) => place(claim.id));
+
+  for (const claim of claims) {
+    for (const premise of claim.depends_on ?? []) {
+      if (!byId.has(premise)) {
+        missing.push({ claim: claim.id, premise });
+      } else if (column.get(premise)! >= column.get(claim.id)!) {
+        cycleEdges.push({ from: premise, to: claim.id });
+      } else {
+        edges.push({ from: premise, to: claim.id });
+      }
+    }
+  }
+
+  const rowsUsed: number[] = [];
+  const nodes = claims.map((claim, index): ClaimGraphNode => {
+    const col = column.get(claim.id)!;
+    const row = rowsUsed[col] ?? 0;
+    rowsUsed[col] = row + 1;
+    return {
+      id: claim.id,
+      label: `C${index + 1}`,
+      assertion_type: claim.assertion_type,
+      text: claim.text,
+      column: col,
+      row,
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    cycleEdges,
+    missing,
+    columns: rowsUsed.length,
+    rows: Math.max(...rowsUsed),
+  };
+}
@@ -1,4 +1,28 @@
-import type { NormalizedEvidencePack, NormalizedMasterReceipt } from "./normalizeArtifact.js";
+/**
+ * Evidence Inspector adapter over the standalone verifier (src/verifier).
+ *
+ * The checks themselves live in the verifier, which runs unchanged in Node,
+ * browsers and workers; this module maps the Inspector's normalized artifacts
+ * onto it and phrases the results for the verification panel.
+ */
+import {
+  canonicalJson,
+  computeKeyId,
+  decodeBase64,
+  DISCLOSURE_SCHEME,
+  pemToDer,
+  sha256Hex,
+  verifyCiphertextBinding as verifyBinding,
+  verifyContentHash,
+  verifyInclusionProof,
+  verifyMasterSignatures,
+  type EvidencePackDocument,
+  type InclusionProofDocument,
+  type MasterReceiptDocument,
+} from "../verifier/index.js";
+import type { NormalizedBundle, NormalizedEvidencePack, NormalizedMasterReceipt } from "./normalizeArtifact.js";
+
+export { canonicalJson as canonicalize };
 
 export interface LocalVerificationResult {
   canRecomputeHash: boolean;
@@ -8,14 +32,49 @@ export interface LocalVerificationResult {
   signatureChecked: boolean;
   signatureValid: boolean;
   signatureReason: string;
+  transparencyChecked: boolean;
+  transparencyValid: boolean;
+  transparencyReason: string;
+  /** Set for selective-disclosure evidence packs whose commitments verify */
+  disclosure?: {
+    withheldMessages: number[];
+    withheldAssertions: number[];
+    totalMessages: number;
+    totalAssertions: number;
+  };
   isVerified: boolean;
 }
 
+type EnvelopeVerification = Omit<
+  LocalVerificationResult,
+  "transparencyChecked" | "transparencyValid" | "transparencyReason"
+>;
+
+/** Encrypted evidence packs (see src/halo/evidenceEncryption.ts). */
+const KEK_INFO_PREFIX = "HALO_EVIDENCE_KEK_V1|";
+const ENCRYPTED_EVIDENCE_VERSION = "halo.enc.v1";
+
 export async function recomputeVerification(
   master: NormalizedMasterReceipt | undefined,
   evidence: NormalizedEvidencePack | undefined,
   options?: { publicKeyPem?: string }
 ): Promise<LocalVerificationResult> {
+  const envelope = await verifyEnvelope(master, evidence, options);
+  const transparency = await verifyTransparency(master, evidence);
+
+  return {
+    ...envelope,
+    ...transparency,
+    isVerified:
+      envelope.isVerified && (!transparency.transparencyChecked || transparency.transparencyValid),
+  };
+}
+
+async function verifyEnvelope(
+  master: NormalizedMasterReceipt | undefined,
+  evidence: NormalizedEvidencePack | undefined,
+  options?: { publicKeyPem?: string }
+): Promise<EnvelopeVerification> {
   const transcript = evidence?.transcript;
   if (!master) {
     return {
@@ -41,16 +100,47 @@ export async function recomputeVerification(
     };
   }
 
-  const canonical = canonicalize(transcript);
-  const recomputedHash = await sha256Hex(canonical);
-  const expectedHash = master.content_hash;
-  const hashMatches = Boolean(expectedHash) && expectedHash === recomputedHash;
-
-  const hashReason = expectedHash
-    ? hashMatches
-      ? "Transcript hash matches content_hash from master receipt."
-      : "Transcript hash mismatch: evidence does not match signed content_hash."
-    : "Master receipt has no content_hash field to compare.";
+  const receipt = { ...master.raw, content_hash: master.content_hash, signature: master.signature } as MasterReceiptDocument;
+  const content = await verifyContentHash(receipt, {
+    canonicalization: typeof evidence?.raw.canonicalization === "string" ? evidence.raw.canonicalization : undefined,
+    transcript,
+    eli_assertions: Array.isArray(evidence?.raw.eli_assertions) ? evidence.raw.eli_assertions : [],
+    disclosure: evidence?.disclosure as EvidencePackDocument["disclosure"],
+  });
+  const hashMatches = Boolean(master.content_hash) && content.ok;
+  const withheld = content.disclosure
+    ? content.disclosure.withheld.messages.length + content.disclosure.withheld.assertions.length
+    : 0;
+  let hashReason: string;
+  if (!master.content_hash) {
+    hashReason = "Master receipt has no content_hash field to compare.";
+  } else if (!content.ok) {
+    hashReason =
+      receipt.content_commitment === DISCLOSURE_SCHEME || content.recomputed === undefined
+        ? `${capitalize(content.reason ?? "selective disclosure invalid")}.`
+        : "Transcript hash mismatch: evidence does not match signed content_hash.";
+  } else if (content.disclosure) {
+    hashReason =
+      withheld > 0
+        ? `Disclosed parts match the signed commitments; ${withheld} part(s) withheld.`
+        : "All parts disclosed and match the signed commitments.";
+  } else {
+    hashReason = "Transcript hash matches content_hash from master receipt.";
+  }
+  const hash = {
+    canRecomputeHash: true,
+    recomputedHash: content.recomputed,
+    hashMatches,
+    hashReason,
+    disclosure: content.disclosure
+      ? {
+          withheldMessages: content.disclosure.withheld.messages,
+          withheldAssertions: content.disclosure.withheld.assertions,
+          totalMessages: content.disclosure.total.messages,
+          totalAssertions: content.disclosure.total.assertions,
+        }
+      : undefined,
+  };
 
   const publicKeyPem =
     options?.publicKeyPem ??
@@ -62,175 +152,220 @@ export async function recomputeVerification(
       master.raw.verify_key
     );
 
-  const signature = master.signature;
-
-  if (!signature) {
+  if (!master.signature || !publicKeyPem) {
     return {
-      canRecomputeHash: true,
-      recomputedHash,
-      hashMatches,
-      hashReason,
+      ...hash,
       signatureChecked: false,
       signatureValid: false,
-      signatureReason: "Signature not verifiable (missing signature field).",
+      signatureReason: master.signature
+        ? "Signature not verifiable (missing public key)."
+        : "Signature not verifiable (missing signature field).",
       isVerified: false,
     };
   }
 
-  if (!publicKeyPem) {
-    return {
-      canRecomputeHash: true,
-      recomputedHash,
-      hashMatches,
-      hashReason,
-      signatureChecked: false,
-      signatureValid: false,
-      signatureReason: "Signature not verifiable (missing public key).",
-      isVerified: false,
-    };
-  }
-
-  const payload = resolveSignedEnvelope(master);
-  if (!payload) {
-    return {
-      canRecomputeHash: true,
-      recomputedHash,
-      hashMatches,
-      hashReason,
-      signatureChecked: false,
-      signatureValid: false,
-      signatureReason: "Signature not verifiable (cannot reconstruct signed envelope).",
-      isVerified: false,
-    };
-  }
-
-  const signatureValid = await verifyEd25519(publicKeyPem, payload, signature);
-
+  const signed = await verifyMasterSignatures(receipt, { verifyKeyPem: publicKeyPem });
+  const cosigned = receipt.cosignatures?.length ?? 0;
   return {
-    canRecomputeHash: true,
-    recomputedHash,
-    hashMatches,
-    hashReason,
+    ...hash,
     signatureChecked: true,
-    signatureValid,
-    signatureReason: signatureValid ? "Signature valid for signed envelope." : "Signature invalid.",
-    isVerified: hashMatches && signatureValid,
+    signatureValid: signed.ok,
+    signatureReason: signed.ok
+      ? `${signed.batched ? "Signature valid for batch Merkle root; audit path verified." : "Signature valid for signed envelope."}${
+          cosigned > 0 ? ` ${cosigned} cosignature(s) valid.` : ""
+        }`
+      : `Signature invalid (${signed.reason}).`,
+    isVerified: hashMatches && signed.ok,
   };
 }
 
-function resolveSignedEnvelope(master: NormalizedMasterReceipt): string | undefined {
-  if (master.signed_payload) {
-    return master.signed_payload;
-  }
-
-  const envelope: Record<string, unknown> = {
-    receipt_version: master.receipt_version,
-    receipt_id: master.receipt_id,
-    content_hash: master.content_hash,
-    metadata: master.metadata,
-  };
-
-  const trimmed = Object.fromEntries(
-    Object.entries(envelope).filter(([, value]) => value !== undefined)
-  );
-
-  if (Object.keys(trimmed).length === 0) {
-    return undefined;
+/**
+ * Check that an encrypted evidence pack is the one the master receipt signed
+ * (header ids and `evidence_ciphertext_hash`).  Needs no private key.
+ */
+export async function verifyCiphertextBinding(
+  master: NormalizedMasterReceipt | undefined,
+  encrypted: Record<string, unknown>
+): Promise<{ ok: boolean; reason: string }> {
+  if (!master) {
+    return { ok: false, reason: "Ciphertext binding not verifiable (no master receipt loaded)." };
   }
-
-  return canonicalize(trimmed);
+  const binding = await verifyBinding(master.raw as MasterReceiptDocument, encrypted);
+  return binding.ok
+    ? { ok: true, reason: "Evidence ciphertext matches the signed evidence_ciphertext_hash." }
+    : { ok: false, reason: `${capitalize(binding.reason ?? "ciphertext binding invalid")}.` };
 }
 
-export function canonicalize(value: unknown): string {
-  if (value === null) return "null";
-  if (typeof value === "string") return JSON.stringify(value);
-  if (typeof value === "number" || typeof value === "boolean") return JSON.stringify(value);
-  if (Array.isArray(value)) {
-    return `[${value.map((item) => canonicalize(item)).join(",")}]`;
+/**
+ * Check a receipt bundle's files against its manifest and settle the key to
+ * verify the checkpoint with: `pinnedKeyPem` when given (its key_id must match
+ * the bundle's), else the public key the bundle carries.
+ */
+export async function verifyBundleManifest(
+  bundle: NormalizedBundle,
+  options?: { pinnedKeyPem?: string }
+): Promise<{ ok: boolean; reason: string; publicKeyPem?: string }> {
+  const listed = new Set(bundle.manifest.map((entry) => entry.path));
+  const unlisted = Object.keys(bundle.files).filter((path) => !listed.has(path));
+  if (unlisted.length > 0) {
+    return { ok: false, reason: `Bundle files missing from the manifest: ${unlisted.join(", ")}.` };
   }
-  if (typeof value === "object") {
-    const record = value as Record<string, unknown>;
-    const keys = Object.keys(record).sort();
-    const entries = keys.map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
-    return `{${entries.join(",")}}`;
+  for (const entry of bundle.manifest) {
+    const content = bundle.files[entry.path];
+    if (typeof content !== "string") {
+      return { ok: false, reason: `Manifest lists ${entry.path} but the bundle does not carry it.` };
+    }
+    const bytes = new TextEncoder().encode(content);
+    if (bytes.length !== entry.size || (await sha256Hex(bytes)) !== entry.sha256) {
+      return { ok: false, reason: `Bundle digest mismatch: ${entry.path}.` };
+    }
   }
-  return JSON.stringify(String(value));
-}
 
-async function sha256Hex(input: string): Promise<string> {
-  const data = new TextEncoder().encode(input);
-  if (!globalThis.crypto?.subtle) {
-    throw new Error("Web Crypto API unavailable: cannot compute SHA-256 locally.");
+  if (bundle.public_key && (await computeKeyId(bundle.public_key)) !== bundle.key_id) {
+    return { ok: false, reason: "Bundled public key does not match signing.key_id." };
+  }
+  const files = `${bundle.manifest.length} file(s) match the bundle manifest`;
+  if (options?.pinnedKeyPem) {
+    const pinned = await computeKeyId(options.pinnedKeyPem);
+    return pinned === bundle.key_id
+      ? { ok: true, reason: `${files}; key_id ${pinned} (pinned).`, publicKeyPem: options.pinnedKeyPem }
+      : { ok: false, reason: `Bundle key_id ${bundle.key_id} does not match the pinned key ${pinned}.` };
+  }
+  if (!bundle.public_key) {
+    return { ok: false, reason: `${files}, but it carries only key_id ${bundle.key_id}; supply the public key.` };
   }
-  const digest = await globalThis.crypto.subtle.digest("SHA-256", data);
-  return bytesToHex(new Uint8Array(digest));
+  return {
+    ok: true,
+    reason: `${files}; key_id ${bundle.key_id} carried in the bundle (unpinned; compare with the published fingerprint).`,
+    publicKeyPem: bundle.public_key,
+  };
 }
 
-async function verifyEd25519(
-  publicKeyPem: string,
-  payload: string,
-  signatureText: string
-): Promise<boolean> {
-  try {
-    const keyData = pemToDer(publicKeyPem);
-    const key = await globalThis.crypto.subtle.importKey(
-      "spki",
-      keyData,
-      { name: "Ed25519" },
-      false,
-      ["verify"]
-    );
-
-    const signatureBytes = decodeSignature(signatureText);
-    const payloadBytes = new TextEncoder().encode(payload);
-
-    return await globalThis.crypto.subtle.verify("Ed25519", key, signatureBytes, payloadBytes);
-  } catch {
-    return false;
+/**
+ * Decrypt an encrypted evidence pack locally with a recipient's X25519
+ * private key (PKCS#8 PEM).  The key never leaves the browser.  Throws when
+ * the key is not a recipient or the pack was altered.
+ */
+export async function decryptEvidencePack(
+  encrypted: Record<string, unknown>,
+  privateKeyPem: string
+): Promise<Record<string, unknown>> {
+  if (encrypted.version !== ENCRYPTED_EVIDENCE_VERSION) {
+    throw new Error(`Unsupported encrypted evidence version: ${String(encrypted.version)}`);
+  }
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Web Crypto API unavailable: cannot decrypt evidence locally.");
   }
-}
 
-function decodeSignature(signature: string): Uint8Array {
-  const normalized = signature.trim();
+  const privateKey = await subtle.importKey("pkcs8", pemToDer(privateKeyPem), { name: "X25519" }, false, [
+    "deriveBits",
+  ]);
+  const recipients = Array.isArray(encrypted.recipients) ? (encrypted.recipients as Record<string, unknown>[]) : [];
 
-  if (/^[0-9a-fA-F]+$/.test(normalized) && normalized.length % 2 === 0) {
-    const out = new Uint8Array(normalized.length / 2);
-    for (let i = 0; i < normalized.length; i += 2) {
-      out[i / 2] = Number.parseInt(normalized.slice(i, i + 2), 16);
+  // Key IDs are not derivable from a WebCrypto private key, so try each recipient slot.
+  for (const recipient of recipients) {
+    try {
+      const ephemeral = await subtle.importKey(
+        "spki",
+        decodeBase64(String(recipient.ephemeral_public_key)),
+        { name: "X25519" },
+        false,
+        []
+      );
+      const shared = await subtle.deriveBits({ name: "X25519", public: ephemeral }, privateKey, 256);
+      const hkdfKey = await subtle.importKey("raw", shared, "HKDF", false, ["deriveBits"]);
+      const kek = await subtle.deriveBits(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt: new Uint8Array(0),
+          info: new TextEncoder().encode(KEK_INFO_PREFIX + String(recipient.key_id)),
+        },
+        hkdfKey,
+        256
+      );
+      const contentKey = await aesGcmOpen(kek, String(recipient.iv), String(recipient.wrapped_key));
+      const aad = canonicalJson({
+        version: ENCRYPTED_EVIDENCE_VERSION,
+        receipt_id: encrypted.receipt_id,
+        content_hash: encrypted.content_hash,
+      });
+      const plaintext = await aesGcmOpen(contentKey, String(encrypted.iv), String(encrypted.ciphertext), aad);
+      return {
+        ...(JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, unknown>),
+        ...(encrypted.transparency !== undefined ? { transparency: encrypted.transparency } : {}),
+      };
+    } catch {
+      continue;
     }
-    return out;
   }
 
-  const base64 = normalized.replace(/\s+/g, "");
-  return decodeBase64(base64);
+  throw new Error("Evidence pack decryption failed: key is not a recipient, or the pack was altered.");
 }
 
-function pemToDer(pem: string): ArrayBuffer {
-  const body = pem
-    .replace("-----BEGIN PUBLIC KEY-----", "")
-    .replace("-----END PUBLIC KEY-----", "")
-    .replace(/\s+/g, "");
-  const bytes = decodeBase64(body);
-  return bytes.buffer;
+async function aesGcmOpen(
+  keyBytes: ArrayBuffer,
+  iv: string,
+  sealed: string,
+  additionalData?: string
+): Promise<ArrayBuffer> {
+  const key = await globalThis.crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, ["decrypt"]);
+  return globalThis.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: decodeBase64(iv),
+      ...(additionalData !== undefined ? { additionalData: new TextEncoder().encode(additionalData) } : {}),
+    },
+    key,
+    decodeBase64(sealed)
+  );
 }
 
-function decodeBase64(base64: string): Uint8Array {
-  if (typeof atob === "function") {
-    const binary = atob(base64);
-    const out = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      out[i] = binary.charCodeAt(i);
-    }
-    return out;
+
+/**
+ * Check the transparency log inclusion proof carried in the evidence pack:
+ * the proof names this receipt, its audit path leads to the tree head root,
+ * and the tree head is signed by the key it embeds.
+ */
+async function verifyTransparency(
+  master: NormalizedMasterReceipt | undefined,
+  evidence: NormalizedEvidencePack | undefined
+): Promise<Pick<LocalVerificationResult, "transparencyChecked" | "transparencyValid" | "transparencyReason">> {
+  const proof = evidence?.transparency;
+  if (!proof) {
+    return {
+      transparencyChecked: false,
+      transparencyValid: false,
+      transparencyReason: "No transparency log inclusion proof in evidence pack.",
+    };
+  }
+  if (!master) {
+    return {
+      transparencyChecked: false,
+      transparencyValid: false,
+      transparencyReason: "Inclusion proof not verifiable (no master receipt loaded).",
+    };
   }
 
-  return Uint8Array.from(Buffer.from(base64, "base64"));
+  const inclusion = await verifyInclusionProof(proof as unknown as InclusionProofDocument, master.raw);
+  if (!inclusion.ok) {
+    return {
+      transparencyChecked: true,
+      transparencyValid: false,
+      transparencyReason: `Inclusion proof invalid: ${inclusion.reason}.`,
+    };
+  }
+  const head = proof.signed_tree_head as Record<string, unknown>;
+  return {
+    transparencyChecked: true,
+    transparencyValid: true,
+    transparencyReason: `Included at leaf ${proof.leaf_index} of signed tree head size ${head.tree_size} (key_id ${head.key_id}).`,
+  };
 }
 
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
 function firstString(...values: unknown[]): string | undefined {
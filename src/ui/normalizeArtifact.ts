@@ -11,11 +11,31 @@ export interface NormalizedMasterReceipt {
   raw: Record<string, unknown>;
 }
 
+/** A date, quantity, percentage, entity or URL inside an assertion (see src/eli/annotations.ts) */
+export interface EliAnnotation {
+  kind: string;
+  text: string;
+  /** [start, end) offsets into the response */
+  span?: [number, number];
+  value?: number;
+  unit?: string;
+  date?: string;
+  entity_type?: string;
+}
+
 export interface EliAssertion {
+  /** Claim id, when the source is an ELI ledger */
+  id?: string;
   assertion_type: "FACT" | "INFERENCE" | "OTHER";
   text: string;
   confidence?: number;
   sources: string[];
+  /** Ids of the claims this one relies on (ELI `depends_on`) */
+  depends_on?: string[];
+  /** Structured parts of the claim, when the tagger annotated it */
+  annotations?: EliAnnotation[];
+  /** Withheld from a selective-disclosure evidence pack; only its commitment remains */
+  withheld?: boolean;
 }
 
 export interface NormalizedEvidencePack {
@@ -24,15 +44,38 @@ export interface NormalizedEvidencePack {
   transcript?: unknown;
   eli_assertions: EliAssertion[];
   commentary?: string;
+  /** Transparency log inclusion proof carried alongside the evidence */
+  transparency?: Record<string, unknown>;
+  /** Selective-disclosure commitments and salts (see src/halo/disclosure.ts) */
+  disclosure?: Record<string, unknown>;
+  raw: Record<string, unknown>;
+}
+
+/** A detached verification bundle (see src/halo/receiptBundle.ts); its files are unpacked alongside. */
+export interface NormalizedBundle {
+  manifest: Array<{ path: string; role: string; size: number; sha256: string }>;
+  files: Record<string, unknown>;
+  key_id?: string;
+  public_key?: string;
   raw: Record<string, unknown>;
 }
 
 export interface NormalizedArtifact {
   master_receipt?: NormalizedMasterReceipt;
   evidence_pack?: NormalizedEvidencePack;
+  /** Encrypted evidence pack (see src/halo/evidenceEncryption.ts); needs a recipient key to open */
+  encrypted_evidence?: Record<string, unknown>;
+  /** Set when the input was a receipt bundle; check its manifest before trusting the files */
+  bundle?: NormalizedBundle;
   warnings: string[];
 }
 
+/** Encrypted evidence pack format version (see src/halo/evidenceEncryption.ts). */
+const ENCRYPTED_EVIDENCE_VERSION = "halo.enc.v1";
+
+/** Receipt bundle format version (see src/halo/receiptBundle.ts). */
+const RECEIPT_BUNDLE_VERSION = "halo.bundle.v1";
+
 export function normalizeArtifact(input: unknown): NormalizedArtifact {
   const warnings: string[] = [];
   const root = toRecord(input);
@@ -40,17 +83,27 @@ export function normalizeArtifact(input: unknown): NormalizedArtifact {
     return { warnings: ["Input is not a JSON object."] };
   }
 
+  if (isEncryptedEvidence(root)) {
+    return { encrypted_evidence: root, warnings: [] };
+  }
+
+  if (root.bundle_version === RECEIPT_BUNDLE_VERSION && Array.isArray(root.manifest) && toRecord(root.files)) {
+    return normalizeBundle(root);
+  }
+
   const nestedMaster = toRecord(root.master_receipt) ?? toRecord(root.haloReceipt);
   const nestedEvidence = toRecord(root.evidence_pack);
+  const encrypted_evidence = nestedEvidence && isEncryptedEvidence(nestedEvidence) ? nestedEvidence : undefined;
 
   const masterCandidate = nestedMaster ?? (looksLikeMasterReceipt(root) ? root : undefined);
-  const evidenceCandidate =
-    nestedEvidence ?? (looksLikeEvidencePack(root) ? root : undefined) ?? deriveEvidenceFromArtifact(root);
+  const evidenceCandidate = encrypted_evidence
+    ? undefined
+    : nestedEvidence ?? (looksLikeEvidencePack(root) ? root : undefined) ?? deriveEvidenceFromArtifact(root);
 
   const master_receipt = masterCandidate ? normalizeMasterReceipt(masterCandidate) : undefined;
   const evidence_pack = evidenceCandidate ? normalizeEvidencePack(evidenceCandidate) : undefined;
 
-  if (!master_receipt && !evidence_pack) {
+  if (!master_receipt && !evidence_pack && !encrypted_evidence) {
     warnings.push("Could not infer a master receipt or evidence pack from the uploaded JSON.");
   }
 
@@ -58,7 +111,56 @@ export function normalizeArtifact(input: unknown): NormalizedArtifact {
     warnings.push("Artifact includes verification fields; treat these as DERIVED and re-verify locally.");
   }
 
-  return { master_receipt, evidence_pack, warnings };
+  return { master_receipt, evidence_pack, ...(encrypted_evidence ? { encrypted_evidence } : {}), warnings };
+}
+
+function normalizeBundle(root: Record<string, unknown>): NormalizedArtifact {
+  const files = toRecord(root.files) ?? {};
+  const manifest = (root.manifest as unknown[])
+    .map((entry) => toRecord(entry))
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry))
+    .map((entry) => ({
+      path: asString(entry.path) ?? "",
+      role: asString(entry.role) ?? "",
+      size: typeof entry.size === "number" ? entry.size : -1,
+      sha256: asString(entry.sha256) ?? "",
+    }));
+
+  const warnings: string[] = [];
+  const byRole: Record<string, unknown> = {};
+  for (const entry of manifest) {
+    const content = files[entry.path];
+    try {
+      byRole[entry.role] = typeof content === "string" ? JSON.parse(content) : undefined;
+    } catch {
+      warnings.push(`Bundle file ${entry.path} is not valid JSON.`);
+    }
+  }
+
+  const signing = toRecord(root.signing);
+  const unpacked = normalizeArtifact({
+    master_receipt: byRole.master_receipt,
+    evidence_pack: byRole.evidence_pack ?? byRole.encrypted_evidence_pack,
+  });
+  return {
+    ...unpacked,
+    bundle: {
+      manifest,
+      files,
+      key_id: asString(signing?.key_id),
+      public_key: asString(signing?.public_key),
+      raw: root,
+    },
+    warnings: [...warnings, ...unpacked.warnings],
+  };
+}
+
+export function isEncryptedEvidence(value: Record<string, unknown>): boolean {
+  return (
+    value.version === ENCRYPTED_EVIDENCE_VERSION &&
+    typeof value.ciphertext === "string" &&
+    Array.isArray(value.recipients)
+  );
 }
 
 function normalizeMasterReceipt(value: Record<string, unknown>): NormalizedMasterReceipt {
@@ -113,6 +215,8 @@ function normalizeEvidencePack(value: Record<string, unknown>): NormalizedEviden
     transcript,
     eli_assertions,
     commentary: commentaryValue,
+    transparency: toRecord(value.transparency),
+    disclosure: toRecord(value.disclosure),
     raw: value,
   };
 }
@@ -135,19 +239,25 @@ function deriveEvidenceFromArtifact(root: Record<string, unknown>): Record<strin
     transcript,
     eli_assertions: claims,
     commentary: asString(root.commentary) ?? asString(root.notes),
+    transparency: root.transparency,
   };
 }
 
 function extractAssertions(value: Record<string, unknown>): EliAssertion[] {
-  const assertionsRaw =
+  const ledgerClaims = toRecord(value.eliLedger)?.claims;
+  const assertionsRaw: unknown[] =
     (Array.isArray(value.eli_assertions) ? value.eli_assertions : undefined) ??
-    (Array.isArray(toRecord(value.eliLedger)?.claims) ? toRecord(value.eliLedger)?.claims : undefined) ??
+    (Array.isArray(ledgerClaims) ? ledgerClaims : undefined) ??
     [];
 
   return assertionsRaw
     .map((entry) => toRecord(entry))
     .filter((entry): entry is Record<string, unknown> => Boolean(entry))
-    .map((entry) => {
+    .map((entry): EliAssertion => {
+      if (entry.withheld === true) {
+        return { assertion_type: "OTHER", text: "", sources: [], withheld: true };
+      }
+
       const rawType = asString(entry.assertion_type) ?? asString(entry.type) ?? "OTHER";
       const normalizedType = normalizeAssertionType(rawType);
 
@@ -158,11 +268,41 @@ function extractAssertions(value: Record<string, unknown>): EliAssertion[] {
 
       const sources = sourcesRaw.map((source) => JSON.stringify(source));
 
+      const id = asString(entry.id);
+      const dependsOn = Array.isArray(entry.depends_on)
+        ? entry.depends_on.filter((premise): premise is string => typeof premise === "string")
+        : undefined;
+      const annotations = Array.isArray(entry.annotations) ? extractAnnotations(entry.annotations) : undefined;
+
       return {
+        ...(id ? { id } : {}),
         assertion_type: normalizedType,
         text: asString(entry.text) ?? asString(entry.claim) ?? "",
         confidence: typeof entry.confidence === "number" ? entry.confidence : undefined,
         sources,
+        ...(dependsOn ? { depends_on: dependsOn } : {}),
+        ...(annotations ? { annotations } : {}),
+      };
+    });
+}
+
+function extractAnnotations(entries: unknown[]): EliAnnotation[] {
+  return entries
+    .map((entry) => toRecord(entry))
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry && asString(entry.kind) && asString(entry.text)))
+    .map((entry): EliAnnotation => {
+      const span =
+        Array.isArray(entry.span) && entry.span.length === 2 && entry.span.every((offset) => typeof offset === "number")
+          ? (entry.span as [number, number])
+          : undefined;
+      return {
+        kind: asString(entry.kind)!,
+        text: asString(entry.text)!,
+        ...(span ? { span } : {}),
+        ...(typeof entry.value === "number" ? { value: entry.value } : {}),
+        ...(asString(entry.unit) ? { unit: asString(entry.unit) } : {}),
+        ...(asString(entry.date) ? { date: asString(entry.date) } : {}),
+        ...(asString(entry.entity_type) ? { entity_type: asString(entry.entity_type) } : {}),
       };
     });
 }
@@ -0,0 +1,94 @@
+/**
+ * Canonical JSON serialisers shared by receipt signing, hashing and chaining.
+ *
+ * Two schemes exist:
+ *
+ *   halo.canonical-json.v1   the original serialiser (`canonicalJson`).  Object
+ *                            keys are sorted lexicographically at every depth;
+ *                            arrays keep their order; no whitespace is emitted.
+ *   rfc8785                  the JSON Canonicalization Scheme (`jcsCanonicalJson`).
+ *                            Same output as v1 for valid I-JSON, but inputs that
+ *                            JCS rules out (lone surrogates, NaN and Infinity,
+ *                            undefined in arrays) throw instead of serialising.
+ *
+ * The output is the byte string that `content_hash` and signed envelopes are
+ * computed over, so any change here invalidates existing receipts.
+ */
+
+/** Scheme of `canonicalJson`; receipts without a `canonicalization` field use it. */
+export const LEGACY_CANONICALIZATION = "halo.canonical-json.v1";
+
+/** RFC 8785, JSON Canonicalization Scheme. */
+export const JCS_CANONICALIZATION = "rfc8785";
+
+export type CanonicalizationScheme = typeof LEGACY_CANONICALIZATION | typeof JCS_CANONICALIZATION;
+
+export const CANONICALIZATION_SCHEMES: readonly CanonicalizationScheme[] = [LEGACY_CANONICALIZATION, JCS_CANONICALIZATION];
+
+export function canonicalJson(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "number" || typeof value === "boolean") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort();
+    const entries = keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(String(value));
+}
+
+// ── RFC 8785 ─────────────────────────────────────────────────────────────────
+
+const LONE_SURROGATE = /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/;
+
+function jcsString(value: string): string {
+  if (LONE_SURROGATE.test(value)) {
+    throw new Error(`JCS cannot serialise a string with a lone surrogate: ${JSON.stringify(value)}`);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * RFC 8785 canonical form.  Numbers use the ECMAScript shortest round-trip
+ * form (JSON.stringify already does), strings the minimal JSON escapes, and
+ * object keys are sorted by UTF-16 code unit.  Object members whose value is
+ * undefined are dropped, as JSON.stringify does.
+ */
+export function jcsCanonicalJson(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (typeof value === "string") return jcsString(value);
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`JCS cannot serialise the number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => jcsCanonicalJson(item)).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort();
+    const entries = keys.map((key) => `${jcsString(key)}:${jcsCanonicalJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  throw new Error(`JCS cannot serialise a value of type ${typeof value}`);
+}
+
+/** Serialise with the named scheme; no scheme means the legacy serialiser. */
+export function canonicalizeWith(scheme: string | undefined, value: unknown): string {
+  if (scheme === undefined || scheme === LEGACY_CANONICALIZATION) return canonicalJson(value);
+  if (scheme === JCS_CANONICALIZATION) return jcsCanonicalJson(value);
+  throw new Error(`Unsupported canonicalization scheme: ${scheme}`);
+}
+
+export function isCanonicalizationScheme(value: unknown): value is CanonicalizationScheme {
+  return (CANONICALIZATION_SCHEMES as readonly unknown[]).includes(value);
+}
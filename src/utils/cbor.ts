@@ -0,0 +1,164 @@
+/**
+ * Minimal CBOR (RFC 8949) encoder/decoder.
+ *
+ * Covers what COSE_Sign1 needs: unsigned and negative integers, byte and
+ * text strings, arrays, maps and tags.  Encoding always uses the shortest
+ * length form (deterministic encoding); indefinite lengths, floats and
+ * simple values other than false/true/null are not supported.
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+export interface CborTag {
+  tag: number;
+  value: CborValue;
+}
+
+export function cborTag(tag: number, value: CborValue): CborTag {
+  return { tag, value };
+}
+
+function isTag(value: unknown): value is CborTag {
+  return Boolean(value && typeof value === "object" && "tag" in value && "value" in value);
+}
+
+// ── Encoding ─────────────────────────────────────────────────────────────────
+
+function head(major: number, length: number): Buffer {
+  if (!Number.isSafeInteger(length) || length < 0) {
+    throw new Error(`CBOR length or integer out of range: ${length}`);
+  }
+  const type = major << 5;
+  if (length < 24) return Buffer.from([type | length]);
+  if (length < 0x100) return Buffer.from([type | 24, length]);
+  if (length < 0x10000) {
+    const buf = Buffer.alloc(3);
+    buf[0] = type | 25;
+    buf.writeUInt16BE(length, 1);
+    return buf;
+  }
+  if (length < 0x100000000) {
+    const buf = Buffer.alloc(5);
+    buf[0] = type | 26;
+    buf.writeUInt32BE(length, 1);
+    return buf;
+  }
+  const buf = Buffer.alloc(9);
+  buf[0] = type | 27;
+  buf.writeBigUInt64BE(BigInt(length), 1);
+  return buf;
+}
+
+export function encodeCbor(value: CborValue): Buffer {
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+  if (value === null) return Buffer.from([0xf6]);
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) throw new Error("CBOR floats are not supported");
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([head(4, value.length), ...value.map(encodeCbor)]);
+  }
+  if (value instanceof Map) {
+    const entries = [...value.entries()].flatMap(([key, member]) => [encodeCbor(key), encodeCbor(member)]);
+    return Buffer.concat([head(5, value.size), ...entries]);
+  }
+  if (isTag(value)) {
+    return Buffer.concat([head(6, value.tag), encodeCbor(value.value)]);
+  }
+  throw new Error("Unsupported CBOR value");
+}
+
+// ── Decoding ─────────────────────────────────────────────────────────────────
+
+function readLength(bytes: Buffer, info: number, offset: number): { length: number; offset: number } {
+  if (info < 24) return { length: info, offset };
+  if (info === 24) return { length: bytes.readUInt8(offset), offset: offset + 1 };
+  if (info === 25) return { length: bytes.readUInt16BE(offset), offset: offset + 2 };
+  if (info === 26) return { length: bytes.readUInt32BE(offset), offset: offset + 4 };
+  if (info === 27) {
+    const length = Number(bytes.readBigUInt64BE(offset));
+    if (!Number.isSafeInteger(length)) throw new Error("CBOR length out of range");
+    return { length, offset: offset + 8 };
+  }
+  throw new Error(`Unsupported CBOR additional info: ${info}`);
+}
+
+function decodeAt(bytes: Buffer, offset: number): { value: CborValue; offset: number } {
+  if (offset >= bytes.length) throw new Error("Truncated CBOR input");
+  const initial = bytes[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return { value: false, offset: offset + 1 };
+    if (info === 21) return { value: true, offset: offset + 1 };
+    if (info === 22) return { value: null, offset: offset + 1 };
+    throw new Error(`Unsupported CBOR simple value: ${info}`);
+  }
+
+  const { length, offset: next } = readLength(bytes, info, offset + 1);
+  switch (major) {
+    case 0:
+      return { value: length, offset: next };
+    case 1:
+      return { value: -1 - length, offset: next };
+    case 2:
+    case 3: {
+      if (next + length > bytes.length) throw new Error("Truncated CBOR string");
+      const slice = bytes.subarray(next, next + length);
+      return { value: major === 2 ? Buffer.from(slice) : slice.toString("utf8"), offset: next + length };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const decoded = decodeAt(bytes, cursor);
+        items.push(decoded.value);
+        cursor = decoded.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const key = decodeAt(bytes, cursor);
+        const member = decodeAt(bytes, key.offset);
+        map.set(key.value, member.value);
+        cursor = member.offset;
+      }
+      return { value: map, offset: cursor };
+    }
+    default: {
+      const inner = decodeAt(bytes, next);
+      return { value: cborTag(length, inner.value), offset: inner.offset };
+    }
+  }
+}
+
+/** Decode exactly one CBOR item; trailing bytes are an error. */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { value, offset } = decodeAt(buffer, 0);
+  if (offset !== buffer.length) {
+    throw new Error("Trailing bytes after CBOR item");
+  }
+  return value;
+}
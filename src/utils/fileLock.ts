@@ -0,0 +1,84 @@
+/**
+ * Cross-process lock files.
+ *
+ * `withFileLock(path, task)` creates `<path>.lock` exclusively, runs `task`
+ * and removes the lock file again.  Any other writer of `path` – another
+ * request in the console server or an `ingest-valet` run in a second process –
+ * waits until the lock file is gone.  The lock file holds the owner's pid; a
+ * lock whose owner is no longer running is stale and is taken over.
+ *
+ * The lock is advisory: it only orders writers that take it.
+ */
+import { closeSync, mkdirSync, openSync, readFileSync, rmSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface FileLockOptions {
+  /** Give up after waiting this long (default 60 s) */
+  timeoutMs?: number;
+  /** Delay between attempts (default 25 ms) */
+  retryMs?: number;
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** The pid recorded in `lockPath`, or undefined when it is gone or unreadable. */
+function lockOwner(lockPath: string): number | undefined {
+  try {
+    const pid = Number.parseInt(readFileSync(lockPath, "utf8"), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function tryLock(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx", 0o600);
+    try {
+      writeSync(fd, `${process.pid}\n`);
+    } finally {
+      closeSync(fd);
+    }
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw err;
+  }
+}
+
+/** Run `task` while holding `<path>.lock`. */
+export async function withFileLock<T>(path: string, task: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const timeoutMs = options.timeoutMs ?? 60_000;
+  const retryMs = options.retryMs ?? 25;
+  const deadline = Date.now() + timeoutMs;
+  mkdirSync(dirname(lockPath), { recursive: true });
+
+  while (!tryLock(lockPath)) {
+    const owner = lockOwner(lockPath);
+    if (owner !== undefined && !isRunning(owner)) {
+      rmSync(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Timed out after ${timeoutMs} ms waiting for ${lockPath}` +
+          `${owner !== undefined ? ` (held by pid ${owner})` : ""}; remove it if no writer is running.`
+      );
+    }
+    await new Promise((done) => setTimeout(done, retryMs));
+  }
+
+  try {
+    return await task();
+  } finally {
+    rmSync(lockPath, { force: true });
+  }
+}
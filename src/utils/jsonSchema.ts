@@ -0,0 +1,124 @@
+/**
+ * Minimal JSON Schema validator.
+ *
+ * Supports the subset of draft 2020-12 used by the HALO schema registry
+ * (src/halo/schemaRegistry.ts): `type`, `const`, `enum`, `pattern`,
+ * `minLength`, `required`, `properties`, `additionalProperties`, `items`,
+ * `minItems` and `anyOf`.  Unknown keywords are ignored, so the schemas stay
+ * valid input for a full validator such as ajv.
+ */
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  $id?: string;
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  anyOf?: JsonSchema[];
+}
+
+export interface SchemaValidationResult {
+  ok: boolean;
+  /** One entry per violation, prefixed with the JSON Pointer of the value */
+  errors: string[];
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === expected || (expected === "number" && actual === "integer");
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function check(value: unknown, schema: JsonSchema, pointer: string, errors: string[]): void {
+  const at = pointer || "/";
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => matchesType(value, type))) {
+      errors.push(`${at}: expected ${allowed.join(" | ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && !sameJson(value, schema.const)) {
+    errors.push(`${at}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((candidate) => sameJson(value, candidate))) {
+    errors.push(`${at}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: does not match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => check(item, schema.items!, `${pointer}/${index}`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${at}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, member] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        check(member, propertySchema, `${pointer}/${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        check(member, schema.additionalProperties, `${pointer}/${key}`, errors);
+      }
+    }
+  }
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => {
+      const optionErrors: string[] = [];
+      check(value, option, pointer, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matched) {
+      errors.push(`${at}: does not match any allowed shape`);
+    }
+  }
+}
+
+/** Validate a JSON value against a schema; collects every violation. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaValidationResult {
+  const errors: string[] = [];
+  check(value, schema, "", errors);
+  return { ok: errors.length === 0, errors };
+}
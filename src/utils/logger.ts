@@ -9,9 +9,10 @@ const logger = pino({
       return { level: label };
     },
     bindings(bindings) {
+      // `base: undefined` means pino may pass no bindings at all.
       return {
-        pid: bindings.pid,
-        hostname: bindings.hostname,
+        pid: bindings?.pid,
+        hostname: bindings?.hostname,
       };
     },
   },
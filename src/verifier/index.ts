@@ -0,0 +1,947 @@
+/**
+ * Standalone HALO verifier.
+ *
+ * Checks HALO receipts, master receipts with their evidence packs, and
+ * console artifacts offline.  The only crypto it uses is Web Crypto
+ * (`globalThis.crypto.subtle`), so the same file runs in Node 20+, browsers
+ * and workers.  It imports no package and no `node:` module, only the shared
+ * canonical JSON serialiser, and is built to dist/verifier/index.js (package
+ * export `./verifier`) for partners who embed verification without the
+ * orchestrator's server dependencies.
+ *
+ * It implements the same checks as the Node tooling, byte for byte:
+ *
+ *   HaloReceipt        response hash, key lifecycle, Ed25519 over
+ *                      `id|timestamp|responseHash|key_id[|prev_receipt_hash]`,
+ *                      HMAC-SHA256 for 1.0.0 receipts (src/halo/verifier.ts)
+ *   master receipt     content_hash or selective-disclosure commitments, the
+ *                      domain-separated envelope or batch root signature,
+ *                      cosignatures and signature thresholds
+ *                      (verifyCheckpointOffline in src/cli/ingestValet.ts)
+ *   console artifact   its HaloReceipt, outputText against the signed response
+ *   inclusion proofs   receipt_hash, RFC 9162 audit path, signed tree head
+ *                      (src/halo/transparencyLog.ts)
+ *
+ * Master receipts are checked under the canonicalization they name
+ * (halo.canonical-json.v1 or rfc8785, see src/utils/canonicalJson.ts).
+ * Timestamp tokens are not checked here; use src/halo/timestamp.ts to tell an
+ * attested signing time from a self-asserted one.  Everything is async because
+ * Web Crypto is.  Results carry `reason` strings in the same words as the Node
+ * verifiers.
+ */
+import {
+  canonicalizeWith,
+  canonicalJson,
+  isCanonicalizationScheme,
+  jcsCanonicalJson,
+  JCS_CANONICALIZATION,
+  LEGACY_CANONICALIZATION,
+} from "../utils/canonicalJson.js";
+
+export { canonicalizeWith, canonicalJson, jcsCanonicalJson, JCS_CANONICALIZATION, LEGACY_CANONICALIZATION };
+
+// ── Constants ────────────────────────────────────────────────────────────────
+// Mirrors of the Node constants; tests/unit/verifier.test.ts pins them.
+
+/** Document versions (see src/halo/schemaRegistry.ts). */
+export const HALO_RECEIPT_VERSION = "2.0.0";
+export const LEGACY_HALO_RECEIPT_VERSION = "1.0.0";
+export const MASTER_RECEIPT_VERSION = "halo.master.v1";
+export const EVIDENCE_PACK_VERSION = "halo.evidence.v1";
+export const CONSOLE_ARTIFACT_VERSION = "halo.console.v1";
+export const TLOG_VERSION = "halo.tlog.v1";
+
+/** Prefix of the signed bytes for single master receipts. */
+export const DOMAIN_PREFIX = "HALO_MASTER_RECEIPT_V1|";
+/** Prefix of the bytes a cosignature signs: prefix + canonical {role} + "|" + canonical envelope. */
+export const COSIGNATURE_DOMAIN_PREFIX = "HALO_MASTER_COSIGNATURE_V1|";
+/** Prefix of the signed batch root for ed25519-merkle-batch master receipts. */
+export const BATCH_DOMAIN_PREFIX = "HALO_MASTER_BATCH_V1|";
+/** Prefix of signed transparency log tree heads. */
+export const TREE_HEAD_DOMAIN_PREFIX = "HALO_TLOG_STH_V1|";
+
+export const BATCH_SIGNATURE_SCHEME = "ed25519-merkle-batch";
+export const DISCLOSURE_SCHEME = "halo.sd.v1";
+
+/** Master receipt fields in the signed envelope; the last four only when present. */
+export const SIGNED_ENVELOPE_FIELDS = [
+  "receipt_version",
+  "receipt_id",
+  "content_hash",
+  "signature_scheme",
+  "prev_receipt_hash",
+  "content_commitment",
+  "evidence_ciphertext_hash",
+  "canonicalization",
+] as const;
+
+/** Receipt fields excluded from receipt_hash (see src/halo/receiptChain.ts). */
+export const UNHASHED_RECEIPT_FIELDS: readonly string[] = ["verification", "timestamp_token", "cosignatures"];
+
+/** Role under which the primary master receipt signature is reported. */
+export const PRIMARY_SIGNATURE_ROLE = "primary";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+// Structural copies of the Node document types, so this module and its
+// declarations stand alone.
+
+/** A verification key: a keyring entry (src/halo/keyring.ts) without its private key. */
+export interface VerifierKey {
+  key_id: string;
+  /** SPKI PEM Ed25519 public key */
+  public_key: string;
+  expires_at?: string;
+  revoked_at?: string;
+  revocation_reason?: string;
+}
+
+/** A HALO keyring or its public-only export. */
+export interface VerifierKeyring {
+  keys: VerifierKey[];
+}
+
+export interface HaloReceiptDocument {
+  id: string;
+  timestamp: string;
+  responseHash: string;
+  key_id?: string;
+  signature: string;
+  response: string;
+  schema_version?: string;
+  prev_receipt_hash?: string;
+}
+
+export type HaloReceiptFailureCode =
+  | "UNSUPPORTED_SCHEMA"
+  | "HASH_MISMATCH"
+  | "UNKNOWN_KEY"
+  | "KEY_REVOKED"
+  | "KEY_EXPIRED"
+  | "SIGNATURE_INVALID";
+
+export interface HaloReceiptVerification {
+  valid: boolean;
+  /** Human-readable reason when `valid` is false */
+  reason?: string;
+  /** Machine-readable failure category when `valid` is false */
+  code?: HaloReceiptFailureCode;
+}
+
+export interface HaloReceiptVerifyOptions {
+  /** Keys 2.0.0 receipts are checked against, found by the receipt's key_id */
+  keyring?: VerifierKeyring;
+  /** Clock used for key expiry */
+  now?: Date;
+  /** Shared secret for 1.0.0 HMAC receipts */
+  legacyHmacKey?: string;
+}
+
+export interface MasterCosignatureDocument {
+  key_id: string;
+  role: string;
+  public_key: string;
+  signature: string;
+  signed_at?: string;
+}
+
+export interface MasterReceiptDocument {
+  receipt_version?: string;
+  receipt_id?: string;
+  content_hash?: string;
+  /** Base64 Ed25519 signature */
+  signature?: string;
+  signature_scheme?: string;
+  prev_receipt_hash?: string;
+  content_commitment?: string;
+  evidence_ciphertext_hash?: string;
+  /** Absent means halo.canonical-json.v1 */
+  canonicalization?: string;
+  batch?: {
+    batch_id: string;
+    root_hash: string;
+    size: number;
+    leaf_index: number;
+    audit_path: string[];
+  };
+  cosignatures?: MasterCosignatureDocument[];
+}
+
+export interface DisclosureDocument {
+  scheme: string;
+  commitments: { frame: string; messages: string[]; assertions: string[] };
+  salts: { frame: string; messages: Array<string | null>; assertions: Array<string | null> };
+}
+
+export interface SignedTreeHeadDocument {
+  tree_size: number;
+  root_hash: string;
+  timestamp: string;
+  key_id: string;
+  public_key: string;
+  /** Base64 Ed25519 signature over TREE_HEAD_DOMAIN_PREFIX + canonical head */
+  signature: string;
+}
+
+export interface InclusionProofDocument {
+  log_version?: string;
+  kind: string;
+  receipt_id: string;
+  receipt_hash: string;
+  leaf_index: number;
+  leaf_hash: string;
+  audit_path: string[];
+  signed_tree_head: SignedTreeHeadDocument;
+}
+
+export interface EvidencePackDocument {
+  evidence_version?: string;
+  content_hash?: string;
+  canonicalization?: string;
+  transcript?: unknown;
+  eli_assertions?: unknown[];
+  disclosure?: DisclosureDocument;
+  transparency?: InclusionProofDocument;
+}
+
+export interface EncryptedEvidenceHeader {
+  receipt_id?: unknown;
+  content_hash?: unknown;
+  iv?: unknown;
+  ciphertext?: unknown;
+}
+
+export interface ConsoleArtifactDocument {
+  schemaVersion?: string;
+  outputText?: string;
+  receipt: HaloReceiptDocument;
+  transparency?: InclusionProofDocument;
+}
+
+/** Require `threshold` of `keys` (SPKI PEMs) to have signed a master receipt. */
+export interface SignaturePolicy {
+  threshold: number;
+  keys: string[];
+}
+
+export interface SignatureSummary {
+  /** Keys with a valid signature on the checkpoint, primary first */
+  valid: Array<{ key_id: string; role: string }>;
+  /** Set when a signature policy was applied */
+  threshold?: number;
+}
+
+export interface DisclosureSummary {
+  withheld: { messages: number[]; assertions: number[] };
+  total: { messages: number; assertions: number };
+}
+
+export interface CheckResult {
+  ok: boolean;
+  reason?: string;
+}
+
+export interface MasterReceiptVerification extends CheckResult {
+  /** Keys that signed the checkpoint, on success */
+  signatures?: SignatureSummary;
+  /** Withheld parts of a selective-disclosure evidence pack, on success */
+  disclosure?: DisclosureSummary;
+}
+
+// ── Primitives ───────────────────────────────────────────────────────────────
+
+function subtle(): SubtleCrypto {
+  const api = globalThis.crypto?.subtle;
+  if (!api) {
+    throw new Error("Web Crypto API unavailable: the HALO verifier needs globalThis.crypto.subtle");
+  }
+  return api;
+}
+
+function utf8(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
+
+/** SHA-256 (hex) of a string's UTF-8 bytes, or of raw bytes. */
+export async function sha256Hex(data: string | Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await subtle().digest("SHA-256", typeof data === "string" ? utf8(data) : data);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/** key_id of an SPKI PEM: first 16 hex of SHA-256 over the DER (see src/halo/keyring.ts). */
+export async function computeKeyId(publicKeyPem: string): Promise<string> {
+  return (await sha256Hex(new Uint8Array(pemToDer(publicKeyPem)))).slice(0, 16);
+}
+
+/**
+ * Verify an Ed25519 signature over the UTF-8 bytes of `payload`.  The
+ * signature may be hex (HALO receipts) or base64 (everything else); an
+ * Ed25519 signature is 128 hex or 88 base64 characters, so the two never
+ * collide.  Returns false, never throws, on a malformed key or signature.
+ */
+export async function verifyEd25519(publicKeyPem: string, payload: string, signature: string): Promise<boolean> {
+  try {
+    const key = await subtle().importKey("spki", pemToDer(publicKeyPem), { name: "Ed25519" }, false, ["verify"]);
+    return await subtle().verify("Ed25519", key, decodeSignature(signature), utf8(payload));
+  } catch {
+    return false;
+  }
+}
+
+/** receipt_hash of any HALO receipt: SHA-256 over its canonical JSON minus the unhashed fields. */
+export async function hashReceipt(receipt: unknown): Promise<string> {
+  const record = isRecord(receipt)
+    ? Object.fromEntries(Object.entries(receipt).filter(([key]) => !UNHASHED_RECEIPT_FIELDS.includes(key)))
+    : receipt;
+  return sha256Hex(canonicalJson(record));
+}
+
+/** RFC 6962 leaf hash: SHA-256(0x00 || data). */
+export async function merkleLeafHash(data: string): Promise<string> {
+  return sha256Hex(concatBytes(new Uint8Array([0x00]), utf8(data)));
+}
+
+async function merkleNodeHash(left: string, right: string): Promise<string> {
+  return sha256Hex(concatBytes(new Uint8Array([0x01]), hexToBytes(left), hexToBytes(right)));
+}
+
+/** RFC 9162 §2.1.3.2 audit path verification. */
+export async function verifyInclusionPath(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  auditPath: string[],
+  rootHash: string
+): Promise<boolean> {
+  if (index < 0 || index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leafHash;
+
+  for (const p of auditPath) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = await merkleNodeHash(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = await merkleNodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && r === rootHash;
+}
+
+// ── HALO receipts ────────────────────────────────────────────────────────────
+
+const HASH_MISMATCH: HaloReceiptVerification = {
+  valid: false,
+  code: "HASH_MISMATCH",
+  reason: "response hash mismatch – content may have been tampered",
+};
+
+const SIGNATURE_INVALID: HaloReceiptVerification = {
+  valid: false,
+  code: "SIGNATURE_INVALID",
+  reason: "signature mismatch – receipt may have been forged",
+};
+
+/** Byte string a 2.0.0 receipt signature covers (see receiptSigningPayload in src/halo/signer.ts). */
+export function receiptSigningPayload(
+  receipt: Pick<HaloReceiptDocument, "id" | "timestamp" | "responseHash" | "key_id" | "prev_receipt_hash">
+): string {
+  const base = `${receipt.id}|${receipt.timestamp}|${receipt.responseHash}|${receipt.key_id}`;
+  return receipt.prev_receipt_hash === undefined ? base : `${base}|${receipt.prev_receipt_hash}`;
+}
+
+/**
+ * Verify a HALO receipt, dispatching on `schema_version`: 2.0.0 receipts
+ * against the keyring key named by `key_id`, 1.0.0 receipts against the
+ * shared HMAC secret.  Revoked keys are refused, and so are keys past their
+ * rotation window's `expires_at`.
+ */
+export async function verifyHaloReceipt(
+  receipt: HaloReceiptDocument,
+  options?: HaloReceiptVerifyOptions
+): Promise<HaloReceiptVerification> {
+  if (receipt.schema_version !== HALO_RECEIPT_VERSION && receipt.schema_version !== LEGACY_HALO_RECEIPT_VERSION) {
+    return {
+      valid: false,
+      code: "UNSUPPORTED_SCHEMA",
+      reason: `unknown or missing schema_version: ${receipt.schema_version ?? "undefined"}`,
+    };
+  }
+  if (typeof receipt.response !== "string" || (await sha256Hex(receipt.response)) !== receipt.responseHash) {
+    return HASH_MISMATCH;
+  }
+  if (receipt.schema_version === LEGACY_HALO_RECEIPT_VERSION) {
+    return verifyLegacyReceipt(receipt, options?.legacyHmacKey);
+  }
+
+  const entry = receipt.key_id ? options?.keyring?.keys.find((key) => key.key_id === receipt.key_id) : undefined;
+  if (!entry) {
+    return { valid: false, code: "UNKNOWN_KEY", reason: `unknown key_id: ${receipt.key_id ?? "undefined"}` };
+  }
+  if (entry.revoked_at) {
+    return {
+      valid: false,
+      code: "KEY_REVOKED",
+      reason: `key_id ${entry.key_id} was revoked at ${entry.revoked_at}${
+        entry.revocation_reason ? ` (${entry.revocation_reason})` : ""
+      }`,
+    };
+  }
+  if (entry.expires_at && Date.parse(entry.expires_at) <= (options?.now ?? new Date()).getTime()) {
+    return {
+      valid: false,
+      code: "KEY_EXPIRED",
+      reason: `key_id ${entry.key_id} left its rotation window at ${entry.expires_at}`,
+    };
+  }
+
+  const signed =
+    /^[0-9a-f]{128}$/i.test(String(receipt.signature)) &&
+    (await verifyEd25519(entry.public_key, receiptSigningPayload(receipt), receipt.signature));
+  return signed ? { valid: true } : SIGNATURE_INVALID;
+}
+
+/** schema_version 1.0.0: HMAC-SHA256 over `id|timestamp|responseHash` with a shared secret. */
+async function verifyLegacyReceipt(receipt: HaloReceiptDocument, secret?: string): Promise<HaloReceiptVerification> {
+  if (!secret) {
+    return {
+      valid: false,
+      code: "UNKNOWN_KEY",
+      reason: "schema_version 1.0.0 receipts are HMAC-signed; pass legacyHmacKey to verify them",
+    };
+  }
+  if (!/^[0-9a-f]{64}$/i.test(String(receipt.signature))) {
+    return SIGNATURE_INVALID;
+  }
+  const key = await subtle().importKey("raw", utf8(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+  const signed = await subtle().verify(
+    "HMAC",
+    key,
+    hexToBytes(receipt.signature),
+    utf8(`${receipt.id}|${receipt.timestamp}|${receipt.responseHash}`)
+  );
+  return signed ? { valid: true } : SIGNATURE_INVALID;
+}
+
+// ── Transparency log ─────────────────────────────────────────────────────────
+
+/** Check a signed tree head against the key it embeds, and against `publicKeyPem` when pinned. */
+export async function verifyTreeHead(
+  head: SignedTreeHeadDocument,
+  options?: { publicKeyPem?: string }
+): Promise<CheckResult> {
+  if (typeof head.public_key !== "string" || (await computeKeyIdOrUndefined(head.public_key)) !== head.key_id) {
+    return { ok: false, reason: "tree head key_id does not match its public key" };
+  }
+  if (options?.publicKeyPem && (await computeKeyIdOrUndefined(options.publicKeyPem)) !== head.key_id) {
+    return { ok: false, reason: `tree head signed by unexpected key_id ${head.key_id}` };
+  }
+  const payload =
+    TREE_HEAD_DOMAIN_PREFIX +
+    canonicalJson({ tree_size: head.tree_size, root_hash: head.root_hash, timestamp: head.timestamp, key_id: head.key_id });
+  return (await verifyEd25519(head.public_key, payload, String(head.signature)))
+    ? { ok: true }
+    : { ok: false, reason: "tree head signature verification failed" };
+}
+
+/**
+ * Check a transparency log inclusion proof for `receipt` (any kind): the
+ * proof names this receipt's receipt_hash, its audit path leads to the tree
+ * head root, and the tree head is signed.
+ */
+export async function verifyInclusionProof(
+  proof: InclusionProofDocument,
+  receipt: unknown,
+  options?: { publicKeyPem?: string }
+): Promise<CheckResult> {
+  if (proof.log_version !== TLOG_VERSION) {
+    return { ok: false, reason: `unsupported log_version: ${String(proof.log_version)}` };
+  }
+  const head = proof.signed_tree_head;
+  if (
+    !isRecord(head) ||
+    typeof proof.leaf_index !== "number" ||
+    typeof head.tree_size !== "number" ||
+    !isStringArray(proof.audit_path)
+  ) {
+    return { ok: false, reason: "malformed inclusion proof" };
+  }
+
+  if ((await hashReceipt(receipt)) !== proof.receipt_hash) {
+    return { ok: false, reason: "inclusion proof receipt_hash does not match the receipt" };
+  }
+  const leafHash = await merkleLeafHash(
+    canonicalJson({ kind: proof.kind, receipt_id: proof.receipt_id, receipt_hash: proof.receipt_hash })
+  );
+  if (leafHash !== proof.leaf_hash) {
+    return { ok: false, reason: "inclusion proof leaf_hash does not match its receipt fields" };
+  }
+  if (!(await verifyInclusionPath(leafHash, proof.leaf_index, head.tree_size, proof.audit_path, head.root_hash))) {
+    return { ok: false, reason: `audit path does not lead to the tree head root (size ${head.tree_size})` };
+  }
+  return verifyTreeHead(head, options);
+}
+
+// ── Master receipts ──────────────────────────────────────────────────────────
+
+/**
+ * Why a master receipt (and its evidence pack) cannot be checked under its
+ * canonicalization, or undefined when they can.
+ */
+function canonicalizationProblem(
+  receipt: MasterReceiptDocument,
+  evidence?: EvidencePackDocument
+): string | undefined {
+  const scheme = receipt.canonicalization;
+  if (scheme !== undefined && !isCanonicalizationScheme(scheme)) {
+    return `unsupported canonicalization: ${String(scheme)}`;
+  }
+  if (evidence && (evidence.canonicalization ?? LEGACY_CANONICALIZATION) !== (scheme ?? LEGACY_CANONICALIZATION)) {
+    return "evidence_pack.canonicalization does not match the master receipt";
+  }
+  return undefined;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** The per-receipt fields every master receipt signature covers. */
+export function signedEnvelope(receipt: MasterReceiptDocument): Record<string, unknown> {
+  const record = receipt as Record<string, unknown>;
+  return Object.fromEntries(
+    SIGNED_ENVELOPE_FIELDS.filter((field) => record[field] !== undefined).map((field) => [field, record[field]])
+  );
+}
+
+/**
+ * Recompute what `content_hash` commits to: the canonical transcript, or for
+ * selective-disclosure receipts the commitment set, with every disclosed
+ * message and assertion opening its salted commitment.  `recomputed` is the
+ * transcript hash or commitment root, when it could be computed.
+ */
+export async function verifyContentHash(
+  receipt: MasterReceiptDocument,
+  evidence: EvidencePackDocument
+): Promise<CheckResult & { recomputed?: string; disclosure?: DisclosureSummary }> {
+  const problem = canonicalizationProblem(receipt, evidence);
+  if (problem) {
+    return { ok: false, reason: problem };
+  }
+  if (receipt.content_commitment === DISCLOSURE_SCHEME) {
+    if (!evidence.disclosure) {
+      return { ok: false, reason: "master receipt commits to selective-disclosure parts but the evidence pack has none" };
+    }
+    try {
+      return await verifyDisclosure(evidence, receipt.content_hash, receipt.canonicalization);
+    } catch (err) {
+      return { ok: false, reason: `selective disclosure invalid: ${errorMessage(err)}` };
+    }
+  }
+
+  let canonicalTranscript: string;
+  try {
+    canonicalTranscript = canonicalizeWith(receipt.canonicalization, evidence.transcript);
+  } catch (err) {
+    return { ok: false, reason: `evidence transcript cannot be canonicalized: ${errorMessage(err)}` };
+  }
+  const recomputed = await sha256Hex(canonicalTranscript);
+  return recomputed === receipt.content_hash
+    ? { ok: true, recomputed }
+    : { ok: false, recomputed, reason: "content_hash mismatch between master receipt and evidence transcript" };
+}
+
+async function verifyDisclosure(
+  evidence: EvidencePackDocument,
+  contentHash: string | undefined,
+  canonicalization: string | undefined
+): Promise<CheckResult & { recomputed?: string; disclosure?: DisclosureSummary }> {
+  const fail = (reason: string, recomputed?: string) => ({
+    ok: false,
+    recomputed,
+    reason: `selective disclosure invalid: ${reason}`,
+  });
+  const { scheme, commitments, salts } = evidence.disclosure!;
+  if (scheme !== DISCLOSURE_SCHEME) {
+    return fail(`unsupported disclosure scheme: ${scheme ?? "undefined"}`);
+  }
+  if (
+    typeof commitments?.frame !== "string" ||
+    !Array.isArray(commitments.messages) ||
+    !Array.isArray(commitments.assertions) ||
+    typeof salts?.frame !== "string" ||
+    !Array.isArray(salts.messages) ||
+    !Array.isArray(salts.assertions)
+  ) {
+    return fail("malformed disclosure commitments");
+  }
+
+  const root = await sha256Hex(canonicalizeWith(canonicalization, { scheme: DISCLOSURE_SCHEME, ...commitments }));
+  if (root !== contentHash) {
+    return fail("disclosure commitments do not hash to content_hash", root);
+  }
+  const transcript = isRecord(evidence.transcript) ? evidence.transcript : {};
+  const { messages, ...frame } = transcript;
+  if ((await commitPart("frame", 0, salts.frame, frame, canonicalization)) !== commitments.frame) {
+    return fail("transcript fields outside messages do not match their commitment", root);
+  }
+
+  const withheld = { messages: [] as number[], assertions: [] as number[] };
+  const parts = [
+    ["message", Array.isArray(messages) ? messages : [], commitments.messages, salts.messages, withheld.messages],
+    ["assertion", evidence.eli_assertions ?? [], commitments.assertions, salts.assertions, withheld.assertions],
+  ] as const;
+  for (const [kind, values, committed, partSalts, withheldParts] of parts) {
+    if (values.length !== committed.length || partSalts.length !== committed.length) {
+      return fail(`${kind} count does not match the ${committed.length} committed ${kind}s`, root);
+    }
+    for (let i = 0; i < committed.length; i++) {
+      const salt = partSalts[i];
+      const placeholder = isWithheldPlaceholder(values[i]);
+      if (salt === null) {
+        if (!placeholder) return fail(`${kind} ${i} has no salt but is not a withheld placeholder`, root);
+        withheldParts.push(i);
+      } else if (placeholder) {
+        return fail(`${kind} ${i} is a withheld placeholder but carries a salt`, root);
+      } else if ((await commitPart(kind, i, salt, values[i], canonicalization)) !== committed[i]) {
+        return fail(`${kind} ${i} does not match its commitment`, root);
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    recomputed: root,
+    disclosure: {
+      withheld,
+      total: { messages: commitments.messages.length, assertions: commitments.assertions.length },
+    },
+  };
+}
+
+/** Whether `value` is exactly the `{ withheld: true }` placeholder of a withheld part. */
+function isWithheldPlaceholder(value: unknown): boolean {
+  return isRecord(value) && Object.keys(value).length === 1 && value.withheld === true;
+}
+
+async function commitPart(
+  kind: string,
+  index: number,
+  salt: string,
+  value: unknown,
+  canonicalization: string | undefined
+): Promise<string> {
+  // Drop `undefined` members so commitments match the value after a JSON round trip.
+  const plain = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  return sha256Hex(canonicalizeWith(canonicalization, { kind, index, salt, value: plain }));
+}
+
+/**
+ * Check the primary signature and every cosignature of a master receipt.
+ * The primary signature covers `DOMAIN_PREFIX + canonical envelope`, or for
+ * batch receipts the batch root reached through the receipt's audit path;
+ * cosignatures always cover their role and the receipt's own envelope.  With a
+ * `signaturePolicy`, `threshold` distinct policy keys must have signed;
+ * otherwise the primary signature is checked against `verifyKeyPem`.
+ */
+export async function verifyMasterSignatures(
+  receipt: MasterReceiptDocument,
+  options: { verifyKeyPem?: string; signaturePolicy?: SignaturePolicy }
+): Promise<CheckResult & { batched: boolean; signatures?: SignatureSummary }> {
+  const batched = receipt.signature_scheme === BATCH_SIGNATURE_SCHEME;
+  const problem = canonicalizationProblem(receipt);
+  if (problem) {
+    return { ok: false, batched, reason: problem };
+  }
+  let canonicalEnvelope: string;
+  try {
+    canonicalEnvelope = canonicalizeWith(receipt.canonicalization, signedEnvelope(receipt));
+  } catch (err) {
+    return { ok: false, batched, reason: `signed envelope cannot be canonicalized: ${errorMessage(err)}` };
+  }
+  const cosignaturePayload = (role: string): string =>
+    `${COSIGNATURE_DOMAIN_PREFIX}${canonicalJson({ role })}|${canonicalEnvelope}`;
+
+  let payload = DOMAIN_PREFIX + canonicalEnvelope;
+  if (batched) {
+    const batch = receipt.batch;
+    if (
+      !isRecord(batch) ||
+      typeof batch.leaf_index !== "number" ||
+      typeof batch.size !== "number" ||
+      !isStringArray(batch.audit_path)
+    ) {
+      return { ok: false, batched, reason: "batch-signed master receipt has no batch proof" };
+    }
+    const leafHash = await merkleLeafHash(canonicalEnvelope);
+    if (!(await verifyInclusionPath(leafHash, batch.leaf_index, batch.size, batch.audit_path, batch.root_hash))) {
+      return { ok: false, batched, reason: "batch audit path does not lead to the signed Merkle root" };
+    }
+    payload =
+      BATCH_DOMAIN_PREFIX +
+      canonicalJson({
+        receipt_version: receipt.receipt_version,
+        batch_id: batch.batch_id,
+        root_hash: batch.root_hash,
+        size: batch.size,
+        signature_scheme: BATCH_SIGNATURE_SCHEME,
+      });
+  }
+
+  const signature = String(receipt.signature ?? "");
+  const cosignatures = receipt.cosignatures ?? [];
+  for (const cosignature of cosignatures) {
+    const valid =
+      (await computeKeyIdOrUndefined(cosignature.public_key)) === cosignature.key_id &&
+      (await verifyEd25519(cosignature.public_key, cosignaturePayload(cosignature.role), cosignature.signature));
+    if (!valid) {
+      return { ok: false, batched, reason: `cosignature by key_id ${cosignature.key_id} (${cosignature.role}) is invalid` };
+    }
+  }
+
+  if (options.signaturePolicy) {
+    const policy = options.signaturePolicy;
+    const keys = await Promise.all(policy.keys.map(async (pem) => ({ pem, key_id: await computeKeyId(pem) })));
+    if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > keys.length) {
+      return { ok: false, batched, reason: `invalid signature policy: threshold must be between 1 and ${keys.length}` };
+    }
+
+    const valid = new Map<string, string>();
+    for (const key of keys) {
+      if (await verifyEd25519(key.pem, payload, signature)) {
+        valid.set(key.key_id, PRIMARY_SIGNATURE_ROLE);
+      }
+    }
+    for (const cosignature of cosignatures) {
+      const key = keys.find((candidate) => candidate.key_id === cosignature.key_id);
+      if (
+        key &&
+        !valid.has(key.key_id) &&
+        (await verifyEd25519(key.pem, cosignaturePayload(cosignature.role), cosignature.signature))
+      ) {
+        valid.set(key.key_id, cosignature.role);
+      }
+    }
+    if (valid.size < policy.threshold) {
+      return {
+        ok: false,
+        batched,
+        reason: `signature threshold not met: ${valid.size} of ${policy.threshold} required signatures from ${keys.length} policy keys`,
+      };
+    }
+    return {
+      ok: true,
+      batched,
+      signatures: { valid: [...valid].map(([key_id, role]) => ({ key_id, role })), threshold: policy.threshold },
+    };
+  }
+
+  if (!options.verifyKeyPem) {
+    return { ok: false, batched, reason: "missing verify key for Ed25519 verification" };
+  }
+  if (!(await verifyEd25519(options.verifyKeyPem, payload, signature))) {
+    return { ok: false, batched, reason: "ed25519 signature verification failed" };
+  }
+  return {
+    ok: true,
+    batched,
+    signatures: {
+      valid: [
+        { key_id: await computeKeyId(options.verifyKeyPem), role: PRIMARY_SIGNATURE_ROLE },
+        ...cosignatures.map(({ key_id, role }) => ({ key_id, role })),
+      ],
+    },
+  };
+}
+
+/**
+ * Check that an encrypted evidence pack is the one the master receipt signed
+ * (header ids and `evidence_ciphertext_hash`).  Needs no private key.
+ */
+export async function verifyCiphertextBinding(
+  receipt: MasterReceiptDocument,
+  encrypted: EncryptedEvidenceHeader
+): Promise<CheckResult> {
+  if (receipt.evidence_ciphertext_hash === undefined) {
+    return { ok: false, reason: "master receipt does not bind an encrypted evidence pack" };
+  }
+  if (encrypted.receipt_id !== receipt.receipt_id || encrypted.content_hash !== receipt.content_hash) {
+    return { ok: false, reason: "encrypted evidence header does not match the master receipt" };
+  }
+  const hash = await sha256Hex(canonicalJson({ iv: encrypted.iv, ciphertext: encrypted.ciphertext }));
+  return hash === receipt.evidence_ciphertext_hash
+    ? { ok: true }
+    : { ok: false, reason: "evidence ciphertext does not match evidence_ciphertext_hash" };
+}
+
+/**
+ * Verify a master receipt against its (decrypted) evidence pack, as
+ * verifyCheckpointOffline does: versions, content_hash, signatures and the
+ * transparency log inclusion proof when the evidence pack carries one.
+ */
+export async function verifyMasterReceipt(input: {
+  masterReceipt: MasterReceiptDocument;
+  evidencePack: EvidencePackDocument;
+  /** Checks the primary signature; ignored when a signature policy is given */
+  verifyKeyPem?: string;
+  signaturePolicy?: SignaturePolicy;
+  /** Pins the transparency log key; otherwise the key embedded in the tree head is used */
+  logVerifyKeyPem?: string;
+  /** The encrypted pack `evidencePack` was decrypted from; checked against evidence_ciphertext_hash */
+  encryptedEvidencePack?: EncryptedEvidenceHeader;
+}): Promise<MasterReceiptVerification> {
+  const { masterReceipt, evidencePack } = input;
+  if (masterReceipt.receipt_version !== MASTER_RECEIPT_VERSION) {
+    return { ok: false, reason: `unsupported master receipt_version: ${masterReceipt.receipt_version ?? "missing"}` };
+  }
+  if (evidencePack.evidence_version !== undefined && evidencePack.evidence_version !== EVIDENCE_PACK_VERSION) {
+    return { ok: false, reason: `unsupported evidence_version: ${evidencePack.evidence_version}` };
+  }
+
+  const content = await verifyContentHash(masterReceipt, evidencePack);
+  if (!content.ok) {
+    return { ok: false, reason: content.reason };
+  }
+  if (evidencePack.content_hash !== masterReceipt.content_hash) {
+    return { ok: false, reason: "evidence_pack.content_hash mismatch with master receipt" };
+  }
+
+  const signed = await verifyMasterSignatures(masterReceipt, input);
+  if (!signed.ok) {
+    return { ok: false, reason: signed.reason };
+  }
+
+  if (input.encryptedEvidencePack) {
+    const binding = await verifyCiphertextBinding(masterReceipt, input.encryptedEvidencePack);
+    if (!binding.ok) {
+      return { ok: false, reason: `encrypted evidence invalid: ${binding.reason}` };
+    }
+  }
+
+  if (evidencePack.transparency) {
+    const inclusion = await verifyInclusionProof(evidencePack.transparency, masterReceipt, {
+      publicKeyPem: input.logVerifyKeyPem,
+    });
+    if (!inclusion.ok) {
+      return { ok: false, reason: `transparency log inclusion proof invalid: ${inclusion.reason}` };
+    }
+  }
+
+  return {
+    ok: true,
+    signatures: signed.signatures,
+    ...(content.disclosure ? { disclosure: content.disclosure } : {}),
+  };
+}
+
+// ── Console artifacts ────────────────────────────────────────────────────────
+
+/**
+ * Verify a HALO Console artifact: its HaloReceipt, that `outputText` is the
+ * response the receipt signed, and the transparency log inclusion proof of
+ * the receipt when present.
+ */
+export async function verifyConsoleArtifact(
+  artifact: ConsoleArtifactDocument,
+  options?: HaloReceiptVerifyOptions & { logVerifyKeyPem?: string }
+): Promise<CheckResult & { receipt?: HaloReceiptVerification }> {
+  if (artifact.schemaVersion !== undefined && artifact.schemaVersion !== CONSOLE_ARTIFACT_VERSION) {
+    return { ok: false, reason: `unsupported console artifact schemaVersion: ${artifact.schemaVersion}` };
+  }
+  if (!isRecord(artifact.receipt)) {
+    return { ok: false, reason: "console artifact has no receipt" };
+  }
+
+  const receipt = await verifyHaloReceipt(artifact.receipt, options);
+  if (!receipt.valid) {
+    return { ok: false, reason: `receipt invalid: ${receipt.reason}`, receipt };
+  }
+  if (artifact.outputText !== undefined && artifact.outputText !== artifact.receipt.response) {
+    return { ok: false, reason: "outputText does not match the signed receipt response", receipt };
+  }
+
+  if (artifact.transparency) {
+    const inclusion = await verifyInclusionProof(artifact.transparency, artifact.receipt, {
+      publicKeyPem: options?.logVerifyKeyPem,
+    });
+    if (!inclusion.ok) {
+      return { ok: false, reason: `transparency log inclusion proof invalid: ${inclusion.reason}`, receipt };
+    }
+  }
+  return { ok: true, receipt };
+}
+
+// ── Encoding ─────────────────────────────────────────────────────────────────
+
+/** DER bytes of a PEM key; tolerates `\n` escapes left by environment variables. */
+export function pemToDer(pem: string): ArrayBuffer {
+  const body = pem
+    .replace(/\\n/g, "\n")
+    .replace(/-----(BEGIN|END) [A-Z ]+-----/g, "")
+    .replace(/\s+/g, "");
+  return decodeBase64(body).buffer;
+}
+
+export function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    out[i] = binary.charCodeAt(i);
+  }
+  return out;
+}
+
+function decodeSignature(signature: string): Uint8Array<ArrayBuffer> {
+  const normalized = signature.trim();
+  return /^[0-9a-fA-F]+$/.test(normalized) && normalized.length % 2 === 0
+    ? hexToBytes(normalized)
+    : decodeBase64(normalized.replace(/\s+/g, ""));
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    out[i / 2] = Number.parseInt(hex.slice(i, i + 2), 16);
+  }
+  return out;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function computeKeyIdOrUndefined(publicKeyPem: unknown): Promise<string | undefined> {
+  try {
+    return typeof publicKeyPem === "string" ? await computeKeyId(publicKeyPem) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
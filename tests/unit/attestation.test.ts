@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  ATTESTATION_FILE,
+  DSSE_PAYLOAD_TYPE,
+  IN_TOTO_STATEMENT_TYPE,
+  buildRunStatement,
+  checkSubjects,
+  dssePae,
+  promptDigest,
+  signAttestation,
+  subjectFor,
+  verifyAttestation,
+  type RunPredicate,
+} from "../../src/halo/attestation.js";
+import { computeKeyId } from "../../src/halo/keyring.js";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import { runVerify } from "../../src/cli/verify.js";
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+const files: Record<string, string> = {
+  "artifact.json": JSON.stringify({ hello: "world" }),
+  "report.md": "# Report\n",
+};
+
+function predicate(overrides: Partial<RunPredicate> = {}): RunPredicate {
+  return {
+    prompt_sha256: promptDigest("Tell me about tides."),
+    provider: "openai",
+    model: "gpt-test",
+    receipt_id: "r-1",
+    eli_validation: { ok: true, issues: [] },
+    leak_scan: { ok: true, findings: [] },
+    produced_at: "2026-03-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function statement(overrides: Partial<RunPredicate> = {}) {
+  return buildRunStatement(
+    Object.entries(files).map(([name, content]) => subjectFor(name, content)),
+    predicate(overrides)
+  );
+}
+
+describe("in-toto attestations", () => {
+  it("signs a statement in a DSSE envelope over the PAE", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const envelope = await signAttestation(statement(), createPemSigner(privatePem));
+
+    expect(envelope.payloadType).toBe(DSSE_PAYLOAD_TYPE);
+    expect(envelope.signatures[0].keyid).toBe(computeKeyId(publicPem));
+    expect(dssePae("t", Buffer.from("ab")).toString("utf8")).toBe("DSSEv1 1 t 2 ab");
+
+    const result = verifyAttestation(envelope, publicPem);
+    expect(result).toMatchObject({ ok: true, keyid: computeKeyId(publicPem) });
+    expect(result.statement?._type).toBe(IN_TOTO_STATEMENT_TYPE);
+    expect(result.statement?.predicate.prompt_sha256).toBe(promptDigest("Tell me about tides."));
+    expect(checkSubjects(result.statement!, (name) => files[name]).ok).toBe(true);
+  });
+
+  it("rejects altered payloads, other keys and subjects that no longer match", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const envelope = await signAttestation(statement(), createPemSigner(privatePem));
+
+    const altered = JSON.parse(Buffer.from(envelope.payload, "base64").toString("utf8"));
+    altered.predicate.leak_scan.ok = false;
+    const forged = { ...envelope, payload: Buffer.from(JSON.stringify(altered)).toString("base64") };
+    expect(verifyAttestation(forged, publicPem).reason).toContain("signature verification failed");
+    expect(verifyAttestation(envelope, keyPair().publicPem).reason).toContain("does not match the verify key");
+    expect(verifyAttestation({ ...envelope, payloadType: "application/json" }, publicPem).ok).toBe(false);
+
+    const subjects = checkSubjects(verifyAttestation(envelope, publicPem).statement!, (name) =>
+      name === "report.md" ? "# Edited\n" : undefined
+    );
+    expect(subjects).toEqual({ ok: false, mismatched: ["report.md"], missing: ["artifact.json"] });
+    expect(() => buildRunStatement([], predicate())).toThrow("at least one subject");
+  });
+
+  it("verifies an envelope next to its subjects with the verify CLI", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "attestation-"));
+    const previous = { verify: process.env.RECEIPT_VERIFY_KEY, signing: process.env.RECEIPT_SIGNING_KEY };
+    process.env.RECEIPT_VERIFY_KEY = publicPem;
+    delete process.env.RECEIPT_SIGNING_KEY;
+    try {
+      for (const [name, content] of Object.entries(files)) writeFileSync(join(dir, name), content);
+      const envelopePath = join(dir, ATTESTATION_FILE);
+      const argv = ["node", "verify", "--artifact", envelopePath, "--out-dir", dir];
+
+      writeFileSync(envelopePath, JSON.stringify(await signAttestation(statement(), createPemSigner(privatePem))));
+      expect(await runVerify(argv)).toBe(true);
+
+      writeFileSync(join(dir, "report.md"), "# Edited\n");
+      expect(await runVerify(argv)).toBe(false);
+      expect(readFileSync(join(dir, "verify_report.md"), "utf8")).toContain("digest mismatch: report.md");
+
+      writeFileSync(join(dir, "report.md"), files["report.md"]);
+      const failedScan = statement({
+        leak_scan: { ok: false, findings: [{ location: "transcript", pattern: "Bearer token header" }] },
+      });
+      writeFileSync(envelopePath, JSON.stringify(await signAttestation(failedScan, createPemSigner(privatePem))));
+      expect(await runVerify(argv)).toBe(false);
+      expect(readFileSync(join(dir, "verify_report.md"), "utf8")).toContain("transcript: Bearer token header");
+    } finally {
+      if (previous.verify === undefined) delete process.env.RECEIPT_VERIFY_KEY;
+      else process.env.RECEIPT_VERIFY_KEY = previous.verify;
+      if (previous.signing !== undefined) process.env.RECEIPT_SIGNING_KEY = previous.signing;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createKeyring } from "../../src/halo/keyring.js";
+import { parsePolicy, POLICY_VERSION } from "../../src/halo/policy.js";
+import {
+  BATCH_PROGRESS_FILE,
+  BATCH_SUMMARY_FILE,
+  createRateLimiter,
+  executeBatch,
+  parseBatchArgs,
+  readBatchItems,
+  type BatchItem,
+  type BatchOptions,
+  type BatchSummary,
+} from "../../src/cli/batch.js";
+
+const TEST_KEY = createKeyring();
+
+const RESPONSES: Record<string, string> = {
+  clean: "The sky appears blue due to Rayleigh scattering. This suggests that shorter wavelengths scatter more.",
+  terse: "It is. The Moon raises the tides of the ocean.",
+};
+
+const PROMPTS = [
+  JSON.stringify({ id: "sky", prompt: "clean" }),
+  "",
+  JSON.stringify({ prompt: "terse", provider: "anthropic", model: "claude-test", params: { maxTokens: 64 } }),
+  JSON.stringify({ id: "tides/2", prompt: "clean", provider: "gemini" }),
+  JSON.stringify({ id: "flaky", prompt: "clean" }),
+].join("\n");
+
+function options(outDir: string, overrides: Partial<BatchOptions> = {}): BatchOptions {
+  return {
+    outDir,
+    concurrency: 2,
+    rateLimits: {},
+    resume: false,
+    keyring: TEST_KEY,
+    invokerFor: () => async (prompt) => RESPONSES[prompt],
+    ...overrides,
+  };
+}
+
+describe("batch runner", () => {
+  it("reads JSONL prompt sets with per-line provider, model and params", () => {
+    const items = readBatchItems(PROMPTS, { model: "gpt-test" });
+    expect(items.map((item) => item.id)).toEqual(["sky", "line-3", "tides_2", "flaky"]);
+    expect(items[1]).toEqual({
+      id: "line-3",
+      line: 3,
+      prompt: "terse",
+      provider: "anthropic",
+      model: "claude-test",
+      params: { maxTokens: 64 },
+    });
+    expect(items[0]).toMatchObject({ provider: "openai", model: "gpt-test", params: {} });
+    // --model belongs to the default provider; other providers keep their own default.
+    expect(items[2].provider).toBe("gemini");
+    expect(items[2].model).not.toBe("gpt-test");
+    const mixed = readBatchItems('{"prompt": "x"}\n{"prompt": "y", "provider": "openai"}', {
+      provider: "gemini",
+      model: "gemini-test",
+    });
+    expect(mixed.map((item) => [item.provider, item.model === "gemini-test"])).toEqual([
+      ["gemini", true],
+      ["openai", false],
+    ]);
+
+    const backlog = readBatchItems(JSON.stringify({ request_id: "user-001", body: "Add a flag." }), {
+      promptField: "body",
+      idField: "request_id",
+    });
+    expect(backlog[0]).toMatchObject({ id: "user-001", prompt: "Add a flag." });
+
+    expect(() => readBatchItems("{")).toThrow("line 1: invalid JSON");
+    expect(() => readBatchItems('{"prompt": ""}')).toThrow('line 1: "prompt" must be a non-empty string');
+    expect(() => readBatchItems('{"id": "a", "prompt": "x"}\n{"id": "a", "prompt": "y"}')).toThrow("line 2: duplicate id a");
+    expect(() => readBatchItems('{"prompt": "x", "provider": "mistral"}')).toThrow("line 1: provider must be");
+    expect(() => readBatchItems('{"prompt": "x", "params": {"endpoint": "/v2"}}')).toThrow("params.endpoint");
+
+    const args = parseBatchArgs([
+      "node", "batch.ts", "prompts.jsonl", "--concurrency", "8", "--rate-limit", "openai=60", "--rate-limit", "gemini=30", "--resume",
+    ]);
+    expect(args).toMatchObject({ concurrency: 8, rateLimits: { openai: 60, gemini: 30 }, resume: true });
+    expect(() => parseBatchArgs(["node", "batch.ts", "p.jsonl", "--rate-limit", "openai"])).toThrow("--rate-limit must be");
+    expect(() => parseBatchArgs(["node", "batch.ts", "p.jsonl", "--concurrency", "0"])).toThrow("--concurrency");
+    expect(() => parseBatchArgs(["node", "batch.ts"])).toThrow("Usage: batch");
+  });
+
+  it("spaces calls per provider", async () => {
+    let clock = 0;
+    const waits: number[] = [];
+    const acquire = createRateLimiter({ openai: 60 }, {
+      now: () => clock,
+      sleep: async (ms) => {
+        waits.push(ms);
+      },
+    });
+    await Promise.all([acquire("openai"), acquire("openai"), acquire("openai"), acquire("gemini")]);
+    expect(waits).toEqual([1000, 2000]);
+    clock = 5000;
+    await acquire("openai");
+    expect(waits).toEqual([1000, 2000]);
+  });
+
+  it("runs items with bounded concurrency, summarizes by rule and resumes after an interruption", async () => {
+    const outDir = mkdtempSync(join(tmpdir(), "batch-"));
+    try {
+      const items = readBatchItems(PROMPTS);
+      let inFlight = 0;
+      let peak = 0;
+      const invokerFor = (item: BatchItem) => async (prompt: string) => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((done) => setTimeout(done, 5));
+        inFlight -= 1;
+        if (item.id === "flaky") throw new Error("provider timed out");
+        return RESPONSES[prompt];
+      };
+
+      const first = await executeBatch(items, options(outDir, { invokerFor }));
+      expect(peak).toBe(2);
+      expect(first.counts).toEqual({ passed: 2, failed: 1, quarantined: 0, rejected: 0, error: 1 });
+      expect(first.by_provider.anthropic.failed).toBe(1);
+      expect(first.by_rule.FACT_WITHOUT_EVIDENCE).toEqual({ items: 1, issues: 1 });
+      expect(first.items.find((item) => item.id === "flaky")?.error).toContain("provider timed out");
+
+      const written = JSON.parse(readFileSync(join(outDir, "items", "sky.json"), "utf8"));
+      expect(written).toMatchObject({ batchItem: { id: "sky", status: "passed" }, verification: { valid: true } });
+      expect(JSON.parse(readFileSync(join(outDir, BATCH_SUMMARY_FILE), "utf8"))).toEqual(first);
+
+      await expect(executeBatch(items, options(outDir))).rejects.toThrow("pass --resume");
+
+      // The rerun only retries the errored item.
+      const invoked: string[] = [];
+      const second: BatchSummary = await executeBatch(
+        items,
+        options(outDir, {
+          resume: true,
+          invokerFor: (item) => async (prompt) => {
+            invoked.push(item.id);
+            return RESPONSES[prompt];
+          },
+        })
+      );
+      expect(invoked).toEqual(["flaky"]);
+      expect(second.resumed).toBe(3);
+      expect(second.counts).toMatchObject({ passed: 3, failed: 1, error: 0 });
+      expect(readFileSync(join(outDir, BATCH_PROGRESS_FILE), "utf8").trim().split("\n")).toHaveLength(5);
+
+      // A policy quarantines FACT_WITHOUT_EVIDENCE items away from items/.
+      const policy = parsePolicy({
+        policy_version: POLICY_VERSION,
+        rules: [{ outcome: "validation_rule", rule: "FACT_WITHOUT_EVIDENCE", action: "quarantine" }],
+      });
+      const gated = await executeBatch(items.slice(1, 2), options(join(outDir, "gated"), { policy }));
+      expect(gated.items[0]).toMatchObject({ status: "quarantined", artifact: join("quarantine", "line-3.json") });
+      expect(existsSync(join(outDir, "gated", "quarantine", "line-3.json"))).toBe(true);
+    } finally {
+      rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { createHash, generateKeyPairSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import * as verifier from "../../src/verifier/index.js";
+import {
+  canonicalizeWith,
+  canonicalJson,
+  JCS_CANONICALIZATION,
+  jcsCanonicalJson,
+  LEGACY_CANONICALIZATION,
+} from "../../src/utils/canonicalJson.js";
+import { withholdParts } from "../../src/halo/disclosure.js";
+import { buildReceiptBundle } from "../../src/halo/receiptBundle.js";
+import { validateDocument } from "../../src/halo/schemaRegistry.js";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import {
+  cosignMasterReceipt,
+  createMasterReceipt,
+  createMasterReceiptBatch,
+  normalizeValetToTranscript,
+  parseIngestArgs,
+  sha256Hex,
+  verifyCheckpointOffline,
+  type EvidencePack,
+  type MasterReceipt,
+} from "../../src/cli/ingestValet.js";
+
+interface Vector {
+  name: string;
+  input: string;
+  canonical: string;
+  sha256: string;
+}
+
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(join(process.cwd(), "tests/fixtures/canonical-json", name), "utf8")) as T;
+}
+
+const jcs = fixture<{ vectors: Vector[]; errors: Array<{ name: string; input: string }> }>("jcs.json");
+const legacy = fixture<{ vectors: Array<{ name: string; input: unknown; canonical: string }> }>("vectors.json");
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+function source(completion: string) {
+  return {
+    transcript: normalizeValetToTranscript({ prompt: "How strong are tides? 🌊", completion }),
+    sourceDir: "/tmp/valet/jcs",
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(completion) }],
+    matchedHmacStrategy: "canonical_transcript" as const,
+    canonicalization: JCS_CANONICALIZATION as typeof JCS_CANONICALIZATION,
+  };
+}
+
+/** Both verifiers on the same checkpoint; they must agree. */
+async function verifyBoth(masterReceipt: MasterReceipt, evidencePack: EvidencePack, verifyKeyPem: string) {
+  const node = verifyCheckpointOffline({ masterReceipt, evidencePack, verifyKeyPem });
+  const standalone = await verifier.verifyMasterReceipt({ masterReceipt, evidencePack, verifyKeyPem });
+  expect(standalone.ok).toBe(node.ok);
+  expect(standalone.reason).toBe(node.reason);
+  return node;
+}
+
+describe("canonicalization schemes", () => {
+  it("matches the RFC 8785 vectors and rejects what JCS rules out", () => {
+    for (const vector of jcs.vectors) {
+      const canonical = jcsCanonicalJson(JSON.parse(vector.input));
+      expect(canonical, vector.name).toBe(vector.canonical);
+      expect(createHash("sha256").update(canonical, "utf8").digest("hex"), vector.name).toBe(vector.sha256);
+      // Valid I-JSON serialises the same under both schemes.
+      expect(canonicalJson(JSON.parse(vector.input)), vector.name).toBe(vector.canonical);
+    }
+    for (const vector of jcs.errors) {
+      expect(() => jcsCanonicalJson(JSON.parse(vector.input)), vector.name).toThrow();
+    }
+    for (const vector of legacy.vectors) {
+      expect(jcsCanonicalJson(vector.input), vector.name).toBe(vector.canonical);
+    }
+
+    expect(jcsCanonicalJson({ b: undefined, a: 1 })).toBe('{"a":1}');
+    expect(() => jcsCanonicalJson([undefined])).toThrow();
+    expect(() => jcsCanonicalJson(Number.NaN)).toThrow();
+    expect(canonicalizeWith(undefined, "\ud800")).toBe(canonicalJson("\ud800"));
+    expect(() => canonicalizeWith("xml-c14n", {})).toThrow("Unsupported canonicalization scheme: xml-c14n");
+    expect(verifier.jcsCanonicalJson).toBe(jcsCanonicalJson);
+  });
+
+  it("signs and verifies rfc8785 checkpoints, with selective disclosure and cosignatures", async () => {
+    const ops = keyPair();
+    const audit = keyPair();
+    const checkpoint = createMasterReceipt({
+      ...source("Spring tides run about 20% higher; 1e21 is not a tide height. 😀"),
+      selectiveDisclosure: true,
+      signingKeyPem: ops.privatePem,
+    });
+    const master = await cosignMasterReceipt(checkpoint.master_receipt, createPemSigner(audit.privatePem), "auditor");
+    const evidence = checkpoint.evidence_pack;
+
+    expect(master.canonicalization).toBe(JCS_CANONICALIZATION);
+    expect(evidence.canonicalization).toBe(JCS_CANONICALIZATION);
+    expect(validateDocument(master)).toMatchObject({ ok: true });
+    expect(validateDocument(evidence)).toMatchObject({ ok: true });
+    expect((await verifyBoth(master, evidence, ops.publicPem)).ok).toBe(true);
+
+    const redacted = withholdParts(evidence, { messages: [0] });
+    const result = await verifyBoth(master, JSON.parse(JSON.stringify(redacted)), ops.publicPem);
+    expect(result.disclosure?.withheld).toEqual({ messages: [0], assertions: [] });
+
+    // The scheme is signed: dropping it from both documents changes the envelope.
+    const { canonicalization: _receiptScheme, ...unmarked } = checkpoint.master_receipt;
+    const { canonicalization: _evidenceScheme, ...unmarkedEvidence } = evidence;
+    expect((await verifyBoth(unmarked, unmarkedEvidence, ops.publicPem)).reason).toBe(
+      "ed25519 signature verification failed"
+    );
+    expect((await verifyBoth(unmarked, evidence, ops.publicPem)).reason).toBe(
+      "evidence_pack.canonicalization does not match the master receipt"
+    );
+    const unknown = { ...master, canonicalization: "xml-c14n" } as unknown as MasterReceipt;
+    expect((await verifyBoth(unknown, evidence, ops.publicPem)).reason).toBe("unsupported canonicalization: xml-c14n");
+
+    const [, member] = createMasterReceiptBatch([source("Neap tides."), source("King tides.")], {
+      signingKeyPem: ops.privatePem,
+    });
+    expect((await verifyBoth(member.master_receipt, member.evidence_pack, ops.publicPem)).ok).toBe(true);
+    const lone = { ...member.evidence_pack, transcript: { ...member.evidence_pack.transcript, model: "\ud800" } };
+    expect((await verifyBoth(member.master_receipt, lone, ops.publicPem)).reason).toMatch(
+      /^evidence transcript cannot be canonicalized: JCS cannot serialise a string with a lone surrogate/
+    );
+  });
+
+  it("leaves legacy checkpoints byte-compatible and reports the scheme in bundles", () => {
+    const ops = keyPair();
+    const { canonicalization: _scheme, ...legacySource } = source("Tides.");
+    const checkpoint = createMasterReceipt({ ...legacySource, signingKeyPem: ops.privatePem });
+    expect(checkpoint.master_receipt).not.toHaveProperty("canonicalization");
+    expect(checkpoint.evidence_pack).not.toHaveProperty("canonicalization");
+    expect(checkpoint.master_receipt.content_hash).toBe(sha256Hex(canonicalJson(legacySource.transcript)));
+
+    const bundle = (receipt: MasterReceipt) =>
+      buildReceiptBundle({
+        files: [{ path: "master_receipt.json", role: "master_receipt", content: JSON.stringify(receipt) }],
+        signing: { algorithm: "Ed25519", domain_prefix: "", batch_domain_prefix: "", envelope_fields: [] },
+        publicKeyPem: ops.publicPem,
+      }).canonicalization.scheme;
+    expect(bundle(checkpoint.master_receipt)).toBe(LEGACY_CANONICALIZATION);
+    expect(bundle({ ...checkpoint.master_receipt, canonicalization: JCS_CANONICALIZATION })).toBe(JCS_CANONICALIZATION);
+
+    expect(parseIngestArgs(["node", "ingestValet.ts", "--canonicalization", "rfc8785", "dist/a"]).canonicalization).toBe(
+      JCS_CANONICALIZATION
+    );
+    expect(parseIngestArgs(["node", "ingestValet.ts", "dist/a"])).not.toHaveProperty("canonicalization");
+    expect(() => parseIngestArgs(["node", "ingestValet.ts", "--canonicalization", "jcs", "dist/a"])).toThrow(
+      "Unsupported --canonicalization jcs"
+    );
+  });
+});
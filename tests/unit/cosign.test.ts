@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import { computeKeyId } from "../../src/halo/keyring.js";
+import { hashReceipt } from "../../src/halo/receiptChain.js";
+import { validateDocument } from "../../src/halo/schemaRegistry.js";
+import {
+  cosignMasterReceipt,
+  createMasterReceiptBatchWithSigner,
+  createMasterReceiptWithSigner,
+  normalizeValetToTranscript,
+  sha256Hex,
+  verifyCheckpointOffline,
+} from "../../src/cli/ingestValet.js";
+import { runCosign } from "../../src/cli/cosign.js";
+import { runVerify } from "../../src/cli/verify.js";
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+function source(completion: string) {
+  return {
+    transcript: normalizeValetToTranscript({ prompt: "What causes tides?", completion }),
+    sourceDir: "/tmp/valet/dist-slug",
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(completion) }],
+    matchedHmacStrategy: "canonical_transcript" as const,
+  };
+}
+
+describe("master receipt cosignatures", () => {
+  it("meets a 2-of-3 policy only once a second policy key has cosigned", async () => {
+    const [ops, audit, legal, outsider] = [keyPair(), keyPair(), keyPair(), keyPair()];
+    const policy = (threshold: number) => ({ threshold, keys: [ops.publicPem, audit.publicPem, legal.publicPem] });
+    const { master_receipt, evidence_pack } = await createMasterReceiptWithSigner({
+      ...source("The Moon."),
+      signer: createPemSigner(ops.privatePem),
+    });
+
+    const single = verifyCheckpointOffline({ masterReceipt: master_receipt, evidencePack: evidence_pack, signaturePolicy: policy(2) });
+    expect(single).toMatchObject({ ok: false });
+    expect(single.reason).toContain("signature threshold not met: 1 of 2");
+
+    const byOutsider = await cosignMasterReceipt(master_receipt, createPemSigner(outsider.privatePem), "observer");
+    expect(verifyCheckpointOffline({ masterReceipt: byOutsider, evidencePack: evidence_pack, signaturePolicy: policy(2) }).ok).toBe(
+      false
+    );
+
+    const cosigned = await cosignMasterReceipt(byOutsider, createPemSigner(audit.privatePem), "auditor");
+    const result = verifyCheckpointOffline({ masterReceipt: cosigned, evidencePack: evidence_pack, signaturePolicy: policy(2) });
+    expect(result.ok).toBe(true);
+    expect(result.signatures).toEqual({
+      valid: [
+        { key_id: computeKeyId(ops.publicPem), role: "primary" },
+        { key_id: computeKeyId(audit.publicPem), role: "auditor" },
+      ],
+      threshold: 2,
+    });
+    expect(verifyCheckpointOffline({ masterReceipt: cosigned, evidencePack: evidence_pack, signaturePolicy: policy(3) }).ok).toBe(false);
+    expect(verifyCheckpointOffline({ masterReceipt: cosigned, evidencePack: evidence_pack, signaturePolicy: policy(4) }).reason).toContain(
+      "invalid signature policy"
+    );
+
+    // Cosignatures are not part of receipt_hash and fit the master receipt schema.
+    expect(hashReceipt(cosigned)).toBe(hashReceipt(master_receipt));
+    expect(validateDocument(cosigned, "master_receipt").ok).toBe(true);
+
+    await expect(cosignMasterReceipt(cosigned, createPemSigner(audit.privatePem), "auditor")).rejects.toThrow("already cosigned");
+  });
+
+  it("rejects tampered cosignatures and cosigns batch members over their own envelope", async () => {
+    const [ops, audit] = [keyPair(), keyPair()];
+    const { master_receipt, evidence_pack } = await createMasterReceiptWithSigner({
+      ...source("The Moon."),
+      signer: createPemSigner(ops.privatePem),
+    });
+    const cosigned = await cosignMasterReceipt(master_receipt, createPemSigner(audit.privatePem), "auditor");
+    expect(verifyCheckpointOffline({ masterReceipt: cosigned, evidencePack: evidence_pack, verifyKeyPem: ops.publicPem }).ok).toBe(true);
+
+    const swappedKey = {
+      ...cosigned,
+      cosignatures: [{ ...cosigned.cosignatures![0], public_key: keyPair().publicPem }],
+    };
+    expect(
+      verifyCheckpointOffline({ masterReceipt: swappedKey, evidencePack: evidence_pack, verifyKeyPem: ops.publicPem }).reason
+    ).toContain("is invalid");
+
+    // The role is signed: relabelling the auditor as a reviewer breaks the cosignature.
+    const relabelled = { ...cosigned, cosignatures: [{ ...cosigned.cosignatures![0], role: "reviewer" }] };
+    expect(
+      verifyCheckpointOffline({ masterReceipt: relabelled, evidencePack: evidence_pack, verifyKeyPem: ops.publicPem }).reason
+    ).toBe(`cosignature by key_id ${cosigned.cosignatures![0].key_id} (reviewer) is invalid`);
+    expect(
+      verifyCheckpointOffline({
+        masterReceipt: relabelled,
+        evidencePack: evidence_pack,
+        signaturePolicy: { threshold: 2, keys: [ops.publicPem, audit.publicPem] },
+      }).ok
+    ).toBe(false);
+
+    const batch = await createMasterReceiptBatchWithSigner([source("The Moon."), source("The Sun.")], {
+      signer: createPemSigner(ops.privatePem),
+    });
+    const member = await cosignMasterReceipt(batch[1].master_receipt, createPemSigner(audit.privatePem), "auditor");
+    expect(
+      verifyCheckpointOffline({
+        masterReceipt: member,
+        evidencePack: batch[1].evidence_pack,
+        signaturePolicy: { threshold: 2, keys: [ops.publicPem, audit.publicPem] },
+      }).ok
+    ).toBe(true);
+  });
+
+  it("cosigns a checkpoint bundle with the cosign CLI and verifies the threshold with verify", async () => {
+    const [ops, audit] = [keyPair(), keyPair()];
+    const dir = mkdtempSync(join(tmpdir(), "cosign-"));
+    const previous = { verify: process.env.RECEIPT_VERIFY_KEY, signing: process.env.RECEIPT_SIGNING_KEY };
+    try {
+      const bundlePath = join(dir, "checkpoint.json");
+      writeFileSync(
+        bundlePath,
+        JSON.stringify(await createMasterReceiptWithSigner({ ...source("The Moon."), signer: createPemSigner(ops.privatePem) }))
+      );
+      writeFileSync(join(dir, "ops.pub.pem"), ops.publicPem);
+      writeFileSync(join(dir, "audit.pub.pem"), audit.publicPem);
+      const verifyArgv = [
+        "node",
+        "verify",
+        "--artifact",
+        bundlePath,
+        "--out-dir",
+        dir,
+        "--threshold",
+        "2",
+        "--signer-key",
+        join(dir, "ops.pub.pem"),
+        "--signer-key",
+        join(dir, "audit.pub.pem"),
+      ];
+      expect(await runVerify(verifyArgv)).toBe(false);
+
+      process.env.RECEIPT_VERIFY_KEY = keyPair().publicPem;
+      process.env.RECEIPT_SIGNING_KEY = audit.privatePem;
+      expect(await runCosign(["node", "cosign", "--receipt", bundlePath, "--role", "auditor"])).toBe(false);
+
+      process.env.RECEIPT_VERIFY_KEY = ops.publicPem;
+      expect(await runCosign(["node", "cosign", "--receipt", bundlePath, "--role", "auditor"])).toBe(true);
+      const bundle = JSON.parse(readFileSync(bundlePath, "utf8"));
+      expect(bundle.master_receipt.cosignatures).toHaveLength(1);
+      expect(bundle.master_receipt.cosignatures[0]).toMatchObject({ key_id: computeKeyId(audit.publicPem), role: "auditor" });
+
+      expect(await runVerify(verifyArgv)).toBe(true);
+      expect(readFileSync(join(dir, "verify_report.md"), "utf8")).toContain("2 of 2 policy keys signed, threshold 2");
+    } finally {
+      if (previous.verify === undefined) delete process.env.RECEIPT_VERIFY_KEY;
+      else process.env.RECEIPT_VERIFY_KEY = previous.verify;
+      if (previous.signing === undefined) delete process.env.RECEIPT_SIGNING_KEY;
+      else process.env.RECEIPT_SIGNING_KEY = previous.signing;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
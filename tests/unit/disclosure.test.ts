@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { commitEvidence, verifyDisclosure, withholdParts } from "../../src/halo/disclosure.js";
+
+const transcript = {
+  model: "gpt-test",
+  created_at: "2026-02-22T00:00:00.000Z",
+  messages: [
+    { role: "user", content: "Explain tides" },
+    { role: "assistant", content: "Tides follow the Moon." },
+    { role: "assistant", content: "The Sun matters less." },
+  ],
+};
+const assertions = [
+  { assertion_type: "FACT", text: "Tides follow the Moon.", sources: ["[0,22]"] },
+  { assertion_type: "INFERENCE", text: "The Sun matters less.", sources: ["[23,44]"], confidence: undefined },
+];
+
+function evidencePack() {
+  const { content_hash, disclosure } = commitEvidence(transcript, assertions);
+  return { content_hash, pack: { transcript, eli_assertions: [...assertions], disclosure } };
+}
+
+describe("selective disclosure", () => {
+  it("verifies a fully disclosed pack, including after a JSON round trip", () => {
+    const { content_hash, pack } = evidencePack();
+    const roundTripped = JSON.parse(JSON.stringify(pack));
+
+    for (const candidate of [pack, roundTripped]) {
+      const result = verifyDisclosure(candidate.transcript, candidate.eli_assertions, candidate.disclosure, content_hash);
+      expect(result).toEqual({
+        ok: true,
+        withheld: { messages: [], assertions: [] },
+        total: { messages: 3, assertions: 2 },
+      });
+    }
+  });
+
+  it("still verifies after parts are withheld and reports which", () => {
+    const { content_hash, pack } = evidencePack();
+    const redacted = withholdParts(pack, { messages: [0], assertions: [0] });
+
+    expect((redacted.transcript.messages as unknown[])[0]).toEqual({ withheld: true });
+    expect(redacted.eli_assertions[0]).toEqual({ withheld: true });
+    expect(redacted.disclosure.salts.messages[0]).toBeNull();
+    expect(pack.disclosure.salts.messages[0]).not.toBeNull();
+
+    const result = verifyDisclosure(redacted.transcript, redacted.eli_assertions, redacted.disclosure, content_hash);
+    expect(result.ok).toBe(true);
+    expect(result.withheld).toEqual({ messages: [0], assertions: [0] });
+  });
+
+  it("withholds the assertions tagged from a withheld assistant message", () => {
+    const { content_hash, pack } = evidencePack();
+    const redacted = withholdParts(pack, { messages: [2] });
+
+    expect(redacted.eli_assertions).toEqual([assertions[0], { withheld: true }]);
+    const result = verifyDisclosure(redacted.transcript, redacted.eli_assertions, redacted.disclosure, content_hash);
+    expect(result.withheld).toEqual({ messages: [2], assertions: [1] });
+
+    expect(() => withholdParts(redacted, { messages: [1] })).not.toThrow();
+    const first = withholdParts(pack, { messages: [1] });
+    expect(() => withholdParts(first, { messages: [2] })).toThrow("unredacted evidence pack");
+  });
+
+  it("refuses to withhold content that stays disclosed elsewhere", () => {
+    const withInputs = { ...transcript, inputs: { prompt: "Explain tides" } };
+    const { disclosure } = commitEvidence(withInputs, assertions);
+    const pack = { transcript: withInputs, eli_assertions: [...assertions], disclosure };
+    expect(() => withholdParts(pack, { messages: [0] })).toThrow("always disclosed");
+
+    const unplaced = assertions.map((assertion) => ({ ...assertion, sources: [] }));
+    const bare = { transcript, eli_assertions: unplaced, disclosure: commitEvidence(transcript, unplaced).disclosure };
+    expect(() => withholdParts(bare, { messages: [1] })).toThrow("no span");
+    expect(() => withholdParts(bare, { messages: [0] })).not.toThrow();
+  });
+
+  it("rejects altered parts, dropped commitments and a different content_hash", () => {
+    const { content_hash, pack } = evidencePack();
+    const check = (p: typeof pack, hash = content_hash) =>
+      verifyDisclosure(p.transcript, p.eli_assertions, p.disclosure, hash);
+
+    const edited = { ...pack, transcript: { ...transcript, messages: [transcript.messages[0], { role: "assistant", content: "No." }, transcript.messages[2]] } };
+    expect(check(edited).reason).toContain("message 1");
+
+    const reframed = { ...pack, transcript: { ...transcript, model: "other-model" } };
+    expect(check(reframed).reason).toContain("outside messages");
+
+    const dropped = withholdParts(pack, { assertions: [1] });
+    const truncated = {
+      ...dropped,
+      eli_assertions: dropped.eli_assertions.slice(0, 1),
+      disclosure: {
+        ...dropped.disclosure,
+        commitments: { ...dropped.disclosure.commitments, assertions: dropped.disclosure.commitments.assertions.slice(0, 1) },
+        salts: { ...dropped.disclosure.salts, assertions: dropped.disclosure.salts.assertions.slice(0, 1) },
+      },
+    };
+    expect(check(truncated).reason).toContain("content_hash");
+
+    expect(check(pack, "0".repeat(64)).ok).toBe(false);
+  });
+
+  it("rejects content placed in a withheld slot and placeholders that carry a salt", () => {
+    const { content_hash, pack } = evidencePack();
+    const redacted = withholdParts(pack, { messages: [2] });
+    const check = (p: { transcript: Record<string, unknown>; eli_assertions: unknown[] }) =>
+      verifyDisclosure(p.transcript, p.eli_assertions, redacted.disclosure, content_hash);
+
+    const forged = { ...redacted, eli_assertions: [assertions[0], { withheld: true, text: "The Sun does not matter." }] };
+    expect(check(forged)).toMatchObject({ ok: false, reason: "assertion 1 has no salt but is not a withheld placeholder" });
+
+    const messages = [...(redacted.transcript.messages as unknown[])];
+    messages[2] = { role: "assistant", content: "The Sun matters more." };
+    const rewritten = { ...redacted, transcript: { ...redacted.transcript, messages } };
+    expect(check(rewritten).reason).toBe("message 2 has no salt but is not a withheld placeholder");
+
+    const salted = { ...pack, eli_assertions: [{ withheld: true }, assertions[1]] };
+    expect(verifyDisclosure(salted.transcript, salted.eli_assertions, pack.disclosure, content_hash).reason).toBe("assertion 0 is a withheld placeholder but carries a salt");
+  });
+
+  it("refuses to withhold from packs without commitments or out of range", () => {
+    const { pack } = evidencePack();
+    expect(() => withholdParts({ transcript, eli_assertions: [] }, { messages: [0] })).toThrow("--selective-disclosure");
+    expect(() => withholdParts(pack, { messages: [3] })).toThrow("out of range");
+  });
+});
@@ -1,6 +1,25 @@
 import { describe, it, expect } from "vitest";
 import { tagResponse } from "../../src/mocks/eliMock.js";
 import { validateLedger } from "../../src/mocks/eliMock.js";
+import { segmentResponse } from "../../src/eli/segmenter.js";
+
+const MARKDOWN = [
+  "## Tides",
+  "",
+  "Tides rise twice a day, e.g. at Brest. Dr. Smith measured 3.5 m in 2019! Tides rise twice a day, e.g. at Brest.",
+  "",
+  "1. The Moon pulls the ocean",
+  "   toward it.",
+  "2. The Sun adds a smaller pull.",
+  "",
+  "| Body | Effect |",
+  "|------|--------|",
+  "| Moon | Strong |",
+  "",
+  "```python",
+  "print(\"tide. Not a claim.\")",
+  "```",
+].join("\n");
 
 describe("ELI tagger", () => {
   it("returns an EliLedger with the correct shape", () => {
@@ -43,6 +62,145 @@ describe("ELI tagger", () => {
   });
 });
 
+describe("ELI segmenter", () => {
+  it("splits markdown into sentences, list items and table cells with exact spans", () => {
+    const segments = segmentResponse(MARKDOWN);
+    expect(segments.map((segment) => [segment.kind, segment.text])).toEqual([
+      ["heading", "Tides"],
+      ["sentence", "Tides rise twice a day, e.g. at Brest."],
+      ["sentence", "Dr. Smith measured 3.5 m in 2019!"],
+      ["sentence", "Tides rise twice a day, e.g. at Brest."],
+      ["list_item", "The Moon pulls the ocean\n   toward it."],
+      ["list_item", "The Sun adds a smaller pull."],
+      ["table_cell", "Moon"],
+      ["table_cell", "Strong"],
+      ["code", "```python\nprint(\"tide. Not a claim.\")\n```"],
+    ]);
+    for (const segment of segments) {
+      expect(MARKDOWN.slice(segment.start, segment.end)).toBe(segment.text);
+    }
+    // The repeated sentence gets its own offset.
+    expect(segments[3].start).toBeGreaterThan(segments[1].start);
+  });
+
+  it("tags claim units only and records code blocks on the ledger", () => {
+    const ledger = tagResponse(MARKDOWN);
+    expect(ledger.sentence_count).toBe(7);
+    expect(ledger.claims.map((claim) => claim.unit)).toEqual([
+      "sentence", "sentence", "sentence", "list_item", "list_item", "table_cell", "table_cell",
+    ]);
+    expect(ledger.code_blocks).toEqual([[MARKDOWN.indexOf("```"), MARKDOWN.length]]);
+    expect(validateLedger(ledger, MARKDOWN).violations.filter((v) => v.rule === "INVALID_SPAN")).toHaveLength(0);
+    expect(tagResponse("Plain prose.")).not.toHaveProperty("code_blocks");
+  });
+
+  it("emits one segment per table body cell with its exact span", () => {
+    const table = "| Company | Founded |\n|---------|---------|\n| Acme | 1998 |\n|Globex|1989|";
+    const segments = segmentResponse(table);
+    expect(segments.map((segment) => [segment.kind, segment.text, segment.start])).toEqual([
+      ["table_cell", "Acme", table.indexOf("Acme")],
+      ["table_cell", "1998", table.indexOf("1998")],
+      ["table_cell", "Globex", table.indexOf("Globex")],
+      ["table_cell", "1989", table.indexOf("1989")],
+    ]);
+  });
+
+  it("keeps initials before a surname in the sentence and ends it at a lone letter", () => {
+    const texts = (text: string) => segmentResponse(text).map((segment) => segment.text);
+    expect(texts("We met J. R. Tolkien. He wrote it.")).toEqual(["We met J. R. Tolkien.", "He wrote it."]);
+    expect(texts("A\r\nB. C.")).toEqual(["A\r\nB.", "C."]);
+    expect(texts("Plan B. Then we leave.")).toEqual(["Plan B.", "Then we leave."]);
+  });
+});
+
+const ARGUMENT =
+  "The Moon is 384,400 km from Earth. Tides are likely driven by the Moon. This is because gravity weakens with distance. " +
+  "Therefore spring tides are higher. Storm surges may add a metre. I think tides are fascinating. So they may matter for fishing.";
+
+describe("ELI claim graph", () => {
+  it("links claims to their premises from discourse markers and nearby facts", () => {
+    const ledger = tagResponse(ARGUMENT);
+    const index = (id: string) => ledger.claims.findIndex((claim) => claim.id === id);
+    expect(ledger.claims.map((claim) => claim.type)).toEqual([
+      "FACT", "INFERENCE", "FACT", "INFERENCE", "INFERENCE", "OPINION", "INFERENCE",
+    ]);
+    // "This is because" makes claim 2 a premise of claim 1; "Therefore" and "So" point back one claim;
+    // claim 4 has no marker and falls back to the nearest FACT.
+    expect(ledger.claims.map((claim) => claim.depends_on!.map(index))).toEqual([[], [2], [], [2], [2], [], [5]]);
+
+    const result = validateLedger(ledger, ARGUMENT);
+    expect(result.passed).toBe(true);
+    expect(result.violations).toEqual([
+      {
+        claimId: ledger.claims[6].id,
+        rule: "INFERENCE_WITHOUT_PREMISE",
+        detail: "INFERENCE claim rests only on opinions",
+        severity: "WARNING",
+      },
+    ]);
+  });
+
+  it("does not make an explanation depend on the claim it explains", () => {
+    const text = "The tide is high at noon. Because the moon is probably close.";
+    const ledger = tagResponse(text);
+    expect(ledger.claims.map((claim) => claim.type)).toEqual(["FACT", "INFERENCE"]);
+    expect(ledger.claims.map((claim) => claim.depends_on)).toEqual([[ledger.claims[1].id], []]);
+    expect(validateLedger(ledger, text).violations.map((v) => v.rule)).not.toContain("DEPENDENCY_CYCLE");
+    expect(validateLedger(ledger, text).passed).toBe(true);
+  });
+
+  it("reports unknown premises and dependency cycles", () => {
+    const ledger = tagResponse(ARGUMENT);
+    const [first, , third, fourth] = ledger.claims;
+    first.depends_on = ["no-such-claim"];
+    third.depends_on = [fourth.id];
+
+    const result = validateLedger(ledger, ARGUMENT);
+    expect(result.passed).toBe(false);
+    expect(result.violations.filter((v) => v.severity === "ERROR").map((v) => [v.claimId, v.rule, v.detail])).toEqual([
+      [first.id, "UNKNOWN_PREMISE", "depends_on references unknown claim no-such-claim"],
+      [third.id, "DEPENDENCY_CYCLE", `Claims depend on each other in a cycle: ${third.id} → ${fourth.id} → ${third.id}`],
+    ]);
+  });
+});
+
+const ANNOTATED =
+  "Acme was founded on 14 March 1998 in Cleveland. Since its 2001 founding, Acme has grown 12% a year to $4.2 billion. " +
+  "The World Health Organization lists aspirin at 75 mg; see https://example.org/aspirin.";
+
+describe("ELI claim annotations", () => {
+  it("annotates dates, quantities, percentages, entities and URLs with exact spans", () => {
+    const ledger = tagResponse(ANNOTATED, { gazetteer: { aspirin: "DRUG", "World Health Organization": "ORG" } });
+    const annotations = ledger.claims.flatMap((claim) => claim.annotations ?? []);
+    for (const annotation of annotations) {
+      expect(ANNOTATED.slice(...annotation.span)).toBe(annotation.text);
+    }
+    expect(annotations.map(({ text, span: _span, ...fields }) => [text, fields])).toEqual([
+      ["14 March 1998", { kind: "date", date: "1998-03-14" }],
+      ["Cleveland", { kind: "entity" }],
+      ["2001", { kind: "date", date: "2001" }],
+      ["Acme", { kind: "entity" }],
+      ["12%", { kind: "percentage", value: 12 }],
+      ["$4.2 billion", { kind: "quantity", value: 4_200_000_000, unit: "USD" }],
+      ["World Health Organization", { kind: "entity", entity_type: "ORG" }],
+      ["aspirin", { kind: "entity", entity_type: "DRUG" }],
+      ["75 mg", { kind: "quantity", value: 75, unit: "mg" }],
+      ["https://example.org/aspirin", { kind: "url" }],
+    ]);
+
+    // Filter without re-parsing: FACT claims that carry a date.
+    const dated = ledger.claims.filter(
+      (claim) => claim.type === "FACT" && claim.annotations!.some((annotation) => annotation.kind === "date")
+    );
+    expect(dated).toEqual([ledger.claims[0], ledger.claims[1]]);
+
+    // Without a gazetteer names are untyped capitalised runs, and a lowercase "aspirin" is no entity.
+    expect(tagResponse(ANNOTATED).claims[2].annotations!.map((annotation) => annotation.kind)).toEqual([
+      "entity", "quantity", "url",
+    ]);
+  });
+});
+
 describe("ELI semantic validator", () => {
   it("passes a well-formed ledger", () => {
     const response = "Water is composed of hydrogen and oxygen. This suggests a chemical bond.";
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createKeyring } from "../../src/halo/keyring.js";
+import { tagResponse } from "../../src/eli/tagger.js";
+import { validateLedger } from "../../src/eli/validator.js";
+import { buildRuleSet, parseRuleConfig, resolveRuleSet } from "../../src/eli/rules.js";
+import { findContradictions } from "../../src/eli/contradictions.js";
+import { runPipeline } from "../../src/orchestrator.js";
+
+const RESPONSE =
+  "It is. Aspirin always prevents heart attacks in adults. I think everyone over fifty should take it. " +
+  "Low doses may reduce clotting.";
+
+function rules(result: { violations: Array<{ rule: string; severity: string }> }): string[] {
+  return result.violations.map((violation) => `${violation.rule}:${violation.severity}`);
+}
+
+describe("ELI rule packs", () => {
+  it("applies the rules and severities of the chosen pack", () => {
+    const ledger = tagResponse(RESPONSE);
+
+    const byDefault = validateLedger(ledger, RESPONSE);
+    expect(rules(byDefault)).toEqual(["FACT_WITHOUT_EVIDENCE:ERROR", "INFERENCE_WITHOUT_PREMISE:WARNING"]);
+    expect(byDefault).toMatchObject({ passed: false, rule_pack: "default" });
+
+    const lenient = validateLedger(ledger, RESPONSE, buildRuleSet("lenient-chat"));
+    expect(rules(lenient)).toEqual(["FACT_WITHOUT_EVIDENCE:WARNING", "INFERENCE_WITHOUT_PREMISE:INFO"]);
+    expect(lenient.passed).toBe(true);
+
+    const strict = validateLedger(ledger, RESPONSE, buildRuleSet("strict-medical"));
+    expect(rules(strict)).toEqual([
+      "FACT_WITHOUT_EVIDENCE:ERROR",
+      "ABSOLUTE_LANGUAGE:ERROR",
+      "OPINION_CLAIM:WARNING",
+      "INFERENCE_WITHOUT_PREMISE:ERROR",
+    ]);
+    expect(strict.violations[1].detail).toBe('ASSERTION claim uses absolute language: "always"');
+  });
+
+  it("overrides single rules and checks config documents", () => {
+    const ruleSet = buildRuleSet("strict-medical", {
+      OPINION_CLAIM: "OFF",
+      FACT_WITHOUT_EVIDENCE: { config: { minEvidenceLength: 3 } },
+      INFERENCE_LAUNDERING: { severity: "INFO", config: { hedges: ["perhaps"] } },
+    });
+    expect(ruleSet.rules.map(({ rule, severity }) => `${rule.id}:${severity}`)).toEqual([
+      "MISSING_ID:ERROR",
+      "INVALID_TYPE:ERROR",
+      "NO_SPAN_REF:ERROR",
+      "INVALID_SPAN:ERROR",
+      "FACT_WITHOUT_EVIDENCE:ERROR",
+      "INFERENCE_LAUNDERING:INFO",
+      "UNKNOWN_PREMISE:ERROR",
+      "DEPENDENCY_CYCLE:ERROR",
+      "INFERENCE_WITHOUT_PREMISE:ERROR",
+      "CONTRADICTION:ERROR",
+      "ABSOLUTE_LANGUAGE:ERROR",
+    ]);
+    expect(rules(validateLedger(tagResponse(RESPONSE), RESPONSE, ruleSet))).toEqual([
+      "ABSOLUTE_LANGUAGE:ERROR",
+      "INFERENCE_LAUNDERING:INFO",
+      "INFERENCE_WITHOUT_PREMISE:ERROR",
+    ]);
+
+    // A severity switches on a rule the pack leaves out; config alone does not.
+    expect(buildRuleSet("default", { OPINION_CLAIM: "INFO" }).rules.map(({ rule }) => rule.id)).toContain("OPINION_CLAIM");
+    expect(buildRuleSet("default", { ABSOLUTE_LANGUAGE: { config: { terms: ["never"] } } }).rules).toHaveLength(10);
+
+    expect(() => buildRuleSet("paranoid")).toThrow("Unknown ELI rule pack: paranoid");
+    expect(() => buildRuleSet("default", { NO_SUCH_RULE: "ERROR" })).toThrow("Unknown ELI rule: NO_SUCH_RULE");
+    expect(() => parseRuleConfig({ pack: "paranoid" })).toThrow("Invalid ELI rule config: pack must be one of");
+    expect(() => parseRuleConfig({ rules: { OPINION_CLAIM: "LOUD" } })).toThrow("rules.OPINION_CLAIM.severity must be one of");
+    expect(() => parseRuleConfig({ rules: { FACT_WITHOUT_EVIDENCE: { config: { minLength: 3 } } } })).toThrow(
+      "rules.FACT_WITHOUT_EVIDENCE.config.minLength is not an option of FACT_WITHOUT_EVIDENCE"
+    );
+    expect(() => parseRuleConfig({ rules: { FACT_WITHOUT_EVIDENCE: { config: { minEvidenceLength: "3" } } } })).toThrow(
+      "has the wrong type"
+    );
+  });
+
+  it("flags claims that contradict an earlier claim about the same subject", () => {
+    const kinds = (text: string) => findContradictions(tagResponse(text)).map(({ kind, detail }) => `${kind}: ${detail}`);
+
+    expect(kinds("Acme was founded in 1998 in Ohio. Since its 2001 founding, Acme has grown quickly.")).toEqual([
+      "date: dates differ (1998 vs 2001)",
+    ]);
+    expect(kinds("The bridge is 300 m long. At 450 m long, the bridge spans the bay.")).toEqual([
+      "number: numbers differ (300 m vs 450 m)",
+    ]);
+    expect(kinds("Aspirin thins the blood. Aspirin does not thin the blood.")).toEqual(["negation: one claim negates the other"]);
+    expect(kinds("Coffee consumption increased in Europe. Coffee consumption decreased in Europe.")).toEqual([
+      'antonym: opposite terms ("increased" vs "decreased")',
+    ]);
+
+    // Different subjects, different events and a negated antonym are no contradiction.
+    expect(kinds("Tides at Brest reach 7 m. Tides in the Mediterranean reach 0.5 m.")).toEqual([]);
+    expect(kinds("Acme was founded in 1998. Acme went public in 2005.")).toEqual([]);
+    expect(kinds("The Apollo program landed astronauts on the Moon in 1969. The Apollo program ended in 1972.")).toEqual([]);
+    expect(kinds("The Golden Gate Bridge opened in 1937. The Golden Gate Bridge was repainted in 1965.")).toEqual([]);
+    expect(kinds("The company employs 300 people. The company employs 450 people.")).toEqual([
+      "number: numbers differ (300 people vs 450 people)",
+    ]);
+    expect(kinds("The Apollo program landed in 1969. The Apollo program landed in 1970.")).toEqual([
+      "date: dates differ (1969 vs 1970)",
+    ]);
+    expect(kinds("Prices did not increase last year. Prices decreased last year.")).toEqual([]);
+
+    const text = "Aspirin thins the blood. Low doses may reduce clotting. Aspirin does not thin the blood.";
+    const ledger = tagResponse(text);
+    const [first, , third] = ledger.claims;
+    const issues = validateLedger(ledger, text).violations.filter((violation) => violation.rule === "CONTRADICTION");
+    expect(issues).toEqual([
+      {
+        claimId: third.id,
+        rule: "CONTRADICTION",
+        detail: `Claims ${first.id} and ${third.id} contradict each other: one claim negates the other`,
+        severity: "WARNING",
+      },
+    ]);
+    expect(validateLedger(ledger, text, buildRuleSet("strict-medical")).violations).toContainEqual(
+      expect.objectContaining({ rule: "CONTRADICTION", severity: "ERROR" })
+    );
+  });
+
+  describe("resolution", () => {
+    const saved = { pack: process.env.HALO_ELI_RULE_PACK, file: process.env.HALO_ELI_RULES_FILE };
+    afterEach(() => {
+      for (const [name, value] of [["HALO_ELI_RULE_PACK", saved.pack], ["HALO_ELI_RULES_FILE", saved.file]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    });
+
+    it("reads the pack and overrides from flags, environment and config file, and threads them through the pipeline", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "eli-rules-"));
+      try {
+        const configPath = join(dir, "eli-rules.json");
+        writeFileSync(configPath, JSON.stringify({ pack: "strict-medical", rules: { OPINION_CLAIM: "OFF" } }));
+        delete process.env.HALO_ELI_RULE_PACK;
+        process.env.HALO_ELI_RULES_FILE = configPath;
+
+        expect(resolveRuleSet().pack).toBe("strict-medical");
+        expect(resolveRuleSet().rules.map(({ rule }) => rule.id)).not.toContain("OPINION_CLAIM");
+        process.env.HALO_ELI_RULE_PACK = "lenient-chat";
+        expect(resolveRuleSet().pack).toBe("lenient-chat");
+        expect(resolveRuleSet({ pack: "default" }).pack).toBe("default");
+
+        writeFileSync(configPath, "{");
+        expect(() => resolveRuleSet()).toThrow(`Cannot read ELI rule config ${configPath}`);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      const result = await runPipeline("Aspirin?", async () => RESPONSE, createKeyring(), {
+        eliRules: buildRuleSet("lenient-chat"),
+      });
+      expect(result).toMatchObject({ ok: true, validation: { passed: true, rule_pack: "lenient-chat" } });
+    });
+  });
+});
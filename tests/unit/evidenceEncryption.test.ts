@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import {
+  checkCiphertextBinding,
+  decryptEvidencePack,
+  encryptEvidencePack,
+  evidenceCiphertextHash,
+  generateRecipientKeyPair,
+} from "../../src/halo/evidenceEncryption.js";
+
+const evidence = {
+  receipt_id: "r-1",
+  content_hash: "c".repeat(64),
+  transcript: { messages: [{ role: "user", content: "Explain tides" }] },
+  eli_assertions: [],
+  transparency: { leaf_index: 3 },
+};
+
+describe("encrypted evidence packs", () => {
+  it("decrypts for every recipient and keeps the transparency proof in the clear", () => {
+    const alice = generateRecipientKeyPair();
+    const bob = generateRecipientKeyPair();
+    const encrypted = encryptEvidencePack(evidence, [alice.publicKeyPem, bob.publicKeyPem]);
+
+    expect(encrypted.recipients).toHaveLength(2);
+    expect(encrypted.transparency).toEqual({ leaf_index: 3 });
+    expect(JSON.stringify(encrypted)).not.toContain("Explain tides");
+    expect(decryptEvidencePack(encrypted, alice.privateKeyPem)).toEqual(evidence);
+    expect(decryptEvidencePack(encrypted, bob.privateKeyPem)).toEqual(evidence);
+  });
+
+  it("rejects non-recipients and altered ciphertext or headers", () => {
+    const alice = generateRecipientKeyPair();
+    const encrypted = encryptEvidencePack(evidence, [alice.publicKeyPem]);
+
+    expect(() => decryptEvidencePack(encrypted, generateRecipientKeyPair().privateKeyPem)).toThrow("not a recipient");
+
+    const body = Buffer.from(encrypted.ciphertext, "base64");
+    body[0] ^= 1;
+    expect(() => decryptEvidencePack({ ...encrypted, ciphertext: body.toString("base64") }, alice.privateKeyPem)).toThrow(
+      "decryption failed"
+    );
+    expect(() => decryptEvidencePack({ ...encrypted, receipt_id: "r-2" }, alice.privateKeyPem)).toThrow(
+      "decryption failed"
+    );
+  });
+
+  it("binds the ciphertext to the master receipt without a private key", () => {
+    const alice = generateRecipientKeyPair();
+    const encrypted = encryptEvidencePack(evidence, [alice.publicKeyPem]);
+    const master = { receipt_id: "r-1", content_hash: evidence.content_hash, evidence_ciphertext_hash: evidenceCiphertextHash(encrypted) };
+
+    expect(checkCiphertextBinding(master, encrypted)).toEqual({ ok: true });
+    expect(checkCiphertextBinding(master, encryptEvidencePack(evidence, [alice.publicKeyPem])).reason).toContain(
+      "evidence_ciphertext_hash"
+    );
+    expect(checkCiphertextBinding({ ...master, evidence_ciphertext_hash: undefined }, encrypted).ok).toBe(false);
+  });
+
+  it("only accepts X25519 recipient keys", () => {
+    const signingKey = generateKeyPairSync("ed25519").publicKey.export({ type: "spki", format: "pem" }).toString();
+    expect(() => encryptEvidencePack(evidence, [signingKey])).toThrow("X25519");
+    expect(() => encryptEvidencePack(evidence, [])).toThrow("at least one recipient");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { createKeyring } from "../../src/halo/keyring.js";
+import { tagResponse } from "../../src/eli/tagger.js";
+import { alignClaims, claimTokens } from "../../src/eli/agreement.js";
+import { runFanOut } from "../../src/orchestrator.js";
+import { signComparison, verifyComparison, type ComparisonArtifact } from "../../src/halo/comparison.js";
+import { validateDocument } from "../../src/halo/schemaRegistry.js";
+import { parseFanOutArgs, renderComparisonReport } from "../../src/cli/fanOut.js";
+
+const TEST_KEY = createKeyring();
+
+const RESPONSES = {
+  a: "Tides are caused by the gravitational pull of the Moon. The Sun also affects tides. Spring tides happen at full moon.",
+  b: "The Moon's gravitational pull causes the tides. Tides are also affected by the Sun. Coastal shape may amplify tides.",
+  c: "The gravitational pull of the Moon causes tides. Wind therefore drives most tides.",
+};
+
+describe("fan-out comparison", () => {
+  it("aligns claims into all / some / one rows of the agreement matrix", () => {
+    expect([...claimTokens("The Moon's tides, and the Sun.")]).toEqual(["moon", "tide", "sun"]);
+
+    const matrix = alignClaims([
+      { label: "a", ledger: tagResponse(RESPONSES.a) },
+      { label: "b", ledger: tagResponse(RESPONSES.b) },
+      { label: "c", ledger: tagResponse(RESPONSES.c) },
+    ]);
+    expect(matrix.responses).toEqual(["a", "b", "c"]);
+    expect(matrix.claims.map((claim) => [claim.support, Object.keys(claim.members).filter((l) => claim.members[l])])).toEqual([
+      ["all", ["a", "b", "c"]],
+      ["some", ["a", "b"]],
+      ["one", ["a"]],
+      ["one", ["b"]],
+      ["one", ["c"]],
+    ]);
+    expect(matrix.summary).toEqual({ all: 1, some: 1, one: 3, type_conflicts: 2 });
+    expect(matrix.claims[0].members.a).toMatchObject({ type: "FACT" });
+    expect(matrix.claims[0].members.c).toMatchObject({ type: "ASSERTION" });
+    expect(matrix.pairwise).toEqual([
+      { a: "a", b: "b", shared: 2, agreement: 0.5 },
+      { a: "a", b: "c", shared: 1, agreement: 0.25 },
+      { a: "b", b: "c", shared: 1, agreement: 0.25 },
+    ]);
+
+    // A stricter threshold splits paraphrases apart.
+    expect(alignClaims([{ label: "a", ledger: tagResponse(RESPONSES.a) }, { label: "b", ledger: tagResponse(RESPONSES.b) }], {
+      threshold: 0.95,
+    }).summary.all).toBe(0);
+    expect(() => alignClaims([{ label: "a", ledger: tagResponse("x") }, { label: "a", ledger: tagResponse("y") }])).toThrow(
+      "Response labels must be unique"
+    );
+  });
+
+  it("runs every target in parallel and signs one comparison artifact", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const invoker = (text: string) => async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((done) => setTimeout(done, 5));
+      inFlight -= 1;
+      return text;
+    };
+    const fanOut = await runFanOut(
+      "What causes tides?",
+      [
+        { label: "openai:gpt-test", provider: "openai", model: "gpt-test", invokeLLM: invoker(RESPONSES.a) },
+        { label: "anthropic:claude-test", provider: "anthropic", invokeLLM: invoker(RESPONSES.b) },
+        { label: "gemini:broken", invokeLLM: async () => Promise.reject(new Error("quota exceeded")) },
+      ],
+      TEST_KEY
+    );
+    expect(peak).toBe(2);
+    expect(fanOut.runs.map((run) => run.ok)).toEqual([true, true, false]);
+    expect(fanOut.runs[2].error).toBe('Pipeline stage "invoke" failed: quota exceeded');
+    expect(fanOut.runs[2].stages?.map((stage) => stage.status)).toEqual(["failed", "skipped", "skipped", "skipped", "skipped"]);
+    expect(fanOut.runs[0].result!.receipt.id).not.toBe(fanOut.runs[1].result!.receipt.id);
+    expect(fanOut.agreement.responses).toEqual(["openai:gpt-test", "anthropic:claude-test"]);
+
+    const artifact = JSON.parse(JSON.stringify(signComparison("What causes tides?", fanOut, TEST_KEY))) as ComparisonArtifact;
+    expect(artifact.receipt).not.toHaveProperty("response");
+    expect(validateDocument(artifact)).toMatchObject({ ok: true, kind: "comparison" });
+    expect(verifyComparison(artifact, TEST_KEY)).toEqual({ ok: true });
+
+    const edited = structuredClone(artifact);
+    edited.agreement.summary.all += 1;
+    expect(verifyComparison(edited, TEST_KEY).reason).toMatch(/^comparison signature: /);
+    expect(verifyComparison(artifact, createKeyring()).reason).toMatch(/^comparison signature: /);
+
+    const report = renderComparisonReport(artifact);
+    expect(report).toContain("| gemini:broken | ❌ Pipeline stage \"invoke\" failed: quota exceeded |");
+    expect(report).toContain("- **In all responses:** 2");
+    expect(report).toContain("| openai:gpt-test | anthropic:claude-test | 2 | 50% |");
+    expect(report).toContain("- **openai:gpt-test** (claim-3): Spring tides happen at full moon.");
+
+    await expect(runFanOut("x", [], TEST_KEY)).rejects.toThrow("at least one target");
+  });
+
+  it("parses --target and falls back to the configured providers", () => {
+    const saved = { openai: process.env.OPENAI_API_KEY, anthropic: process.env.ANTHROPIC_API_KEY, gemini: process.env.GEMINI_API_KEY };
+    try {
+      const explicit = parseFanOutArgs(["node", "fanOut.ts", "--prompt", "p", "--target", "gemini:gemini-2.5-flash", "--threshold", "0.4"]);
+      expect(explicit).toMatchObject({ targets: [{ provider: "gemini", model: "gemini-2.5-flash" }], threshold: 0.4 });
+      expect(() => parseFanOutArgs(["node", "fanOut.ts", "--target", "mistral"])).toThrow("--target must be");
+      expect(() => parseFanOutArgs(["node", "fanOut.ts", "--threshold", "2"])).toThrow("--threshold");
+
+      process.env.OPENAI_API_KEY = "sk-test-openai-key";
+      delete process.env.ANTHROPIC_API_KEY;
+      process.env.GEMINI_API_KEY = "gemini-test-key";
+      expect(parseFanOutArgs(["node", "fanOut.ts"]).targets.map((target) => target.provider)).toEqual(["openai", "gemini"]);
+    } finally {
+      for (const [provider, value] of Object.entries(saved)) {
+        const name = `${provider.toUpperCase()}_API_KEY`;
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+});
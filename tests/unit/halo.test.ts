@@ -1,8 +1,10 @@
 import { describe, it, expect } from "vitest";
 import { signResponse } from "../../src/mocks/haloMock.js";
 import { verifyReceipt } from "../../src/mocks/haloMock.js";
+import { createKeyring, revokeKey, rotateKeyring } from "../../src/mocks/haloMock.js";
 
-const TEST_KEY = "test-signing-key-32-bytes-padded!";
+const TEST_KEY = createKeyring();
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 describe("HALO signer", () => {
   it("produces a receipt with required fields", () => {
@@ -11,7 +13,8 @@ describe("HALO signer", () => {
     expect(receipt.id).toMatch(/^[0-9a-f-]{36}$/);
     expect(receipt.timestamp).toBeTruthy();
     expect(receipt.responseHash).toMatch(/^[0-9a-f]{64}$/);
-    expect(receipt.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(receipt.key_id).toBe(TEST_KEY.active_key_id);
+    expect(receipt.signature).toMatch(/^[0-9a-f]{128}$/);
     expect(receipt.response).toBe("Hello, world!");
   });
 
@@ -59,8 +62,60 @@ describe("HALO verifier", () => {
 
   it("fails verification when the wrong key is used", () => {
     const receipt = signResponse("Some text.", TEST_KEY);
-    const result = verifyReceipt(receipt, "wrong-key-32-bytes-xxxxxxxxxxxx!!!");
+    const result = verifyReceipt(receipt, createKeyring());
 
     expect(result.valid).toBe(false);
+    expect(result.code).toBe("UNKNOWN_KEY");
+  });
+
+  it("fails verification when the key_id is swapped for another keyring key", () => {
+    const rotated = rotateKeyring(TEST_KEY);
+    const receipt = signResponse("Some text.", TEST_KEY);
+    const result = verifyReceipt({ ...receipt, key_id: rotated.active_key_id }, rotated);
+
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe("SIGNATURE_INVALID");
+  });
+});
+
+describe("HALO keyring rotation", () => {
+  it("accepts receipts from both keys during the overlap window", () => {
+    const start = new Date("2026-01-01T00:00:00.000Z");
+    const original = createKeyring(start);
+    const oldReceipt = signResponse("signed before rotation", original);
+
+    const rotated = rotateKeyring(original, { now: start });
+    const newReceipt = signResponse("signed after rotation", rotated);
+    const inWindow = new Date(start.getTime() + 13 * DAY_MS);
+
+    expect(newReceipt.key_id).not.toBe(oldReceipt.key_id);
+    expect(verifyReceipt(oldReceipt, rotated, { now: inWindow }).valid).toBe(true);
+    expect(verifyReceipt(newReceipt, rotated, { now: inWindow }).valid).toBe(true);
+  });
+
+  it("rejects the outgoing key once the overlap window closes", () => {
+    const start = new Date("2026-01-01T00:00:00.000Z");
+    const original = createKeyring(start);
+    const oldReceipt = signResponse("signed before rotation", original);
+    const rotated = rotateKeyring(original, { now: start });
+
+    const result = verifyReceipt(oldReceipt, rotated, { now: new Date(start.getTime() + 15 * DAY_MS) });
+
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe("KEY_EXPIRED");
+  });
+
+  it("rejects receipts signed with a revoked key with a distinct reason", () => {
+    const keyring = createKeyring();
+    const receipt = signResponse("signed then revoked", keyring);
+    const revoked = revokeKey(keyring, keyring.active_key_id, { reason: "compromised" });
+
+    const result = verifyReceipt(receipt, revoked);
+
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe("KEY_REVOKED");
+    expect(result.reason).toContain("revoked");
+    expect(result.reason).toContain("compromised");
+    expect(() => signResponse("after revocation", revoked)).toThrow("revoked");
   });
 });
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  createMasterReceipt,
+  normalizeValetToTranscript,
+  sha256Hex,
+} from "../../src/cli/ingestValet.js";
+import { runInterop, verifyInteropReceipt } from "../../src/cli/interop.js";
+import {
+  exportCoseSign1,
+  exportCoseSign1WithSigner,
+  exportJws,
+  exportJwsWithSigner,
+  importCoseSign1,
+  importJws,
+  keyringResolver,
+  keyringSigner,
+} from "../../src/halo/interop.js";
+import { createKeyring, exportPublicKeyring } from "../../src/halo/keyring.js";
+import { signHaloReceipt } from "../../src/halo/signer.js";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import { cborTag, decodeCbor, encodeCbor } from "../../src/utils/cbor.js";
+
+function checkpoint() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  const { master_receipt, evidence_pack } = createMasterReceipt({
+    transcript: normalizeValetToTranscript({ prompt: "A", completion: "B" }),
+    sourceDir: "/tmp/valet/dist-slug",
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex("receipt") }],
+    matchedHmacStrategy: "canonical_transcript",
+    signingKeyPem: privatePem,
+  });
+  return { master_receipt, evidence_pack, privatePem, publicPem };
+}
+
+describe("CBOR", () => {
+  it("round-trips the values COSE uses", () => {
+    const value = cborTag(18, [
+      Buffer.from([1, 2, 3]),
+      new Map<number, number | string>([
+        [1, -8],
+        [3, "application/json"],
+      ]),
+      "x".repeat(300),
+      [0, 23, 24, 255, 65536, -1, -25, true, false, null],
+    ]);
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+    expect(encodeCbor(-8).toString("hex")).toBe("27");
+    expect(() => decodeCbor(Buffer.from([0x01, 0x02]))).toThrow("Trailing bytes");
+  });
+});
+
+describe("JWS / COSE_Sign1 export", () => {
+  it("round-trips a master receipt through both formats and verifyCheckpointOffline", () => {
+    const { master_receipt, evidence_pack, privatePem, publicPem } = checkpoint();
+    const signer = { privateKeyPem: privatePem };
+
+    const jws = exportJws(master_receipt, signer);
+    const cose = exportCoseSign1(master_receipt, signer);
+    const header = JSON.parse(Buffer.from(jws.split(".")[0], "base64url").toString("utf8"));
+    expect(header).toMatchObject({ alg: "EdDSA", cty: "application/vnd.halo.master-receipt+json" });
+
+    const fromJws = verifyInteropReceipt(jws, { verifyKeyPem: publicPem, evidencePack: evidence_pack });
+    const fromCose = verifyInteropReceipt(cose, { verifyKeyPem: publicPem, evidencePack: evidence_pack });
+    expect(fromJws).toMatchObject({ ok: true, format: "jws", kind: "master_receipt", kid: header.kid });
+    expect(fromCose).toMatchObject({ ok: true, format: "cose", kind: "master_receipt", kid: header.kid });
+    expect(fromJws.receipt).toEqual(JSON.parse(JSON.stringify(master_receipt)));
+    expect(fromCose.receipt).toEqual(fromJws.receipt);
+
+    const cosePayload = (decodeCbor(cose) as { value: Uint8Array[] }).value[2];
+    expect(Buffer.from(cosePayload).toString("base64url")).toBe(jws.split(".")[1]);
+  });
+
+  it("exports master receipts with the signer backend, not RECEIPT_SIGNING_KEY", async () => {
+    const { master_receipt, evidence_pack, privatePem } = checkpoint();
+    // Ed25519 is deterministic: a signer backend produces the same bytes as the in-process key.
+    expect(await exportJwsWithSigner(master_receipt, createPemSigner(privatePem))).toBe(
+      exportJws(master_receipt, { privateKeyPem: privatePem })
+    );
+    expect(await exportCoseSign1WithSigner(master_receipt, createPemSigner(privatePem))).toEqual(
+      exportCoseSign1(master_receipt, { privateKeyPem: privatePem })
+    );
+
+    const dir = mkdtempSync(join(tmpdir(), "interop-"));
+    const names = ["HALO_SIGNER", "HALO_SIGNER_SOCKET", "HALO_SIGNER_COMMAND", "RECEIPT_SIGNING_KEY", "RECEIPT_SIGNING_KEY_FILE", "RECEIPT_VERIFY_KEY"];
+    const saved = names.map((name) => [name, process.env[name]] as const);
+    try {
+      writeFileSync(join(dir, "key.pem"), privatePem, "utf8");
+      writeFileSync(join(dir, "checkpoint.json"), JSON.stringify({ master_receipt, evidence_pack }), "utf8");
+      writeFileSync(join(dir, "evidence_pack.json"), JSON.stringify(evidence_pack), "utf8");
+      for (const name of names) delete process.env[name];
+      process.env.RECEIPT_SIGNING_KEY_FILE = join(dir, "key.pem");
+
+      const out = join(dir, "receipt.jws");
+      const argv = (...args: string[]) => ["node", "interop", ...args];
+      expect(await runInterop(argv("export", "--in", join(dir, "checkpoint.json"), "--format", "jws", "--out", out))).toBe(true);
+      expect(readFileSync(out, "utf8").trim()).toBe(exportJws(master_receipt, { privateKeyPem: privatePem }));
+      expect(await runInterop(argv("import", "--in", out, "--evidence", join(dir, "evidence_pack.json")))).toBe(true);
+    } finally {
+      for (const [name, value] of saved) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("round-trips a HALO receipt with the keyring key named by its key_id", () => {
+    const keyring = createKeyring();
+    const receipt = signHaloReceipt("The sky is blue.", keyring);
+    const signer = keyringSigner(keyring, receipt.key_id);
+    const publicRing = exportPublicKeyring(keyring);
+
+    for (const encoded of [exportJws(receipt, signer), exportCoseSign1(receipt, signer)]) {
+      const result = verifyInteropReceipt(encoded, { keyring: publicRing });
+      expect(result).toMatchObject({ ok: true, kind: "halo_receipt", kid: receipt.key_id, receipt });
+    }
+    expect(() => keyringSigner(publicRing, receipt.key_id)).toThrow("no private key");
+  });
+
+  it("rejects altered envelopes, wrong keys and receipts that no longer verify", () => {
+    const { master_receipt, evidence_pack, privatePem, publicPem } = checkpoint();
+    const signer = { privateKeyPem: privatePem };
+    const jws = exportJws(master_receipt, signer);
+    const cose = exportCoseSign1(master_receipt, signer);
+
+    const [h, , s] = jws.split(".");
+    const swapped = Buffer.from(JSON.stringify({ ...master_receipt, receipt_id: "other" }), "utf8").toString("base64url");
+    expect(importJws(`${h}.${swapped}.${s}`, publicPem).reason).toContain("signature verification failed");
+
+    const flipped = Buffer.from(cose);
+    flipped[flipped.length - 70] ^= 0x01;
+    expect(importCoseSign1(flipped, publicPem).ok).toBe(false);
+
+    const other = generateKeyPairSync("ed25519").publicKey.export({ type: "spki", format: "pem" }).toString();
+    expect(importJws(jws, other).reason).toContain("does not match the verify key");
+    expect(importCoseSign1(cose, keyringResolver(createKeyring())).reason).toContain("no verify key");
+
+    // The envelope is re-signed correctly, but the receipt inside was altered.
+    const forged = exportJws({ ...master_receipt, content_hash: "0".repeat(64) }, signer);
+    const result = verifyInteropReceipt(forged, { verifyKeyPem: publicPem, evidencePack: evidence_pack });
+    expect(result.ok).toBe(false);
+    expect(result.receiptVerification?.reason).toContain("content_hash");
+  });
+});
@@ -1,5 +1,20 @@
 import { describe, expect, it } from "vitest";
-import { canonicalize, recomputeVerification } from "../../src/ui/localVerification.js";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  canonicalize,
+  decryptEvidencePack,
+  recomputeVerification,
+  verifyCiphertextBinding,
+} from "../../src/ui/localVerification.js";
+import { normalizeArtifact } from "../../src/ui/normalizeArtifact.js";
+import { hashReceipt } from "../../src/halo/receiptChain.js";
+import { appendToLog } from "../../src/halo/transparencyLog.js";
+import { createMasterReceiptBatch, normalizeValetToTranscript, sha256Hex } from "../../src/cli/ingestValet.js";
+import { withholdParts } from "../../src/halo/disclosure.js";
+import { generateRecipientKeyPair } from "../../src/halo/evidenceEncryption.js";
 
 describe("local verification", () => {
   it("produces stable canonical JSON ordering", () => {
@@ -46,4 +61,150 @@ describe("local verification", () => {
     expect(result.isVerified).toBe(false);
     expect(result.signatureReason).toContain("missing public key");
   });
+
+  it("verifies batch-signed master receipts through their audit path", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+    const [, second] = createMasterReceiptBatch(
+      ["A", "B", "C"].map((prompt) => ({
+        transcript: normalizeValetToTranscript({ prompt, completion: `${prompt}!` }),
+        sourceDir: `/tmp/valet/${prompt}`,
+        sourceReceiptFile: "receipt.json",
+        sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(prompt) }],
+        matchedHmacStrategy: "canonical_transcript" as const,
+      })),
+      { signingKeyPem: privatePem }
+    );
+
+    const normalized = normalizeArtifact(second);
+    const result = await recomputeVerification(normalized.master_receipt, normalized.evidence_pack, { publicKeyPem });
+    expect(result.signatureReason).toContain("batch Merkle root");
+    expect(result.isVerified).toBe(true);
+
+    const moved = normalizeArtifact({
+      ...second,
+      master_receipt: { ...second.master_receipt, batch: { ...second.master_receipt.batch, leaf_index: 0 } },
+    });
+    const movedResult = await recomputeVerification(moved.master_receipt, moved.evidence_pack, { publicKeyPem });
+    expect(movedResult.signatureValid).toBe(false);
+    expect(movedResult.isVerified).toBe(false);
+  });
+
+  it("verifies partially disclosed evidence packs and lists the withheld parts", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+    const [checkpoint] = createMasterReceiptBatch(
+      ["A", "B"].map((prompt) => ({
+        transcript: normalizeValetToTranscript({ prompt, completion: `${prompt} is a letter.` }),
+        sourceDir: `/tmp/valet/${prompt}`,
+        sourceReceiptFile: "receipt.json",
+        sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(prompt) }],
+        matchedHmacStrategy: "canonical_transcript" as const,
+        selectiveDisclosure: true,
+      })),
+      { signingKeyPem: privatePem }
+    );
+    const redacted = JSON.parse(
+      JSON.stringify({ ...checkpoint, evidence_pack: withholdParts(checkpoint.evidence_pack, { messages: [1] }) })
+    );
+
+    const normalized = normalizeArtifact(redacted);
+    const result = await recomputeVerification(normalized.master_receipt, normalized.evidence_pack, { publicKeyPem });
+    expect(result.hashReason).toContain("withheld");
+    expect(result.disclosure).toMatchObject({ withheldMessages: [1], withheldAssertions: [0], totalMessages: 2 });
+    expect(result.isVerified).toBe(true);
+
+    redacted.evidence_pack.transcript.messages[0].content = "Z";
+    const edited = normalizeArtifact(redacted);
+    const editedResult = await recomputeVerification(edited.master_receipt, edited.evidence_pack, { publicKeyPem });
+    expect(editedResult.hashMatches).toBe(false);
+    expect(editedResult.isVerified).toBe(false);
+
+    // Text placed in a withheld slot would be rendered as verified content.
+    redacted.evidence_pack.transcript.messages[0].content = "A";
+    redacted.evidence_pack.eli_assertions[0] = { withheld: true, text: "B is a number." };
+    const forged = normalizeArtifact(redacted);
+    const forgedResult = await recomputeVerification(forged.master_receipt, forged.evidence_pack, { publicKeyPem });
+    expect(forgedResult.hashReason).toContain("assertion 0 has no salt");
+    expect(forgedResult.isVerified).toBe(false);
+  });
+
+  it("decrypts encrypted evidence packs locally and verifies the ciphertext binding", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+    const recipient = generateRecipientKeyPair();
+
+    const [checkpoint] = createMasterReceiptBatch(
+      ["A", "B"].map((prompt) => ({
+        transcript: normalizeValetToTranscript({ prompt, completion: `${prompt}!` }),
+        sourceDir: `/tmp/valet/${prompt}`,
+        sourceReceiptFile: "receipt.json",
+        sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(prompt) }],
+        matchedHmacStrategy: "canonical_transcript" as const,
+        encryptTo: [recipient.publicKeyPem],
+      })),
+      { signingKeyPem: privatePem }
+    );
+    const uploaded = normalizeArtifact(
+      JSON.parse(JSON.stringify({ master_receipt: checkpoint.master_receipt, evidence_pack: checkpoint.encrypted_evidence_pack }))
+    );
+    expect(uploaded.evidence_pack).toBeUndefined();
+    expect(uploaded.encrypted_evidence).toBeDefined();
+
+    expect((await verifyCiphertextBinding(uploaded.master_receipt, uploaded.encrypted_evidence!)).ok).toBe(true);
+    await expect(decryptEvidencePack(uploaded.encrypted_evidence!, generateRecipientKeyPair().privateKeyPem)).rejects.toThrow(
+      "not a recipient"
+    );
+
+    const decrypted = await decryptEvidencePack(uploaded.encrypted_evidence!, recipient.privateKeyPem);
+    const evidence = normalizeArtifact({ evidence_pack: decrypted }).evidence_pack;
+    const result = await recomputeVerification(uploaded.master_receipt, evidence, { publicKeyPem });
+    expect(result.hashMatches).toBe(true);
+    expect(result.isVerified).toBe(true);
+  });
+
+  it("checks the transparency log inclusion proof carried in the evidence pack", async () => {
+    const { privateKey } = generateKeyPairSync("ed25519");
+    const logDir = mkdtempSync(join(tmpdir(), "inspector-tlog-"));
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const master_receipt = { receipt_id: "r-3", content_hash: "abc", verification: { derived_status: "PASS" } };
+
+    appendToLog(logDir, { kind: "master", receipt_id: "r-0", receipt_hash: "1".repeat(64) }, privatePem);
+    const { proof } = appendToLog(
+      logDir,
+      { kind: "master", receipt_id: "r-3", receipt_hash: hashReceipt(master_receipt) },
+      privatePem
+    );
+
+    const normalized = normalizeArtifact({
+      master_receipt,
+      evidence_pack: { receipt_id: "r-3", transcript: { text: "hello" }, transparency: proof },
+    });
+    const result = await recomputeVerification(normalized.master_receipt, normalized.evidence_pack);
+    expect(result.transparencyChecked).toBe(true);
+    expect(result.transparencyValid).toBe(true);
+    expect(result.transparencyReason).toContain("leaf 1 of signed tree head size 2");
+
+    // Cosignatures are added after the receipt was logged and do not change its receipt_hash.
+    const cosigned = normalizeArtifact({
+      master_receipt: { ...master_receipt, cosignatures: [{ key_id: "k", role: "auditor", public_key: "", signature: "" }] },
+      evidence_pack: { receipt_id: "r-3", transcript: { text: "hello" }, transparency: proof },
+    });
+    expect((await recomputeVerification(cosigned.master_receipt, cosigned.evidence_pack)).transparencyValid).toBe(true);
+
+    const tampered = normalizeArtifact({
+      master_receipt: { ...master_receipt, receipt_id: "r-4" },
+      evidence_pack: { receipt_id: "r-3", transcript: { text: "hello" }, transparency: proof },
+    });
+    const tamperedResult = await recomputeVerification(tampered.master_receipt, tampered.evidence_pack);
+    expect(tamperedResult.transparencyValid).toBe(false);
+    expect(tamperedResult.isVerified).toBe(false);
+
+    rmSync(logDir, { recursive: true, force: true });
+  });
 });
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { normalizeArtifact } from "../../src/ui/normalizeArtifact.js";
+import { layoutClaimGraph } from "../../src/ui/claimGraph.js";
 
 describe("normalizeArtifact", () => {
   it("normalizes nested master_receipt + evidence_pack", () => {
@@ -51,4 +52,64 @@ describe("normalizeArtifact", () => {
     expect(normalized.evidence_pack).toBeUndefined();
     expect(normalized.warnings.length).toBeGreaterThan(0);
   });
+
+  it("lays out the claim dependency graph of a ledger", () => {
+    const normalized = normalizeArtifact({
+      eliLedger: {
+        claims: [
+          { id: "a", type: "FACT", text: "The Moon is near.", span_refs: [[0, 17]], depends_on: [] },
+          { id: "b", type: "FACT", text: "Gravity falls off.", span_refs: [[18, 36]], depends_on: [] },
+          { id: "c", type: "INFERENCE", text: "Tides likely follow.", span_refs: [[37, 57]], depends_on: ["a", "b"] },
+          { id: "d", type: "INFERENCE", text: "So do surges.", span_refs: [[58, 71]], depends_on: ["c", "e", "gone"] },
+          { id: "e", type: "OPINION", text: "I think so.", span_refs: [[72, 83]], depends_on: ["d"] },
+        ],
+      },
+    });
+    const graph = layoutClaimGraph(normalized.evidence_pack!.eli_assertions)!;
+
+    expect(graph.nodes.map((node) => [node.label, node.column, node.row])).toEqual([
+      ["C1", 0, 0],
+      ["C2", 0, 1],
+      ["C3", 1, 0],
+      ["C4", 2, 0],
+      ["C5", 0, 2],
+    ]);
+    expect(graph.edges).toEqual([
+      { from: "a", to: "c" },
+      { from: "b", to: "c" },
+      { from: "c", to: "d" },
+      { from: "e", to: "d" },
+    ]);
+    // The edge that closes the d ↔ e cycle is kept aside.
+    expect(graph.cycleEdges).toEqual([{ from: "d", to: "e" }]);
+    expect(graph.missing).toEqual([{ claim: "d", premise: "gone" }]);
+    expect([graph.columns, graph.rows]).toEqual([3, 3]);
+
+    expect(layoutClaimGraph([{ id: "x", assertion_type: "FACT", text: "x", sources: [], depends_on: [] }])).toBeUndefined();
+  });
+
+  it("keeps the claim annotations of evidence pack assertions", () => {
+    const normalized = normalizeArtifact({
+      receipt_id: "r",
+      content_hash: "h",
+      transcript: {},
+      eli_assertions: [
+        {
+          assertion_type: "FACT",
+          text: "Tides at Brest reached 7 m.",
+          sources: ["[0,27]"],
+          annotations: [
+            { kind: "entity", text: "Brest", span: [9, 14], entity_type: "PLACE" },
+            { kind: "quantity", text: "7 m", span: [23, 26], value: 7, unit: "m" },
+            { kind: "date", span: [0, 4] },
+          ],
+        },
+      ],
+    });
+
+    expect(normalized.evidence_pack!.eli_assertions[0].annotations).toEqual([
+      { kind: "entity", text: "Brest", span: [9, 14], entity_type: "PLACE" },
+      { kind: "quantity", text: "7 m", span: [23, 26], value: 7, unit: "m" },
+    ]);
+  });
 });
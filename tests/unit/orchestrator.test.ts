@@ -1,7 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { runPipeline } from "../../src/orchestrator.js";
+import {
+  defaultStages,
+  defineStage,
+  insertStage,
+  removeStage,
+  replaceStage,
+  runPipeline,
+  runStages,
+  type OrchestrationResult,
+} from "../../src/orchestrator.js";
+import { createKeyring } from "../../src/halo/keyring.js";
 
-const TEST_KEY = "test-signing-key-32-bytes-padded!";
+const TEST_KEY = createKeyring();
 
 const MOCK_RESPONSE =
   "The sky appears blue due to Rayleigh scattering. " +
@@ -10,9 +20,16 @@ const MOCK_RESPONSE =
 
 const mockLLM = async (_prompt: string): Promise<string> => MOCK_RESPONSE;
 
+/** runPipeline for runs that must complete. */
+async function completed(...args: Parameters<typeof runPipeline>): Promise<OrchestrationResult> {
+  const result = await runPipeline(...args);
+  if (!result.ok) throw new Error(result.error);
+  return result;
+}
+
 describe("orchestrator (mocked LLM)", () => {
   it("returns a complete pipeline result", async () => {
-    const result = await runPipeline("Explain why the sky is blue.", mockLLM, TEST_KEY);
+    const result = await completed("Explain why the sky is blue.", mockLLM, TEST_KEY);
 
     expect(result.prompt).toBe("Explain why the sky is blue.");
     expect(result.llmResponse).toBe(MOCK_RESPONSE);
@@ -23,26 +40,26 @@ describe("orchestrator (mocked LLM)", () => {
   });
 
   it("receipt verifies successfully", async () => {
-    const result = await runPipeline("Test prompt", mockLLM, TEST_KEY);
+    const result = await completed("Test prompt", mockLLM, TEST_KEY);
 
     expect(result.verification.valid).toBe(true);
   });
 
   it("ELI ledger parses (non-empty claims)", async () => {
-    const result = await runPipeline("Test prompt", mockLLM, TEST_KEY);
+    const result = await completed("Test prompt", mockLLM, TEST_KEY);
 
     expect(result.ledger.claims.length).toBeGreaterThan(0);
   });
 
   it("semantic validation passes (no violations)", async () => {
-    const result = await runPipeline("Test prompt", mockLLM, TEST_KEY);
+    const result = await completed("Test prompt", mockLLM, TEST_KEY);
 
     expect(result.validation.passed).toBe(true);
     expect(result.validation.violations).toHaveLength(0);
   });
 
   it("at least one claim has valid id, type, and span_refs", async () => {
-    const result = await runPipeline("Test prompt", mockLLM, TEST_KEY);
+    const result = await completed("Test prompt", mockLLM, TEST_KEY);
     const validTypes = ["FACT", "INFERENCE", "ASSERTION", "OPINION"];
 
     const valid = result.ledger.claims.filter(
@@ -51,3 +68,106 @@ describe("orchestrator (mocked LLM)", () => {
     expect(valid.length).toBeGreaterThan(0);
   });
 });
+
+describe("orchestrator stages", () => {
+  const redactEmails = defineStage({
+    name: "redact-pii",
+    requires: ["llmResponse"],
+    provides: ["llmResponse"],
+    run: ({ llmResponse }) => ({ llmResponse: llmResponse.replace(/\S+@\S+\.\w+/g, "[email]") }),
+  });
+
+  it("reports timing for each default stage", async () => {
+    const result = await completed("Test prompt", mockLLM, TEST_KEY);
+
+    expect(result.stages.map((stage) => [stage.name, stage.status])).toEqual([
+      ["invoke", "ok"],
+      ["sign", "ok"],
+      ["verify", "ok"],
+      ["tag", "ok"],
+      ["validate", "ok"],
+    ]);
+    expect(result.stages.every((stage) => stage.durationMs >= 0 && stage.error === undefined)).toBe(true);
+  });
+
+  it("runs added and replaced stages in place of the defaults", async () => {
+    const leaky = async () => "Write to ops@example.com for the report. The sky is blue.";
+    const classify = defineStage({
+      name: "classify",
+      requires: ["llmResponse"],
+      provides: ["ledger"],
+      run: ({ llmResponse }) => ({
+        ledger: {
+          tagged_at: new Date().toISOString(),
+          sentence_count: 1,
+          claims: [{ id: "c1", type: "OPINION" as const, text: llmResponse, span_refs: [[0, llmResponse.length]] }],
+        },
+      }),
+    });
+    const gate = defineStage({
+      name: "gate",
+      requires: ["validation"],
+      provides: [],
+      run: ({ validation }, env) => {
+        env.annotations.gate = validation.passed ? "allow" : "reject";
+        return {};
+      },
+    });
+
+    let stages = insertStage(defaultStages(), { before: "sign" }, redactEmails);
+    stages = replaceStage(stages, "tag", classify);
+    stages = insertStage(stages, { after: "validate" }, gate);
+    const result = await completed("Contact?", leaky, TEST_KEY, { stages });
+
+    expect(result.stages.map((stage) => stage.name)).toEqual(["invoke", "redact-pii", "sign", "verify", "classify", "validate", "gate"]);
+    expect(result.llmResponse).not.toContain("ops@example.com");
+    expect(result.receipt.response).toBe(result.llmResponse);
+    expect(result.verification.valid).toBe(true);
+    expect(result.ledger.claims.map((claim) => claim.type)).toEqual(["OPINION"]);
+    expect(result.annotations).toEqual({ gate: "allow" });
+  });
+
+  it("rejects stage orders whose inputs are not provided, before calling the LLM", async () => {
+    let calls = 0;
+    const counting = async () => {
+      calls++;
+      return MOCK_RESPONSE;
+    };
+    const early = insertStage(defaultStages(), { before: "tag" }, { ...redactEmails, requires: ["ledger"] });
+    await expect(runPipeline("Test prompt", counting, TEST_KEY, { stages: early })).rejects.toThrow(
+      'Pipeline stage "redact-pii" requires ledger, which no earlier stage provides'
+    );
+    await expect(
+      runPipeline("Test prompt", counting, TEST_KEY, { stages: removeStage(defaultStages(), "validate") })
+    ).rejects.toThrow("Pipeline stages do not provide validation");
+    expect(() => replaceStage(defaultStages(), "classify", redactEmails)).toThrow('No pipeline stage named "classify"');
+    expect(calls).toBe(0);
+  });
+
+  it("reports a failing stage and skips the rest", async () => {
+    const failing = async () => {
+      throw new Error("provider timeout");
+    };
+    const run = await runStages(defaultStages(), { prompt: "Test prompt" }, {
+      invokeLLM: failing,
+      keyring: TEST_KEY,
+      options: {},
+    });
+
+    expect(run.ok).toBe(false);
+    expect(run.stages.map((stage) => stage.status)).toEqual(["failed", "skipped", "skipped", "skipped", "skipped"]);
+    expect(run.stages[0].error).toBe("provider timeout");
+    expect(run.state).toEqual({ prompt: "Test prompt" });
+    const result = await runPipeline("Test prompt", failing, TEST_KEY);
+    expect(result).toMatchObject({
+      ok: false,
+      error: 'Pipeline stage "invoke" failed: provider timeout',
+      state: { prompt: "Test prompt" },
+    });
+    expect(result.stages.map((stage) => stage.status)).toEqual(["failed", "skipped", "skipped", "skipped", "skipped"]);
+
+    const silent = defineStage({ name: "silent", requires: [], provides: ["ledger"], run: () => ({}) as never });
+    const missing = await runStages([silent], {}, { invokeLLM: mockLLM, keyring: TEST_KEY, options: {} });
+    expect(missing.stages[0]).toMatchObject({ status: "failed", error: "stage did not return ledger" });
+  });
+});
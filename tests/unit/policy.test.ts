@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  describePolicyFindings,
+  evaluatePolicy,
+  loadPolicy,
+  parsePolicy,
+  POLICY_VERSION,
+  resolvePolicy,
+  resolveQuarantineDir,
+} from "../../src/halo/policy.js";
+import { CONSOLE_ARTIFACT_VERSION, validateDocument } from "../../src/halo/schemaRegistry.js";
+
+const policy = parsePolicy({
+  policy_version: POLICY_VERSION,
+  rules: [
+    { outcome: "receipt_invalid", action: "reject" },
+    { outcome: "validation_rule", rule: "FACT_WITHOUT_EVIDENCE", above: 2, action: "quarantine" },
+    { id: "any-leak", outcome: "leak_findings", action: "quarantine" },
+    { outcome: "validation_failed", action: "warn" },
+  ],
+});
+
+function violations(...rules: string[]) {
+  return rules.map((rule, index) => ({ claimId: `c${index}`, rule, detail: "" }));
+}
+
+describe("run policy", () => {
+  it("picks the most severe action among the rules that fire", () => {
+    expect(evaluatePolicy(policy, { receiptValid: true, validation: { passed: true, violations: [] } })).toEqual({
+      policy_version: POLICY_VERSION,
+      action: "allow",
+      findings: [],
+    });
+
+    // Two FACT_WITHOUT_EVIDENCE issues are within the threshold; the failed validation only warns.
+    const two = { passed: false, violations: violations("FACT_WITHOUT_EVIDENCE", "FACT_WITHOUT_EVIDENCE") };
+    expect(evaluatePolicy(policy, { receiptValid: true, validation: two }).action).toBe("warn");
+
+    const three = { ok: false, issues: violations("FACT_WITHOUT_EVIDENCE", "FACT_WITHOUT_EVIDENCE", "FACT_WITHOUT_EVIDENCE") };
+    const quarantined = evaluatePolicy(policy, { validation: three, leakScan: { findings: [] } });
+    expect(quarantined.action).toBe("quarantine");
+    expect(describePolicyFindings(quarantined)).toEqual([
+      "validation_rule:FACT_WITHOUT_EVIDENCE (3) → quarantine",
+      "validation_failed (1) → warn",
+    ]);
+
+    const rejected = evaluatePolicy(policy, { receiptValid: false, validation: three, leakScan: { findings: [{}, {}] } });
+    expect(rejected.action).toBe("reject");
+    expect(rejected.findings.map((finding) => finding.rule)).toEqual([
+      "receipt_invalid",
+      "validation_rule:FACT_WITHOUT_EVIDENCE",
+      "any-leak",
+      "validation_failed",
+    ]);
+
+    // Outcomes the run did not report never fire.
+    expect(evaluatePolicy(policy, {}).action).toBe("allow");
+  });
+
+  it("rejects malformed policy files", () => {
+    const base = { policy_version: POLICY_VERSION };
+    expect(() => parsePolicy([])).toThrow("expected a JSON object");
+    expect(() => parsePolicy({ policy_version: "v0", rules: [] })).toThrow("policy_version must be halo.policy.v1");
+    expect(() => parsePolicy(base)).toThrow("rules must be an array");
+    expect(() => parsePolicy({ ...base, rules: [{ outcome: "slow", action: "reject" }] })).toThrow(
+      "rules[0].outcome must be one of receipt_invalid, validation_failed, validation_rule, leak_findings, got: slow"
+    );
+    expect(() => parsePolicy({ ...base, rules: [{ outcome: "leak_findings", action: "block" }] })).toThrow(
+      "rules[0].action must be one of reject, quarantine, warn, allow"
+    );
+    expect(() => parsePolicy({ ...base, rules: [{ outcome: "validation_rule", action: "warn" }] })).toThrow(
+      "rules[0].rule is required for outcome validation_rule"
+    );
+    expect(() => parsePolicy({ ...base, rules: [{ outcome: "leak_findings", above: -1, action: "warn" }] })).toThrow(
+      "rules[0].above must be a non-negative integer"
+    );
+  });
+
+  it("loads from --policy or HALO_POLICY_FILE and records decisions in artifacts", () => {
+    const dir = mkdtempSync(join(tmpdir(), "policy-"));
+    const previous = { policy: process.env.HALO_POLICY_FILE, quarantine: process.env.HALO_QUARANTINE_DIR };
+    try {
+      const file = join(dir, "policy.json");
+      writeFileSync(file, JSON.stringify(policy));
+      expect(loadPolicy(file)).toEqual(policy);
+      writeFileSync(join(dir, "broken.json"), "{");
+      expect(() => loadPolicy(join(dir, "broken.json"))).toThrow(`Cannot read policy file ${join(dir, "broken.json")}`);
+
+      delete process.env.HALO_POLICY_FILE;
+      expect(resolvePolicy()).toBeUndefined();
+      process.env.HALO_POLICY_FILE = file;
+      expect(resolvePolicy()).toEqual(policy);
+
+      delete process.env.HALO_QUARANTINE_DIR;
+      expect(resolveQuarantineDir("out")).toBe(resolve("out/quarantine"));
+      process.env.HALO_QUARANTINE_DIR = join(dir, "held");
+      expect(resolveQuarantineDir("out")).toBe(join(dir, "held"));
+      expect(resolveQuarantineDir("out", "elsewhere")).toBe(resolve("elsewhere"));
+    } finally {
+      if (previous.policy === undefined) delete process.env.HALO_POLICY_FILE;
+      else process.env.HALO_POLICY_FILE = previous.policy;
+      if (previous.quarantine === undefined) delete process.env.HALO_QUARANTINE_DIR;
+      else process.env.HALO_QUARANTINE_DIR = previous.quarantine;
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    const artifact = {
+      schemaVersion: CONSOLE_ARTIFACT_VERSION,
+      runId: "run-1",
+      receipt: {},
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+    const decision = evaluatePolicy(policy, { receiptValid: false });
+    expect(validateDocument({ ...artifact, policy: decision })).toMatchObject({ ok: true });
+    expect(validateDocument({ ...artifact, policy: { action: "reject" } })).toMatchObject({ ok: false });
+  });
+});
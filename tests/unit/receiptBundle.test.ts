@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { ATTESTATION_FILE, buildRunStatement, promptDigest, signAttestation, subjectFor } from "../../src/halo/attestation.js";
+import { computeKeyId } from "../../src/halo/keyring.js";
+import { isReceiptBundle, openReceiptBundle, RECEIPT_BUNDLE_FILE, type ReceiptBundle } from "../../src/halo/receiptBundle.js";
+import { validateDocument } from "../../src/halo/schemaRegistry.js";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import { createMasterReceiptWithSigner, normalizeValetToTranscript, sha256Hex } from "../../src/cli/ingestValet.js";
+import { runExportBundle } from "../../src/cli/exportBundle.js";
+import { runVerify } from "../../src/cli/verify.js";
+import { normalizeArtifact } from "../../src/ui/normalizeArtifact.js";
+import { recomputeVerification, verifyBundleManifest } from "../../src/ui/localVerification.js";
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/** Write an ingest-valet style checkpoint directory signed by `privatePem`. */
+async function writeCheckpointDir(dir: string, privatePem: string): Promise<void> {
+  const signer = createPemSigner(privatePem);
+  const { master_receipt, evidence_pack } = await createMasterReceiptWithSigner({
+    transcript: normalizeValetToTranscript({ prompt: "What causes tides?", completion: "The Moon." }),
+    sourceDir: "/tmp/valet/dist-slug",
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex("The Moon.") }],
+    matchedHmacStrategy: "canonical_transcript",
+    signer,
+  });
+  const files: Array<[string, string]> = [
+    ["master_receipt.json", `${JSON.stringify(master_receipt, null, 2)}\n`],
+    ["evidence_pack.json", `${JSON.stringify(evidence_pack, null, 2)}\n`],
+  ];
+  for (const [name, content] of files) writeFileSync(join(dir, name), content);
+
+  const statement = buildRunStatement(
+    files.map(([name, content]) => subjectFor(name, content)),
+    {
+      prompt_sha256: promptDigest("What causes tides?"),
+      provider: "valet",
+      model: "unknown",
+      receipt_id: master_receipt.receipt_id,
+      eli_validation: { ok: true, issues: [] },
+      leak_scan: { ok: true, findings: [] },
+      produced_at: "2026-03-01T00:00:00.000Z",
+    }
+  );
+  writeFileSync(join(dir, ATTESTATION_FILE), JSON.stringify(await signAttestation(statement, signer)));
+}
+
+function withVerifyKey<T>(key: string | undefined, run: () => Promise<T>): Promise<T> {
+  const previous = { verify: process.env.RECEIPT_VERIFY_KEY, signing: process.env.RECEIPT_SIGNING_KEY };
+  if (key === undefined) delete process.env.RECEIPT_VERIFY_KEY;
+  else process.env.RECEIPT_VERIFY_KEY = key;
+  delete process.env.RECEIPT_SIGNING_KEY;
+  return run().finally(() => {
+    if (previous.verify === undefined) delete process.env.RECEIPT_VERIFY_KEY;
+    else process.env.RECEIPT_VERIFY_KEY = previous.verify;
+    if (previous.signing !== undefined) process.env.RECEIPT_SIGNING_KEY = previous.signing;
+  });
+}
+
+describe("receipt bundles", () => {
+  it("exports a checkpoint directory to one file that verifies offline", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "bundle-"));
+    try {
+      await writeCheckpointDir(dir, privatePem);
+      const bundlePath = join(dir, RECEIPT_BUNDLE_FILE);
+      expect(await withVerifyKey(publicPem, () => runExportBundle(["node", "export-bundle", dir]))).toBe(true);
+
+      const bundle = JSON.parse(readFileSync(bundlePath, "utf8")) as ReceiptBundle;
+      expect(isReceiptBundle(bundle)).toBe(true);
+      expect(validateDocument(bundle)).toMatchObject({ ok: true, kind: "receipt_bundle" });
+      expect(bundle.manifest.map((entry) => entry.role)).toEqual(["master_receipt", "evidence_pack", "attestation"]);
+      expect(bundle.manifest[0].sha256).toBe(sha256Hex(readFileSync(join(dir, "master_receipt.json"), "utf8")));
+      expect(bundle.signing).toMatchObject({ key_id: computeKeyId(publicPem), public_key: publicPem });
+      expect(bundle.proofs).toEqual({});
+
+      // Verified on its own, in an otherwise empty directory, with the key it carries.
+      const auditDir = mkdtempSync(join(tmpdir(), "bundle-audit-"));
+      try {
+        writeFileSync(join(auditDir, RECEIPT_BUNDLE_FILE), JSON.stringify(bundle));
+        const argv = ["node", "verify", "--artifact", join(auditDir, RECEIPT_BUNDLE_FILE), "--out-dir", auditDir];
+        expect(await withVerifyKey(undefined, () => runVerify(argv))).toBe(true);
+        const report = readFileSync(join(auditDir, "verify_report.md"), "utf8");
+        expect(report).toContain("3 file(s) match the manifest");
+        expect(report).toContain("unpinned");
+        expect(report).toContain("DSSE signature");
+
+        expect(await withVerifyKey(keyPair().publicPem, () => runVerify(argv))).toBe(false);
+        expect(readFileSync(join(auditDir, "verify_report.md"), "utf8")).toContain("does not match the pinned key");
+      } finally {
+        rmSync(auditDir, { recursive: true, force: true });
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects edited files and needs the key for fingerprint-only bundles", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "bundle-"));
+    try {
+      await writeCheckpointDir(dir, privatePem);
+      const out = join(dir, "audit", "fingerprint.bundle");
+      const exported = await withVerifyKey(publicPem, () =>
+        runExportBundle(["node", "export-bundle", dir, "--fingerprint-only", "--out", out])
+      );
+      expect(exported).toBe(true);
+      const bundle = JSON.parse(readFileSync(out, "utf8")) as ReceiptBundle;
+      expect(bundle.signing.public_key).toBeUndefined();
+
+      expect(openReceiptBundle(bundle).reason).toContain("carries only key_id");
+      expect(openReceiptBundle(bundle, { pinnedKeyPem: publicPem })).toMatchObject({ ok: true, pinned: true });
+
+      const edited = structuredClone(bundle);
+      edited.files["evidence_pack.json"] = edited.files["evidence_pack.json"].replace("The Moon.", "The Sun.");
+      expect(openReceiptBundle(edited, { pinnedKeyPem: publicPem }).reason).toBe("digest mismatch: evidence_pack.json");
+
+      const smuggled = structuredClone(bundle);
+      smuggled.files["notes.json"] = "{}";
+      expect(openReceiptBundle(smuggled, { pinnedKeyPem: publicPem }).reason).toContain("missing from the manifest");
+
+      // A checkpoint that does not verify under the given key is not exported.
+      expect(await withVerifyKey(keyPair().publicPem, () => runExportBundle(["node", "export-bundle", dir]))).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("loads bundles in the Evidence Inspector and checks the manifest locally", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "bundle-"));
+    try {
+      await writeCheckpointDir(dir, privatePem);
+      await withVerifyKey(publicPem, () => runExportBundle(["node", "export-bundle", dir]));
+      const bundle = JSON.parse(readFileSync(join(dir, RECEIPT_BUNDLE_FILE), "utf8")) as ReceiptBundle;
+
+      const normalized = normalizeArtifact(bundle);
+      expect(normalized.bundle?.key_id).toBe(computeKeyId(publicPem));
+      expect(normalized.master_receipt?.receipt_id).toBe(bundle.receipt_id);
+      expect((await recomputeVerification(normalized.master_receipt, normalized.evidence_pack)).hashMatches).toBe(true);
+      const local = await recomputeVerification(normalized.master_receipt, normalized.evidence_pack, { publicKeyPem: publicPem });
+      expect(local).toMatchObject({ signatureValid: true, isVerified: true });
+
+      const manifest = await verifyBundleManifest(normalized.bundle!);
+      expect(manifest).toMatchObject({ ok: true, publicKeyPem: publicPem });
+
+      const edited = normalizeArtifact({ ...bundle, files: { ...bundle.files, "master_receipt.json": "{}" } });
+      expect((await verifyBundleManifest(edited.bundle!)).reason).toContain("digest mismatch: master_receipt.json");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { signHaloReceipt } from "../../src/halo/signer.js";
+import { verifyReceipt } from "../../src/halo/verifier.js";
+import { createKeyring } from "../../src/halo/keyring.js";
+import {
+  appendChainEntry,
+  GENESIS_HASH,
+  hashReceipt,
+  nextPrevReceiptHash,
+  readChain,
+  verifyChain,
+  withChainLock,
+} from "../../src/halo/receiptChain.js";
+import { loadChainedReceipt } from "../../src/cli/verifyChain.js";
+
+const keyring = createKeyring();
+
+/** Sign `count` receipts into a fresh chain, writing one console-style artifact per run. */
+function buildChain(count: number): { dir: string; chainPath: string } {
+  const dir = mkdtempSync(join(tmpdir(), "receipt-chain-"));
+  const chainPath = join(dir, "receipt_chain.jsonl");
+
+  for (let i = 0; i < count; i++) {
+    const receipt = signHaloReceipt(`response ${i}`, keyring, {
+      prevReceiptHash: nextPrevReceiptHash(chainPath),
+    });
+    const artifactPath = join(dir, `run-${i}.console_artifact.json`);
+    writeFileSync(artifactPath, JSON.stringify({ runId: `run-${i}`, receipt }), "utf8");
+    appendChainEntry(
+      chainPath,
+      {
+        kind: "halo",
+        receipt_id: receipt.id,
+        receipt_hash: hashReceipt(receipt),
+        run_id: `run-${i}`,
+        receipt_path: artifactPath,
+      },
+      new Date(Date.UTC(2026, 0, 1, 0, i))
+    );
+  }
+
+  return { dir, chainPath };
+}
+
+function rewriteLines(chainPath: string, edit: (lines: string[]) => string[]): void {
+  const lines = readFileSync(chainPath, "utf8").trim().split("\n");
+  writeFileSync(chainPath, `${edit(lines).join("\n")}\n`, "utf8");
+}
+
+describe("receipt chain", () => {
+  it("links each receipt to the previous one and verifies clean history", () => {
+    const { dir, chainPath } = buildChain(3);
+    const entries = readChain(chainPath);
+
+    expect(entries.map((e) => e.seq)).toEqual([0, 1, 2]);
+    expect(entries[0].prev_hash).toBe(GENESIS_HASH);
+    expect(entries[1].prev_hash).toBe(entries[0].entry_hash);
+
+    const second = loadChainedReceipt(entries[1]);
+    expect(second?.prev_receipt_hash).toBe(entries[0].receipt_hash);
+    expect(verifyReceipt(second as never, keyring).valid).toBe(true);
+
+    const result = verifyChain(entries, {
+      loadReceipt: loadChainedReceipt,
+      indexedRunIds: new Set(["run-0", "run-1", "run-2"]),
+    });
+    expect(result.ok).toBe(true);
+    expect(result.head).toBe(entries[2].entry_hash);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("accepts batch members that share the pre-batch link and rejects a stray one", () => {
+    const dir = mkdtempSync(join(tmpdir(), "receipt-chain-"));
+    const chainPath = join(dir, "receipt_chain.jsonl");
+    const batch = (i: number) => ({ batch_id: "batch-1", leaf_index: i, size: 2 });
+    const receipts = [
+      { receipt_id: "m-0", prev_receipt_hash: GENESIS_HASH },
+      { receipt_id: "m-1", batch: batch(0) },
+      { receipt_id: "m-2", batch: batch(1) },
+    ] as Array<Record<string, unknown>>;
+    const byId = new Map<string, Record<string, unknown>>();
+
+    for (const receipt of receipts) {
+      if (!receipt.prev_receipt_hash) receipt.prev_receipt_hash = hashReceipt(receipts[0]);
+      byId.set(receipt.receipt_id as string, receipt);
+      appendChainEntry(chainPath, {
+        kind: "master",
+        receipt_id: receipt.receipt_id as string,
+        receipt_hash: hashReceipt(receipt),
+      });
+    }
+
+    const loadReceipt = (entry: { receipt_id: string }) => byId.get(entry.receipt_id);
+    expect(verifyChain(readChain(chainPath), { loadReceipt }).ok).toBe(true);
+
+    delete receipts[2].batch;
+    rewriteLines(chainPath, (lines) => lines.slice(0, 2));
+    appendChainEntry(chainPath, { kind: "master", receipt_id: "m-2", receipt_hash: hashReceipt(receipts[2]) });
+    const kinds = verifyChain(readChain(chainPath), { loadReceipt }).findings.map((f) => f.kind);
+    expect(kinds).toEqual(["RECEIPT_LINK_MISMATCH"]);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports a gap and a signed link mismatch when an entry is deleted", () => {
+    const { dir, chainPath } = buildChain(3);
+    rewriteLines(chainPath, (lines) => [lines[0], lines[2]]);
+
+    const result = verifyChain(readChain(chainPath), { loadReceipt: loadChainedReceipt });
+    const kinds = result.findings.map((f) => f.kind);
+
+    expect(result.ok).toBe(false);
+    expect(kinds).toContain("GAP");
+    expect(kinds).toContain("RECEIPT_LINK_MISMATCH");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports reordering when entries are swapped", () => {
+    const { dir, chainPath } = buildChain(3);
+    rewriteLines(chainPath, (lines) => [lines[0], lines[2], lines[1]]);
+
+    const result = verifyChain(readChain(chainPath));
+
+    expect(result.findings.map((f) => f.kind)).toContain("REORDER");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports a fork when two entries extend the same parent", () => {
+    const { dir, chainPath } = buildChain(2);
+    const entries = readChain(chainPath);
+    const forked = { ...entries[1], receipt_id: "other", appended_at: "2026-01-01T00:05:00.000Z" };
+
+    const result = verifyChain([...entries, forked]);
+
+    expect(result.findings.map((f) => f.kind)).toContain("FORK");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("serialises concurrent writers so each receipt links to the one before it", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "receipt-chain-"));
+    const chainPath = join(dir, "receipt_chain.jsonl");
+
+    // Each writer reads the head, yields (like a remote signer between reading and appending), then appends.
+    const write = (i: number) =>
+      withChainLock(chainPath, async () => {
+        const receipt = signHaloReceipt(`response ${i}`, keyring, { prevReceiptHash: nextPrevReceiptHash(chainPath) });
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const artifactPath = join(dir, `run-${i}.console_artifact.json`);
+        writeFileSync(artifactPath, JSON.stringify({ runId: `run-${i}`, receipt }), "utf8");
+        appendChainEntry(chainPath, {
+          kind: "halo",
+          receipt_id: receipt.id,
+          receipt_hash: hashReceipt(receipt),
+          run_id: `run-${i}`,
+          receipt_path: artifactPath,
+        });
+      });
+    const failing = withChainLock(chainPath, async () => {
+      throw new Error("provider down");
+    });
+    await Promise.all([write(0), failing.catch(() => undefined), write(1), write(2)]);
+    await expect(failing).rejects.toThrow("provider down");
+
+    const result = verifyChain(readChain(chainPath), {
+      loadReceipt: loadChainedReceipt,
+      indexedRunIds: new Set(["run-0", "run-1", "run-2"]),
+    });
+    expect(result.findings).toEqual([]);
+    expect(result.ok).toBe(true);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("waits for another process's chain lock file and takes over a stale one", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "receipt-chain-"));
+    const chainPath = join(dir, "receipt_chain.jsonl");
+    const lockPath = `${chainPath}.lock`;
+
+    // Held by a running process (this one stands in for a second writer).
+    writeFileSync(lockPath, `${process.pid}\n`);
+    let ran = false;
+    const waiting = withChainLock(chainPath, async () => {
+      ran = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(ran).toBe(false);
+    rmSync(lockPath);
+    await waiting;
+    expect(ran).toBe(true);
+    expect(existsSync(lockPath)).toBe(false);
+
+    // Left behind by a process that has exited.
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeFileSync(lockPath, `${exited}\n`);
+    await expect(withChainLock(chainPath, async () => "taken over")).resolves.toBe("taken over");
+    expect(existsSync(lockPath)).toBe(false);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports edited entries, deleted receipts and runs pruned from the index", () => {
+    const { dir, chainPath } = buildChain(2);
+    const entries = readChain(chainPath);
+    entries[0] = { ...entries[0], run_id: "rewritten" };
+    rmSync(entries[1].receipt_path!);
+
+    const result = verifyChain(entries, {
+      loadReceipt: loadChainedReceipt,
+      indexedRunIds: new Set(["run-0"]),
+    });
+    const kinds = result.findings.map((f) => f.kind);
+
+    expect(kinds).toContain("ENTRY_TAMPERED");
+    expect(kinds).toContain("RECEIPT_MISSING");
+    expect(kinds).toContain("MISSING_FROM_INDEX");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createKeyring } from "../../src/halo/keyring.js";
+import { signHaloReceipt } from "../../src/halo/signer.js";
+import { checkReplay, loadSeenReceipts, receiptIdentity, type SeenReceipt } from "../../src/halo/replay.js";
+
+const keyring = createKeyring();
+
+function identityOf(response: string, runId?: string): SeenReceipt {
+  return receiptIdentity(signHaloReceipt(response, keyring), runId)!;
+}
+
+describe("replay detection", () => {
+  it("reads receipt identity from HALO and master receipts", () => {
+    const receipt = signHaloReceipt("hello", keyring);
+    expect(receiptIdentity(receipt, "run-1")).toMatchObject({
+      receipt_id: receipt.id,
+      content_hash: receipt.responseHash,
+      run_id: "run-1",
+      timestamp: receipt.timestamp,
+    });
+    expect(receiptIdentity({ receipt_id: "m-1", content_hash: "c".repeat(64) })?.receipt_id).toBe("m-1");
+    expect(receiptIdentity({ note: "no id" })).toBeUndefined();
+  });
+
+  it("does not report the run that produced the receipt", () => {
+    const first = identityOf("hello", "run-1");
+    expect(checkReplay(first, [first, identityOf("other", "run-2")])).toEqual({ ok: true, findings: [] });
+  });
+
+  it("reports reused receipt IDs and replayed content as distinct findings", () => {
+    const original = identityOf("hello", "run-1");
+    const replayed = { ...original, run_id: "run-2" };
+    expect(checkReplay(replayed, [original]).findings.map((f) => f.kind)).toEqual(["RECEIPT_ID_REUSED"]);
+
+    const resigned = identityOf("hello", "run-3");
+    const result = checkReplay(resigned, [original]);
+    expect(result.findings.map((f) => f.kind)).toEqual(["CONTENT_HASH_REPLAYED"]);
+    expect(result.findings[0].detail).toContain(original.receipt_id);
+
+    const forged = { ...identityOf("different"), receipt_id: original.receipt_id };
+    expect(checkReplay(forged, [original]).findings.map((f) => f.kind)).toEqual(["RECEIPT_ID_REUSED"]);
+  });
+
+  it("flags timestamps outside the freshness window only when one is configured", () => {
+    const now = new Date("2026-03-01T12:00:00.000Z");
+    const at = (timestamp: string | undefined): SeenReceipt => ({
+      receipt_id: "r-1",
+      receipt_hash: "a".repeat(64),
+      content_hash: "b".repeat(64),
+      timestamp,
+    });
+    const window = { freshnessWindowMs: 60 * 60 * 1000, now };
+
+    expect(checkReplay(at("2026-03-01T11:30:00.000Z"), [], window).ok).toBe(true);
+    expect(checkReplay(at("2026-03-01T10:00:00.000Z"), []).ok).toBe(true);
+    expect(checkReplay(at("2026-03-01T10:00:00.000Z"), [], window).findings[0].detail).toContain("older than");
+    expect(checkReplay(at("2026-03-02T12:00:00.000Z"), [], window).findings[0].detail).toContain("future");
+    expect(checkReplay(at(undefined), [], window).findings[0].kind).toBe("TIMESTAMP_OUTSIDE_WINDOW");
+  });
+
+  it("loads the seen-receipt store from the run index file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "replay-"));
+    const runIndexPath = join(dir, "run_index.json");
+    const original = identityOf("hello", "run-1");
+    writeFileSync(
+      runIndexPath,
+      JSON.stringify([
+        { runId: "run-0", provider: "openai", createdAt: "2026-01-01T00:00:00.000Z" },
+        {
+          runId: "run-1",
+          receiptId: original.receipt_id,
+          receiptHash: original.receipt_hash,
+          receiptContentHash: original.content_hash,
+        },
+      ]),
+      "utf8"
+    );
+
+    const seen = await loadSeenReceipts(runIndexPath);
+    expect(seen).toEqual([
+      {
+        receipt_id: original.receipt_id,
+        receipt_hash: original.receipt_hash,
+        content_hash: original.content_hash,
+        run_id: "run-1",
+      },
+    ]);
+    expect(await loadSeenReceipts(join(dir, "missing.json"))).toEqual([]);
+
+    // A database that cannot be reached falls back to the file, like the console's run index writes.
+    const savedUrl = process.env.DATABASE_URL;
+    process.env.DATABASE_URL = "postgres://halo@127.0.0.1:1/halo";
+    try {
+      expect(await loadSeenReceipts(runIndexPath)).toEqual(seen);
+    } finally {
+      if (savedUrl === undefined) delete process.env.DATABASE_URL;
+      else process.env.DATABASE_URL = savedUrl;
+    }
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
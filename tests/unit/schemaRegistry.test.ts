@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { createHash, createHmac } from "node:crypto";
+import { createKeyring } from "../../src/halo/keyring.js";
+import { signHaloReceipt } from "../../src/halo/signer.js";
+import { verifyReceipt } from "../../src/halo/verifier.js";
+import { commitEvidence } from "../../src/halo/disclosure.js";
+import { migrateDocument } from "../../src/halo/migrations.js";
+import {
+  ARTIFACT_VERSION,
+  CONSOLE_ARTIFACT_VERSION,
+  EVIDENCE_PACK_VERSION,
+  UNVERSIONED,
+  detectDocumentKind,
+  validateDocument,
+} from "../../src/halo/schemaRegistry.js";
+import { verifyCheckpointOffline } from "../../src/cli/ingestValet.js";
+
+const keyring = createKeyring();
+
+function legacyReceipt(response: string, secret: string) {
+  const id = "legacy-1";
+  const timestamp = "2025-06-01T00:00:00.000Z";
+  const responseHash = createHash("sha256").update(response, "utf8").digest("hex");
+  const signature = createHmac("sha256", secret).update(`${id}|${timestamp}|${responseHash}`, "utf8").digest("hex");
+  return { id, timestamp, responseHash, signature, response, schema_version: "1.0.0" as const };
+}
+
+function unversionedEvidencePack() {
+  const transcript = { model: "gpt-test", messages: [{ role: "assistant", content: "Tides follow the Moon." }] };
+  const assertions = [{ assertion_type: "FACT", text: "Tides follow the Moon.", sources: [] }];
+  const { content_hash, disclosure } = commitEvidence(transcript, assertions);
+  return {
+    receipt_id: "r-1",
+    content_hash,
+    valet_source: { source_dir: "/tmp/valet", files: [], source_receipt_file: "receipt.json" },
+    transcript,
+    eli_assertions: assertions,
+    disclosure,
+  };
+}
+
+function consoleArtifact() {
+  return {
+    runId: "run-1",
+    provider: "openai",
+    model: "gpt-test",
+    prompt: "hello",
+    outputText: "hi",
+    receipt: signHaloReceipt("hi", keyring),
+    createdAt: "2026-03-01T00:00:00.000Z",
+  };
+}
+
+describe("schema registry", () => {
+  it("detects document kinds and versions from their shape", () => {
+    expect(validateDocument(signHaloReceipt("hi", keyring))).toMatchObject({
+      ok: true,
+      kind: "halo_receipt",
+      version: "2.0.0",
+      outdated: false,
+    });
+    expect(validateDocument(legacyReceipt("hi", "secret"))).toMatchObject({ ok: true, version: "1.0.0", outdated: true });
+    expect(validateDocument(unversionedEvidencePack())).toMatchObject({ ok: true, kind: "evidence_pack", version: UNVERSIONED });
+    expect(detectDocumentKind(consoleArtifact())).toBe("console_artifact");
+    expect(detectDocumentKind({ hello: "world" })).toBeUndefined();
+  });
+
+  it("reports schema violations and unknown versions", () => {
+    const receipt = { ...signHaloReceipt("hi", keyring), responseHash: "not-a-hash" };
+    expect(validateDocument(receipt).errors).toEqual(["/responseHash: does not match ^[0-9a-f]{64}$"]);
+
+    const future = validateDocument({ ...signHaloReceipt("hi", keyring), schema_version: "9.0.0" });
+    expect(future.ok).toBe(false);
+    expect(future.errors[0]).toContain("unsupported halo_receipt version: 9.0.0");
+  });
+});
+
+describe("migrations", () => {
+  it("stamps unversioned documents without touching signed fields", () => {
+    const pack = unversionedEvidencePack();
+    const migrated = migrateDocument(pack);
+    expect(migrated).toMatchObject({ kind: "evidence_pack", from: UNVERSIONED, to: EVIDENCE_PACK_VERSION });
+    expect(migrated.document.evidence_version).toBe(EVIDENCE_PACK_VERSION);
+    expect(pack).not.toHaveProperty("evidence_version");
+    expect(validateDocument(migrated.document).ok).toBe(true);
+
+    const artifact = consoleArtifact();
+    const migratedConsole = migrateDocument(artifact);
+    expect(migratedConsole.document.schemaVersion).toBe(CONSOLE_ARTIFACT_VERSION);
+    expect(migratedConsole.document.receipt).toEqual(artifact.receipt);
+    expect(verifyReceipt(migratedConsole.document.receipt as typeof artifact.receipt, keyring).valid).toBe(true);
+
+    const demo = migrateDocument({
+      meta: { timestamp: "t", orchestratorVersion: "1.0.0", nodeVersion: "v20" },
+      llm: { provider: "openai", endpoint: "/chat/completions", model: "m", requestParams: {} },
+      transcript: {},
+      haloReceipt: {},
+    });
+    expect((demo.document.meta as Record<string, unknown>).schemaVersion).toBe(ARTIFACT_VERSION);
+    expect(migrateDocument(demo.document).applied).toEqual([]);
+  });
+
+  it("leaves 1.0.0 HMAC receipts in place and explains why", () => {
+    const receipt = legacyReceipt("hi", "secret");
+    const result = migrateDocument(receipt);
+    expect(result.to).toBe("1.0.0");
+    expect(result.document).toBe(receipt);
+    expect(result.stoppedReason).toContain("new Ed25519 signature");
+    expect(() => migrateDocument({ ...receipt, schema_version: "0.9" })).toThrow("Unsupported halo_receipt version");
+  });
+});
+
+describe("version dispatch", () => {
+  it("verifies 1.0.0 receipts with the HMAC secret and still rejects unknown versions", () => {
+    const receipt = legacyReceipt("hi", "legacy-secret");
+    expect(verifyReceipt(receipt, keyring, { legacyHmacKey: "legacy-secret" })).toMatchObject({ valid: true });
+    expect(verifyReceipt(receipt, keyring, { legacyHmacKey: "other" }).code).toBe("SIGNATURE_INVALID");
+    expect(verifyReceipt({ ...receipt, response: "bye" }, keyring, { legacyHmacKey: "legacy-secret" }).code).toBe(
+      "HASH_MISMATCH"
+    );
+    expect(verifyReceipt({ ...signHaloReceipt("hi", keyring), schema_version: "3.0.0" }, keyring).code).toBe(
+      "UNSUPPORTED_SCHEMA"
+    );
+  });
+
+  it("refuses checkpoints with an unknown master receipt or evidence version", () => {
+    const evidencePack = unversionedEvidencePack();
+    const masterReceipt = {
+      receipt_version: "halo.master.v9",
+      receipt_id: "r-1",
+      content_hash: evidencePack.content_hash,
+      signature_scheme: "ed25519" as const,
+      signature: "",
+      metadata: {},
+      verification: { derived_status: "PASS" as const, verified_at: "", valet_hmac_strategy: "none" as const, checks: [] },
+    };
+    expect(verifyCheckpointOffline({ masterReceipt, evidencePack }).reason).toContain(
+      "unsupported master receipt_version: halo.master.v9"
+    );
+    expect(
+      verifyCheckpointOffline({
+        masterReceipt: { ...masterReceipt, receipt_version: "halo.master.v1" },
+        evidencePack: { ...evidencePack, evidence_version: "halo.evidence.v9" as never },
+      }).reason
+    ).toContain("unsupported evidence_version");
+  });
+});
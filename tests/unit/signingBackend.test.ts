@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync, verify } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { connect } from "node:net";
+import {
+  createCommandSigner,
+  createSocketSigner,
+  resolveSigner,
+  startSigningDaemon,
+} from "../../src/halo/signingBackend.js";
+import { computeKeyId } from "../../src/halo/keyring.js";
+import { appendToLogWithSigner, verifyTreeHead } from "../../src/halo/transparencyLog.js";
+import {
+  createMasterReceiptBatchWithSigner,
+  createMasterReceiptWithSigner,
+  normalizeValetToTranscript,
+  sha256Hex,
+  verifyCheckpointOffline,
+} from "../../src/cli/ingestValet.js";
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+function source(completion: string) {
+  return {
+    transcript: normalizeValetToTranscript({ prompt: "What causes tides?", completion }),
+    sourceDir: "/tmp/valet/dist-slug",
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(completion) }],
+    matchedHmacStrategy: "canonical_transcript" as const,
+  };
+}
+
+describe("signer backends", () => {
+  it("resolves the backend from HALO_SIGNER or whichever key variable is set", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "signer-"));
+    try {
+      const keyFile = join(dir, "signing.pem");
+      writeFileSync(keyFile, privatePem);
+
+      expect(resolveSigner({})).toBeUndefined();
+      expect(resolveSigner({ RECEIPT_SIGNING_KEY: privatePem.replace(/\n/g, "\\n") })?.name).toBe("env");
+      const fromFile = resolveSigner({ RECEIPT_SIGNING_KEY_FILE: keyFile, RECEIPT_SIGNING_KEY: "ignored" });
+      expect(fromFile?.name).toBe(`file:${keyFile}`);
+      expect(await fromFile?.publicKey()).toBe(publicPem);
+      expect(resolveSigner({ HALO_SIGNER_SOCKET: join(dir, "s.sock") })?.name).toBe(`socket:${join(dir, "s.sock")}`);
+      expect(() => resolveSigner({ HALO_SIGNER: "command" })).toThrow("requires HALO_SIGNER_COMMAND");
+      expect(() => resolveSigner({ HALO_SIGNER: "hsm" })).toThrow("Unknown HALO_SIGNER: hsm");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("signs checkpoints, tree heads and batches through the socket daemon", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "signerd-"));
+    const umask = process.umask();
+    const daemon = await startSigningDaemon({ socketPath: join(dir, "signer.sock"), privateKeyPem: privatePem });
+    try {
+      expect(statSync(daemon.socketPath).mode & 0o777).toBe(0o600);
+      expect(process.umask()).toBe(umask);
+      const signer = createSocketSigner(daemon.socketPath);
+      expect(await signer.publicKey()).toBe(publicPem);
+
+      const checkpoint = await createMasterReceiptWithSigner({ ...source("The Moon."), signer });
+      expect(
+        verifyCheckpointOffline({
+          masterReceipt: checkpoint.master_receipt,
+          evidencePack: checkpoint.evidence_pack,
+          verifyKeyPem: publicPem,
+        })
+      ).toMatchObject({ ok: true });
+
+      const batch = await createMasterReceiptBatchWithSigner([source("The Moon."), source("The Sun.")], { signer });
+      for (const member of batch) {
+        const { master_receipt, evidence_pack } = member;
+        expect(verifyCheckpointOffline({ masterReceipt: master_receipt, evidencePack: evidence_pack, verifyKeyPem: publicPem }).ok).toBe(
+          true
+        );
+      }
+
+      const logged = await appendToLogWithSigner(
+        join(dir, "tlog"),
+        { kind: "master", receipt_id: "r-1", receipt_hash: "1".repeat(64) },
+        signer
+      );
+      expect(logged.tree_head.key_id).toBe(computeKeyId(publicPem));
+      expect(verifyTreeHead(logged.tree_head, { publicKeyPem: publicPem })).toEqual({ ok: true });
+
+      const reply = await new Promise<string>((resolveReply) => {
+        const socket = connect(daemon.socketPath, () => socket.write('{"op":"decrypt"}\n'));
+        socket.setEncoding("utf8").on("data", (chunk: string) => {
+          socket.end();
+          resolveReply(chunk);
+        });
+      });
+      expect(JSON.parse(reply)).toEqual({ ok: false, reason: 'unsupported request: "decrypt"' });
+    } finally {
+      await daemon.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    await expect(createSocketSigner(join(dir, "signer.sock")).publicKey()).rejects.toThrow("unreachable");
+  });
+
+  it("refuses to start the daemon over a file that is not a socket", () => {
+    const { privatePem } = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "signerd-"));
+    try {
+      const keyPath = join(dir, "signing.pem");
+      writeFileSync(keyPath, privatePem);
+      expect(() => startSigningDaemon({ socketPath: keyPath, privateKeyPem: privatePem })).toThrow(
+        "exists and is not a socket"
+      );
+      expect(readFileSync(keyPath, "utf8")).toBe(privatePem);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("signs through an external command and rejects signatures from the wrong key", async () => {
+    const { privatePem, publicPem } = keyPair();
+    const other = keyPair();
+    const dir = mkdtempSync(join(tmpdir(), "signer-command-"));
+    try {
+      writeFileSync(join(dir, "signing.pem"), privatePem);
+      const signerd = `"${process.execPath}" --import tsx src/cli/signerd.ts --stdio --key-file "${join(dir, "signing.pem")}"`;
+
+      const signer = createCommandSigner(signerd, { timeoutMs: 30_000 });
+      const data = Buffer.from("HALO_MASTER_RECEIPT_V1|{}", "utf8");
+      const signature = await signer.sign(data);
+      expect(verify(null, data, publicPem, signature)).toBe(true);
+
+      // A wrapper that reports one key but signs with another must not be trusted.
+      writeFileSync(
+        join(dir, "liar.mjs"),
+        [
+          'import { createPrivateKey, sign } from "node:crypto";',
+          'import { readFileSync } from "node:fs";',
+          'const request = JSON.parse(readFileSync(0, "utf8"));',
+          `const publicKey = ${JSON.stringify(publicPem)};`,
+          `const key = createPrivateKey(${JSON.stringify(other.privatePem)});`,
+          "console.log(JSON.stringify(request.op === \"public_key\"",
+          "  ? { ok: true, public_key: publicKey }",
+          "  : { ok: true, signature: sign(null, Buffer.from(request.data, \"base64\"), key).toString(\"base64\") }));",
+        ].join("\n")
+      );
+      const liar = createCommandSigner(`"${process.execPath}" "${join(dir, "liar.mjs")}"`);
+      await expect(liar.sign(data)).rejects.toThrow("does not verify");
+
+      await expect(createCommandSigner(`"${process.execPath}" -e "process.exit(3)"`).publicKey()).rejects.toThrow(
+        "exit code 3"
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
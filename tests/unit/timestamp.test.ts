@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { createKeyring, exportPublicKeyring, revokeKey } from "../../src/halo/keyring.js";
+import { hashReceipt } from "../../src/halo/receiptChain.js";
+import { signHaloReceipt } from "../../src/halo/signer.js";
+import { verifyReceipt } from "../../src/halo/verifier.js";
+import {
+  assessSigningTime,
+  createLocalTimestampAuthority,
+  timestampReceipt,
+  verifyTimestampToken,
+  type TimestampAuthority,
+} from "../../src/halo/timestamp.js";
+
+const signingKeyring = createKeyring();
+const tsaKeyring = createKeyring();
+const trusted = exportPublicKeyring(tsaKeyring);
+const tsa = createLocalTimestampAuthority(tsaKeyring);
+
+describe("timestamp authority", () => {
+  it("attaches a token over the receipt hash without changing the hash", async () => {
+    const receipt = signHaloReceipt("hello", signingKeyring);
+    const stamped = await timestampReceipt(receipt, tsa);
+
+    expect(hashReceipt(stamped)).toBe(hashReceipt(receipt));
+    expect(stamped.timestamp_token.message_imprint.hashed_message).toBe(hashReceipt(receipt));
+    expect(verifyTimestampToken(stamped.timestamp_token, hashReceipt(receipt), { tsaKeyring: trusted })).toEqual({
+      ok: true,
+      trusted: true,
+    });
+  });
+
+  it("reports attested only for tokens from a trusted TSA key", async () => {
+    const stamped = await timestampReceipt(signHaloReceipt("hello", signingKeyring), tsa);
+
+    const attested = assessSigningTime(stamped, { tsaKeyring: trusted });
+    expect(attested.status).toBe("attested");
+    expect(attested.attested_time).toBe(stamped.timestamp_token.gen_time);
+    expect(attested.claimed_time).toBe(stamped.timestamp);
+
+    expect(assessSigningTime(stamped).status).toBe("self-asserted");
+    expect(assessSigningTime(stamped, { tsaKeyring: createKeyring() }).reason).toContain("not in the trusted TSA keyring");
+    expect(assessSigningTime(signHaloReceipt("hello", signingKeyring)).reason).toContain("no timestamp token");
+  });
+
+  it("fails verification for tampered tokens, revoked TSA keys and backdated claims", async () => {
+    const receipt = signHaloReceipt("hello", signingKeyring);
+    const stamped = await timestampReceipt(receipt, tsa);
+
+    const shifted = {
+      ...stamped,
+      timestamp_token: { ...stamped.timestamp_token, gen_time: "2020-01-01T00:00:00.000Z" },
+    };
+    const tampered = verifyReceipt(shifted, signingKeyring, { tsaKeyring: trusted });
+    expect(tampered.valid).toBe(false);
+    expect(tampered.code).toBe("TIMESTAMP_INVALID");
+
+    const moved = await timestampReceipt(signHaloReceipt("other", signingKeyring), tsa);
+    const borrowed = assessSigningTime({ ...stamped, timestamp_token: moved.timestamp_token }, { tsaKeyring: trusted });
+    expect(borrowed.reason).toContain("message imprint");
+
+    const revoked = revokeKey(trusted, tsaKeyring.active_key_id, { now: new Date(Date.parse(stamped.timestamp_token.gen_time) - 1) });
+    expect(assessSigningTime(stamped, { tsaKeyring: revoked }).status).toBe("invalid");
+
+    const lateTsa = createLocalTimestampAuthority(tsaKeyring, { now: () => new Date(Date.parse(receipt.timestamp) - 60 * 60 * 1000) });
+    const backdated = await timestampReceipt(receipt, lateTsa);
+    expect(assessSigningTime(backdated, { tsaKeyring: trusted }).reason).toContain("after the attested time");
+  });
+
+  it("reports the signing time from verifyReceipt", async () => {
+    const stamped = await timestampReceipt(signHaloReceipt("hello", signingKeyring), tsa);
+    const result = verifyReceipt(stamped, signingKeyring, { tsaKeyring: trusted });
+    expect(result.valid).toBe(true);
+    expect(result.signing_time?.status).toBe("attested");
+  });
+
+  it("rejects tokens that answer for a different nonce", async () => {
+    const replaying: TimestampAuthority = {
+      name: "replaying-tsa",
+      timestamp: (hashedMessage) => tsa.timestamp(hashedMessage, { nonce: "stale" }),
+    };
+    await expect(timestampReceipt(signHaloReceipt("hello", signingKeyring), replaying)).rejects.toThrow("nonce");
+  });
+});
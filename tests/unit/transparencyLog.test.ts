@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  consistencyProof,
+  inclusionProof,
+  merkleLeafHash,
+  merkleRoot,
+  verifyConsistency,
+  verifyInclusion,
+} from "../../src/halo/merkle.js";
+import { hashReceipt } from "../../src/halo/receiptChain.js";
+import {
+  appendToLog,
+  appendToLogWithSigner,
+  auditLog,
+  proveConsistency,
+  proveInclusion,
+  verifyConsistencyProof,
+  verifyInclusionProof,
+  resolveLogSigner,
+} from "../../src/halo/transparencyLog.js";
+
+function keyPair(): { privatePem: string; publicPem: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+const LOG_KEY = keyPair();
+
+/** Log `count` fake receipts into a fresh log directory. */
+function buildLog(count: number): { dir: string; receipts: Array<Record<string, unknown>> } {
+  const dir = mkdtempSync(join(tmpdir(), "tlog-"));
+  const receipts = Array.from({ length: count }, (_, i) => ({ receipt_id: `r-${i}`, content_hash: `${i}`.repeat(64) }));
+
+  receipts.forEach((receipt, i) => {
+    appendToLog(
+      dir,
+      { kind: "master", receipt_id: receipt.receipt_id, receipt_hash: hashReceipt(receipt) },
+      LOG_KEY.privatePem,
+      new Date(Date.UTC(2026, 0, 1, 0, i))
+    );
+  });
+
+  return { dir, receipts };
+}
+
+describe("merkle tree", () => {
+  const leaves = Array.from({ length: 9 }, (_, i) => merkleLeafHash(`leaf ${i}`));
+
+  it("verifies every audit path for trees of size 1 to 9", () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const tree = leaves.slice(0, size);
+      const root = merkleRoot(tree);
+      for (let index = 0; index < size; index++) {
+        const path = inclusionProof(tree, index);
+        expect(verifyInclusion(tree[index], index, size, path, root)).toBe(true);
+        expect(verifyInclusion(tree[(index + 1) % size], index, size, path, root)).toBe(size === 1);
+      }
+    }
+  });
+
+  it("verifies consistency between every pair of tree sizes", () => {
+    for (let newSize = 1; newSize <= leaves.length; newSize++) {
+      const newRoot = merkleRoot(leaves.slice(0, newSize));
+      for (let oldSize = 1; oldSize <= newSize; oldSize++) {
+        const oldRoot = merkleRoot(leaves.slice(0, oldSize));
+        const proof = consistencyProof(leaves.slice(0, newSize), oldSize);
+        expect(verifyConsistency(oldSize, newSize, oldRoot, newRoot, proof)).toBe(true);
+        if (oldSize < newSize) {
+          expect(verifyConsistency(oldSize, newSize, merkleLeafHash("forged"), newRoot, proof)).toBe(false);
+        }
+      }
+    }
+  });
+});
+
+describe("transparency log", () => {
+  it("issues inclusion proofs that verify offline against a signed tree head", () => {
+    const { dir, receipts } = buildLog(5);
+
+    const proof = proveInclusion(dir, "r-2");
+    expect(proof.leaf_index).toBe(2);
+    expect(proof.signed_tree_head.tree_size).toBe(5);
+    expect(verifyInclusionProof(proof, receipts[2], { publicKeyPem: LOG_KEY.publicPem })).toEqual({ ok: true });
+
+    expect(verifyInclusionProof(proof, { ...receipts[2], content_hash: "f".repeat(64) }).reason).toContain(
+      "receipt_hash"
+    );
+    expect(verifyInclusionProof(proof, receipts[2], { publicKeyPem: keyPair().publicPem }).reason).toContain(
+      "unexpected key_id"
+    );
+
+    const rerooted = { ...proof, signed_tree_head: { ...proof.signed_tree_head, root_hash: "0".repeat(64) } };
+    expect(verifyInclusionProof(rerooted, receipts[2]).reason).toContain("audit path");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("proves that a later tree head extends an earlier one", () => {
+    const { dir } = buildLog(6);
+
+    const proof = proveConsistency(dir, 3);
+    expect(proof.first.tree_size).toBe(3);
+    expect(proof.second.tree_size).toBe(6);
+    expect(verifyConsistencyProof(proof, { publicKeyPem: LOG_KEY.publicPem })).toEqual({ ok: true });
+
+    const forked = { ...proof, first: { ...proof.first, root_hash: "0".repeat(64) } };
+    expect(verifyConsistencyProof(forked).ok).toBe(false);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("audits clean history and reports rewritten leaves", () => {
+    const { dir } = buildLog(4);
+    expect(auditLog(dir).ok).toBe(true);
+
+    const leavesPath = join(dir, "leaves.jsonl");
+    const lines = readFileSync(leavesPath, "utf8").trim().split("\n");
+    lines[1] = JSON.stringify({ ...JSON.parse(lines[1]), receipt_id: "rewritten" });
+    writeFileSync(leavesPath, `${lines.join("\n")}\n`, "utf8");
+
+    const kinds = auditLog(dir).findings.map((f) => f.kind);
+    expect(kinds).toContain("LEAF_TAMPERED");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("signs every writer's tree heads with the one configured log key", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "tlog-"));
+    const keyFile = join(dir, "log_key.pem");
+    writeFileSync(keyFile, LOG_KEY.privatePem, "utf8");
+    const receiptKey = keyPair().privatePem.replace(/\n/g, "\\n");
+
+    const logSigner = resolveLogSigner({ HALO_TLOG_SIGNING_KEY_FILE: keyFile, RECEIPT_SIGNING_KEY: receiptKey });
+    expect(await logSigner.publicKey()).toBe(LOG_KEY.publicPem);
+    expect(await resolveLogSigner({ RECEIPT_SIGNING_KEY: receiptKey }).publicKey()).not.toBe(LOG_KEY.publicPem);
+    expect(() => resolveLogSigner({})).toThrow("HALO_TLOG_SIGNING_KEY_FILE");
+
+    const logDir = join(dir, "log");
+    for (const kind of ["halo", "master"] as const) {
+      await appendToLogWithSigner(logDir, { kind, receipt_id: kind, receipt_hash: "a".repeat(64) }, logSigner);
+    }
+    expect(auditLog(logDir, { publicKeyPem: LOG_KEY.publicPem }).ok).toBe(true);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
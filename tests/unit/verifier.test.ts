@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { createHash, createHmac, generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { build, type Rollup } from "vite";
+import * as verifier from "../../src/verifier/index.js";
+import { canonicalJson } from "../../src/utils/canonicalJson.js";
+import { createKeyring, revokeKey, signResponse, verifyReceipt } from "../../src/mocks/haloMock.js";
+import { exportPublicKeyring } from "../../src/halo/keyring.js";
+import { hashReceipt } from "../../src/halo/receiptChain.js";
+import { appendToLog, TLOG_VERSION, TREE_HEAD_DOMAIN_PREFIX } from "../../src/halo/transparencyLog.js";
+import { DISCLOSURE_SCHEME } from "../../src/halo/disclosure.js";
+import { HALO_RECEIPT_SCHEMA_VERSION } from "../../src/halo/signer.js";
+import { createPemSigner } from "../../src/halo/signingBackend.js";
+import {
+  CONSOLE_ARTIFACT_VERSION,
+  EVIDENCE_PACK_VERSION,
+  LEGACY_HALO_RECEIPT_VERSION,
+  MASTER_RECEIPT_VERSION,
+} from "../../src/halo/schemaRegistry.js";
+import {
+  BATCH_DOMAIN_PREFIX,
+  COSIGNATURE_DOMAIN_PREFIX,
+  cosignMasterReceipt,
+  createMasterReceipt,
+  createMasterReceiptBatch,
+  DOMAIN_PREFIX,
+  normalizeValetToTranscript,
+  sha256Hex,
+  SIGNED_ENVELOPE_FIELDS,
+  verifyCheckpointOffline,
+} from "../../src/cli/ingestValet.js";
+
+interface Vector {
+  name: string;
+  input: unknown;
+  canonical: string;
+  sha256: string;
+}
+
+const { vectors } = JSON.parse(
+  readFileSync(join(process.cwd(), "tests/fixtures/canonical-json/vectors.json"), "utf8")
+) as { vectors: Vector[] };
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privatePem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+function source(prompt: string) {
+  return {
+    transcript: normalizeValetToTranscript({ prompt, completion: `${prompt} The Moon.` }),
+    sourceDir: `/tmp/valet/${prompt}`,
+    sourceReceiptFile: "receipt.json",
+    sourceFiles: [{ file: "receipt.json", sha256: sha256Hex(prompt) }],
+    matchedHmacStrategy: "canonical_transcript" as const,
+  };
+}
+
+/** A HaloReceipt, a cosigned master receipt with an inclusion proof, and a console artifact. */
+async function signedDocuments() {
+  const keyring = createKeyring();
+  const ops = keyPair();
+  const audit = keyPair();
+  const logKey = keyPair();
+  const logDir = mkdtempSync(join(tmpdir(), "verifier-tlog-"));
+  try {
+    const receipt = signResponse("The Moon raises the tides.", keyring);
+    const consoleArtifact = {
+      schemaVersion: CONSOLE_ARTIFACT_VERSION,
+      runId: "run-1",
+      outputText: receipt.response,
+      receipt,
+      transparency: appendToLog(
+        logDir,
+        { kind: "halo", receipt_id: receipt.id, receipt_hash: hashReceipt(receipt) },
+        logKey.privatePem
+      ).proof,
+    };
+
+    const checkpoint = createMasterReceipt({ ...source("What causes tides?"), signingKeyPem: ops.privatePem });
+    const master = await cosignMasterReceipt(checkpoint.master_receipt, createPemSigner(audit.privatePem), "auditor");
+    const evidence = {
+      ...checkpoint.evidence_pack,
+      transparency: appendToLog(
+        logDir,
+        { kind: "master", receipt_id: master.receipt_id, receipt_hash: hashReceipt(master) },
+        logKey.privatePem
+      ).proof,
+    };
+    return { keyring: exportPublicKeyring(keyring), receipt, consoleArtifact, master, evidence, ops, audit };
+  } finally {
+    rmSync(logDir, { recursive: true, force: true });
+  }
+}
+
+describe("standalone verifier", () => {
+  it("matches the canonical JSON vectors and hashes like node:crypto", async () => {
+    for (const vector of vectors) {
+      expect(verifier.canonicalJson(vector.input), vector.name).toBe(vector.canonical);
+      expect(createHash("sha256").update(vector.canonical, "utf8").digest("hex"), vector.name).toBe(vector.sha256);
+      expect(await verifier.sha256Hex(vector.canonical), vector.name).toBe(vector.sha256);
+    }
+    expect(verifier.canonicalJson).toBe(canonicalJson);
+  });
+
+  it("pins the constants it mirrors from the Node modules", () => {
+    expect(verifier.DOMAIN_PREFIX).toBe(DOMAIN_PREFIX);
+    expect(verifier.BATCH_DOMAIN_PREFIX).toBe(BATCH_DOMAIN_PREFIX);
+    expect(verifier.COSIGNATURE_DOMAIN_PREFIX).toBe(COSIGNATURE_DOMAIN_PREFIX);
+    expect(verifier.TREE_HEAD_DOMAIN_PREFIX).toBe(TREE_HEAD_DOMAIN_PREFIX);
+    expect(verifier.SIGNED_ENVELOPE_FIELDS).toEqual(SIGNED_ENVELOPE_FIELDS);
+    expect(verifier.DISCLOSURE_SCHEME).toBe(DISCLOSURE_SCHEME);
+    expect(verifier.TLOG_VERSION).toBe(TLOG_VERSION);
+    expect(verifier.HALO_RECEIPT_VERSION).toBe(HALO_RECEIPT_SCHEMA_VERSION);
+    expect(verifier.LEGACY_HALO_RECEIPT_VERSION).toBe(LEGACY_HALO_RECEIPT_VERSION);
+    expect(verifier.MASTER_RECEIPT_VERSION).toBe(MASTER_RECEIPT_VERSION);
+    expect(verifier.EVIDENCE_PACK_VERSION).toBe(EVIDENCE_PACK_VERSION);
+    expect(verifier.CONSOLE_ARTIFACT_VERSION).toBe(CONSOLE_ARTIFACT_VERSION);
+  });
+
+  it("agrees with the Node verifiers on HaloReceipts, master receipts and console artifacts", async () => {
+    const docs = await signedDocuments();
+
+    expect(await verifier.verifyHaloReceipt(docs.receipt, { keyring: docs.keyring })).toEqual({ valid: true });
+    const tampered = { ...docs.receipt, response: "The Sun raises the tides." };
+    expect(await verifier.verifyHaloReceipt(tampered, { keyring: docs.keyring })).toMatchObject({ code: "HASH_MISMATCH" });
+    expect(verifyReceipt(tampered, docs.keyring).code).toBe("HASH_MISMATCH");
+    const revoked = revokeKey(docs.keyring, docs.receipt.key_id, { reason: "compromised" });
+    expect(await verifier.verifyHaloReceipt(docs.receipt, { keyring: revoked })).toEqual(
+      verifyReceipt(docs.receipt, revoked)
+    );
+
+    const responseHash = sha256Hex("legacy");
+    const legacy = {
+      id: "r-legacy",
+      timestamp: "2025-01-01T00:00:00.000Z",
+      responseHash,
+      response: "legacy",
+      schema_version: LEGACY_HALO_RECEIPT_VERSION,
+      signature: createHmac("sha256", "shared-secret").update(`r-legacy|2025-01-01T00:00:00.000Z|${responseHash}`).digest("hex"),
+    };
+    expect(await verifier.verifyHaloReceipt(legacy, { legacyHmacKey: "shared-secret" })).toEqual({ valid: true });
+    expect(await verifier.verifyHaloReceipt(legacy, { legacyHmacKey: "other" })).toMatchObject({ code: "SIGNATURE_INVALID" });
+
+    // Cosignatures stay out of receipt_hash here too.
+    expect(await verifier.hashReceipt(docs.master)).toBe(hashReceipt(docs.master));
+
+    const input = { masterReceipt: docs.master, evidencePack: docs.evidence, verifyKeyPem: docs.ops.publicPem };
+    const result = await verifier.verifyMasterReceipt(input);
+    expect(result).toEqual({ ok: true, signatures: verifyCheckpointOffline(input).signatures });
+    const policy = { threshold: 2, keys: [docs.ops.publicPem, docs.audit.publicPem] };
+    expect((await verifier.verifyMasterReceipt({ ...input, signaturePolicy: policy })).signatures?.threshold).toBe(2);
+    const forged = { ...docs.master, content_hash: sha256Hex("forged") };
+    expect((await verifier.verifyMasterReceipt({ ...input, masterReceipt: forged })).reason).toBe(
+      verifyCheckpointOffline({ ...input, masterReceipt: forged }).reason
+    );
+    const relabelled = { ...docs.master, cosignatures: [{ ...docs.master.cosignatures![0], role: "primary" }] };
+    expect((await verifier.verifyMasterReceipt({ ...input, masterReceipt: relabelled })).reason).toBe(
+      verifyCheckpointOffline({ ...input, masterReceipt: relabelled }).reason
+    );
+    expect(verifyCheckpointOffline({ ...input, masterReceipt: relabelled }).ok).toBe(false);
+
+    const [, member] = createMasterReceiptBatch([source("A"), source("B"), source("C")], {
+      signingKeyPem: docs.ops.privatePem,
+    });
+    const batchInput = { masterReceipt: member.master_receipt, evidencePack: member.evidence_pack, verifyKeyPem: docs.ops.publicPem };
+    expect((await verifier.verifyMasterReceipt(batchInput)).ok).toBe(true);
+    const moved = { ...member.master_receipt, batch: { ...member.master_receipt.batch!, leaf_index: 0 } };
+    expect((await verifier.verifyMasterReceipt({ ...batchInput, masterReceipt: moved })).reason).toBe(
+      "batch audit path does not lead to the signed Merkle root"
+    );
+
+    expect(await verifier.verifyConsoleArtifact(docs.consoleArtifact, { keyring: docs.keyring })).toMatchObject({ ok: true });
+    const edited = { ...docs.consoleArtifact, outputText: "The Sun raises the tides." };
+    expect((await verifier.verifyConsoleArtifact(edited, { keyring: docs.keyring })).reason).toBe(
+      "outputText does not match the signed receipt response"
+    );
+    const relogged = { ...docs.consoleArtifact, transparency: docs.evidence.transparency };
+    expect((await verifier.verifyConsoleArtifact(relogged, { keyring: docs.keyring })).reason).toContain(
+      "receipt_hash does not match the receipt"
+    );
+  });
+
+  it("runs bundled with Node's globals shadowed", async () => {
+    const output = (await build({
+      configFile: false,
+      logLevel: "silent",
+      build: {
+        write: false,
+        minify: false,
+        lib: { entry: join(process.cwd(), "src/verifier/index.ts"), formats: ["iife"], name: "HaloVerifier" },
+      },
+    })) as Rollup.RollupOutput[];
+    const code = output[0].output[0].code;
+    expect(code).not.toMatch(/\bnode:|\brequire\(|\bBuffer\b|\bprocess\./);
+
+    // Leaves only what browsers and workers provide as well: Web Crypto, TextEncoder, atob.
+    const HaloVerifier = new Function("Buffer", "process", "require", "module", "global", `${code}\nreturn HaloVerifier;`)() as
+      typeof verifier;
+    const docs = await signedDocuments();
+    const results = {
+      canonical: vectors.map((vector) => HaloVerifier.canonicalJson(vector.input) === vector.canonical),
+      hashes: await Promise.all(vectors.map((vector) => HaloVerifier.sha256Hex(vector.canonical))),
+      receipt: await HaloVerifier.verifyHaloReceipt(docs.receipt, { keyring: docs.keyring }),
+      master: await HaloVerifier.verifyMasterReceipt({
+        masterReceipt: docs.master,
+        evidencePack: docs.evidence,
+        signaturePolicy: { threshold: 2, keys: [docs.ops.publicPem, docs.audit.publicPem] },
+      }),
+      console: await HaloVerifier.verifyConsoleArtifact(docs.consoleArtifact, { keyring: docs.keyring }),
+    };
+
+    expect(JSON.parse(JSON.stringify(results))).toMatchObject({
+      canonical: vectors.map(() => true),
+      hashes: vectors.map((vector) => vector.sha256),
+      receipt: { valid: true },
+      master: { ok: true, signatures: { threshold: 2 } },
+      console: { ok: true },
+    });
+  });
+});